@@ -0,0 +1,103 @@
+/**
+ * Score outbox background sync, imported into the Workbox service worker
+ * (see `workbox.importScripts` in vite.config.ts).
+ *
+ * Sends the score submissions queued in IndexedDB by src/utils/scoreOutbox.ts
+ * when the browser regains connectivity, even with the game closed. Entries are
+ * claimed the same way the app claims them, so the two never send one twice,
+ * and carry their submission id so submit-score stores a retried score once.
+ * Rejecting the sync event asks the browser to try again later.
+ */
+
+const SCORE_OUTBOX_DB = "vibing-arkanoid-score-outbox";
+const SCORE_OUTBOX_STORE = "submissions";
+const SCORE_OUTBOX_SYNC_TAG = "score-outbox";
+const SCORE_OUTBOX_CLAIM_MS = 30000;
+
+function openScoreOutbox() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(SCORE_OUTBOX_DB, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SCORE_OUTBOX_STORE, { keyPath: "id", autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function withScoreOutboxStore(db, mode, run) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SCORE_OUTBOX_STORE, mode);
+    let result;
+    run(transaction.objectStore(SCORE_OUTBOX_STORE), (value) => {
+      result = value;
+    });
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function claimScoreOutboxEntry(db, id, now) {
+  return withScoreOutboxStore(db, "readwrite", (store, setResult) => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const entry = request.result;
+      if (!entry || entry.claimedUntil > now) return;
+      // Entries queued before submission ids existed get one for their remaining attempts
+      const body = entry.body.submission_id ? entry.body : { ...entry.body, submission_id: crypto.randomUUID() };
+      const claimed = { ...entry, body, claimedUntil: now + SCORE_OUTBOX_CLAIM_MS };
+      store.put(claimed);
+      setResult(claimed);
+    };
+  });
+}
+
+async function flushScoreOutbox() {
+  const db = await openScoreOutbox();
+  const entries = await withScoreOutboxStore(db, "readonly", (store, setResult) => {
+    const request = store.getAll();
+    request.onsuccess = () => setResult(request.result);
+  });
+
+  let remaining = 0;
+  const now = Date.now();
+  for (const pending of entries) {
+    // Backoff is the app's business; a sync event means the network is back, so try everything
+    const entry = await claimScoreOutboxEntry(db, pending.id, now);
+    if (!entry) continue;
+
+    let status = 0;
+    try {
+      const response = await fetch(entry.endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          apikey: entry.apiKey,
+          Authorization: `Bearer ${entry.apiKey}`,
+        },
+        body: JSON.stringify(entry.body),
+      });
+      status = response.status;
+    } catch {
+      // Still offline
+    }
+
+    const retry = status === 0 || status === 429 || status >= 500;
+    await withScoreOutboxStore(db, "readwrite", (store) => {
+      if (retry) store.put({ ...entry, attempts: entry.attempts + 1, claimedUntil: 0 });
+      else store.delete(entry.id);
+    });
+    if (retry) remaining++;
+  }
+
+  const clients = await self.clients.matchAll({ type: "window" });
+  clients.forEach((client) => client.postMessage({ type: "score-outbox-updated" }));
+
+  if (remaining > 0) throw new Error(`${remaining} score submission(s) still pending`);
+}
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === SCORE_OUTBOX_SYNC_TAG) {
+    event.waitUntil(flushScoreOutbox());
+  }
+});
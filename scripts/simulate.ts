@@ -0,0 +1,111 @@
+/**
+ * Headless level simulator CLI.
+ *
+ * Runs levels through the real physics engine with a scripted paddle AI and
+ * prints bricks cleared, balls lost, time to clear and tunnelling events.
+ *
+ * Build + run (esbuild ships with Vite):
+ *   npx esbuild scripts/simulate.ts --bundle --platform=node --format=esm \
+ *     --outfile=/tmp/simulate.mjs '--define:import.meta.env={"MODE":"production","DEV":false,"PROD":true}'
+ *   node /tmp/simulate.mjs --levels 1-4,6 --runs 3 --seed 42
+ *
+ * Options:
+ *   --levels <list>        Levels to run, e.g. "1-4,6" (default: all brick levels);
+ *                          levels past the campaign use the Endless generator
+ *   --runs <n>             Runs per level, each with a derived seed (default: 1)
+ *   --seed <n>             Base seed (default: random)
+ *   --difficulty <d>       normal | godlike (default: normal)
+ *   --max-seconds <n>      Simulated time limit per run (default: 600)
+ *   --json                 Print the raw reports as JSON
+ *
+ * Exit code is 1 if any run recorded a tunnelling event.
+ */
+
+import { runHeadlessLevel, type HeadlessReport } from "@/engine/headless";
+import { createRunSeed, deriveSeed } from "@/utils/rng";
+import { FINAL_LEVEL } from "@/constants/game";
+import { BOSS_LEVELS } from "@/constants/bossConfig";
+import type { Difficulty } from "@/types/game";
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith("--")) {
+      args[arg.slice(2)] = next;
+      i++;
+    } else {
+      args[arg.slice(2)] = true;
+    }
+  }
+  return args;
+}
+
+function parseLevels(spec: string | true | undefined): number[] {
+  const brickLevels = Array.from({ length: FINAL_LEVEL }, (_, i) => i + 1).filter((l) => !BOSS_LEVELS.includes(l));
+  if (typeof spec !== "string") return brickLevels;
+  const levels: number[] = [];
+  for (const part of spec.split(",")) {
+    const [a, b] = part.split("-").map(Number);
+    for (let l = a; l <= (b || a); l++) {
+      // Generated Endless levels: every 5th one is a boss
+      if (brickLevels.includes(l) || (l > FINAL_LEVEL && l % 5 !== 0)) levels.push(l);
+    }
+  }
+  return levels;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const levels = parseLevels(args.levels);
+const runs = Math.max(1, Number(args.runs) || 1);
+const baseSeed = typeof args.seed === "string" ? Number(args.seed) >>> 0 : createRunSeed();
+const difficulty: Difficulty = args.difficulty === "godlike" ? "godlike" : "normal";
+const maxSimMs = (Number(args["max-seconds"]) || 600) * 1000;
+
+const reports: HeadlessReport[] = [];
+for (const level of levels) {
+  for (let run = 0; run < runs; run++) {
+    reports.push(
+      runHeadlessLevel({
+        level,
+        seed: deriveSeed(baseSeed, level * 1000 + run),
+        difficulty,
+        maxSimMs,
+      }),
+    );
+  }
+}
+
+if (args.json) {
+  console.log(JSON.stringify(reports, null, 2));
+} else {
+  console.log(`Base seed ${baseSeed}, difficulty ${difficulty}, ${runs} run(s) per level\n`);
+  console.log("level  seed        cleared  bricks     lost  time      paddle  tunnel");
+  for (const r of reports) {
+    const time = r.timeToClearMs !== null ? `${(r.timeToClearMs / 1000).toFixed(1)}s` : "-";
+    console.log(
+      [
+        String(r.level).padEnd(6),
+        String(r.seed).padEnd(11),
+        (r.cleared ? "yes" : "no").padEnd(8),
+        `${r.bricksCleared}/${r.destructibleBricks}`.padEnd(10),
+        String(r.ballsLost).padEnd(5),
+        time.padEnd(9),
+        String(r.paddleHits).padEnd(7),
+        String(r.tunnellingEvents.length),
+      ].join(" "),
+    );
+  }
+  for (const r of reports) {
+    for (const t of r.tunnellingEvents) {
+      console.log(
+        `  ! level ${r.level} seed ${r.seed}: ball ${t.ballId} tunnelled through brick ${t.brickId} at ${t.timeMs}ms ` +
+          `(${t.from.x.toFixed(1)},${t.from.y.toFixed(1)}) -> (${t.to.x.toFixed(1)},${t.to.y.toFixed(1)})`,
+      );
+    }
+  }
+}
+
+process.exitCode = reports.some((r) => r.tunnellingEvents.length > 0) ? 1 : 0;
@@ -0,0 +1,180 @@
+import { useRef, useEffect, useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import CRTOverlay from "./CRTOverlay";
+import type { QualityLevel } from "@/hooks/useAdaptiveQuality";
+import { useSwipeGesture } from "@/hooks/useSwipeGesture";
+import { soundManager } from "@/utils/sounds";
+import {
+  accessibility,
+  DEFAULT_ACCESSIBILITY_SETTINGS,
+  type AccessibilitySettings,
+  type BrickPalette,
+  type HitIndicator,
+  type ReducedMotionSetting,
+} from "@/utils/accessibility";
+import { colorBlindPalettes, colorPalettes } from "@/constants/game";
+
+const PALETTE_OPTIONS: { value: BrickPalette; label: string; colors: string[] }[] = [
+  { value: "default", label: "Level Colors", colors: colorPalettes[0] },
+  { value: "okabeIto", label: "Color-Blind Safe A", colors: colorBlindPalettes.okabeIto },
+  { value: "tolBright", label: "Color-Blind Safe B", colors: colorBlindPalettes.tolBright },
+];
+
+const HIT_INDICATOR_OPTIONS: { value: HitIndicator; label: string }[] = [
+  { value: "off", label: "Off" },
+  { value: "number", label: "Numbers" },
+  { value: "pattern", label: "Dots" },
+];
+
+const REDUCED_MOTION_OPTIONS: { value: ReducedMotionSetting; label: string }[] = [
+  { value: "system", label: "System" },
+  { value: "on", label: "On" },
+  { value: "off", label: "Off" },
+];
+
+interface AccessibilityPanelProps {
+  onClose: () => void;
+  quality: QualityLevel;
+  qualitySettings?: { backgroundEffects: boolean };
+}
+
+interface OptionRowProps<T extends string> {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+const OptionRow = <T extends string>({ label, options, value, onChange }: OptionRowProps<T>) => (
+  <div className="border-l-4 border-cyan-500/50 pl-3">
+    <span className="text-sm text-slate-300 font-mono">{label}</span>
+    <div className="flex flex-wrap gap-2 mt-1">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          onMouseEnter={() => soundManager.playMenuHover()}
+          className={`px-3 py-1 rounded font-mono text-xs border transition-colors ${
+            value === option.value
+              ? "border-amber-400 text-amber-400"
+              : "border-cyan-500/40 text-white hover:border-cyan-400"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export const AccessibilityPanel = ({ onClose, quality, qualitySettings = { backgroundEffects: true } }: AccessibilityPanelProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [settings, setSettings] = useState(() => accessibility.getSettings());
+
+  // Swipe gesture for mobile back navigation
+  const isMobileDevice = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ||
+    ("ontouchstart" in window && window.matchMedia("(max-width: 768px)").matches);
+
+  useSwipeGesture(containerRef, onClose, { enabled: isMobileDevice });
+
+  // ESC to close
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const update = (partial: Partial<AccessibilitySettings>) => {
+    soundManager.playMenuClick();
+    setSettings(accessibility.updateSettings(partial));
+  };
+
+  const systemMotion = accessibility.systemPrefersReducedMotion() ? "reduced" : "full";
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 swipe-container animate-fade-in">
+      {qualitySettings.backgroundEffects && <CRTOverlay quality={quality} />}
+      <div className="bg-slate-900/95 rounded-lg border-2 border-cyan-500/30 p-6 max-w-2xl w-full max-h-[80vh] overflow-y-auto animate-scale-in">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-3xl font-bold text-cyan-400 font-mono">ACCESSIBILITY</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors"
+            title="Close"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="border-l-4 border-cyan-500/50 pl-3">
+            <span className="text-sm text-slate-300 font-mono">Brick Colors</span>
+            <div className="space-y-2 mt-1">
+              {PALETTE_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => update({ palette: option.value })}
+                  onMouseEnter={() => soundManager.playMenuHover()}
+                  className={`w-full flex items-center justify-between gap-3 px-3 py-1 rounded font-mono text-xs border transition-colors ${
+                    settings.palette === option.value
+                      ? "border-amber-400 text-amber-400"
+                      : "border-cyan-500/40 text-white hover:border-cyan-400"
+                  }`}
+                >
+                  <span>{option.label}</span>
+                  <span className="flex gap-1">
+                    {option.colors.map((color) => (
+                      <span key={color} className="w-4 h-3 rounded-sm" style={{ backgroundColor: color }} />
+                    ))}
+                  </span>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 font-mono mt-1">Applies from the next level you start.</p>
+          </div>
+
+          <OptionRow
+            label="Hits Remaining on Bricks"
+            options={HIT_INDICATOR_OPTIONS}
+            value={settings.hitIndicator}
+            onChange={(hitIndicator) => update({ hitIndicator })}
+          />
+
+          <div className="flex items-center justify-between border-l-4 border-cyan-500/50 pl-3">
+            <label htmlFor="high-contrast-toggle" className="text-sm text-slate-300 font-mono">
+              High-Contrast Ball &amp; Paddle
+            </label>
+            <Switch
+              id="high-contrast-toggle"
+              checked={settings.highContrast}
+              onCheckedChange={(highContrast) => update({ highContrast })}
+            />
+          </div>
+
+          <OptionRow
+            label="Reduced Motion (no shake, flashes or CRT)"
+            options={REDUCED_MOTION_OPTIONS}
+            value={settings.reducedMotion}
+            onChange={(reducedMotion) => update({ reducedMotion })}
+          />
+          <p className="text-xs text-slate-500 font-mono -mt-2 pl-4">
+            System follows your device setting (currently {systemMotion} motion).
+          </p>
+        </div>
+
+        <Button
+          onClick={() => update({ ...DEFAULT_ACCESSIBILITY_SETTINGS })}
+          onMouseEnter={() => soundManager.playMenuHover()}
+          variant="outline"
+          className="w-full mt-6 border-[hsl(200,70%,50%)] text-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,50%)] hover:text-white"
+        >
+          Reset to Defaults
+        </Button>
+      </div>
+    </div>
+  );
+};
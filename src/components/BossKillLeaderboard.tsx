@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { BOSS_KILL_PAGE_SIZE, useBossKillScores } from "@/hooks/useBossKillScores";
+import { playerProfile } from "@/utils/playerProfile";
+import { formatSplitTime } from "@/engine/bossRushSplits";
+import type { BossRushLevel } from "@/constants/bossRushConfig";
+import { LeaderboardPager } from "./LeaderboardControls";
+
+/**
+ * Fastest kills of one Boss Rush boss, from the splits submitted with Boss Rush scores
+ */
+export const BossKillLeaderboard = ({ bossLevel }: { bossLevel: BossRushLevel }) => {
+  const [page, setPage] = useState(0);
+  const [bestPerPlayer, setBestPerPlayer] = useState(true);
+  const { scores, totalCount, pageCount, isLoading } = useBossKillScores(bossLevel, page, bestPerPlayer);
+  const myPlayerId = playerProfile.getId();
+
+  // Any filter change starts over from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [bossLevel, bestPerPlayer]);
+
+  // Rows deleted since the last page count can leave us past the end
+  useEffect(() => {
+    if (!isLoading && page >= pageCount) setPage(pageCount - 1);
+  }, [isLoading, page, pageCount]);
+
+  return (
+    <>
+      <div className="flex justify-center gap-2 mb-6">
+        <Button
+          onClick={() => setBestPerPlayer((v) => !v)}
+          variant={bestPerPlayer ? 'default' : 'outline'}
+          className="px-3 py-1 text-xs font-bold"
+        >
+          {bestPerPlayer ? '👤 BEST PER PLAYER' : 'EVERY KILL'}
+        </Button>
+      </div>
+
+      <div className="space-y-2 mb-8 max-h-[50vh] overflow-y-auto smooth-scroll custom-scrollbar">
+        {isLoading ? (
+          <div className="text-center text-slate-400 py-12">Loading scores...</div>
+        ) : scores.length === 0 ? (
+          <div className="text-center text-slate-500 py-12">No kills recorded yet! Be the first!</div>
+        ) : (
+          scores.map((entry, index) => {
+            const rank = page * BOSS_KILL_PAGE_SIZE + index + 1;
+            return (
+              <div key={`${entry.scoreId}-${index}`} className={`flex items-center gap-2 sm:gap-3 text-xs sm:text-sm md:text-base px-2 sm:px-3 py-1.5 sm:py-2 rounded-lg border whitespace-nowrap overflow-x-auto ${entry.playerId === myPlayerId ? 'bg-red-900/40 border-amber-400/60' : 'bg-slate-800/60 border-red-500/30'}`}>
+                <span className="text-red-300 font-bold flex-shrink-0 w-6 sm:w-8">
+                  {rank === 1 ? '🥇' : rank === 2 ? '🥈' : rank === 3 ? '🥉' : `${rank}.`}
+                </span>
+
+                <span className="text-orange-400 font-bold flex-1 min-w-0 truncate">{entry.name}</span>
+
+                <span className="text-slate-400 tabular-nums flex-shrink-0" title="Hits taken">
+                  💥{entry.hitsTaken}
+                </span>
+
+                <span className="text-cyan-300 font-bold tabular-nums flex-shrink-0">
+                  ⏱️{formatSplitTime(entry.killMs)}
+                </span>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <LeaderboardPager page={page} pageCount={pageCount} totalCount={totalCount} onPageChange={setPage} />
+    </>
+  );
+};
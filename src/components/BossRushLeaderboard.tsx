@@ -1,48 +1,103 @@
-import { useBossRushScores } from "@/hooks/useBossRushScores";
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { BOSS_RUSH_PAGE_SIZE, useBossRushScores, type BossRushBrowseOptions } from "@/hooks/useBossRushScores";
+import { usePendingScores } from "@/hooks/usePendingScores";
+import { playerProfile } from "@/utils/playerProfile";
+import { PendingScoreRows } from "./PendingScoreRows";
+import { LeaderboardPager, LeaderboardSearch } from "./LeaderboardControls";
 
+type BossRushOrder = NonNullable<BossRushBrowseOptions['orderBy']>;
+
+/**
+ * Boss Rush leaderboard for the High Scores screen: one page at a time, by
+ * score or by time, with name search and a best-per-player view
+ */
 export const BossRushLeaderboard = () => {
-  const { scores, isLoading, formatTime } = useBossRushScores();
+  const [page, setPage] = useState(0);
+  const [search, setSearch] = useState('');
+  const [orderBy, setOrderBy] = useState<BossRushOrder>('score');
+  const [bestPerPlayer, setBestPerPlayer] = useState(false);
+  const { scores, totalCount, pageCount, isLoading, formatTime, refetch } = useBossRushScores({
+    page,
+    search,
+    bestPerPlayer,
+    orderBy,
+  });
+  const myPlayerId = playerProfile.getId();
+  // Queued submissions show as "pending" until the outbox sends them, then the page reloads
+  const pendingScores = usePendingScores(refetch).filter((entry) => entry.body.type === 'boss_rush');
+
+  // Any filter change starts over from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [search, orderBy, bestPerPlayer]);
+
+  // Rows deleted since the last page count can leave us past the end
+  useEffect(() => {
+    if (!isLoading && page >= pageCount) setPage(pageCount - 1);
+  }, [isLoading, page, pageCount]);
+
+  const handleSearch = useCallback((value: string) => setSearch(value), []);
 
   return (
-    <div className="bg-slate-900/80 rounded-lg p-6 border-2 border-red-500/30 w-full max-w-md max-h-[80vh] overflow-y-auto overflow-x-auto smooth-scroll">
-      <h2 className="text-2xl font-bold text-center mb-4 font-mono">
-        <span className="text-transparent bg-clip-text bg-gradient-to-r from-red-400 via-orange-400 to-yellow-400">
-          ⚔️ BOSS RUSH SCORES ⚔️
-        </span>
-      </h2>
-
-      {isLoading ? (
-        <div className="text-center text-slate-400 py-8 font-mono">
-          Loading...
-        </div>
-      ) : (
-        <div className="space-y-2">
-          {scores.map((entry, index) => (
-            <div
-              key={entry.id || index}
-              className="flex items-center font-mono text-sm px-2 py-2 bg-slate-800/50 rounded border border-red-500/20 gap-2"
-            >
-              <span className="text-red-300 w-6 flex-shrink-0">
-                {index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`}
-              </span>
-              <span className="text-orange-400 font-bold w-12 flex-shrink-0 truncate">
-                {entry.name}
-              </span>
-              <span className="text-amber-300 flex-1 text-right font-bold">
-                {entry.score.toLocaleString()}
-              </span>
-              <span className="text-cyan-300 w-16 text-right flex-shrink-0">
-                {formatTime(entry.completionTimeMs)}
-              </span>
-            </div>
-          ))}
-          {scores.length === 0 && (
-            <div className="text-center text-slate-500 py-8 font-mono">
-              No scores yet! Be the first!
-            </div>
-          )}
-        </div>
-      )}
-    </div>
+    <>
+      <div className="flex flex-wrap justify-center items-center gap-2 mb-6">
+        <LeaderboardSearch onSearch={handleSearch} />
+        <Button
+          onClick={() => setOrderBy('score')}
+          variant={orderBy === 'score' ? 'default' : 'outline'}
+          className="px-3 py-1 text-xs font-bold"
+        >
+          BY SCORE
+        </Button>
+        <Button
+          onClick={() => setOrderBy('time')}
+          variant={orderBy === 'time' ? 'default' : 'outline'}
+          className="px-3 py-1 text-xs font-bold"
+          title="Furthest boss reached, then fastest"
+        >
+          ⏱️ BY TIME
+        </Button>
+        <Button
+          onClick={() => setBestPerPlayer((v) => !v)}
+          variant={bestPerPlayer ? 'default' : 'outline'}
+          className="px-3 py-1 text-xs font-bold"
+        >
+          {bestPerPlayer ? '👤 BEST PER PLAYER' : 'EVERY ENTRY'}
+        </Button>
+      </div>
+
+      <div className="space-y-2 mb-8 max-h-[50vh] overflow-y-auto smooth-scroll custom-scrollbar">
+        {page === 0 && <PendingScoreRows entries={pendingScores} formatTime={formatTime} />}
+        {isLoading ? (
+          <div className="text-center text-slate-400 py-12">Loading scores...</div>
+        ) : scores.length === 0 ? (
+          <div className="text-center text-slate-500 py-12">{search ? `No scores for "${search}"` : 'No scores yet! Be the first!'}</div>
+        ) : (
+          scores.map((entry, index) => {
+            const rank = page * BOSS_RUSH_PAGE_SIZE + index + 1;
+            return (
+              <div key={entry.id || index} className={`flex items-center gap-2 sm:gap-3 text-xs sm:text-sm md:text-base px-2 sm:px-3 py-1.5 sm:py-2 rounded-lg border whitespace-nowrap overflow-x-auto ${entry.playerId === myPlayerId ? 'bg-red-900/40 border-amber-400/60' : 'bg-slate-800/60 border-red-500/30'}`}>
+                <span className="text-red-300 font-bold flex-shrink-0 w-6 sm:w-8">
+                  {rank === 1 ? '🥇' : rank === 2 ? '🥈' : rank === 3 ? '🥉' : `${rank}.`}
+                </span>
+
+                <span className="text-orange-400 font-bold flex-shrink-0 w-10 sm:w-14">{entry.name}</span>
+
+                <span className="text-amber-300 font-bold tabular-nums flex-1 text-right">
+                  {entry.score}
+                </span>
+
+                <span className="text-cyan-300 tabular-nums flex-shrink-0">
+                  ⏱️{formatTime(entry.completionTimeMs)}
+                </span>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <LeaderboardPager page={page} pageCount={pageCount} totalCount={totalCount} onPageChange={setPage} />
+    </>
   );
 };
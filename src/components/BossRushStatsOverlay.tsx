@@ -1,5 +1,12 @@
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useMemo } from "react";
 import { BOSS_RUSH_CONFIG } from "@/constants/bossRushConfig";
+import {
+  compareSplit,
+  formatSplitDelta,
+  formatSplitTime,
+  loadBossRushRecords,
+  type BossRushSplit,
+} from "@/engine/bossRushSplits";
 
 interface BossRushStatsOverlayProps {
   active: boolean;
@@ -20,6 +27,9 @@ interface BossRushStatsOverlayProps {
   totalAccuracy: number; // 0-100%
   livesRemaining: number;
 
+  // Splits so far this rush (last one = the boss just beaten)
+  splits: BossRushSplit[];
+
   onContinue: () => void;
 }
 
@@ -81,10 +91,13 @@ export const BossRushStatsOverlay = ({
   totalEnemiesKilled,
   totalAccuracy,
   livesRemaining,
+  splits,
   onContinue,
 }: BossRushStatsOverlayProps) => {
   const [showStats, setShowStats] = useState(false);
   const [canContinue, setCanContinue] = useState(false);
+  // Personal best and best kills, as saved before this rush (updated when it ends)
+  const records = useMemo(() => (active ? loadBossRushRecords() : null), [active]);
 
   // Animated counters for "this boss" stats
   const animatedLivesLost = useAnimatedCounter(showStats ? livesLostThisBoss : 0, 800, 200);
@@ -198,6 +211,35 @@ export const BossRushStatsOverlay = ({
           </span>
         </div>
 
+        {/* Splits vs personal best */}
+        {records && splits.length > 0 && (
+          <div className="mb-6">
+            <div
+              className="grid grid-cols-[1fr_auto_auto_auto_auto] gap-x-3 md:gap-x-4 gap-y-1 items-center retro-pixel-text text-[10px] md:text-xs"
+              style={{ color: "hsl(0, 0%, 70%)" }}
+            >
+              <span>BOSS</span>
+              <span className="text-right">SPLIT</span>
+              <span className="text-right">PB</span>
+              <span className="text-right">KILL</span>
+              <span className="text-right">HITS</span>
+              {splits.map((split, index) => {
+                const { deltaMs, bestKill } = compareSplit(split, records);
+                return (
+                  <SplitRow
+                    key={split.bossLevel}
+                    name={BOSS_RUSH_CONFIG.bossNames[split.bossLevel]}
+                    split={split}
+                    deltaMs={deltaMs}
+                    bestKill={bestKill}
+                    highlight={index === splits.length - 1}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Two-column stats layout */}
         <div className="grid grid-cols-2 gap-4 md:gap-8 mb-6">
           {/* This Boss column */}
@@ -285,3 +327,38 @@ const StatRow = ({ label, value, color }: { label: string; value: number | strin
     </span>
   </div>
 );
+
+// Helper component for one split: time, +/- against the personal best, kill time (gold = fastest yet), hits taken
+const SplitRow = ({
+  name,
+  split,
+  deltaMs,
+  bestKill,
+  highlight,
+}: {
+  name: string;
+  split: BossRushSplit;
+  deltaMs: number | null;
+  bestKill: boolean;
+  highlight: boolean;
+}) => {
+  const rowColor = highlight ? "hsl(0, 0%, 95%)" : "hsl(0, 0%, 70%)";
+  const deltaColor = deltaMs === null ? "hsl(0, 0%, 50%)" : deltaMs <= 0 ? "hsl(120, 60%, 55%)" : "hsl(0, 70%, 60%)";
+  return (
+    <>
+      <span className="truncate" style={{ color: rowColor }}>{name}</span>
+      <span className="text-right tabular-nums" style={{ color: rowColor }}>{formatSplitTime(split.splitMs)}</span>
+      <span className="text-right tabular-nums" style={{ color: deltaColor }}>
+        {deltaMs === null ? "—" : formatSplitDelta(deltaMs)}
+      </span>
+      <span
+        className="text-right tabular-nums"
+        style={{ color: bestKill ? "hsl(48, 100%, 60%)" : rowColor }}
+        title={bestKill ? "Fastest kill of this boss yet" : undefined}
+      >
+        {formatSplitTime(split.killMs)}
+      </span>
+      <span className="text-right tabular-nums" style={{ color: rowColor }}>{split.hitsTaken}</span>
+    </>
+  );
+};
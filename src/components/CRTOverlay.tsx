@@ -1,5 +1,6 @@
 import type { QualityLevel } from "@/hooks/useAdaptiveQuality";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { accessibility } from "@/utils/accessibility";
 
 interface CRTOverlayProps {
   quality: QualityLevel;
@@ -9,7 +10,8 @@ const CRTOverlay = ({ quality }: CRTOverlayProps) => {
   const isMobile = useIsMobile();
   
   // Disable CRT on mobile devices AND on LOW quality (eliminates compositor overhead)
-  if (isMobile || quality === 'low') {
+  // and when the player asks for reduced motion (flickering scanlines)
+  if (isMobile || quality === 'low' || accessibility.isReducedMotion()) {
     return null;
   }
   
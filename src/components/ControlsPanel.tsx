@@ -0,0 +1,187 @@
+import { useRef, useEffect, useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import CRTOverlay from "./CRTOverlay";
+import type { QualityLevel } from "@/hooks/useAdaptiveQuality";
+import { useSwipeGesture } from "@/hooks/useSwipeGesture";
+import { soundManager } from "@/utils/sounds";
+import {
+  keyBindings,
+  formatKey,
+  KEY_ACTIONS,
+  KEY_ACTION_IDS,
+  MAX_BINDINGS_PER_ACTION,
+  type KeyAction,
+} from "@/utils/keyBindings";
+
+interface ControlsPanelProps {
+  onClose: () => void;
+  quality: QualityLevel;
+  qualitySettings?: { backgroundEffects: boolean };
+}
+
+interface PendingConflict {
+  action: KeyAction;
+  slot: number;
+  key: string;
+  conflictsWith: KeyAction;
+}
+
+export const ControlsPanel = ({ onClose, quality, qualitySettings = { backgroundEffects: true } }: ControlsPanelProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [bindings, setBindings] = useState(() => keyBindings.getBindings());
+  const [listening, setListening] = useState<{ action: KeyAction; slot: number } | null>(null);
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Swipe gesture for mobile back navigation
+  const isMobileDevice = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ||
+    ("ontouchstart" in window && window.matchMedia("(max-width: 768px)").matches);
+
+  useSwipeGesture(containerRef, onClose, { enabled: isMobileDevice && !listening });
+
+  const bindKey = (action: KeyAction, slot: number, key: string) => {
+    const result = keyBindings.bind(action, slot, key);
+    if (result.status === "bound") {
+      setMessage(null);
+      soundManager.playMenuClick();
+    } else if (result.status === "conflict") {
+      setConflict({ action, slot, key, conflictsWith: result.action });
+    } else {
+      setMessage(`${formatKey(key)} can't be bound`);
+    }
+    setBindings(keyBindings.getBindings());
+  };
+
+  // Key capture (while listening) and ESC to close
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (listening) {
+        // Capture phase + stopImmediatePropagation: the key must not also close menus
+        e.preventDefault();
+        e.stopImmediatePropagation();
+        setListening(null);
+        bindKey(listening.action, listening.slot, e.key);
+      } else if (e.key === "Escape" && !conflict) {
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [listening, conflict, onClose]);
+
+  const resolveConflict = (replace: boolean) => {
+    if (conflict && replace) {
+      keyBindings.unbind(conflict.conflictsWith, conflict.key);
+      bindKey(conflict.action, conflict.slot, conflict.key);
+    }
+    setConflict(null);
+    setBindings(keyBindings.getBindings());
+  };
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 swipe-container animate-fade-in">
+      {qualitySettings.backgroundEffects && <CRTOverlay quality={quality} />}
+      <div className="bg-slate-900/95 rounded-lg border-2 border-cyan-500/30 p-6 max-w-2xl w-full max-h-[80vh] overflow-y-auto animate-scale-in">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-3xl font-bold text-cyan-400 font-mono">CONTROLS</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors"
+            title="Close"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <p className="text-xs text-slate-400 font-mono mb-4">
+          Click a slot, then press the key to bind it. Mouse, touch and gamepad controls are not affected.
+        </p>
+
+        <div className="space-y-2">
+          {KEY_ACTION_IDS.map((action) => (
+            <div key={action} className="flex items-center justify-between gap-2 border-l-4 border-cyan-500/50 pl-3">
+              <span className="text-sm text-slate-300 font-mono">{KEY_ACTIONS[action].label}</span>
+              <div className="flex gap-2">
+                {Array.from({ length: MAX_BINDINGS_PER_ACTION }, (_, slot) => {
+                  const key = bindings[action][slot];
+                  const isListening = listening?.action === action && listening.slot === slot;
+                  return (
+                    <div key={slot} className="flex items-center">
+                      <button
+                        onClick={() => {
+                          soundManager.playMenuClick();
+                          setMessage(null);
+                          setListening(isListening ? null : { action, slot });
+                        }}
+                        onMouseEnter={() => soundManager.playMenuHover()}
+                        className={`w-24 px-2 py-1 rounded font-mono text-xs border transition-colors ${
+                          isListening
+                            ? "border-amber-400 text-amber-400 animate-pulse"
+                            : "border-cyan-500/40 text-white hover:border-cyan-400"
+                        }`}
+                      >
+                        {isListening ? "Press key…" : key ? formatKey(key) : "—"}
+                      </button>
+                      {key && !isListening && (
+                        <button
+                          onClick={() => {
+                            keyBindings.unbind(action, key);
+                            setBindings(keyBindings.getBindings());
+                          }}
+                          className="ml-1 text-slate-500 hover:text-red-400 transition-colors"
+                          title="Clear binding"
+                        >
+                          <X size={14} />
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {conflict && (
+          <div className="mt-4 p-3 rounded border-2 border-amber-400/60 bg-amber-400/10 text-sm font-mono text-amber-200">
+            <p>
+              {formatKey(conflict.key)} is already bound to {KEY_ACTIONS[conflict.conflictsWith].label}.
+            </p>
+            <div className="flex gap-2 mt-2">
+              <Button
+                onClick={() => resolveConflict(true)}
+                className="flex-1 bg-amber-600 hover:bg-amber-700 text-white text-xs"
+              >
+                Replace
+              </Button>
+              <Button
+                onClick={() => resolveConflict(false)}
+                variant="outline"
+                className="flex-1 border-slate-500 text-slate-300 text-xs"
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+        {message && <p className="mt-4 text-sm font-mono text-red-400">{message}</p>}
+
+        <Button
+          onClick={() => {
+            soundManager.playMenuClick();
+            keyBindings.resetToDefaults();
+            setBindings(keyBindings.getBindings());
+            setConflict(null);
+            setMessage(null);
+          }}
+          onMouseEnter={() => soundManager.playMenuHover()}
+          variant="outline"
+          className="w-full mt-6 border-[hsl(200,70%,50%)] text-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,50%)] hover:text-white"
+        >
+          Reset to Defaults
+        </Button>
+      </div>
+    </div>
+  );
+};
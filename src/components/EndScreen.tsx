@@ -21,6 +21,7 @@ interface EndScreenProps {
   onContinue: () => void;
   onReturnToMenu: () => void;
   onRetryLevel?: () => void;
+  onWatchReplay?: () => void;
   stats?: GameStats;
 }
 
@@ -66,7 +67,7 @@ const formatTime = (seconds: number): string => {
   return `${mins} ${minText} ${secs} ${secText}`;
 };
 
-export const EndScreen = ({ onContinue, onReturnToMenu, onRetryLevel, stats }: EndScreenProps) => {
+export const EndScreen = ({ onContinue, onReturnToMenu, onRetryLevel, onWatchReplay, stats }: EndScreenProps) => {
   // Animate each counter with different speeds and delays
   const animatedScore = useAnimatedCounter(stats?.finalScore ?? 0, 2000, 0);
   const animatedLevel = useAnimatedCounter(stats?.finalLevel ?? 1, 800, 100);
@@ -160,6 +161,15 @@ export const EndScreen = ({ onContinue, onReturnToMenu, onRetryLevel, stats }: E
             </Button>
           )}
           
+          {onWatchReplay && (
+            <Button 
+              onClick={onWatchReplay}
+              className="w-full text-base md:text-xl py-3 md:py-6 bg-purple-600 hover:bg-purple-700 text-white font-bold"
+            >
+              WATCH REPLAY
+            </Button>
+          )}
+          
           <Button 
             onClick={onContinue}
             className="w-full text-base md:text-xl py-3 md:py-6 bg-cyan-600 hover:bg-cyan-700 text-white font-bold"
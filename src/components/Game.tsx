@@ -7,6 +7,7 @@ import { HighScoreTable } from "./HighScoreTable";
 import { HighScoreEntry } from "./HighScoreEntry";
 import { HighScoreDisplay } from "./HighScoreDisplay";
 import { EndScreen } from "./EndScreen";
+import { ReplayViewer } from "./ReplayViewer";
 import { GetReadyOverlay } from "./GetReadyOverlay";
 import { BossVictoryOverlay } from "./BossVictoryOverlay";
 import { BossRushVictoryOverlay } from "./BossRushVictoryOverlay";
@@ -18,6 +19,7 @@ import { debugToast as toast } from "@/utils/debugToast";
 import { useServiceWorkerUpdate } from "@/hooks/useServiceWorkerUpdate";
 import { useSwipeGesture } from "@/hooks/useSwipeGesture";
 import { MobileGameControls } from "./MobileGameControls";
+import { MusicSettings } from "./MusicSettings";
 import { useScaledConstants } from "@/hooks/useScaledConstants";
 import { useViewportFrame } from "@/hooks/useViewportFrame";
 import { useCanvasResize } from "@/hooks/useCanvasResize";
@@ -45,6 +47,31 @@ import { PoolStatsOverlay } from "./PoolStatsOverlay";
 import { CCDPerformanceTracker } from "@/utils/rollingStats";
 import { debugLogger } from "@/utils/debugLogger";
 import { particlePool } from "@/utils/particlePool";
+import { gameRng, cosmeticRng, seedRun } from "@/utils/rng";
+import { replayRecorder } from "@/engine/replay";
+import { createRunSummary } from "@/engine/runSummary";
+import { buildLevelBricks, getLevelSpeedMultiplier } from "@/engine/level";
+import { generateLevelLayout } from "@/engine/levelGenerator";
+import { setActiveDailyChallenge, applyDailyBrickMutator, getDailySpeedMultiplier } from "@/engine/dailyChallenge";
+import { setActiveAssists, isAssistedRun, getLifeCost } from "@/engine/assists";
+import { applyPracticePowerUps, createPracticeBossState } from "@/engine/practice";
+import { recordRun } from "@/engine/runHistory";
+import { createBossRushSplit, recordBossRushSplits, toSplitSubmissions, type BossRushSplit } from "@/engine/bossRushSplits";
+import {
+  setActiveLevelPack,
+  setEndlessCampaign,
+  isEndlessCampaign,
+  isGeneratedLevel,
+  getActiveLevelPack,
+  getActivePackLevel,
+  getBossLevelFor,
+  getFinalLevel,
+  getHitOverrideGrid,
+  getPowerUpGrid,
+  levelHasBoss,
+  levelHasMegaBoss,
+  rowsToLayout,
+} from "@/engine/levelPack";
 
 import { telemetryCollector, ENABLE_TELEMETRY } from "@/utils/telemetry";
 // ═══════════════════════════════════════════════════════════════
@@ -68,15 +95,17 @@ import type {
   ShieldImpact,
   PowerUp,
   PowerUpType,
+  PlaytestSummary,
 } from "@/types/game";
 import { useHighScores } from "@/hooks/useHighScores";
+import { submitDailyScore } from "@/hooks/useDailyScores";
+import { scoreOutbox } from "@/utils/scoreOutbox";
 import {
   CANVAS_WIDTH,
   CANVAS_HEIGHT,
   PADDLE_WIDTH,
   PADDLE_HEIGHT,
   BALL_RADIUS,
-  BRICK_ROWS,
   BRICK_COLS,
   BRICK_WIDTH,
   BRICK_HEIGHT,
@@ -84,12 +113,9 @@ import {
   BRICK_OFFSET_TOP,
   BRICK_OFFSET_LEFT,
   
-  POWERUP_DROP_CHANCE,
   getHitColor,
-  getBrickColors,
   POWERUP_SIZE,
   POWERUP_FALL_SPEED,
-  FINAL_LEVEL,
   FIREBALL_DURATION,
   ENABLE_DEBUG_FEATURES,
   PHYSICS_CONFIG,
@@ -97,17 +123,31 @@ import {
 } from "@/constants/game";
 import { useTutorial } from "@/hooks/useTutorial";
 import { TutorialOverlay } from "./TutorialOverlay";
-import { levelLayouts, getBrickHits } from "@/constants/levelLayouts";
+import { levelLayouts } from "@/constants/levelLayouts";
 import { usePowerUps } from "@/hooks/usePowerUps";
 import { useBullets } from "@/hooks/useBullets";
 import { useAdaptiveQuality } from "@/hooks/useAdaptiveQuality";
 import { useLevelProgress } from "@/hooks/useLevelProgress";
 import { soundManager } from "@/utils/sounds";
 import { FixedStepGameLoop } from "@/utils/gameLoop";
+import {
+  gamepadInput,
+  GAMEPAD_SETTING_KEYS,
+  GAMEPAD_SETTING_RANGES,
+  type GamepadFrame,
+  type GamepadSettings,
+} from "@/utils/gamepadInput";
+import { GamepadSettingsPanel } from "./GamepadSettingsPanel";
+import { touchControls, TOUCH_SETTING_RANGES, type TouchControlSettings, type TouchScheme } from "@/utils/touchControls";
+import { TouchControlsPanel } from "./TouchControlsPanel";
+import { haptics, type HapticIntensity } from "@/utils/haptics";
+import { accessibility } from "@/utils/accessibility";
+import { HapticsPanel } from "./HapticsPanel";
+import { keyBindings } from "@/utils/keyBindings";
 import { DEFAULT_TIME_SCALE, MIN_TIME_SCALE, MAX_TIME_SCALE, FPS_CAP, MAX_DELTA_MS } from "@/constants/gameLoopConfig";
 import { createBoss, createResurrectedPyramid } from "@/utils/bossUtils";
 import { performBossAttack } from "@/utils/bossAttacks";
-import { BOSS_LEVELS, BOSS_CONFIG, ATTACK_PATTERNS } from "@/constants/bossConfig";
+import { BOSS_CONFIG, ATTACK_PATTERNS } from "@/constants/bossConfig";
 import { processBallWithCCD } from "@/utils/gameCCD";
 import { runPhysicsFrame, BALL_GRAVITY, GRAVITY_DELAY_MS } from "@/engine/physics";
 import { brickSpatialHash } from "@/utils/spatialHash";
@@ -152,8 +192,9 @@ import {
 interface GameProps {
   settings: GameSettings;
   onReturnToMenu: () => void;
+  onPlaytestEnd?: (summary: PlaytestSummary) => void; // Level Editor playtest / Practice run: report back instead of end screens
 }
-export const Game = ({ settings, onReturnToMenu }: GameProps) => {
+export const Game = ({ settings, onReturnToMenu, onPlaytestEnd }: GameProps) => {
   // Import debug flag from shared constants
   // To enable/disable debug features, edit ENABLE_DEBUG_FEATURES in src/constants/game.ts
 
@@ -166,7 +207,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     scaleFactor,
     canvasWidth: SCALED_CANVAS_WIDTH,
     canvasHeight: SCALED_CANVAS_HEIGHT,
-    paddleWidth: SCALED_PADDLE_WIDTH,
+    paddleWidth: BASE_PADDLE_WIDTH,
     paddleHeight: SCALED_PADDLE_HEIGHT,
     paddleStartY: SCALED_PADDLE_START_Y,
     ballRadius: SCALED_BALL_RADIUS,
@@ -176,18 +217,30 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     brickOffsetTop: SCALED_BRICK_OFFSET_TOP,
     brickOffsetLeft: SCALED_BRICK_OFFSET_LEFT,
   } = useScaledConstants();
+  // Wider-paddle assist: every reset back to the normal width uses the assisted width
+  const SCALED_PADDLE_WIDTH = BASE_PADDLE_WIDTH * (1 + (settings.assists?.paddleWidthBonus ?? 0));
+  const isAssisted = isAssistedRun(settings.assists);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [score, setScoreRaw] = useState(0);
   const scoreRef = useRef(0);
-  // Wrap setScore to always keep scoreRef in sync
+  // Wrap setScore to always keep scoreRef (and world.score for the replay recorder) in sync
   const setScore = useCallback((updater: number | ((prev: number) => number)) => {
     setScoreRaw((prev) => {
       const newVal = typeof updater === 'function' ? updater(prev) : updater;
       scoreRef.current = newVal;
+      world.score = newVal;
+      return newVal;
+    });
+  }, []);
+  const [lives, setLivesRaw] = useState(settings.startingLives);
+  // Wrap setLives to keep world.lives in sync for the replay recorder
+  const setLives = useCallback((updater: number | ((prev: number) => number)) => {
+    setLivesRaw((prev) => {
+      const newVal = typeof updater === 'function' ? updater(prev) : updater;
+      world.lives = newVal;
       return newVal;
     });
   }, []);
-  const [lives, setLives] = useState(settings.startingLives);
   const [level, setLevel] = useState(settings.startingLevel);
 
   // Boss Rush mode state
@@ -203,6 +256,8 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
   const [bossRushStatsOverlayActive, setBossRushStatsOverlayActive] = useState(false);
   const statsOverlayJustClosedRef = useRef(0);
   const [bossRushTimeSnapshot, setBossRushTimeSnapshot] = useState<number | null>(null);
+  // One split per boss beaten (engine/bossRushSplits.ts)
+  const [bossRushSplits, setBossRushSplits] = useState<BossRushSplit[]>([]);
   // Per-boss stats (reset between bosses)
   const [bossRushLivesLostThisBoss, setBossRushLivesLostThisBoss] = useState(0);
   const [bossRushPowerUpsThisBoss, setBossRushPowerUpsThisBoss] = useState(0);
@@ -231,6 +286,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     // Overlay state
     setBossRushStatsOverlayActive(false);
     setBossRushTimeSnapshot(null);
+    setBossRushSplits([]);
     // Per-boss stats
     setBossRushLivesLostThisBoss(0);
     setBossRushPowerUpsThisBoss(0);
@@ -292,20 +348,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
         return BOSS_RUSH_CONFIG.speedMultipliers[bossLevel];
       }
 
-      // 105% base for normal, 137.5% for godlike
-      const baseMultiplier = difficulty === "godlike" ? 1.375 : 1.05;
-      // Level-based caps (before brick hit bonuses): 155% godlike, 140% normal
-      const maxSpeedMultiplier = difficulty === "godlike" ? 1.55 : 1.4;
-
-      let speedMult: number;
-      if (difficulty === "godlike") {
-        // Godlike: always +5% per level
-        speedMult = baseMultiplier + (levelNum - 1) * 0.05;
-      } else {
-        // Normal: always +3% per level
-        speedMult = baseMultiplier + (levelNum - 1) * 0.03;
-      }
-      return Math.min(maxSpeedMultiplier, speedMult);
+      return getLevelSpeedMultiplier(levelNum, difficulty) * getDailySpeedMultiplier();
     },
     [],
   );
@@ -343,6 +386,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
   const [showHighScoreEntry, setShowHighScoreEntry] = useState(false);
   const [showHighScoreDisplay, setShowHighScoreDisplay] = useState(false);
   const [showEndScreen, setShowEndScreen] = useState(false);
+  const [showReplayViewer, setShowReplayViewer] = useState(false);
   const [qualifiedLeaderboards, setQualifiedLeaderboards] = useState<{
     daily: boolean;
     weekly: boolean;
@@ -564,6 +608,15 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
   // ═══ Fullscreen and Layout State ═══
   const [showFullscreenPrompt, setShowFullscreenPrompt] = useState(false);
   const [isPointerLocked, setIsPointerLocked] = useState(false);
+
+  // ═══ Gamepad State ═══
+  const [gamepadConnected, setGamepadConnected] = useState(() => gamepadInput.isConnected());
+  const [gamepadSettings, setGamepadSettings] = useState<GamepadSettings>(() => gamepadInput.getSettings());
+  const [pauseMenuFocus, setPauseMenuFocus] = useState(0); // Controller-focused pause menu item
+
+  // ═══ Touch Control Scheme ═══
+  const [touchSettings, setTouchSettings] = useState<TouchControlSettings>(() => touchControls.getSettings());
+  const [hapticIntensity, setHapticIntensity] = useState<HapticIntensity>(() => haptics.getIntensity());
   const [headerVisible, setHeaderVisible] = useState(true);
   const [framesVisible, setFramesVisible] = useState(true);
   const [titleVisible, setTitleVisible] = useState(true);
@@ -1096,6 +1149,15 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
   const timerIntervalRef = useRef<NodeJS.Timeout>();
   const totalPlayTimeIntervalRef = useRef<NodeJS.Timeout>();
   const totalPlayTimeStartedRef = useRef(false);
+
+  // Level Editor playtest tracking (see finishPlaytest)
+  const playtestTouchedBricksRef = useRef<Set<number>>(new Set());
+  const playtestBallsLostRef = useRef(0);
+  const playtestElapsedMsRef = useRef(0);
+  // Run history tracking (recorded once per run, see engine/runHistory.ts)
+  const runLivesLostRef = useRef(0);
+  const runPowerUpsCollectedRef = useRef(0);
+  const runRecordedRef = useRef(false);
   const bombIntervalsRef = useRef<Map<number, NodeJS.Timeout>>(new Map());
   const launchAngleIntervalRef = useRef<NodeJS.Timeout>();
   const fullscreenContainerRef = useRef<HTMLDivElement>(null);
@@ -1114,11 +1176,11 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     if (!gameLoopRef.current) {
       gameLoopRef.current = new FixedStepGameLoop({
         maxDeltaMs: MAX_DELTA_MS,
-        timeScale: DEFAULT_TIME_SCALE,
+        timeScale: settings.assists?.gameSpeed ?? DEFAULT_TIME_SCALE,
         fpsCapMs: 1000 / FPS_CAP,
       });
     }
-  }, []);
+  }, [settings.assists?.gameSpeed]);
 
   // Initialize debug logger when debug features are enabled
   // Only intercept console when at least one logging toggle is active
@@ -1146,6 +1208,11 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
         gameLoopRef.current.stop();
       }
 
+      // Back to the built-in campaign
+      setActiveLevelPack(null);
+      setEndlessCampaign(false);
+      setActiveDailyChallenge(null);
+
       // Clear named timeout refs
       if (bossStunnerTimeoutRef.current) {
         clearTimeout(bossStunnerTimeoutRef.current);
@@ -1361,7 +1428,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     [],
   );
 
-  const { isHighScore, addHighScore, getQualifiedLeaderboards } = useHighScores();
+  const { isHighScore, addHighScore, getQualifiedLeaderboards } = useHighScores("all-time", "all", isAssisted);
   const { powerUps, createPowerUp, updatePowerUps, checkPowerUpCollision, setPowerUps, extraLifeUsedLevels } =
     usePowerUps(
       level,
@@ -1371,6 +1438,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       setBrickHitSpeedAccumulated,
       (type: string) => {
         setPowerUpsCollectedTypes((prev) => new Set(prev).add(type));
+        runPowerUpsCollectedRef.current++;
 
         // Track Boss Rush power-up collection
         if (isBossRush) {
@@ -1611,6 +1679,8 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     renderState.collectedLetters = collectedLetters;
     // powerUps now live in world.powerUps — no renderState bridge needed (race condition fix)
     renderState.qualitySettings = qualitySettings;
+    renderState.accessibility = accessibility.getRenderOptions();
+    renderState.trajectoryPreview = settings.assists?.trajectoryPreview ?? false;
     renderState.showHighScoreEntry = showHighScoreEntry;
     renderState.bossIntroActive = bossIntroActive;
     renderState.bossSpawnAnimation = bossSpawnAnimation;
@@ -1628,6 +1698,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     qualitySettings, showHighScoreEntry, bossIntroActive,
     bossSpawnAnimation, tutorialStep, isMobileDevice,
     getReadyGlow, secondChanceImpact, ballReleaseHighlight,
+    settings.assists?.trajectoryPreview,
   ]);
 
   // Desktop viewport frame - fills entire screen on desktop
@@ -1666,11 +1737,46 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
   // ═══ SHARED LIFE-LOSS & BOSS DEFEAT HELPERS ═══
   // Extracted from 5+ duplicate blocks to fix bugs and reduce code.
 
+  /** Playtest end (cleared, game over or quit): hand the summary back to the Level Editor / Practice menu. */
+  const finishPlaytest = useCallback(
+    (cleared: boolean) => {
+      if (!onPlaytestEnd) return;
+      soundManager.stopBossMusic();
+      soundManager.stopBackgroundMusic();
+      gameLoopRef.current?.stop();
+      const touched = playtestTouchedBricksRef.current;
+      onPlaytestEnd({
+        cleared,
+        timeMs: Math.round(playtestElapsedMsRef.current),
+        ballsLost: playtestBallsLostRef.current,
+        score: scoreRef.current,
+        untouchedCells: world.bricks
+          .filter((b) => b.row !== undefined && b.col !== undefined && !touched.has(b.id))
+          .map((b) => ({ row: b.row!, col: b.col! })),
+      });
+    },
+    [onPlaytestEnd],
+  );
+
+  /** Main-menu exit; playtests return to the editor with a summary instead. */
+  const quitToMenu = useCallback(() => {
+    if (onPlaytestEnd) {
+      finishPlaytest(false);
+    } else {
+      onReturnToMenu();
+    }
+  }, [onPlaytestEnd, finishPlaytest, onReturnToMenu]);
+
   /** Game-over branch: stops music, checks high scores, shows appropriate screen. */
   const handleGameOver = useCallback(() => {
     setGameState("gameOver");
     soundManager.stopBossMusic();
     soundManager.stopBackgroundMusic();
+
+    if (onPlaytestEnd) {
+      finishPlaytest(false);
+      return;
+    }
     setBossAttacks([]);
     setLaserWarnings([]);
 
@@ -1682,10 +1788,23 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       setShowBossRushScoreEntry(true);
       soundManager.playHighScoreMusic();
       toast.error("Boss Rush Over!");
+    } else if (settings.daily) {
+      // Daily Challenge: every run may go on the day's board (one entry per player, enforced server-side)
+      if (!levelSkipped && scoreRef.current > 0) {
+        setQualifiedLeaderboards(null);
+        setShowHighScoreEntry(true);
+        soundManager.playHighScoreMusic();
+        toast.error("Game Over - Submit your Daily Challenge score!");
+      } else {
+        setShowEndScreen(true);
+        toast.error("Game Over!");
+      }
     } else {
       const currentScore = scoreRef.current;
       getQualifiedLeaderboards(currentScore).then((qualification) => {
-        if (!levelSkipped && (qualification.daily || qualification.weekly || qualification.allTime)) {
+        // Custom level pack runs never go on the leaderboards
+        const eligible = !levelSkipped && !getActiveLevelPack();
+        if (eligible && (qualification.daily || qualification.weekly || qualification.allTime)) {
           setQualifiedLeaderboards(qualification);
           setShowHighScoreEntry(true);
           soundManager.playHighScoreMusic();
@@ -1696,7 +1815,42 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
         }
       });
     }
-  }, [isBossRush, bossRushIndex, bossRushStartTime, levelSkipped, getQualifiedLeaderboards]);
+  }, [isBossRush, bossRushIndex, bossRushStartTime, levelSkipped, settings.daily, getQualifiedLeaderboards, onPlaytestEnd, finishPlaytest]);
+
+  // ═══ Run history: record each finished run once (game over, victory, Boss Rush cleared) ═══
+  useEffect(() => {
+    const finished = gameState === "gameOver" || gameState === "won" || showBossRushVictory;
+    if (!finished || onPlaytestEnd || runRecordedRef.current) return;
+    runRecordedRef.current = true;
+    recordRun({
+      gameMode: settings.gameMode,
+      difficulty: settings.difficulty,
+      startingLevel: settings.startingLevel,
+      score: scoreRef.current,
+      level,
+      durationSeconds: totalPlayTime,
+      livesLost: runLivesLostRef.current,
+      powerUpsCollected: runPowerUpsCollectedRef.current,
+      bossesBeaten: bossesKilled,
+      qumranComplete: collectedLetters.size === 6,
+      victory: gameState === "won" || showBossRushVictory,
+      assisted: isAssisted,
+      customPack: !!settings.levelPack,
+    });
+    if (isBossRush && recordBossRushSplits(bossRushSplits)) {
+      toast.success("🏁 NEW BOSS RUSH PERSONAL BEST!");
+    }
+  }, [gameState, showBossRushVictory, onPlaytestEnd, settings, level, totalPlayTime, bossesKilled, collectedLetters, isAssisted, isBossRush, bossRushSplits]);
+
+  // ═══ Boss Rush splits: taken when a boss goes down (its stats overlay opens with the clock frozen) ═══
+  useEffect(() => {
+    if (!isBossRush || !bossRushStatsOverlayActive || bossRushTimeSnapshot === null) return;
+    setBossRushSplits((prev) => {
+      if (prev.length !== bossRushIndex) return prev; // Already taken for this boss
+      const split = createBossRushSplit(prev, bossRushTimeSnapshot, runLivesLostRef.current);
+      return split ? [...prev, split] : prev;
+    });
+  }, [isBossRush, bossRushStatsOverlayActive, bossRushTimeSnapshot, bossRushIndex]);
 
   /**
    * Survive-death branch: resets ball (with proper angle math), clears all power-up
@@ -1734,7 +1888,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
           mercyType = "life";
         } else {
           const mercyTypes: PowerUpType[] = ["turrets", "secondChance", "shield"];
-          mercyType = mercyTypes[Math.floor(Math.random() * mercyTypes.length)];
+          mercyType = gameRng.pick(mercyTypes);
         }
         const mercyPowerUp: PowerUp = {
           type: mercyType,
@@ -1897,7 +2051,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     const allLetters: BonusLetterType[] = ["Q", "U", "M", "R", "A", "N"];
 
     // Shuffle letters for variety
-    const shuffledLetters = [...allLetters].sort(() => Math.random() - 0.5);
+    const shuffledLetters = gameRng.shuffle(allLetters);
 
     // Assign letters to ALL available levels (cycling through the 6 letters)
     const assignments: Record<number, BonusLetterType> = {};
@@ -2024,8 +2178,11 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     });
   }, []);
   const initBricksForLevel = useCallback((currentLevel: number) => {
+    // Boss fought on this level (custom packs can place bosses anywhere)
+    const bossLevel = getBossLevelFor(currentLevel);
+
     // Check if this is the Mega Boss level (level 20)
-    if (currentLevel === MEGA_BOSS_LEVEL) {
+    if (bossLevel === MEGA_BOSS_LEVEL) {
       // Create Mega Boss
       const megaBoss = createMegaBoss(SCALED_CANVAS_WIDTH, SCALED_CANVAS_HEIGHT);
       setBoss(megaBoss as unknown as Boss); // Cast to Boss for state compatibility
@@ -2053,8 +2210,8 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     }
 
     // Check if this is a regular boss level (5, 10, 15)
-    if (BOSS_LEVELS.includes(currentLevel) && currentLevel !== MEGA_BOSS_LEVEL) {
-      const newBoss = createBoss(currentLevel, SCALED_CANVAS_WIDTH, SCALED_CANVAS_HEIGHT);
+    if (bossLevel !== null) {
+      const newBoss = createBoss(bossLevel, SCALED_CANVAS_WIDTH, SCALED_CANVAS_HEIGHT);
       // Initialize boss with lastHitAt timestamp for cooldown tracking
       if (newBoss) {
         setBoss({ ...newBoss, lastHitAt: 0 });
@@ -2071,73 +2228,34 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       return []; // No bricks on boss levels
     }
 
-    const layoutIndex = Math.min(currentLevel - 1, levelLayouts.length - 1);
-    const layout = levelLayouts[layoutIndex];
-    const levelColors = getBrickColors(currentLevel);
-    const newBricks: Brick[] = [];
-    let nextBrickId = 1; // Monotonic ID counter for stable brick IDs
-    for (let row = 0; row < BRICK_ROWS; row++) {
-      for (let col = 0; col < BRICK_COLS; col++) {
-        const cellValue = layout[row][col];
-        if (cellValue === true || cellValue === 2 || cellValue === 3 || cellValue === 4) {
-          const isIndestructible = cellValue === 2;
-
-          // Determine brick type based on cell value
-          let brickType: "normal" | "metal" | "cracked" | "explosive" = "normal";
-          if (cellValue === 2) {
-            brickType = "metal";
-          } else if (cellValue === 3) {
-            brickType = "explosive";
-          } else if (cellValue === 4) {
-            brickType = "cracked";
-          }
-
-          const hasPowerUp = isIndestructible ? false : Math.random() < POWERUP_DROP_CHANCE;
-          const maxHits = isIndestructible ? 1 : brickType === "cracked" ? 3 : getBrickHits(currentLevel, row);
-
-          let baseColor: string;
-          if (isIndestructible) {
-            baseColor = "hsl(0, 0%, 20%)"; // Dark gray for metal
-          } else if (brickType === "explosive") {
-            baseColor = "hsl(15, 90%, 50%)"; // Orange-red for explosive
-          } else if (brickType === "cracked") {
-            baseColor = "hsl(40, 15%, 45%)"; // Brownish-gray for cracked
-          } else {
-            baseColor = levelColors[row % levelColors.length];
-          }
+    const dims = {
+      brickWidth: SCALED_BRICK_WIDTH,
+      brickHeight: SCALED_BRICK_HEIGHT,
+      brickPadding: SCALED_BRICK_PADDING,
+      brickOffsetTop: SCALED_BRICK_OFFSET_TOP,
+      brickOffsetLeft: SCALED_BRICK_OFFSET_LEFT,
+    };
+    // A color-blind-safe palette (Accessibility) overrides the level's own
+    const palette = accessibility.getBrickPalette() ?? undefined;
+
+    // Custom level pack campaign
+    const packLevel = getActivePackLevel(currentLevel);
+    if (packLevel) {
+      return buildLevelBricks(rowsToLayout(packLevel.rows), currentLevel, dims, {
+        hits: getHitOverrideGrid(packLevel),
+        powerUps: getPowerUpGrid(packLevel),
+        paletteIndex: packLevel.palette,
+        palette,
+      });
+    }
 
-          // Metal bricks expand to fill padding space, creating continuous surfaces
-          const brickWidth = isIndestructible ? SCALED_BRICK_WIDTH + SCALED_BRICK_PADDING : SCALED_BRICK_WIDTH;
-          const brickHeight = isIndestructible ? SCALED_BRICK_HEIGHT + SCALED_BRICK_PADDING : SCALED_BRICK_HEIGHT;
-
-          // Metal bricks are positioned to overlap into the padding space
-          const xPos =
-            col * (SCALED_BRICK_WIDTH + SCALED_BRICK_PADDING) +
-            SCALED_BRICK_OFFSET_LEFT -
-            (isIndestructible && col > 0 ? SCALED_BRICK_PADDING / 2 : 0);
-          const yPos =
-            row * (SCALED_BRICK_HEIGHT + SCALED_BRICK_PADDING) +
-            SCALED_BRICK_OFFSET_TOP -
-            (isIndestructible && row > 0 ? SCALED_BRICK_PADDING / 2 : 0);
-          newBricks.push({
-            id: nextBrickId++, // Stable, monotonic ID
-            x: xPos,
-            y: yPos,
-            width: brickWidth,
-            height: brickHeight,
-            color: baseColor,
-            visible: true,
-            points: isIndestructible ? 0 : (BRICK_ROWS - row) * 10 * maxHits,
-            hasPowerUp,
-            maxHits,
-            hitsRemaining: maxHits,
-            isIndestructible,
-            type: brickType,
-          });
-        }
-      }
+    // Endless mode: procedural layouts after the hand-made campaign
+    if (isGeneratedLevel(currentLevel)) {
+      return buildLevelBricks(generateLevelLayout(currentLevel, world.runSeed), currentLevel, dims, { palette });
     }
-    return newBricks;
+
+    const layoutIndex = Math.min(currentLevel - 1, levelLayouts.length - 1);
+    return applyDailyBrickMutator(buildLevelBricks(levelLayouts[layoutIndex], currentLevel, dims, { palette }));
   }, []);
 
   // Initialize power-up assignments for bricks
@@ -2164,6 +2282,22 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     // Reset quality lockout for new game session
     resetQualityLockout();
 
+    // Seed gameplay + cosmetic RNG streams for this run (must happen before any bricks/power-ups are rolled)
+    world.runSeed = seedRun(settings.seed);
+    replayRecorder.start(world.runSeed, settings, SCALED_CANVAS_WIDTH, SCALED_CANVAS_HEIGHT);
+
+    // Register the custom level pack (if any) before any level is built
+    setActiveLevelPack(settings.levelPack ?? null);
+    setEndlessCampaign(settings.gameMode === "endless");
+    setActiveDailyChallenge(settings.daily ?? null);
+    setActiveAssists(settings.assists);
+    playtestTouchedBricksRef.current.clear();
+    playtestBallsLostRef.current = 0;
+    playtestElapsedMsRef.current = 0;
+    runLivesLostRef.current = 0;
+    runPowerUpsCollectedRef.current = 0;
+    runRecordedRef.current = false;
+
     // Initialize paddle
     const initialPaddleX = SCALED_CANVAS_WIDTH / 2 - SCALED_PADDLE_WIDTH / 2;
     setPaddle({
@@ -2246,7 +2380,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       resetBossRushSessionState();
     }
     // Only clear boss state if starting level is NOT a boss level
-    if (!BOSS_LEVELS.includes(startLevel)) {
+    if (!levelHasBoss(startLevel)) {
       setBoss(null);
       setResurrectedBosses([]);
       setBossAttacks([]);
@@ -2263,13 +2397,14 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
       // Show boss name and start boss music after 1 second
       setTimeout(() => {
-        soundManager.playBossMusic(startLevel);
+        const bossLevel = getBossLevelFor(startLevel) ?? startLevel;
+        soundManager.playBossMusic(bossLevel);
         const bossName =
-          startLevel === 5
+          bossLevel === 5
             ? "CUBE GUARDIAN"
-            : startLevel === 10
+            : bossLevel === 10
               ? "SPHERE DESTROYER"
-              : startLevel === 15
+              : bossLevel === 15
                 ? "PYRAMID LORD"
                 : "MEGA BOSS";
         toast.error(`⚠️ BOSS APPROACHING: ${bossName} ⚠️`, { duration: 3000 });
@@ -2280,6 +2415,16 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
         setBossIntroActive(false);
       }, 3000);
     }
+    // Practice: jump into the chosen boss phase and hand out the starting power-ups
+    if (settings.practice) {
+      const { bossPhase, powerUps } = settings.practice;
+      if (bossPhase) {
+        const practiceBoss = createPracticeBossState(bossPhase, world.boss, SCALED_CANVAS_WIDTH, SCALED_CANVAS_HEIGHT);
+        setBoss(practiceBoss.boss);
+        setResurrectedBosses(practiceBoss.resurrectedBosses);
+      }
+      setPaddle((prev) => prev && applyPracticePowerUps(prev, powerUps, settings.difficulty));
+    }
     bombIntervalsRef.current.forEach((interval) => clearInterval(interval));
     bombIntervalsRef.current.clear();
   }, [
@@ -2287,10 +2432,17 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     initBricksForLevel,
     createRandomLetterAssignments,
     initPowerUpAssignments,
-    settings.startingLevel,
+    settings,
     resetQualityLockout,
   ]);
   const nextLevel = useCallback(() => {
+    // Playtests and practice runs cover a single level: beating its boss ends the run
+    if (onPlaytestEnd) {
+      setGameState("won");
+      finishPlaytest(true);
+      return;
+    }
+
     // Stop game loop before starting new level
     if (gameLoopRef.current) {
       gameLoopRef.current.stop();
@@ -2406,9 +2558,23 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       return;
     }
 
+    // Custom packs can end on a boss fight: beating it completes the campaign
+    if (level >= getFinalLevel()) {
+      setGameState("won");
+      setShowEndScreen(true);
+      soundManager.stopBackgroundMusic();
+      toast.success(`🎉 YOU WIN! Level ${level} Complete!`);
+      return;
+    }
+
     // Normal mode progression
     const newLevel = level + 1;
 
+    // Endless runs earn the level-50 badge by getting past it
+    if (isEndlessCampaign() && level >= 50) {
+      setBeatLevel50Completed(true);
+    }
+
     // Reassign missed letters to the new level if it's a valid letter level
     const availableLevels = [4, 6, 7, 8, 9, 11, 12, 13, 14, 16, 17, 18, 19, 20];
     if (missedLetters.length > 0 && availableLevels.includes(newLevel)) {
@@ -2425,8 +2591,8 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     ballHitSinceLastPaddleRef.current.clear();
     setSpeedMultiplier(newSpeedMultiplier);
 
-    // Update max level reached in localStorage
-    updateMaxLevel(newLevel);
+    // Update max level reached in localStorage (built-in campaign only)
+    if (!getActiveLevelPack()) updateMaxLevel(newLevel);
     setPaddle((prev) => ({
       x: SCALED_CANVAS_WIDTH / 2 - SCALED_PADDLE_WIDTH / 2,
       y: SCALED_CANVAS_HEIGHT - SCALED_PADDLE_START_Y,
@@ -2482,7 +2648,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     setBossSpawnAnimation(null);
     setTimer(0); // Reset timer on level clear (for turret drop chance reset)
     // Only clear boss state if the new level is NOT a boss level
-    if (!BOSS_LEVELS.includes(newLevel)) {
+    if (!levelHasBoss(newLevel)) {
       setBoss(null);
       setResurrectedBosses([]);
       setBossAttacks([]);
@@ -2499,13 +2665,14 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
       // Show boss name and start boss music after 1 second
       setTimeout(() => {
-        soundManager.playBossMusic(newLevel);
+        const bossLevel = getBossLevelFor(newLevel) ?? newLevel;
+        soundManager.playBossMusic(bossLevel);
         const bossName =
-          newLevel === 5
+          bossLevel === 5
             ? "CUBE GUARDIAN"
-            : newLevel === 10
+            : bossLevel === 10
               ? "SPHERE DESTROYER"
-              : newLevel === 15
+              : bossLevel === 15
                 ? "PYRAMID LORD"
                 : "MEGA BOSS";
         toast.error(`⚠️ BOSS APPROACHING: ${bossName} ⚠️`, { duration: 3000 });
@@ -2535,6 +2702,8 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     bossRushIndex,
     settings.difficulty,
     calculateSpeedForLevel,
+    onPlaytestEnd,
+    finishPlaytest,
   ]);
 
   // Update nextLevel ref whenever nextLevel function changes
@@ -2620,6 +2789,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
     // Track shot fired
     setTotalShots((prev) => prev + 1);
+    replayRecorder.recordLaunch(gameLoopRef.current?.getFrameTick() || 0, launchAngle);
 
     setBalls((prev) =>
       prev.map((ball) => {
@@ -2679,6 +2849,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
   );
   const activeTouchRef = useRef<number | null>(null);
   const secondTouchRef = useRef<number | null>(null);
+  const lastDragXRef = useRef(0); // Client x of the previous relative-drag move
   
   // Mobile touch optimization: cache canvas rect to avoid layout thrashing
   const canvasRectRef = useRef<DOMRect | null>(null);
@@ -2730,6 +2901,15 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
         }
         return;
       }
+
+      // Other schemes launch and fire from the button zone; the canvas only steers (relative drag)
+      if (touchSettings.scheme !== "direct") {
+        if (touchSettings.scheme === "relative" && activeTouchRef.current === null && e.changedTouches.length > 0) {
+          activeTouchRef.current = e.changedTouches[0].identifier;
+          lastDragXRef.current = e.changedTouches[0].clientX;
+        }
+        return;
+      }
       const waitingBall = balls.find((ball) => ball.waitingToLaunch);
 
       // If ball is waiting and there are 2 fingers, second finger controls launch angle
@@ -2762,6 +2942,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
         // Fire turrets if paddle has turrets
         if (paddle.hasTurrets) {
+          replayRecorder.recordFire(gameLoopRef.current?.getFrameTick() || 0);
           fireBullets(paddle);
         }
         return; // Don't launch ball yet
@@ -2769,6 +2950,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
       // Fire turrets if there are multiple touches (2+ fingers) and paddle has turrets and ball is NOT waiting
       if (e.touches.length > 1 && paddle.hasTurrets && gameState === "playing" && !waitingBall) {
+        replayRecorder.recordFire(gameLoopRef.current?.getFrameTick() || 0);
         fireBullets(paddle);
         return;
       }
@@ -2809,6 +2991,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       nextLevel,
       tutorialActive,
       launchBallAtCurrentAngle,
+      touchSettings.scheme,
     ],
   );
   const handleTouchMove = useCallback(
@@ -2822,6 +3005,24 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       if (!rect) return;
       
       const scaleX = SCALED_CANVAS_WIDTH / rect.width;
+
+      // Relative drag: the paddle moves by the finger's delta, not to the finger
+      if (touchSettings.scheme === "relative") {
+        for (let i = 0; i < e.touches.length; i++) {
+          const touch = e.touches[i];
+          if (touch.identifier !== activeTouchRef.current) continue;
+          const deltaX = (touch.clientX - lastDragXRef.current) * scaleX;
+          lastDragXRef.current = touch.clientX;
+          const newX = touchControls.dragPaddleX(paddle.x, deltaX, paddle.width, SCALED_CANVAS_WIDTH);
+          paddleXRef.current = newX;
+          setPaddle((prev) => (prev ? { ...prev, x: newX } : null));
+          break;
+        }
+        return;
+      }
+      // Slider and tilt don't steer from the canvas
+      if (touchSettings.scheme !== "direct") return;
+
       const waitingBall = balls.find((ball) => ball.waitingToLaunch);
 
       // Update launch angle if second finger is moving and ball is waiting
@@ -2892,7 +3093,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
         return { ...prev, x: newX };
       });
     },
-    [SCALED_CANVAS_WIDTH, gameState, getCanvasRect],
+    [SCALED_CANVAS_WIDTH, gameState, getCanvasRect, touchSettings.scheme],
   );
   const handleTouchEnd = useCallback((e: TouchEvent) => {
     // Clear active touches when they end
@@ -2949,6 +3150,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
     // Fire turrets
     if (paddle.hasTurrets) {
+      replayRecorder.recordFire(gameLoopRef.current?.getFrameTick() || 0);
       fireBullets(paddle);
     }
   }, [
@@ -2968,31 +3170,25 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.key === "Escape") {
+      if (e.key === "Escape" && ENABLE_DEBUG_FEATURES && showDebugDashboard) {
+        // ESC closes the debug dashboard before it pauses / resumes
+        console.log("[ESC Key] Closing debug dashboard");
+        setShowDebugDashboard(false);
+      } else if (keyBindings.matches(e, "pause")) {
         console.log(
-          "[ESC Key] Pressed - gameState:",
+          "[Pause Key] Pressed - gameState:",
           gameState,
-          "showDebugDashboard:",
-          showDebugDashboard,
           "debugDashboardPausedGame:",
           debugDashboardPausedGame,
         );
-        // Escape key priority order:
-        // 1. Close debug dashboard if open
-        // 2. Pause/Resume game
-        if (ENABLE_DEBUG_FEATURES && showDebugDashboard) {
-          console.log("[ESC Key] Closing debug dashboard");
-          setShowDebugDashboard(false);
-        } else if (gameState === "playing") {
-          console.log("[ESC Key] Opening pause menu from playing state");
+        if (gameState === "playing") {
           setGameState("paused");
           document.exitPointerLock();
           if (gameLoopRef.current) {
             gameLoopRef.current.pause();
           }
-          toast.info("Game paused. Press ESC to resume.");
+          toast.info(`Game paused. Press ${keyBindings.describe("pause")} to resume.`);
         } else if (gameState === "paused" && !debugDashboardPausedGame) {
-          console.log("[ESC Key] Resuming game from paused state");
           setGameState("playing");
           const canvas = canvasRef.current;
           if (canvas && canvas.requestPointerLock) {
@@ -3002,36 +3198,14 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
             gameLoopRef.current.resume();
           }
           toast.info("Game resumed!");
-        } else {
-          console.log("[ESC Key] No action taken - conditions not met");
         }
-      } else if (e.key === "n" || e.key === "N") {
+      } else if (keyBindings.matches(e, "nextTrack")) {
         soundManager.nextTrack();
         toast.success("Next track");
-      } else if (e.key === "b" || e.key === "B") {
+      } else if (keyBindings.matches(e, "previousTrack")) {
         soundManager.previousTrack();
         toast.success("Previous track");
-      } else if (e.key === "p" || e.key === "P") {
-        // Toggle pause
-        if (gameState === "playing") {
-          setGameState("paused");
-          document.exitPointerLock();
-          if (gameLoopRef.current) {
-            gameLoopRef.current.pause();
-          }
-          toast.success("Game paused");
-        } else if (gameState === "paused") {
-          setGameState("playing");
-          const canvas = canvasRef.current;
-          if (canvas && canvas.requestPointerLock) {
-            canvas.requestPointerLock();
-          }
-          if (gameLoopRef.current) {
-            gameLoopRef.current.resume();
-          }
-          toast.success("Game resumed");
-        }
-      } else if (e.key === "m" || e.key === "M") {
+      } else if (keyBindings.matches(e, "toggleMusic")) {
         const enabled = soundManager.toggleMute();
         toast.success(enabled ? "Music on" : "Music muted");
       }
@@ -3188,7 +3362,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
           // Drop a random bonus letter for testing - disqualifies from high scores
           setLevelSkipped(true);
           const letterTypes: BonusLetterType[] = ["Q", "U", "M", "R", "A", "N"];
-          const randomLetter = letterTypes[Math.floor(Math.random() * letterTypes.length)];
+          const randomLetter = gameRng.pick(letterTypes);
           const originX = paddle.x + paddle.width / 2 - 15;
 
           setBonusLetters((prev) => [
@@ -3227,7 +3401,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
         if (gameLoopRef.current) {
           gameLoopRef.current.pause();
         }
-        toast.info("Game paused. Press ESC to resume.");
+        toast.info(`Game paused. Press ${keyBindings.describe("pause")} to resume.`);
       }
     };
     canvas.addEventListener("mousemove", handleMouseMove);
@@ -3348,6 +3522,11 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       }
     }
 
+    // ═══ Playtest: bricks the ball has touched ═══
+    if (onPlaytestEnd) {
+      for (const id of result.ballBrickHitIds) playtestTouchedBricksRef.current.add(id);
+    }
+
     // ═══ Update pending chain explosions ═══
     pendingChainExplosionsRef.current = result.updatedPendingChainExplosions;
 
@@ -3383,6 +3562,12 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       }
     }
 
+    // ═══ Haptics (lowest priority first; stronger patterns override) ═══
+    if (result.paddleHitBallIds.length > 0) haptics.play("paddleHit");
+    if (result.bricksDestroyedCount > 0) haptics.play("brickBreak");
+    if (result.bossHits.length > 0) haptics.play("bossHit");
+    if (result.secondChanceSaves.length > 0) haptics.play("secondChance");
+
     // ═══ Apply toasts ═══
     for (const t of result.toastEvents) {
       throttledToast(t.level, t.message, t.key);
@@ -3417,7 +3602,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     }
 
     // ═══ Hit Streak: paddle bounce check ═══
-    const isBossLevel = BOSS_LEVELS.includes(level) || level === MEGA_BOSS_LEVEL;
+    const isBossLevel = levelHasBoss(level);
     if (isBossLevel && !bossDefeatedTransitioningRef.current) {
       for (const ballId of result.paddleHitBallIds) {
         if (!ballHitSinceLastPaddleRef.current.has(ballId)) {
@@ -3768,7 +3953,10 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       const hasDestructible = bricks.some((b) => !b.isIndestructible);
 
       soundManager.playWin();
-      if (level >= FINAL_LEVEL) {
+      if (onPlaytestEnd) {
+        setGameState("won");
+        finishPlaytest(true);
+      } else if (level >= getFinalLevel()) {
         setScore((prev) => prev + 1000000);
         setBeatLevel50Completed(true);
         setGameState("won");
@@ -3810,7 +3998,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     // ═══ Large sphere power-up drops ═══
     for (const drop of result.largeSphereDrops) {
       const powerUpTypes: PowerUpType[] = ["multiball", "turrets", "fireball", "life", "slowdown", "shield"];
-      const randomType = powerUpTypes[Math.floor(Math.random() * powerUpTypes.length)];
+      const randomType = gameRng.pick(powerUpTypes);
       const powerUp: PowerUp = {
         x: drop.x - POWERUP_SIZE / 2,
         y: drop.y,
@@ -3844,9 +4032,9 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
         for (const { enemy } of result.destroyedEnemyData) {
           const isBossSpawned = bossSpawnedEnemiesRef.current.has(enemy.id || -1);
-          const isBossLevel = [5, 10, 15, 20].includes(level);
+          const isBossLevel = levelHasBoss(level);
           const isFirstBossMinion = isBossSpawned && isBossLevel && !firstBossMinionKilledRef.current;
-          const shouldDrop = isFirstBossMinion || (isBossSpawned ? Math.random() < 0.5 : newCount % 3 === 0);
+          const shouldDrop = isFirstBossMinion || (isBossSpawned ? gameRng.next() < 0.5 : newCount % 3 === 0);
 
           if (shouldDrop) {
             const fakeBrick: Brick = {
@@ -3920,9 +4108,12 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       ballHitSinceLastPaddleRef.current.clear();
       world.backgroundHue = 0;
 
+      playtestBallsLostRef.current++;
+      runLivesLostRef.current++;
       setLives((prev) => {
-        const newLives = prev - 1;
+        const newLives = prev - getLifeCost();
         soundManager.playLoseLife();
+        haptics.play("lifeLost");
         if (newLives <= 0) {
           particlePool.acquireForGameOver(SCALED_CANVAS_WIDTH / 2, SCALED_CANVAS_HEIGHT / 2, 100);
           handleGameOver();
@@ -3940,6 +4131,8 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     setPowerUps,
     nextLevel,
     level,
+    onPlaytestEnd,
+    finishPlaytest,
     SCALED_CANVAS_WIDTH,
     SCALED_CANVAS_HEIGHT,
     SCALED_BRICK_WIDTH,
@@ -4094,6 +4287,11 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     const timeScale = gameLoopRef.current?.getTimeScale() ?? 1.0;
     dtSecondsRef.current = Math.min((elapsed / 1000) * timeScale, 0.05);
 
+    // Gamepad: polled once per tick (paddle movement, launch, fire, pause, tracks)
+    const gamepadFrame = gamepadInput.poll();
+    if (gamepadFrame) gamepadTickRef.current?.(gamepadFrame);
+    touchTickRef.current?.();
+
     // Track FPS (use cached frameNow)
     fpsTrackerRef.current.frameCount++;
     const deltaTime = frameNow - fpsTrackerRef.current.lastTime;
@@ -4234,8 +4432,8 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
         // Sphere, Pyramid, and CrossBall enemies have more random movement
         if (enemy.type === "sphere" || enemy.type === "pyramid" || enemy.type === "crossBall") {
           const randomChance = enemy.type === "pyramid" ? 0.08 : enemy.type === "crossBall" ? 0.06 : 0.05;
-          if (Math.random() < randomChance) {
-            const randomAngle = ((Math.random() - 0.5) * Math.PI) / 4;
+          if (gameRng.next() < randomChance) {
+            const randomAngle = ((gameRng.next() - 0.5) * Math.PI) / 4;
             const currentAngle = Math.atan2(enemy.dy, enemy.dx);
             const newAngle = currentAngle + randomAngle;
             enemy.dx = Math.cos(newAngle) * enemy.speed;
@@ -4482,7 +4680,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
           bomb.y < paddle.y + paddle.height;
 
         // Check for reflect shield FIRST (on boss levels) - preserves regular shield
-        if (paddle.hasReflectShield && BOSS_LEVELS.includes(level) && bombHitsShieldZone) {
+        if (paddle.hasReflectShield && levelHasBoss(level) && bombHitsShieldZone) {
           // Reflect the bomb back, DON'T consume regular shield
           if (ENABLE_DEBUG_FEATURES && debugSettings.enableCollisionLogging) {
             const ts = performance.now().toFixed(2);
@@ -4550,10 +4748,12 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
         ) {
           // Bomb hits paddle - lose a life (reflect shield already checked above)
           soundManager.playLoseLife();
+          haptics.play("lifeLost");
           bombPool.release(bomb);
           setBombs((prev) => prev.filter((b) => b.enemyId !== bomb.enemyId));
+          runLivesLostRef.current++;
           setLives((prev) => {
-            const newLives = prev - 1;
+            const newLives = prev - getLifeCost();
             if (newLives <= 0) {
               handleGameOver();
             } else {
@@ -4581,7 +4781,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
           bullet.y < paddle.y + paddle.height;
 
         // Check for reflect shield FIRST (on boss levels) - preserves regular shield
-        if (paddle.hasReflectShield && BOSS_LEVELS.includes(level) && bulletHitsPaddle) {
+        if (paddle.hasReflectShield && levelHasBoss(level) && bulletHitsPaddle) {
           // Reflect the bullet back, DON'T consume regular shield
           if (ENABLE_DEBUG_FEATURES && debugSettings.enableCollisionLogging) {
             const ts = performance.now().toFixed(2);
@@ -4643,14 +4843,16 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
         if (bulletHitsPaddleNoShield) {
           // Bounced bullet hit paddle - lose a life
           soundManager.playLoseLife();
+          haptics.play("lifeLost");
           // Remove from world.bullets directly
           const idx = world.bullets.indexOf(bullet);
           if (idx !== -1) {
             world.bullets.splice(idx, 1);
             bulletPool.release(bullet as typeof bullet & { id: number });
           }
+          runLivesLostRef.current++;
           setLives((prev) => {
-            const newLives = prev - 1;
+            const newLives = prev - getLifeCost();
             if (newLives <= 0) {
               handleGameOver();
             } else {
@@ -4748,7 +4950,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
     // Mega Boss idle spin animation when in attacking phase (stationary)
     // Disabled when ball is captured in core OR core is exposed (catch ball phase)
-    if (level === MEGA_BOSS_LEVEL && boss && isMegaBoss(boss) && boss.phase === "attacking" && !boss.isStunned) {
+    if (levelHasMegaBoss(level) && boss && isMegaBoss(boss) && boss.phase === "attacking" && !boss.isStunned) {
       const megaBoss = boss as MegaBoss;
       const shouldRotate = !megaBoss.trappedBall && !megaBoss.coreExposed;
 
@@ -4777,7 +4979,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       Date.now() - boss.lastAttackTime >= boss.attackCooldown &&
       paddle
     ) {
-      if (level === MEGA_BOSS_LEVEL && isMegaBoss(boss)) {
+      if (levelHasMegaBoss(level) && isMegaBoss(boss)) {
         // Mega Boss uses specialized attack patterns
         const megaBoss = boss as MegaBoss;
         performMegaBossAttack(
@@ -4814,7 +5016,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     }
 
     // ═══ MEGA BOSS (Level 20) SPECIFIC GAME LOOP LOGIC ═══
-    if (level === MEGA_BOSS_LEVEL && boss && isMegaBoss(boss) && paddle) {
+    if (levelHasMegaBoss(level) && boss && isMegaBoss(boss) && paddle) {
       const megaBoss = boss as MegaBoss;
       const now = Date.now();
 
@@ -4837,7 +5039,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
             soundManager.playCannonModeSound();
 
             // Initialize first cannon missile time (4-7 seconds from now)
-            setNextCannonMissileTime(Date.now() + 4000 + Math.random() * 3000);
+            setNextCannonMissileTime(Date.now() + 4000 + gameRng.next() * 3000);
           }
         });
       }
@@ -4898,7 +5100,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
           soundManager.playShoot();
 
           // Schedule next missile in 4-7 seconds
-          const nextDelay = 4000 + Math.random() * 3000;
+          const nextDelay = 4000 + gameRng.next() * 3000;
           setNextCannonMissileTime(now + nextDelay);
         }
       }
@@ -4925,14 +5127,14 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
               setExplosions((e) => [
                 ...e,
                 {
-                  x: bossCenter.x + (Math.random() - 0.5) * 80,
-                  y: bossCenter.y + (Math.random() - 0.5) * 80,
+                  x: bossCenter.x + (cosmeticRng.next() - 0.5) * 80,
+                  y: bossCenter.y + (cosmeticRng.next() - 0.5) * 80,
                   frame: 0,
                   maxFrames: 50,
                   enemyType: "cube" as EnemyType,
                   particles: createExplosionParticles(
-                    bossCenter.x + (Math.random() - 0.5) * 80,
-                    bossCenter.y + (Math.random() - 0.5) * 80,
+                    bossCenter.x + (cosmeticRng.next() - 0.5) * 80,
+                    bossCenter.y + (cosmeticRng.next() - 0.5) * 80,
                     "cube" as EnemyType,
                   ),
                 },
@@ -4960,21 +5162,36 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
           soundManager.stopBossMusic();
 
-          // Show victory screen - check for high score first!
-          setTimeout(() => {
-            setGameState("won");
-            // Check for high score qualification on victory too
-            getQualifiedLeaderboards(scoreRef.current).then((qualification) => {
-              if (qualification.daily || qualification.weekly || qualification.allTime) {
-                setQualifiedLeaderboards(qualification);
+          // Endless mode: the mega boss is one stop of the boss rotation, keep going
+          if (level < getFinalLevel()) {
+            soundManager.resumeBackgroundMusic();
+            setTimeout(() => nextLevelRef.current?.(), 3000);
+          } else {
+            // Show victory screen - check for high score first!
+            setTimeout(() => {
+              setGameState("won");
+              if (onPlaytestEnd) {
+                finishPlaytest(true);
+                return;
+              }
+              if (settings.daily) {
                 setShowHighScoreEntry(true);
                 soundManager.playHighScoreMusic();
-              } else {
-                setShowEndScreen(true);
-                soundManager.playHighScoreMusic();
+                return;
               }
-            });
-          }, 2500);
+              // Check for high score qualification on victory too
+              getQualifiedLeaderboards(scoreRef.current).then((qualification) => {
+                if (!getActiveLevelPack() && (qualification.daily || qualification.weekly || qualification.allTime)) {
+                  setQualifiedLeaderboards(qualification);
+                  setShowHighScoreEntry(true);
+                  soundManager.playHighScoreMusic();
+                } else {
+                  setShowEndScreen(true);
+                  soundManager.playHighScoreMusic();
+                }
+              });
+            }, 2500);
+          }
         } else {
           // Phase transition - not defeated yet
           soundManager.playPhaseCompleteJingle();
@@ -5025,12 +5242,12 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
           const newEnemies: Enemy[] = [];
 
           for (let i = 0; i < canSpawn; i++) {
-            const spawnX = Math.random() * (SCALED_CANVAS_WIDTH - 40) + 20;
-            const spawnY = 50 + Math.random() * 50;
-            const angle = Math.random() * Math.PI * 2;
-            const speed = 1.5 + Math.random() * 0.5;
+            const spawnX = gameRng.next() * (SCALED_CANVAS_WIDTH - 40) + 20;
+            const spawnY = 50 + gameRng.next() * 50;
+            const angle = gameRng.next() * Math.PI * 2;
+            const speed = 1.5 + gameRng.next() * 0.5;
             const enemyId = Date.now() + i;
-            const enemyType = enemyTypes[Math.floor(Math.random() * enemyTypes.length)];
+            const enemyType = gameRng.pick(enemyTypes);
 
             const newEnemy = enemyPool.acquire({
               id: enemyId,
@@ -5077,7 +5294,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       if (getMegaBossPhase(megaBoss) === 3) {
         const bassEnergy = soundManager.getBassEnergy();
         if (bassEnergy > 0.72) {
-          world.backgroundHue = Math.floor(Math.random() * 360);
+          world.backgroundHue = Math.floor(cosmeticRng.next() * 360);
         } else if (bassEnergy < 0.3) {
           world.backgroundHue = 0;
         }
@@ -5085,10 +5302,10 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     }
 
     // ═══ Hit Streak: music-reactive hue when streak >= 10 ═══
-    if (hitStreakActive && (BOSS_LEVELS.includes(level) || level === MEGA_BOSS_LEVEL)) {
+    if (hitStreakActive && levelHasBoss(level)) {
       const bassEnergy = soundManager.getBassEnergy();
       if (bassEnergy > 0.72) {
-        world.backgroundHue = Math.floor(Math.random() * 360);
+        world.backgroundHue = Math.floor(cosmeticRng.next() * 360);
       } else if (bassEnergy < 0.3) {
         world.backgroundHue = 0;
       }
@@ -5308,7 +5525,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
                   attack.pendingDirection = undefined;
                 }
                 attack.isStopped = false;
-                attack.nextCourseChangeTime = now + 500 + Math.random() * 1000;
+                attack.nextCourseChangeTime = now + 500 + gameRng.next() * 1000;
               }
               // When stopped, don't update position but keep the attack
               return true;
@@ -5325,7 +5542,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
               // Pre-calculate the new direction for visual indicator
               const currentAngle = Math.atan2(attack.dy || 0, attack.dx || 0);
-              const directionChange = (Math.random() > 0.5 ? 1 : -1) * (Math.PI / 6); // ±30° change
+              const directionChange = (gameRng.next() > 0.5 ? 1 : -1) * (Math.PI / 6); // ±30° change
               let newAngle = currentAngle + directionChange;
 
               // Ensure projectile never goes upward (dy must be positive)
@@ -5752,8 +5969,10 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
           // No shield - take damage
           soundManager.playLoseLife();
+          haptics.play("lifeLost");
+          runLivesLostRef.current++;
           setLives((prev) => {
-            const newLives = prev - 1;
+            const newLives = prev - getLifeCost();
             if (newLives <= 0) {
               handleGameOver();
             } else {
@@ -5830,18 +6049,18 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
           // Create crossBall enemy
           const speed = 2.5;
-          const angle = Math.random() * Math.PI * 2;
+          const angle = gameRng.next() * Math.PI * 2;
           const crossBallEnemy = enemyPool.acquire({
-            id: Date.now() + Math.random() * 1000,
+            id: Date.now() + cosmeticRng.next() * 1000,
             type: "crossBall",
             x: midX - 17.5, // Center the 35x35 enemy
             y: midY - 17.5,
             width: 35,
             height: 35,
             rotation: 0,
-            rotationX: Math.random() * Math.PI,
-            rotationY: Math.random() * Math.PI,
-            rotationZ: Math.random() * Math.PI,
+            rotationX: cosmeticRng.next() * Math.PI,
+            rotationY: cosmeticRng.next() * Math.PI,
+            rotationZ: cosmeticRng.next() * Math.PI,
             speed: speed,
             dx: Math.cos(angle) * speed,
             dy: Math.sin(angle) * speed,
@@ -5946,18 +6165,18 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
           // Create large sphere enemy
           const speed = 3.0;
-          const angle = Math.random() * Math.PI * 2;
+          const angle = gameRng.next() * Math.PI * 2;
           const largeSphereEnemy = enemyPool.acquire({
-            id: Date.now() + Math.random() * 1000,
+            id: Date.now() + cosmeticRng.next() * 1000,
             type: "sphere",
             x: midX - 27.5, // Center larger sprite (55/2)
             y: midY - 27.5,
             width: 55,
             height: 55,
             rotation: 0,
-            rotationX: Math.random() * Math.PI,
-            rotationY: Math.random() * Math.PI,
-            rotationZ: Math.random() * Math.PI,
+            rotationX: cosmeticRng.next() * Math.PI,
+            rotationY: cosmeticRng.next() * Math.PI,
+            rotationZ: cosmeticRng.next() * Math.PI,
             speed: speed,
             dx: Math.cos(angle) * speed,
             dy: Math.sin(angle) * speed,
@@ -6003,7 +6222,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
           triggerScreenShake(8, 400);
 
           // Count each merge as a streak hit (crossBalls merging into sphere)
-          if (BOSS_LEVELS.includes(level) || level === MEGA_BOSS_LEVEL) {
+          if (levelHasBoss(level)) {
             const mergeCount = newLargeSpheres.length;
             for (let i = 0; i < mergeCount; i++) {
               setHitStreak((prev) => {
@@ -6399,8 +6618,10 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
           // No shield - paddle is hit by laser!
           soundManager.playLoseLife();
+          haptics.play("lifeLost");
+          runLivesLostRef.current++;
           setLives((prev) => {
-            const newLives = prev - 1;
+            const newLives = prev - getLifeCost();
             if (newLives <= 0) {
               handleGameOver();
             } else {
@@ -6436,6 +6657,13 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       checkPowerUpCollision(paddle, balls, setBalls, setPaddle, setSpeedMultiplier);
     }
 
+    // Replay recording (paddle input + visual keyframe)
+    replayRecorder.recordFrame(gameLoopRef.current?.getFrameTick() || 0, dtSecondsRef.current * 1000);
+
+    // Playtest clock starts with the first launch
+    if (totalPlayTimeStartedRef.current) {
+      playtestElapsedMsRef.current += dtSecondsRef.current * 1000;
+    }
 
     // ═══ PHASE 1: End Frame Profiling ═══
     if (profilerEnabled) {
@@ -6581,9 +6809,9 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
         // Determine enemy type - sphere from level 3+, pyramid from level 6+
         let enemyType: "cube" | "sphere" | "pyramid";
-        if (level >= 6 && Math.random() < 0.3) {
+        if (level >= 6 && gameRng.next() < 0.3) {
           enemyType = "pyramid";
-        } else if (level >= 3 && Math.random() > 0.5) {
+        } else if (level >= 3 && gameRng.next() > 0.5) {
           enemyType = "sphere";
         } else {
           enemyType = "cube";
@@ -6591,19 +6819,19 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
         let newEnemy: Enemy;
         if (enemyType === "pyramid") {
           // Pyramid enemy - very slow random movement, 3 hits to destroy
-          const angle = Math.random() * Math.PI * 2;
+          const angle = gameRng.next() * Math.PI * 2;
           const speed = 1 * speedIncrease; // Very slow
           newEnemy = enemyPool.acquire({
             id: enemyId,
             type: "pyramid",
-            x: Math.random() * (SCALED_CANVAS_WIDTH - 40),
-            y: 50 + Math.random() * 50,
+            x: gameRng.next() * (SCALED_CANVAS_WIDTH - 40),
+            y: 50 + gameRng.next() * 50,
             width: 40,
             height: 40,
             rotation: 0,
-            rotationX: Math.random() * Math.PI,
-            rotationY: Math.random() * Math.PI,
-            rotationZ: Math.random() * Math.PI,
+            rotationX: cosmeticRng.next() * Math.PI,
+            rotationY: cosmeticRng.next() * Math.PI,
+            rotationZ: cosmeticRng.next() * Math.PI,
             speed: speed,
             dx: Math.cos(angle) * speed,
             dy: Math.sin(angle) * speed,
@@ -6612,19 +6840,19 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
           });
         } else if (enemyType === "sphere") {
           // Sphere enemy - random movement pattern
-          const angle = Math.random() * Math.PI * 2;
+          const angle = gameRng.next() * Math.PI * 2;
           const speed = 2.5 * speedIncrease; // Slightly faster
           newEnemy = enemyPool.acquire({
             id: enemyId,
             type: "sphere",
-            x: Math.random() * (SCALED_CANVAS_WIDTH - 40),
-            y: 50 + Math.random() * 50,
+            x: gameRng.next() * (SCALED_CANVAS_WIDTH - 40),
+            y: 50 + gameRng.next() * 50,
             width: 35,
             height: 35,
             rotation: 0,
-            rotationX: Math.random() * Math.PI,
-            rotationY: Math.random() * Math.PI,
-            rotationZ: Math.random() * Math.PI,
+            rotationX: cosmeticRng.next() * Math.PI,
+            rotationY: cosmeticRng.next() * Math.PI,
+            rotationZ: cosmeticRng.next() * Math.PI,
             speed: speed,
             dx: Math.cos(angle) * speed,
             dy: Math.sin(angle) * speed,
@@ -6633,13 +6861,13 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
           });
         } else {
           // Cube enemy - straight line movement
-          const angle = Math.random() * Math.PI * 2;
+          const angle = gameRng.next() * Math.PI * 2;
           const speed = 2 * speedIncrease;
           newEnemy = enemyPool.acquire({
             id: enemyId,
             type: "cube",
-            x: Math.random() * (SCALED_CANVAS_WIDTH - 40),
-            y: 50 + Math.random() * 50,
+            x: gameRng.next() * (SCALED_CANVAS_WIDTH - 40),
+            y: 50 + gameRng.next() * 50,
             width: 30,
             height: 30,
             rotation: 0,
@@ -6685,7 +6913,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
           minInterval = 3;
           maxInterval = 7;
         }
-        const randomInterval = minInterval * 1000 + Math.random() * (maxInterval - minInterval) * 1000;
+        const randomInterval = minInterval * 1000 + gameRng.next() * (maxInterval - minInterval) * 1000;
         const projectileInterval = setInterval(() => {
           setEnemies((currentEnemies) => {
             const currentEnemy = currentEnemies.find((e) => e.id === enemyId);
@@ -6697,10 +6925,10 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
             // Pyramid enemies shoot bullets in random angles
             if (currentEnemy.type === "pyramid") {
-              const randomAngle = (Math.random() * 160 - 80) * (Math.PI / 180); // -80 to +80 degrees
+              const randomAngle = (gameRng.next() * 160 - 80) * (Math.PI / 180); // -80 to +80 degrees
               const bulletSpeed = 4;
               const newBullet = bombPool.acquire({
-                id: Date.now() + Math.random(),
+                id: Date.now() + cosmeticRng.next(),
                 x: currentEnemy.x + currentEnemy.width / 2 - 4,
                 y: currentEnemy.y + currentEnemy.height,
                 width: 8,
@@ -6716,7 +6944,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
               }
             } else {
               const newProjectile = bombPool.acquire({
-                id: Date.now() + Math.random(),
+                id: Date.now() + cosmeticRng.next(),
                 x: currentEnemy.x + currentEnemy.width / 2 - 5,
                 y: currentEnemy.y + currentEnemy.height,
                 width: 10,
@@ -6756,8 +6984,8 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
         // For level 20 Mega Boss, spawn mixed enemy types instead of just cubes
         const enemyTypes: Array<"cube" | "sphere" | "pyramid"> = ["cube", "sphere", "pyramid"];
         const enemyType =
-          level === 20
-            ? enemyTypes[Math.floor(Math.random() * enemyTypes.length)]
+          levelHasMegaBoss(level)
+            ? gameRng.pick(enemyTypes)
             : boss.type === "mega"
               ? "cube"
               : boss.type;
@@ -6775,7 +7003,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
         const baseSpeed = 2.0;
 
         if (enemyType === "pyramid") {
-          const angle = Math.random() * Math.PI * 2;
+          const angle = gameRng.next() * Math.PI * 2;
           newEnemy = enemyPool.acquire({
             id: enemyId,
             type: "pyramid",
@@ -6784,15 +7012,15 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
             width: 35,
             height: 35,
             rotation: 0,
-            rotationX: Math.random() * Math.PI,
-            rotationY: Math.random() * Math.PI,
-            rotationZ: Math.random() * Math.PI,
+            rotationX: cosmeticRng.next() * Math.PI,
+            rotationY: cosmeticRng.next() * Math.PI,
+            rotationZ: cosmeticRng.next() * Math.PI,
             speed: baseSpeed,
             dx: Math.cos(angle) * baseSpeed,
             dy: Math.sin(angle) * baseSpeed,
           });
         } else if (enemyType === "sphere") {
-          const angle = Math.random() * Math.PI * 2;
+          const angle = gameRng.next() * Math.PI * 2;
           newEnemy = enemyPool.acquire({
             id: enemyId,
             type: "sphere",
@@ -6801,9 +7029,9 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
             width: 30,
             height: 30,
             rotation: 0,
-            rotationX: Math.random() * Math.PI,
-            rotationY: Math.random() * Math.PI,
-            rotationZ: Math.random() * Math.PI,
+            rotationX: cosmeticRng.next() * Math.PI,
+            rotationY: cosmeticRng.next() * Math.PI,
+            rotationZ: cosmeticRng.next() * Math.PI,
             speed: baseSpeed * 1.25,
             dx: Math.cos(angle) * baseSpeed * 1.25,
             dy: Math.sin(angle) * baseSpeed * 1.25,
@@ -6812,7 +7040,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
           });
         } else {
           // cube
-          const angle = Math.random() * Math.PI * 2;
+          const angle = gameRng.next() * Math.PI * 2;
           newEnemy = enemyPool.acquire({
             id: enemyId,
             type: "cube",
@@ -6836,7 +7064,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
           // Set up bomb dropping for this enemy
           const minInterval = 5;
           const maxInterval = 10;
-          const randomInterval = minInterval * 1000 + Math.random() * (maxInterval - minInterval) * 1000;
+          const randomInterval = minInterval * 1000 + gameRng.next() * (maxInterval - minInterval) * 1000;
 
           const projectileInterval = setInterval(() => {
             setEnemies((currentEnemies) => {
@@ -6850,7 +7078,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
               const projectileType = enemyType === "pyramid" ? "pyramidBullet" : "bomb";
 
               const newBomb = bombPool.acquire({
-                id: Date.now() + Math.random(),
+                id: Date.now() + cosmeticRng.next(),
                 x: currentEnemy.x + currentEnemy.width / 2 - 5,
                 y: currentEnemy.y + currentEnemy.height,
                 width: 10,
@@ -6978,7 +7206,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     };
   }, [gameState, balls, isManualAimMode]);
 
-  // Keyboard controls: A/D/LEFT/RIGHT stop oscillation and switch to manual aim mode
+  // Keyboard controls: aim keys (A/D/LEFT/RIGHT by default) stop oscillation and switch to manual aim mode
   // Mousewheel scroll also stops oscillation and adjusts angle
   // Mousewheel CLICK launches the ball
   useEffect(() => {
@@ -6986,8 +7214,8 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     if (gameState !== "playing" || !waitingBall) return;
 
     const handleKeyDown = (e: KeyboardEvent) => {
-      const isLeftKey = e.key === "ArrowLeft" || e.key === "a" || e.key === "A";
-      const isRightKey = e.key === "ArrowRight" || e.key === "d" || e.key === "D";
+      const isLeftKey = keyBindings.matches(e, "aimLeft");
+      const isRightKey = keyBindings.matches(e, "aimRight");
 
       if (isLeftKey || isRightKey) {
         if (!isManualAimMode) {
@@ -7050,6 +7278,204 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       }
     }
   };
+  // ═══ Pause menu actions (buttons and gamepad) ═══
+  const resumeFromPauseMenu = () => {
+    soundManager.playMenuClick();
+    setGameState("playing");
+    // Only resume music if it's not already playing
+    if (!soundManager.isMusicPlaying() && !soundManager.isBossMusicPlaying()) {
+      soundManager.resumeBackgroundMusic();
+    }
+    const canvas = canvasRef.current;
+    if (canvas && canvas.requestPointerLock) {
+      canvas.requestPointerLock();
+    }
+    if (gameLoopRef.current) {
+      gameLoopRef.current.resume();
+    }
+  };
+  const quitFromPauseMenu = () => {
+    hasAutoFullscreenedRef.current = false;
+    soundManager.stopBackgroundMusic();
+    soundManager.stopBossMusic();
+    soundManager.playMenuClick();
+    quitToMenu();
+  };
+
+  // ═══ Gamepad ═══
+  /** Controller focus order of the pause menu */
+  const pauseMenuItems: Array<"resume" | keyof GamepadSettings | "mainMenu"> = [
+    "resume",
+    ...(gamepadConnected ? GAMEPAD_SETTING_KEYS : []),
+    "mainMenu",
+  ];
+  const adjustGamepadSetting = (key: keyof GamepadSettings, direction: -1 | 1) => {
+    setGamepadSettings(
+      gamepadInput.updateSettings({ [key]: gamepadSettings[key] + direction * GAMEPAD_SETTING_RANGES[key].step }),
+    );
+  };
+  const handleGamepadTrackButtons = (frame: GamepadFrame) => {
+    if (frame.pressed.has("nextTrack")) {
+      soundManager.nextTrack();
+      toast.success("Next track");
+    } else if (frame.pressed.has("previousTrack")) {
+      soundManager.previousTrack();
+      toast.success("Previous track");
+    }
+  };
+
+  // Called by the game loop every tick while playing
+  const gamepadTickRef = useRef<((frame: GamepadFrame) => void) | null>(null);
+  gamepadTickRef.current = (frame: GamepadFrame) => {
+    const paddle = world.paddle; // live read from engine state
+    if (!paddle) return;
+
+    if (frame.pressed.has("pause")) {
+      setGameState("paused");
+      document.exitPointerLock();
+      if (gameLoopRef.current) {
+        gameLoopRef.current.pause();
+      }
+      gamepadInput.reset();
+      toast.info("Game paused. Press START to resume.");
+      return;
+    }
+    handleGamepadTrackButtons(frame);
+
+    const newX = gamepadInput.movePaddle(
+      frame,
+      paddle.x,
+      paddle.width,
+      SCALED_CANVAS_WIDTH,
+      dtSecondsRef.current * 1000,
+    );
+    if (newX !== paddle.x) {
+      paddleXRef.current = newX;
+      setPaddle((prev) => (prev ? { ...prev, x: newX } : null));
+    }
+
+    if (frame.pressed.has("launch") && world.balls.some((ball) => ball.waitingToLaunch)) {
+      launchBallAtCurrentAngle();
+    }
+    if (frame.pressed.has("fire") && paddle.hasTurrets) {
+      replayRecorder.recordFire(gameLoopRef.current?.getFrameTick() || 0);
+      fireBullets(paddle);
+    }
+  };
+
+  // ═══ Touch control schemes ═══
+  const movePaddleTo = (newX: number) => {
+    paddleXRef.current = newX;
+    setPaddle((prev) => (prev && prev.x !== newX ? { ...prev, x: newX } : prev));
+  };
+
+  // Called by the game loop every tick while playing (tilt steering)
+  const touchTickRef = useRef<(() => void) | null>(null);
+  touchTickRef.current = () => {
+    const paddle = world.paddle; // live read from engine state
+    if (!paddle || !isMobileDevice || touchSettings.scheme !== "tilt") return;
+    const newX = touchControls.getTiltPaddleX(paddle.width, SCALED_CANVAS_WIDTH);
+    if (newX !== null) movePaddleTo(newX);
+  };
+
+  const handleTouchLaunch = () => {
+    if (world.balls.some((ball) => ball.waitingToLaunch)) launchBallAtCurrentAngle();
+  };
+  const handleTouchFire = () => {
+    const paddle = world.paddle; // live read from engine state
+    if (gameState !== "playing" || !paddle?.hasTurrets) return;
+    replayRecorder.recordFire(gameLoopRef.current?.getFrameTick() || 0);
+    fireBullets(paddle);
+  };
+  const handleSliderMove = (fraction: number) => {
+    const paddle = world.paddle; // live read from engine state
+    if (!paddle || gameState !== "playing") return;
+    movePaddleTo(touchControls.sliderPaddleX(fraction, paddle.width, SCALED_CANVAS_WIDTH));
+  };
+
+  const selectTouchScheme = async (scheme: TouchScheme) => {
+    soundManager.playMenuClick();
+    // Ask for orientation access from the tap itself (iOS only prompts on a user gesture)
+    if (scheme === "tilt" && !(await touchControls.enableTilt())) {
+      toast.error("Tilt controls aren't available on this device");
+      return;
+    }
+    setTouchSettings(touchControls.updateSettings({ scheme }));
+  };
+  const adjustTouchSetting = (key: keyof typeof TOUCH_SETTING_RANGES, direction: -1 | 1) => {
+    setTouchSettings(touchControls.updateSettings({ [key]: touchSettings[key] + direction * TOUCH_SETTING_RANGES[key].step }));
+  };
+  const calibrateTilt = () => {
+    if (touchControls.calibrateTilt()) {
+      setTouchSettings(touchControls.getSettings());
+      toast.success("Tilt calibrated");
+    } else {
+      toast.error("No tilt reading yet. Move the device a little and try again.");
+    }
+  };
+
+  // Listen to device orientation while tilt is the active scheme
+  useEffect(() => {
+    if (!isMobileDevice || touchSettings.scheme !== "tilt") return;
+    touchControls.enableTilt();
+    return () => touchControls.disableTilt();
+  }, [isMobileDevice, touchSettings.scheme]);
+
+  // Called by the menu poller while the game loop is stopped (ready / paused)
+  const gamepadMenuRef = useRef<((frame: GamepadFrame) => void) | null>(null);
+  gamepadMenuRef.current = (frame: GamepadFrame) => {
+    handleGamepadTrackButtons(frame);
+
+    if (gameState === "ready") {
+      if (frame.pressed.has("launch") || frame.pressed.has("pause")) handleStart();
+      return;
+    }
+    if (gameState !== "paused" || showDebugDashboard || tutorialActive) return;
+
+    if (frame.pressed.has("pause") || frame.pressed.has("back")) {
+      resumeFromPauseMenu();
+      return;
+    }
+    const focusedItem = pauseMenuItems[Math.min(pauseMenuFocus, pauseMenuItems.length - 1)];
+    if (frame.pressed.has("up") || frame.pressed.has("down")) {
+      const step = frame.pressed.has("up") ? -1 : 1;
+      setPauseMenuFocus((prev) => (prev + step + pauseMenuItems.length) % pauseMenuItems.length);
+      soundManager.playMenuHover();
+    } else if ((frame.pressed.has("left") || frame.pressed.has("right")) && focusedItem !== "resume" && focusedItem !== "mainMenu") {
+      adjustGamepadSetting(focusedItem, frame.pressed.has("left") ? -1 : 1);
+      soundManager.playMenuHover();
+    } else if (frame.pressed.has("launch")) {
+      if (focusedItem === "resume") resumeFromPauseMenu();
+      else if (focusedItem === "mainMenu") quitFromPauseMenu();
+    }
+  };
+
+  // Poll the gamepad while the game loop is stopped so menus stay controllable
+  useEffect(() => {
+    if (gameState !== "paused" && gameState !== "ready") return;
+    if (gameState === "paused") setPauseMenuFocus(0);
+
+    let frameId: number;
+    const poll = () => {
+      const frame = gamepadInput.poll();
+      if (frame) gamepadMenuRef.current?.(frame);
+      frameId = requestAnimationFrame(poll);
+    };
+    frameId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frameId);
+  }, [gameState]);
+
+  // Track controller connection (shows the gamepad settings in the pause menu)
+  useEffect(() => {
+    const handleConnectionChange = () => setGamepadConnected(gamepadInput.isConnected());
+    window.addEventListener("gamepadconnected", handleConnectionChange);
+    window.addEventListener("gamepaddisconnected", handleConnectionChange);
+    return () => {
+      window.removeEventListener("gamepadconnected", handleConnectionChange);
+      window.removeEventListener("gamepaddisconnected", handleConnectionChange);
+    };
+  }, []);
+
   const handleRestart = useCallback(() => {
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
@@ -7064,6 +7490,21 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     initGame();
     toast("Game Reset!");
   }, [initGame]);
+
+  // Practice: instant restart key
+  useEffect(() => {
+    if (!settings.practice) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (keyBindings.matches(e, "restart")) handleRestart();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [settings.practice, handleRestart]);
+  /** Summary of the finished run, sent with scores (submit-score reads its assists) */
+  const getRunSummary = () => {
+    const replay = replayRecorder.getLastReplay();
+    return replay ? createRunSummary(replay, scoreRef.current) : undefined;
+  };
   const handleHighScoreSubmit = async (name: string) => {
     try {
       // Create a burst of particles on submission using pool
@@ -7075,15 +7516,22 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       setBackgroundFlash(1);
       setTimeout(() => setBackgroundFlash(0), 200);
 
-      await addHighScore(
-        name,
-        score,
-        level,
-        settings.difficulty,
-        beatLevel50Completed,
-        collectedLetters.size === 6,
-        settings.startingLives,
-      );
+      if (settings.daily) {
+        // Daily runs only go on the day's own leaderboard
+        await submitDailyScore(name, score, level, settings.daily.date, getRunSummary());
+      } else {
+        await addHighScore(
+          name,
+          score,
+          level,
+          settings.difficulty,
+          beatLevel50Completed,
+          collectedLetters.size === 6,
+          settings.startingLives,
+          settings.gameMode === "endless" ? "endless" : undefined,
+          getRunSummary(),
+        );
+      }
 
       toast.success("🎉 HIGH SCORE SAVED! 🎉", {
         duration: 3000,
@@ -7100,6 +7548,16 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       setShowHighScoreDisplay(true);
     }
   };
+  // Replay recording: pause/resume transitions and end of run
+  useEffect(() => {
+    const tick = gameLoopRef.current?.getFrameTick() || 0;
+    if (gameState === "paused" || gameState === "playing") {
+      replayRecorder.recordPause(tick, gameState === "paused");
+    } else if (gameState === "gameOver" || gameState === "won") {
+      replayRecorder.finish(scoreRef.current, level);
+    }
+  }, [gameState, level]);
+
   const handleEndScreenContinue = () => {
     setShowEndScreen(false);
     setShowHighScoreDisplay(true);
@@ -7185,6 +7643,10 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     launchAngleDirectionRef.current = 1;
     setShowInstructions(true);
 
+    // A retry is a fresh run from this level: reseed and start a new recording
+    world.runSeed = seedRun(settings.seed);
+    replayRecorder.start(world.runSeed, { ...settings, startingLevel: currentLevel }, SCALED_CANVAS_WIDTH, SCALED_CANVAS_HEIGHT);
+
     // Reset bricks for current level
     setBricks(initBricksForLevel(currentLevel));
 
@@ -7205,6 +7667,9 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     setPowerUpsCollectedTypes(new Set());
     setBricksDestroyedByTurrets(0);
     setBossesKilled(0);
+    runLivesLostRef.current = 0;
+    runPowerUpsCollectedRef.current = 0;
+    runRecordedRef.current = false;
     particlePool.releaseAll(); // Clear all particles
     resetAllPools(); // Clear all entity pools (power-ups, bullets, enemies, etc.)
     setLives(settings.startingLives);
@@ -7229,7 +7694,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     setEnemiesKilled(0);
 
     // Clear boss state if not a boss level, or reset and trigger intro if it is
-    if (!BOSS_LEVELS.includes(currentLevel)) {
+    if (!levelHasBoss(currentLevel)) {
       setBoss(null);
       setResurrectedBosses([]);
       setBossAttacks([]);
@@ -7256,9 +7721,10 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
 
         // Show boss name and start boss music after 1 second
         setTimeout(() => {
-          soundManager.playBossMusic(currentLevel);
+          const bossLevel = getBossLevelFor(currentLevel) ?? currentLevel;
+          soundManager.playBossMusic(bossLevel);
           const bossName =
-            currentLevel === 5 ? "CUBE GUARDIAN" : currentLevel === 10 ? "SPHERE DESTROYER" : "PYRAMID LORD";
+            bossLevel === 5 ? "CUBE GUARDIAN" : bossLevel === 10 ? "SPHERE DESTROYER" : "PYRAMID LORD";
           toast.error(`⚠️ BOSS APPROACHING: ${bossName} ⚠️`, { duration: 3000 });
         }, 1000);
 
@@ -7401,10 +7867,10 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
     }
   }, [isMobileDevice, isIOSDevice, gameState]);
 
-  // F key to toggle fullscreen
+  // Fullscreen key (F by default) to toggle fullscreen
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === "f" || e.key === "F") {
+      if (keyBindings.matches(e, "fullscreen")) {
         e.preventDefault();
         toggleFullscreen();
       }
@@ -7567,27 +8033,33 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
       )}
 
       {showEndScreen ? (
-        <EndScreen
-          onContinue={handleEndScreenContinue}
-          onReturnToMenu={handleEndScreenReturnToMenu}
-          onRetryLevel={handleRetryLevel}
-          stats={{
-            totalBricksDestroyed,
-            totalShots,
-            accuracy: totalShots > 0 ? (bricksHit / totalShots) * 100 : 0,
-            levelSkipped,
-            finalScore: score,
-            finalLevel: level,
-            powerUpsCollected: powerUpsCollectedTypes.size,
-            bricksDestroyedByTurrets,
-            enemiesKilled,
-            bossesKilled,
-            totalPlayTime: totalPlayTime,
-            isVictory: gameState === "won",
-          }}
-        />
+        <>
+          <EndScreen
+            onContinue={handleEndScreenContinue}
+            onReturnToMenu={handleEndScreenReturnToMenu}
+            onRetryLevel={handleRetryLevel}
+            onWatchReplay={replayRecorder.getLastReplay() ? () => setShowReplayViewer(true) : undefined}
+            stats={{
+              totalBricksDestroyed,
+              totalShots,
+              accuracy: totalShots > 0 ? (bricksHit / totalShots) * 100 : 0,
+              levelSkipped,
+              finalScore: score,
+              finalLevel: level,
+              powerUpsCollected: powerUpsCollectedTypes.size,
+              bricksDestroyedByTurrets,
+              enemiesKilled,
+              bossesKilled,
+              totalPlayTime: totalPlayTime,
+              isVictory: gameState === "won",
+            }}
+          />
+          {showReplayViewer && replayRecorder.getLastReplay() && (
+            <ReplayViewer replay={replayRecorder.getLastReplay()!} onClose={() => setShowReplayViewer(false)} />
+          )}
+        </>
       ) : showHighScoreDisplay ? (
-        <HighScoreDisplay onClose={handleCloseHighScoreDisplay} initialTab={isBossRush ? "bossRush" : "normal"} />
+        <HighScoreDisplay onClose={handleCloseHighScoreDisplay} initialTab={isBossRush ? "bossRush" : settings.daily ? "daily" : "normal"} />
       ) : showBossRushScoreEntry ? (
         <BossRushScoreEntry
           score={score}
@@ -7596,27 +8068,27 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
           completed={bossRushGameOverLevel === 20}
           onSubmit={async (name) => {
             try {
-              const { supabase } = await import("@/integrations/supabase/client");
-              // Submit to boss_rush_scores table
-              const response = await supabase.functions.invoke('submit-score', {
-                body: {
-                  type: 'boss_rush',
-                  player_name: name,
-                  score: score,
-                  completion_time_ms: bossRushCompletionTime,
-                  boss_level: bossRushGameOverLevel,
-                },
+              // Submit to boss_rush_scores table (queued if the server can't be reached)
+              const status = await scoreOutbox.submit({
+                type: 'boss_rush',
+                player_name: name,
+                score: score,
+                completion_time_ms: bossRushCompletionTime,
+                boss_level: bossRushGameOverLevel,
+                splits: toSplitSubmissions(bossRushSplits),
+                run: getRunSummary(),
               });
-              if (response.error) throw response.error;
-              const result = response.data as { error?: string };
-              if (result?.error) throw new Error(result.error);
               // Also submit to main high_scores table with boss_rush game_mode
               try {
-                await addHighScore(name, score, bossRushGameOverLevel, settings.difficulty, false, false, settings.startingLives, 'boss_rush');
+                await addHighScore(name, score, bossRushGameOverLevel, settings.difficulty, false, false, settings.startingLives, 'boss_rush', getRunSummary());
               } catch (_) {
                 // Non-critical: boss rush score already saved above
               }
-              toast.success("🎉 BOSS RUSH SCORE SAVED! 🎉");
+              if (status === 'queued') {
+                toast.info("Boss Rush score saved: it will be submitted automatically once the server is reachable");
+              } else {
+                toast.success("🎉 BOSS RUSH SCORE SAVED! 🎉");
+              }
             } catch (err) {
               console.error("Failed to submit boss rush score:", err);
               toast.error("Failed to submit boss rush score");
@@ -7633,6 +8105,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
               level={level}
               onSubmit={handleHighScoreSubmit}
               qualifiedLeaderboards={qualifiedLeaderboards || undefined}
+              assisted={isAssisted}
             />
           ) : (
             <div
@@ -7992,6 +8465,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
                         : 0
                     }
                     livesRemaining={lives}
+                    splits={bossRushSplits}
                     onContinue={() => {
                       statsOverlayJustClosedRef.current = Date.now();
                       setBossRushStatsOverlayActive(false);
@@ -8047,6 +8521,11 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
                           </button>
                         )}
 
+                        {/* Sound settings (mixer, track) - top left corner */}
+                        <div className="absolute top-2 left-2">
+                          <MusicSettings gameState={gameState} setGameState={setGameState} />
+                        </div>
+
                         <h2
                           className="retro-pixel-text text-xl md:text-2xl mb-3 md:mb-6 text-center animate-pulse"
                           style={{ color: "hsl(48, 100%, 60%)" }}
@@ -8057,7 +8536,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
                         <div className="space-y-2 md:space-y-3 text-white retro-pixel-text text-xs md:text-sm">
                           <div className="border-b border-cyan-500/30 pb-2 md:pb-3 mb-2 md:mb-4">
                             <div className="flex justify-between items-center">
-                              <span className="text-cyan-300 font-bold">ESC or P</span>
+                              <span className="text-cyan-300 font-bold">{keyBindings.describe("pause")}</span>
                               <span>Resume Game</span>
                             </div>
                           </div>
@@ -8080,62 +8559,103 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
                             Game:
                           </h3>
                           <div className="flex justify-between">
-                            <span className="text-cyan-300">F</span>
+                            <span className="text-cyan-300">{keyBindings.describe("fullscreen")}</span>
                             <span>Fullscreen Toggle</span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-cyan-300">M</span>
+                            <span className="text-cyan-300">{keyBindings.describe("toggleMusic")}</span>
                             <span>Mute Music</span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-cyan-300">N</span>
+                            <span className="text-cyan-300">{keyBindings.describe("nextTrack")}</span>
                             <span>Next Track</span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-cyan-300">B</span>
+                            <span className="text-cyan-300">{keyBindings.describe("previousTrack")}</span>
                             <span>Previous Track</span>
                           </div>
+
+                          {gamepadConnected && (
+                            <>
+                              <h3 className="text-cyan-400 font-bold text-sm md:text-base mt-2 md:mt-4 mb-1 md:mb-2">
+                                Controller:
+                              </h3>
+                              <div className="flex justify-between">
+                                <span className="text-cyan-300">Left Stick/D-Pad</span>
+                                <span>Move Paddle</span>
+                              </div>
+                              <div className="flex justify-between">
+                                <span className="text-cyan-300">A</span>
+                                <span>Launch Ball</span>
+                              </div>
+                              <div className="flex justify-between">
+                                <span className="text-cyan-300">X or RT</span>
+                                <span>Fire Turrets</span>
+                              </div>
+                              <div className="flex justify-between">
+                                <span className="text-cyan-300">START</span>
+                                <span>Pause / Resume</span>
+                              </div>
+                              <div className="flex justify-between">
+                                <span className="text-cyan-300">LB / RB</span>
+                                <span>Previous / Next Track</span>
+                              </div>
+                              <GamepadSettingsPanel
+                                settings={gamepadSettings}
+                                focusedKey={
+                                  GAMEPAD_SETTING_KEYS.find((key) => key === pauseMenuItems[pauseMenuFocus]) ?? null
+                                }
+                                onAdjust={adjustGamepadSetting}
+                              />
+                            </>
+                          )}
+
+                          {isMobileDevice && (
+                            <TouchControlsPanel
+                              settings={touchSettings}
+                              onSelectScheme={selectTouchScheme}
+                              onAdjust={adjustTouchSetting}
+                              onCalibrate={calibrateTilt}
+                            />
+                          )}
+
+                          {isMobileDevice && haptics.isSupported() && (
+                            <HapticsPanel
+                              intensity={hapticIntensity}
+                              reducedMotion={haptics.isReducedMotion()}
+                              onChange={(intensity) => {
+                                haptics.setIntensity(intensity);
+                                setHapticIntensity(intensity);
+                                haptics.play("paddleHit"); // Preview
+                              }}
+                            />
+                          )}
                         </div>
 
                         <div
                           className="mt-2 md:mt-4 text-center retro-pixel-text text-[10px] md:text-xs animate-pulse"
                           style={{ color: "hsl(48, 100%, 60%)" }}
                         >
-                          Press ESC or P to continue
+                          Press {keyBindings.describe("pause")}
+                          {gamepadConnected ? " or START" : ""} to continue
                         </div>
 
                         <div className="flex gap-2 md:gap-4 mt-3 md:mt-6 w-full">
                           <Button
-                            onClick={() => {
-                              soundManager.playMenuClick();
-                              setGameState("playing");
-                              // Only resume music if it's not already playing
-                              if (!soundManager.isMusicPlaying() && !soundManager.isBossMusicPlaying()) {
-                                soundManager.resumeBackgroundMusic();
-                              }
-                              const canvas = canvasRef.current;
-                              if (canvas && canvas.requestPointerLock) {
-                                canvas.requestPointerLock();
-                              }
-                              if (gameLoopRef.current) {
-                                gameLoopRef.current.resume();
-                              }
-                            }}
+                            onClick={resumeFromPauseMenu}
                             onMouseEnter={() => soundManager.playMenuHover()}
-                            className="flex-1 bg-green-600 hover:bg-green-700 text-white text-xs md:text-sm py-2 md:py-3 retro-pixel-text"
+                            className={`flex-1 bg-green-600 hover:bg-green-700 text-white text-xs md:text-sm py-2 md:py-3 retro-pixel-text ${
+                              gamepadConnected && pauseMenuItems[pauseMenuFocus] === "resume" ? "ring-2 ring-yellow-400" : ""
+                            }`}
                           >
                             RESUME
                           </Button>
                           <Button
-                            onClick={() => {
-                              hasAutoFullscreenedRef.current = false;
-                              soundManager.stopBackgroundMusic();
-                              soundManager.stopBossMusic();
-                              soundManager.playMenuClick();
-                              onReturnToMenu();
-                            }}
+                            onClick={quitFromPauseMenu}
                             onMouseEnter={() => soundManager.playMenuHover()}
-                            className="flex-1 bg-red-600 hover:bg-red-700 text-white text-xs md:text-sm py-2 md:py-3 retro-pixel-text"
+                            className={`flex-1 bg-red-600 hover:bg-red-700 text-white text-xs md:text-sm py-2 md:py-3 retro-pixel-text ${
+                              gamepadConnected && pauseMenuItems[pauseMenuFocus] === "mainMenu" ? "ring-2 ring-yellow-400" : ""
+                            }`}
                           >
                             MAIN MENU
                           </Button>
@@ -8155,6 +8675,12 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
                   gameLoopRef={gameLoopRef}
                   musicEnabled={musicEnabled}
                   setMusicEnabled={setMusicEnabled}
+                  touchScheme={touchSettings.scheme}
+                  canLaunch={balls.some((ball) => ball.waitingToLaunch)}
+                  canFire={!!paddle?.hasTurrets}
+                  onLaunch={handleTouchLaunch}
+                  onFire={handleTouchFire}
+                  onSliderMove={handleSliderMove}
                   showFullscreenPrompt={showFullscreenPrompt}
                   onFullscreenPromptClick={handleFullscreenPromptClick}
                   showDebugDashboard={showDebugDashboard}
@@ -8238,7 +8764,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
                 >
                   {/* Control Buttons */}
                   <div className="flex flex-col gap-2 mb-4">
-                    <button onClick={onReturnToMenu} className="right-panel-btn" title="Return to Main Menu">
+                    <button onClick={quitToMenu} className="right-panel-btn" title="Return to Main Menu">
                       <Home size={20} />
                     </button>
                     {!isIOSDevice && (
@@ -8331,7 +8857,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
                     )}
 
                     {/* Hit Streak - Only show on boss levels */}
-                    {(BOSS_LEVELS.includes(level) || level === MEGA_BOSS_LEVEL) && (
+                    {levelHasBoss(level) && (
                       <>
                         <div className="right-stat-box">
                           <div className="right-stat-label" style={{ color: "hsl(48, 90%, 55%)" }}>
@@ -8521,7 +9047,7 @@ export const Game = ({ settings, onReturnToMenu }: GameProps) => {
                         </span>
                       </div>
                     )}
-                    {(BOSS_LEVELS.includes(level) || level === MEGA_BOSS_LEVEL) && hitStreak > 0 && (
+                    {levelHasBoss(level) && hitStreak > 0 && (
                       <div
                         className={`retro-pixel-text text-xs ${hitStreak >= 5 ? "animate-pulse" : ""}`}
                         style={{ color: "hsl(48, 100%, 60%)" }}
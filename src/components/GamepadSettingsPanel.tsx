@@ -0,0 +1,59 @@
+import { Gamepad2, Minus, Plus } from "lucide-react";
+import { GAMEPAD_SETTING_KEYS, GAMEPAD_SETTING_RANGES, type GamepadSettings } from "@/utils/gamepadInput";
+
+const SETTING_LABELS: Record<keyof GamepadSettings, string> = {
+  deadzone: "Stick Deadzone",
+  sensitivity: "Sensitivity",
+  acceleration: "Acceleration",
+};
+
+const formatValue = (key: keyof GamepadSettings, value: number) =>
+  key === "deadzone" ? `${Math.round(value * 100)}%` : key === "sensitivity" ? `${value.toFixed(1)}x` : `${value}`;
+
+interface GamepadSettingsPanelProps {
+  settings: GamepadSettings;
+  focusedKey: keyof GamepadSettings | null; // Row highlighted by controller navigation
+  onAdjust: (key: keyof GamepadSettings, direction: -1 | 1) => void;
+}
+
+export const GamepadSettingsPanel = ({ settings, focusedKey, onAdjust }: GamepadSettingsPanelProps) => {
+  return (
+    <div className="mt-2 md:mt-4">
+      <h3 className="text-cyan-400 font-bold text-sm md:text-base mb-1 md:mb-2 flex items-center gap-2">
+        <Gamepad2 size={16} /> Gamepad:
+      </h3>
+      {GAMEPAD_SETTING_KEYS.map((key) => {
+        const { min, max } = GAMEPAD_SETTING_RANGES[key];
+        return (
+          <div
+            key={key}
+            className={`flex justify-between items-center px-1 rounded ${
+              focusedKey === key ? "ring-2 ring-yellow-400 bg-cyan-500/10" : ""
+            }`}
+          >
+            <span className="text-cyan-300">{SETTING_LABELS[key]}</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => onAdjust(key, -1)}
+                disabled={settings[key] <= min}
+                className="p-1 hover:text-cyan-300 disabled:opacity-30"
+                title={`Decrease ${SETTING_LABELS[key]}`}
+              >
+                <Minus size={14} />
+              </button>
+              <span className="w-10 text-center">{formatValue(key, settings[key])}</span>
+              <button
+                onClick={() => onAdjust(key, 1)}
+                disabled={settings[key] >= max}
+                className="p-1 hover:text-cyan-300 disabled:opacity-30"
+                title={`Increase ${SETTING_LABELS[key]}`}
+              >
+                <Plus size={14} />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import { Vibrate } from "lucide-react";
+import { HAPTIC_INTENSITIES, type HapticIntensity } from "@/utils/haptics";
+
+const INTENSITY_LABELS: Record<HapticIntensity, string> = {
+  off: "Off",
+  low: "Low",
+  medium: "Med",
+  high: "High",
+};
+
+interface HapticsPanelProps {
+  intensity: HapticIntensity;
+  reducedMotion: boolean; // Vibration is off regardless (Accessibility / OS setting)
+  onChange: (intensity: HapticIntensity) => void;
+}
+
+export const HapticsPanel = ({ intensity, reducedMotion, onChange }: HapticsPanelProps) => {
+  return (
+    <div className="mt-2 md:mt-4">
+      <h3 className="text-cyan-400 font-bold text-sm md:text-base mb-1 md:mb-2 flex items-center gap-2">
+        <Vibrate size={16} /> Vibration:
+      </h3>
+      <div className="grid grid-cols-4 gap-1">
+        {HAPTIC_INTENSITIES.map((level) => (
+          <button
+            key={level}
+            onClick={() => onChange(level)}
+            disabled={reducedMotion}
+            className={`py-1 rounded border text-[10px] md:text-xs disabled:opacity-30 ${
+              intensity === level ? "border-yellow-400 text-yellow-300 bg-cyan-500/10" : "border-cyan-500/40 text-white"
+            }`}
+          >
+            {INTENSITY_LABELS[level]}
+          </button>
+        ))}
+      </div>
+      {reducedMotion && (
+        <p className="text-slate-400 text-[10px] md:text-xs mt-1">Off while reduced motion is on</p>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,19 @@
 import { useEffect, useRef, useState } from "react";
 import { Button } from "./ui/button";
-import { useHighScores, type LeaderboardType, type DifficultyFilter } from "@/hooks/useHighScores";
-import { useBossRushScores } from "@/hooks/useBossRushScores";
+import type { LeaderboardType, DifficultyFilter } from "@/hooks/useHighScores";
+import { useDailyScores } from "@/hooks/useDailyScores";
 import { useSwipeGesture } from "@/hooks/useSwipeGesture";
+import { usePendingScores } from "@/hooks/usePendingScores";
+import { HighScoreTable } from "./HighScoreTable";
+import { BossRushLeaderboard } from "./BossRushLeaderboard";
+import { BossKillLeaderboard } from "./BossKillLeaderboard";
+import { PendingScoreRows } from "./PendingScoreRows";
+import { BOSS_RUSH_CONFIG, type BossRushLevel } from "@/constants/bossRushConfig";
 import { X } from "lucide-react";
 
-type TabType = 'normal' | 'bossRush';
+type TabType = 'normal' | 'assisted' | 'daily' | 'bossRush';
+/** Whole runs, or the fastest kills of one boss */
+type BossRushBoard = 'runs' | BossRushLevel;
 
 interface HighScoreDisplayProps {
   onClose: () => void;
@@ -17,8 +25,11 @@ export const HighScoreDisplay = ({ onClose, leaderboardType = 'all-time', initia
   const [activeTab, setActiveTab] = useState<TabType>(initialTab);
   const [selectedType, setSelectedType] = useState<LeaderboardType>(leaderboardType);
   const [difficultyFilter, setDifficultyFilter] = useState<DifficultyFilter>('all');
-  const { highScores: currentScores, isLoading: currentLoading } = useHighScores(selectedType, difficultyFilter);
-  const { scores: bossRushScores, isLoading: bossRushLoading, formatTime } = useBossRushScores();
+  const [bossRushBoard, setBossRushBoard] = useState<BossRushBoard>('runs');
+  const { scores: dailyScores, isLoading: dailyLoading, refetch: refetchDaily } = useDailyScores();
+  // Queued submissions show as "pending" until the outbox sends them, then the list reloads
+  // (the campaign and Boss Rush tables track their own)
+  const pendingDaily = usePendingScores(refetchDaily).filter((entry) => entry.body.type === 'daily');
   const containerRef = useRef<HTMLDivElement>(null);
 
   // Swipe gesture for mobile back navigation
@@ -63,6 +74,20 @@ export const HighScoreDisplay = ({ onClose, leaderboardType = 'all-time', initia
             >
               CAMPAIGN
             </Button>
+            <Button
+              onClick={() => setActiveTab('assisted')}
+              variant={activeTab === 'assisted' ? 'default' : 'outline'}
+              className={`px-6 py-2 text-sm font-bold ${activeTab === 'assisted' ? 'bg-sky-600 hover:bg-sky-500' : ''}`}
+            >
+              🛟 ASSISTED
+            </Button>
+            <Button
+              onClick={() => setActiveTab('daily')}
+              variant={activeTab === 'daily' ? 'default' : 'outline'}
+              className={`px-6 py-2 text-sm font-bold ${activeTab === 'daily' ? 'bg-emerald-600 hover:bg-emerald-500' : ''}`}
+            >
+              📅 DAILY CHALLENGE
+            </Button>
             <Button
               onClick={() => setActiveTab('bossRush')}
               variant={activeTab === 'bossRush' ? 'default' : 'outline'}
@@ -72,9 +97,15 @@ export const HighScoreDisplay = ({ onClose, leaderboardType = 'all-time', initia
             </Button>
           </div>
 
-          {activeTab === 'normal' && (
+          {(activeTab === 'normal' || activeTab === 'assisted') && (
             <>
-              {/* Time filter for normal mode */}
+              {activeTab === 'assisted' && (
+                <div className="text-center text-sky-400 text-sm mb-4 font-mono">
+                  RUNS WITH SLOWER SPEED, WIDER PADDLE, TRAJECTORY PREVIEW OR INFINITE LIVES
+                </div>
+              )}
+
+              {/* Time filter for campaign modes */}
               <div className="flex justify-center gap-2 mb-6">
                 <Button
                   onClick={() => setSelectedType('all-time')}
@@ -124,31 +155,32 @@ export const HighScoreDisplay = ({ onClose, leaderboardType = 'all-time', initia
                 </Button>
               </div>
 
+              <HighScoreTable
+                leaderboardType={selectedType}
+                difficultyFilter={difficultyFilter}
+                assisted={activeTab === 'assisted'}
+              />
+            </>
+          )}
+
+          {activeTab === 'daily' && (
+            <>
+              <div className="text-center text-emerald-400 text-sm mb-4 font-mono">
+                TODAY'S CHALLENGE (UTC)
+              </div>
+
               <div className="space-y-2 mb-8 max-h-[50vh] overflow-y-auto smooth-scroll custom-scrollbar">
-                {currentLoading ? (
+                <PendingScoreRows entries={pendingDaily} />
+                {dailyLoading ? (
                   <div className="text-center text-slate-400 py-12">Loading scores...</div>
-                ) : currentScores.length === 0 ? (
-                  <div className="text-center text-slate-500 py-12">No scores yet!</div>
+                ) : dailyScores.length === 0 ? (
+                  <div className="text-center text-slate-500 py-12">No scores yet! Be the first!</div>
                 ) : (
-                  currentScores.map((entry, index) => (
-                    <div key={entry.id || index} className="grid grid-cols-[auto_1fr_auto_auto] gap-2 sm:gap-3 md:gap-4 items-center text-[10px] sm:text-xs md:text-sm lg:text-xl px-2 sm:px-3 md:px-4 py-1 sm:py-2 bg-slate-800/60 rounded-lg border border-cyan-500/30">
-                      <span className="text-cyan-300">{index + 1}.</span>
-                      
-                      <div className="flex flex-col min-w-0">
-                        <span className="text-white font-bold flex items-center gap-1 truncate">
-                          {entry.beatLevel50 && <span>👑</span>}
-                          <span className="truncate">{entry.name}</span>
-                        </span>
-                        {entry.difficulty === "godlike" && (
-                          <span className="text-red-500 text-[8px] sm:text-[9px] md:text-[10px] font-bold leading-tight">GOD-MODE</span>
-                        )}
-                        {entry.gameMode === "boss_rush" && (
-                          <span className="text-orange-400 text-[8px] sm:text-[9px] md:text-[10px] font-bold leading-tight">BOSS RUSH</span>
-                        )}
-                      </div>
-                      
+                  dailyScores.map((entry, index) => (
+                    <div key={entry.id || index} className="grid grid-cols-[auto_1fr_auto_auto] gap-2 sm:gap-3 md:gap-4 items-center text-[10px] sm:text-xs md:text-sm lg:text-xl px-2 sm:px-3 md:px-4 py-1 sm:py-2 bg-slate-800/60 rounded-lg border border-emerald-500/30">
+                      <span className="text-emerald-300">{index + 1}.</span>
+                      <span className="text-white font-bold truncate">{entry.name}</span>
                       <span className="text-white font-bold text-right tabular-nums">{entry.score.toString().padStart(6, '0')}</span>
-                      
                       <span className="text-white text-right whitespace-nowrap">LVL{entry.level}</span>
                     </div>
                   ))
@@ -160,34 +192,35 @@ export const HighScoreDisplay = ({ onClose, leaderboardType = 'all-time', initia
           {activeTab === 'bossRush' && (
             <>
               <div className="text-center text-orange-400 text-sm mb-4 font-mono">
-                🏆 BOSS RUSH SCORES 🏆
+                {bossRushBoard === 'runs' ? '🏆 BOSS RUSH SCORES 🏆' : `⚡ FASTEST ${BOSS_RUSH_CONFIG.bossNames[bossRushBoard]} KILLS ⚡`}
               </div>
-              
-              <div className="space-y-2 mb-8 max-h-[50vh] overflow-y-auto smooth-scroll custom-scrollbar">
-                {bossRushLoading ? (
-                  <div className="text-center text-slate-400 py-12">Loading scores...</div>
-                ) : bossRushScores.length === 0 ? (
-                  <div className="text-center text-slate-500 py-12">No scores yet! Be the first!</div>
-                ) : (
-                  bossRushScores.map((entry, index) => (
-                    <div key={entry.id || index} className="flex items-center gap-2 sm:gap-3 text-xs sm:text-sm md:text-base px-2 sm:px-3 py-1.5 sm:py-2 bg-slate-800/60 rounded-lg border border-red-500/30 whitespace-nowrap overflow-x-auto">
-                      <span className="text-red-300 font-bold flex-shrink-0 w-6 sm:w-8">
-                        {index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`}
-                      </span>
-                      
-                      <span className="text-orange-400 font-bold flex-shrink-0 w-10 sm:w-14">{entry.name}</span>
-                      
-                      <span className="text-amber-300 font-bold tabular-nums flex-1 text-right">
-                        {entry.score}
-                      </span>
-                      
-                      <span className="text-cyan-300 tabular-nums flex-shrink-0">
-                        ⏱️{formatTime(entry.completionTimeMs)}
-                      </span>
-                    </div>
-                  ))
-                )}
+
+              {/* Board switcher: whole runs or one boss's fastest kills */}
+              <div className="flex flex-wrap justify-center gap-2 mb-4">
+                <Button
+                  onClick={() => setBossRushBoard('runs')}
+                  variant={bossRushBoard === 'runs' ? 'default' : 'outline'}
+                  className="px-3 py-1 text-xs font-bold"
+                >
+                  FULL RUN
+                </Button>
+                {BOSS_RUSH_CONFIG.bossOrder.map((bossLevel) => (
+                  <Button
+                    key={bossLevel}
+                    onClick={() => setBossRushBoard(bossLevel)}
+                    variant={bossRushBoard === bossLevel ? 'default' : 'outline'}
+                    className="px-3 py-1 text-xs font-bold"
+                  >
+                    {BOSS_RUSH_CONFIG.bossNames[bossLevel]}
+                  </Button>
+                ))}
               </div>
+
+              {bossRushBoard === 'runs' ? (
+                <BossRushLeaderboard />
+              ) : (
+                <BossKillLeaderboard bossLevel={bossRushBoard} />
+              )}
             </>
           )}
 
@@ -10,9 +10,10 @@ interface HighScoreEntryProps {
     weekly: boolean;
     allTime: boolean;
   };
+  assisted?: boolean; // Run used assists: goes on the Assisted leaderboard
 }
 
-export const HighScoreEntry = ({ score, level, onSubmit, qualifiedLeaderboards }: HighScoreEntryProps) => {
+export const HighScoreEntry = ({ score, level, onSubmit, qualifiedLeaderboards, assisted = false }: HighScoreEntryProps) => {
   const [name, setName] = useState("");
   const [displayScore, setDisplayScore] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -106,7 +107,9 @@ export const HighScoreEntry = ({ score, level, onSubmit, qualifiedLeaderboards }
         {/* Qualification badges */}
         {qualifiedLeaderboards && (
           <div className="mb-4">
-            <div className="text-xl text-pink-300 mb-2 font-mono">YOU QUALIFIED FOR:</div>
+            <div className="text-xl text-pink-300 mb-2 font-mono">
+              {assisted ? "YOU QUALIFIED FOR (ASSISTED):" : "YOU QUALIFIED FOR:"}
+            </div>
             <div className="flex justify-center gap-4 flex-wrap">
               {qualifiedLeaderboards.daily && (
                 <div className="px-4 py-2 bg-cyan-500/20 border-2 border-cyan-400 rounded-lg animate-pulse">
@@ -1,49 +1,173 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import {
+  LEADERBOARD_PAGE_SIZE,
+  useHighScores,
+  type DifficultyFilter,
+  type HighScoreGameModeFilter,
+  type LeaderboardType,
+} from "@/hooks/useHighScores";
+import { usePendingScores } from "@/hooks/usePendingScores";
+import { playerProfile } from "@/utils/playerProfile";
+import { PendingScoreRows } from "./PendingScoreRows";
+import { LeaderboardPager, LeaderboardSearch } from "./LeaderboardControls";
+
 interface HighScoreTableProps {
-  scores: Array<{ name: string; score: number; level: number; difficulty?: string; beatLevel50?: boolean; collectedAllLetters?: boolean; startingLives?: number; gameMode?: string }>;
+  leaderboardType: LeaderboardType;
+  difficultyFilter: DifficultyFilter;
+  assisted: boolean;
 }
 
-export const HighScoreTable = ({ scores }: HighScoreTableProps) => {
+const GAME_MODE_OPTIONS: { value: HighScoreGameModeFilter; label: string }[] = [
+  { value: 'all', label: 'ALL MODES' },
+  { value: 'campaign', label: 'CAMPAIGN' },
+  { value: 'endless', label: 'ENDLESS' },
+  { value: 'boss_rush', label: 'BOSS RUSH' },
+];
+
+const STARTING_LIVES_OPTIONS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+/**
+ * Campaign / Assisted leaderboard for the High Scores screen: one page at a
+ * time, with name search, mode / starting lives / QUMRAN filters and a
+ * best-per-player view. Time and difficulty filters come from the screen.
+ */
+export const HighScoreTable = ({ leaderboardType, difficultyFilter, assisted }: HighScoreTableProps) => {
+  const [page, setPage] = useState(0);
+  const [search, setSearch] = useState('');
+  const [gameMode, setGameMode] = useState<HighScoreGameModeFilter>('all');
+  const [startingLives, setStartingLives] = useState<number | null>(null);
+  const [collectedAllLetters, setCollectedAllLetters] = useState(false);
+  const [bestPerPlayer, setBestPerPlayer] = useState(false);
+  const {
+    highScores: scores,
+    totalCount,
+    pageCount,
+    playerRank,
+    isLoading,
+    refetch,
+  } = useHighScores(leaderboardType, difficultyFilter, assisted, {
+    page,
+    search,
+    gameMode,
+    startingLives,
+    collectedAllLetters,
+    bestPerPlayer,
+  });
+  const myPlayerId = playerProfile.getId();
+  // Queued submissions show as "pending" until the outbox sends them, then the page reloads
+  const pendingScores = usePendingScores(refetch).filter(
+    (entry) => entry.body.type === 'high_score' && !!entry.body.assisted === assisted
+  );
+
+  // Any filter change starts over from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [leaderboardType, difficultyFilter, assisted, search, gameMode, startingLives, collectedAllLetters, bestPerPlayer]);
+
+  // Rows deleted since the last page count can leave us past the end
+  useEffect(() => {
+    if (!isLoading && page >= pageCount) setPage(pageCount - 1);
+  }, [isLoading, page, pageCount]);
+
+  const handleSearch = useCallback((value: string) => setSearch(value), []);
+
   return (
-    <div className="bg-slate-900/80 rounded-lg p-6 border-2 border-cyan-500/30 w-full max-w-md max-h-[80vh] overflow-y-auto">
-      <h2 className="text-3xl font-bold text-center mb-4 text-cyan-400 font-mono">
-        HIGH SCORES
-      </h2>
-      <div className="space-y-2">
-        {scores.map((entry, index) => (
-          <div
-            key={index}
-            className="flex justify-between items-center font-mono text-lg px-3 py-2 bg-slate-800/50 rounded border border-cyan-500/20"
+    <>
+      <div className="flex flex-wrap justify-center items-center gap-2 mb-4">
+        <LeaderboardSearch onSearch={handleSearch} />
+        {GAME_MODE_OPTIONS.map((option) => (
+          <Button
+            key={option.value}
+            onClick={() => setGameMode(option.value)}
+            variant={gameMode === option.value ? 'default' : 'outline'}
+            className="px-3 py-1 text-xs font-bold"
           >
-            <span className="text-cyan-300 w-8">{index + 1}.</span>
-            <span className="text-pink-400 font-bold text-center flex items-center gap-1">
-              {entry.beatLevel50 && <span>👑</span>}
-              {entry.collectedAllLetters && <span className="text-yellow-400">⭐</span>}
-              <span>{entry.name}</span>
-              {entry.difficulty === "godlike" && (
-                <span className="text-red-500 text-[10px] font-bold" style={{ fontFamily: 'monospace' }}>
-                  GOD-MODE
-                </span>
-              )}
-              {entry.gameMode === "boss_rush" && (
-                <span className="text-orange-400 text-[10px] font-bold" style={{ fontFamily: 'monospace' }}>
-                  BOSS RUSH
-                </span>
-              )}
-            </span>
-            <span className="text-amber-300 flex-1 text-right">
-              {entry.score.toLocaleString()}
-            </span>
-            <span className="text-purple-400 w-20 text-right text-sm">
-              LVL {entry.level}
-            </span>
-          </div>
+            {option.label}
+          </Button>
         ))}
-        {scores.length === 0 && (
-          <div className="text-center text-slate-500 py-8 font-mono">
-            No scores yet!
-          </div>
+      </div>
+
+      <div className="flex flex-wrap justify-center items-center gap-2 mb-6">
+        <select
+          value={startingLives ?? ''}
+          onChange={(e) => setStartingLives(e.target.value ? Number(e.target.value) : null)}
+          aria-label="Starting lives"
+          className="rounded-md px-2 py-1 text-xs font-bold bg-slate-800/80 border border-cyan-500/40 text-white"
+        >
+          <option value="">ANY LIVES</option>
+          {STARTING_LIVES_OPTIONS.map((lives) => (
+            <option key={lives} value={lives}>
+              {lives} {lives === 1 ? 'LIFE' : 'LIVES'}
+            </option>
+          ))}
+        </select>
+        <Button
+          onClick={() => setCollectedAllLetters((v) => !v)}
+          variant={collectedAllLetters ? 'default' : 'outline'}
+          className="px-3 py-1 text-xs font-bold"
+        >
+          {collectedAllLetters ? '⭐ QUMRAN ONLY' : 'ANY LETTERS'}
+        </Button>
+        <Button
+          onClick={() => setBestPerPlayer((v) => !v)}
+          variant={bestPerPlayer ? 'default' : 'outline'}
+          className="px-3 py-1 text-xs font-bold"
+        >
+          {bestPerPlayer ? '👤 BEST PER PLAYER' : 'EVERY ENTRY'}
+        </Button>
+      </div>
+
+      <div className="space-y-2 mb-8 max-h-[50vh] overflow-y-auto smooth-scroll custom-scrollbar">
+        {page === 0 && <PendingScoreRows entries={pendingScores} />}
+        {isLoading ? (
+          <div className="text-center text-slate-400 py-12">Loading scores...</div>
+        ) : scores.length === 0 ? (
+          <div className="text-center text-slate-500 py-12">{search ? `No scores for "${search}"` : 'No scores yet!'}</div>
+        ) : (
+          scores.map((entry, index) => (
+            <div key={entry.id || index} className={`grid grid-cols-[auto_1fr_auto_auto] gap-2 sm:gap-3 md:gap-4 items-center text-[10px] sm:text-xs md:text-sm lg:text-xl px-2 sm:px-3 md:px-4 py-1 sm:py-2 rounded-lg border ${entry.playerId === myPlayerId ? 'bg-cyan-900/50 border-amber-400/60' : 'bg-slate-800/60 border-cyan-500/30'}`}>
+              <span className="text-cyan-300">{page * LEADERBOARD_PAGE_SIZE + index + 1}.</span>
+
+              <div className="flex flex-col min-w-0">
+                <span className="text-white font-bold flex items-center gap-1 truncate">
+                  {entry.beatLevel50 && <span>👑</span>}
+                  {entry.collectedAllLetters && <span className="text-yellow-400" title="QUMRAN complete">⭐</span>}
+                  <span className="truncate">{entry.name}</span>
+                </span>
+                {entry.difficulty === "godlike" && (
+                  <span className="text-red-500 text-[8px] sm:text-[9px] md:text-[10px] font-bold leading-tight">GOD-MODE</span>
+                )}
+                {entry.gameMode === "boss_rush" && (
+                  <span className="text-orange-400 text-[8px] sm:text-[9px] md:text-[10px] font-bold leading-tight">BOSS RUSH</span>
+                )}
+                {entry.gameMode === "endless" && (
+                  <span className="text-purple-400 text-[8px] sm:text-[9px] md:text-[10px] font-bold leading-tight">ENDLESS</span>
+                )}
+              </div>
+
+              <span className="text-white font-bold text-right tabular-nums">{entry.score.toString().padStart(6, '0')}</span>
+
+              <span className="text-white text-right whitespace-nowrap">LVL{entry.level}</span>
+            </div>
+          ))
         )}
       </div>
-    </div>
+
+      <LeaderboardPager page={page} pageCount={pageCount} totalCount={totalCount} onPageChange={setPage} />
+
+      {/* Your rank: this device's best entry on the board, on any page */}
+      {!isLoading && (
+        <div className="text-center text-sm font-mono mb-6 -mt-4">
+          {playerRank ? (
+            <span className="text-amber-300">
+              YOUR RANK: #{playerRank.rank} of {playerRank.total} · {playerRank.score.toLocaleString()}
+            </span>
+          ) : (
+            <span className="text-slate-500">No entry from you on this board yet</span>
+          )}
+        </div>
+      )}
+    </>
   );
 };
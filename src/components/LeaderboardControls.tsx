@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Player name search box; reports the search once typing pauses
+ */
+export const LeaderboardSearch = ({ onSearch }: { onSearch: (search: string) => void }) => {
+  const [value, setValue] = useState("");
+
+  useEffect(() => {
+    const timer = setTimeout(() => onSearch(value.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [value, onSearch]);
+
+  return (
+    <input
+      type="search"
+      value={value}
+      onChange={(e) => setValue(e.target.value.replace(/[^A-Za-z0-9]/g, "").slice(0, 10))}
+      placeholder="SEARCH PLAYER"
+      aria-label="Search player name"
+      className="w-40 rounded-md px-2 py-1 text-xs font-mono uppercase bg-slate-800/80 border border-cyan-500/40 text-white placeholder:text-slate-500 focus:outline-none focus:border-cyan-400"
+    />
+  );
+};
+
+/**
+ * Previous / next page buttons with the current position
+ */
+export const LeaderboardPager = ({
+  page,
+  pageCount,
+  totalCount,
+  onPageChange,
+}: {
+  page: number; // Zero-based
+  pageCount: number;
+  totalCount: number;
+  onPageChange: (page: number) => void;
+}) => {
+  if (pageCount <= 1) return null;
+  return (
+    <div className="flex justify-center items-center gap-3 mb-6 -mt-4 font-mono text-xs">
+      <Button
+        onClick={() => onPageChange(page - 1)}
+        disabled={page === 0}
+        variant="outline"
+        className="px-3 py-1 text-xs font-bold"
+      >
+        ◀ PREV
+      </Button>
+      <span className="text-slate-400">
+        PAGE {page + 1} / {pageCount} · {totalCount.toLocaleString()} TOTAL
+      </span>
+      <Button
+        onClick={() => onPageChange(page + 1)}
+        disabled={page >= pageCount - 1}
+        variant="outline"
+        className="px-3 py-1 text-xs font-bold"
+      >
+        NEXT ▶
+      </Button>
+    </div>
+  );
+};
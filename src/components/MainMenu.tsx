@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import type { GameSettings, Difficulty, GameMode } from "@/types/game";
@@ -10,6 +11,10 @@ import startScreenImg from "@/assets/start-screen-new.png";
 import startScreenWebp from "@/assets/start-screen-new.webp";
 import { HighScoreDisplay } from "./HighScoreDisplay";
 import { Changelog } from "./Changelog";
+import { ControlsPanel } from "./ControlsPanel";
+import { AccessibilityPanel } from "./AccessibilityPanel";
+import { PracticeMenu } from "./PracticeMenu";
+import { MyStatsPanel } from "./MyStatsPanel";
 import CRTOverlay from "./CRTOverlay";
 import { soundManager } from "@/utils/sounds";
 import { useNavigate } from "react-router-dom";
@@ -23,6 +28,20 @@ import { useTutorial } from "@/hooks/useTutorial";
 import { useLevelProgress } from "@/hooks/useLevelProgress";
 import { FINAL_LEVEL, ENABLE_DEBUG_FEATURES, ENABLE_HIGH_QUALITY } from "@/constants/game";
 import { BOSS_RUSH_CONFIG } from "@/constants/bossRushConfig";
+import { ReplayViewer } from "./ReplayViewer";
+import { parseReplay, type ReplayData } from "@/engine/replay";
+import { loadSavedLevelPacks, type LevelPack } from "@/engine/levelPack";
+import { getDailyChallenge, getDailyStartingLives, DAILY_MUTATORS } from "@/engine/dailyChallenge";
+import {
+  NO_ASSISTS,
+  ASSIST_GAME_SPEED_RANGE,
+  ASSIST_PADDLE_WIDTH_BONUSES,
+  isAssistedRun,
+  type AssistSettings,
+} from "@/engine/assists";
+import { powerUpImages } from "@/utils/powerUpImages";
+import { keyBindings } from "@/utils/keyBindings";
+import { alwaysToast as toast } from "@/utils/debugToast";
 
 interface MainMenuProps {
   onStartGame: (settings: GameSettings) => void;
@@ -38,13 +57,30 @@ export const MainMenu = ({ onStartGame }: MainMenuProps) => {
   const [showAbout, setShowAbout] = useState(false);
   const [showPressToStart, setShowPressToStart] = useState(true);
   const [showChangelog, setShowChangelog] = useState(false);
+  const [showControls, setShowControls] = useState(false);
+  const [showAccessibility, setShowAccessibility] = useState(false);
+  const [showPractice, setShowPractice] = useState(false);
+  const [showMyStats, setShowMyStats] = useState(false);
   const [showWhatsNew, setShowWhatsNew] = useState(false);
+  const [loadedReplay, setLoadedReplay] = useState<ReplayData | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [levelPacks] = useState<LevelPack[]>(() => loadSavedLevelPacks());
+  const [selectedPackId, setSelectedPackId] = useState(""); // "" = built-in campaign
+  // Packs only apply to Normal mode (Endless always continues the built-in campaign)
+  const selectedPack = gameMode === "normal" ? (levelPacks.find((p) => p.id === selectedPackId) ?? null) : null;
+  const finalLevel = selectedPack ? selectedPack.levels.length : FINAL_LEVEL;
+  const [dailyChallenge, setDailyChallenge] = useState(() => getDailyChallenge());
+  const [assists, setAssists] = useState<AssistSettings>(NO_ASSISTS);
+  // Assists only apply to the campaign modes (Daily Challenge and Boss Rush keep fixed rules)
+  const assistsAvailable = gameMode === "normal" || gameMode === "endless";
 
   // Starting level state
   const [startingLevel, setStartingLevel] = useState(1);
   const [showLockedMessage, setShowLockedMessage] = useState(false);
   const lockedMessageTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const { maxLevelReached, isLevelUnlocked } = useLevelProgress();
+  const { maxLevelReached, isLevelUnlocked: isCampaignLevelUnlocked } = useLevelProgress();
+  // Custom packs are fully unlocked; progress only applies to the built-in campaign
+  const isLevelUnlocked = (level: number) => !!selectedPack || isCampaignLevelUnlocked(level);
 
   // Refs for swipe gesture detection
   const highScoresRef = useRef<HTMLDivElement>(null);
@@ -88,19 +124,52 @@ export const MainMenu = ({ onStartGame }: MainMenuProps) => {
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [navigate, showInstructions, showHighScores, showAbout, showChangelog, showWhatsNew, showPressToStart]);
 
+  // A menu left open over UTC midnight shows the new day's challenge
+  useEffect(() => {
+    const now = new Date();
+    const nextUtcDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+    const timeout = setTimeout(() => setDailyChallenge(getDailyChallenge()), nextUtcDay - now.getTime());
+    return () => clearTimeout(timeout);
+  }, [dailyChallenge]);
+
   const handleStart = () => {
+    // Same seed, starting level and modifiers for every player on this UTC day
+    if (gameMode === "daily") {
+      // Today's, even if the timer above hasn't caught up yet
+      const challenge = getDailyChallenge();
+      onStartGame({
+        startingLives: getDailyStartingLives(challenge),
+        difficulty: "normal",
+        startingLevel: challenge.startingLevel,
+        gameMode,
+        seed: challenge.seed,
+        daily: challenge,
+      });
+      return;
+    }
     const settings: GameSettings = {
       startingLives: gameMode === "bossRush" ? BOSS_RUSH_CONFIG.startingLives : difficulty === "godlike" ? 1 : 3,
       difficulty,
       startingLevel: gameMode === "bossRush" ? BOSS_RUSH_CONFIG.bossOrder[0] : startingLevel,
       gameMode,
+      ...(selectedPack ? { levelPack: selectedPack } : {}),
+      ...(assistsAvailable && isAssistedRun(assists) ? { assists } : {}),
     };
     onStartGame(settings);
   };
 
+  const handleReplayFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setLoadedReplay(parseReplay(await file.text()));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not load replay");
+    }
+  };
+
   const handleLevelChange = (delta: number) => {
     const newLevel = startingLevel + delta;
-    if (newLevel < 1 || newLevel > FINAL_LEVEL) return;
+    if (newLevel < 1 || newLevel > finalLevel) return;
 
     soundManager.playMenuClick();
     setStartingLevel(newLevel);
@@ -162,6 +231,10 @@ export const MainMenu = ({ onStartGame }: MainMenuProps) => {
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [showHighScores, showChangelog, showWhatsNew, showAbout, showInstructions]);
 
+  if (loadedReplay) {
+    return <ReplayViewer replay={loadedReplay} onClose={() => setLoadedReplay(null)} />;
+  }
+
   if (showHighScores) {
     return (
       <div
@@ -178,6 +251,31 @@ export const MainMenu = ({ onStartGame }: MainMenuProps) => {
     return <Changelog onClose={() => setShowChangelog(false)} quality={quality} qualitySettings={qualitySettings} />;
   }
 
+  if (showControls) {
+    return <ControlsPanel onClose={() => setShowControls(false)} quality={quality} qualitySettings={qualitySettings} />;
+  }
+
+  if (showAccessibility) {
+    return (
+      <AccessibilityPanel onClose={() => setShowAccessibility(false)} quality={quality} qualitySettings={qualitySettings} />
+    );
+  }
+
+  if (showPractice) {
+    return (
+      <PracticeMenu
+        onClose={() => setShowPractice(false)}
+        onStartGame={onStartGame}
+        quality={quality}
+        qualitySettings={qualitySettings}
+      />
+    );
+  }
+
+  if (showMyStats) {
+    return <MyStatsPanel onClose={() => setShowMyStats(false)} quality={quality} qualitySettings={qualitySettings} />;
+  }
+
   if (showWhatsNew) {
     return (
       <div
@@ -447,8 +545,10 @@ export const MainMenu = ({ onStartGame }: MainMenuProps) => {
                   to capture mouse)
                 </li>
                 <li>
-                  <span className="font-mono bg-black/30 px-1 py-0.5 rounded text-xs">←→ / A/D / Scroll</span> - Adjust
-                  launch angle
+                  <span className="font-mono bg-black/30 px-1 py-0.5 rounded text-xs">
+                    {keyBindings.describe("aimLeft", "/")} {keyBindings.describe("aimRight", "/")} / Scroll
+                  </span>{" "}
+                  - Adjust launch angle
                 </li>
                 <li>
                   <span className="font-mono bg-black/30 px-1 py-0.5 rounded text-xs">Click / Space</span> - Launch ball
@@ -458,17 +558,28 @@ export const MainMenu = ({ onStartGame }: MainMenuProps) => {
                   <span className="font-mono bg-black/30 px-1 py-0.5 rounded text-xs">ESC</span> - Release mouse capture
                 </li>
                 <li>
-                  <span className="font-mono bg-black/30 px-1 py-0.5 rounded text-xs">F</span> - Toggle fullscreen
+                  <span className="font-mono bg-black/30 px-1 py-0.5 rounded text-xs">
+                    {keyBindings.describe("fullscreen", " / ")}
+                  </span>{" "}
+                  - Toggle fullscreen
                 </li>
                 <li>
-                  <span className="font-mono bg-black/30 px-1 py-0.5 rounded text-xs">P</span> - Pause game
+                  <span className="font-mono bg-black/30 px-1 py-0.5 rounded text-xs">
+                    {keyBindings.describe("pause", " / ")}
+                  </span>{" "}
+                  - Pause game
                 </li>
                 <li>
-                  <span className="font-mono bg-black/30 px-1 py-0.5 rounded text-xs">N / B</span> - Next/Previous music
-                  track
+                  <span className="font-mono bg-black/30 px-1 py-0.5 rounded text-xs">
+                    {keyBindings.describe("nextTrack", "/")} / {keyBindings.describe("previousTrack", "/")}
+                  </span>{" "}
+                  - Next/Previous music track
                 </li>
                 <li>
-                  <span className="font-mono bg-black/30 px-1 py-0.5 rounded text-xs">M</span> - Toggle music
+                  <span className="font-mono bg-black/30 px-1 py-0.5 rounded text-xs">
+                    {keyBindings.describe("toggleMusic", " / ")}
+                  </span>{" "}
+                  - Toggle music
                 </li>
               </ul>
             </div>
@@ -683,6 +794,8 @@ export const MainMenu = ({ onStartGame }: MainMenuProps) => {
               value={gameMode}
               onValueChange={(value) => {
                 setGameMode(value as GameMode);
+                // Pack starting levels can run past the built-in campaign
+                if (value !== "normal") setStartingLevel((prev) => Math.min(prev, FINAL_LEVEL));
                 soundManager.playMenuClick();
               }}
             >
@@ -692,6 +805,18 @@ export const MainMenu = ({ onStartGame }: MainMenuProps) => {
                   Normal (20 levels)
                 </Label>
               </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="endless" id="mode-endless" />
+                <Label htmlFor="mode-endless" className="text-white cursor-pointer">
+                  Endless (generated levels after {FINAL_LEVEL})
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="daily" id="mode-daily" />
+                <Label htmlFor="mode-daily" className="text-[hsl(150,70%,55%)] cursor-pointer font-bold">
+                  Daily Challenge
+                </Label>
+              </div>
               <div className="flex items-center space-x-2">
                 <RadioGroupItem value="bossRush" id="mode-bossRush" />
                 <Label htmlFor="mode-bossRush" className="text-[hsl(30,100%,60%)] cursor-pointer font-bold">
@@ -704,10 +829,60 @@ export const MainMenu = ({ onStartGame }: MainMenuProps) => {
                 Fight all 4 bosses consecutively! Start with {BOSS_RUSH_CONFIG.startingLives} lives.
               </p>
             )}
+            {gameMode === "daily" && (
+              <div className="text-xs text-gray-400 mt-1 space-y-1">
+                <p>Everyone plays the same run today (UTC) on Normal difficulty. One leaderboard entry per player.</p>
+                <p>
+                  Level {dailyChallenge.startingLevel} · {DAILY_MUTATORS[dailyChallenge.mutator].name}:{" "}
+                  {DAILY_MUTATORS[dailyChallenge.mutator].description}
+                </p>
+                <div className="flex items-center gap-1">
+                  <span>Power-ups:</span>
+                  {dailyChallenge.powerUpPool.map((type) => (
+                    <img key={type} src={powerUpImages[type]} alt={type} title={type} className="w-5 h-5" />
+                  ))}
+                </div>
+              </div>
+            )}
+            {gameMode === "endless" && (
+              <p className="text-xs text-gray-400 mt-1">
+                After level {FINAL_LEVEL} every level is generated and gets denser. A boss every 5 levels.
+              </p>
+            )}
           </div>
 
-          {/* Starting Level Selector - hidden in Boss Rush mode */}
-          {gameMode === "normal" && (
+          {/* Level Pack Selector - custom campaigns from the Level Editor */}
+          {gameMode === "normal" && levelPacks.length > 0 && (
+            <div className="space-y-2 pt-2 border-t border-[hsl(200,70%,50%)]/30">
+              <Label htmlFor="level-pack" className="text-white text-base">
+                Level Pack
+              </Label>
+              <select
+                id="level-pack"
+                value={selectedPackId}
+                onChange={(e) => {
+                  setSelectedPackId(e.target.value);
+                  setStartingLevel(1);
+                  setShowLockedMessage(false);
+                  soundManager.playMenuClick();
+                }}
+                className="w-full rounded-md px-2 py-1.5 text-sm bg-[hsl(220,20%,20%)] border border-[hsl(200,70%,50%)] text-white"
+              >
+                <option value="">Built-in ({FINAL_LEVEL} levels)</option>
+                {levelPacks.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name} ({p.levels.length} levels)
+                  </option>
+                ))}
+              </select>
+              {selectedPack && (
+                <p className="text-xs text-gray-400">Custom packs don't count towards high scores.</p>
+              )}
+            </div>
+          )}
+
+          {/* Starting Level Selector - hidden in Boss Rush and Daily Challenge */}
+          {(gameMode === "normal" || gameMode === "endless") && (
             <div className="pt-2 border-t border-[hsl(200,70%,50%)]/30 relative">
               <div className="flex items-center justify-between">
                 <Label className="text-white text-base">Starting Level</Label>
@@ -731,7 +906,7 @@ export const MainMenu = ({ onStartGame }: MainMenuProps) => {
                   <button
                     onClick={() => handleLevelChange(1)}
                     onMouseEnter={() => soundManager.playMenuHover()}
-                    disabled={startingLevel >= FINAL_LEVEL}
+                    disabled={startingLevel >= finalLevel}
                     className="p-1 rounded bg-[hsl(220,20%,20%)] hover:bg-[hsl(220,20%,30%)] disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
                   >
                     <ChevronUp className="w-4 h-4 text-[hsl(200,70%,50%)]" />
@@ -747,14 +922,91 @@ export const MainMenu = ({ onStartGame }: MainMenuProps) => {
               )}
             </div>
           )}
+
+          {/* Assists - Normal / Endless only */}
+          {assistsAvailable && (
+            <div className="space-y-3 pt-2 border-t border-[hsl(200,70%,50%)]/30">
+              <Label className="text-white text-base">Assists</Label>
+
+              <div className="space-y-1">
+                <div className="flex justify-between text-sm text-white">
+                  <span>Game Speed</span>
+                  <span className="font-mono">{Math.round(assists.gameSpeed * 100)}%</span>
+                </div>
+                <Slider
+                  value={[Math.round(assists.gameSpeed * 100)]}
+                  min={ASSIST_GAME_SPEED_RANGE.min * 100}
+                  max={ASSIST_GAME_SPEED_RANGE.max * 100}
+                  step={ASSIST_GAME_SPEED_RANGE.step * 100}
+                  onValueChange={([percent]) => setAssists((prev) => ({ ...prev, gameSpeed: percent / 100 }))}
+                  onValueCommit={() => soundManager.playSliderChange()}
+                />
+              </div>
+
+              <div className="flex items-center justify-between text-sm text-white">
+                <span>Paddle Width</span>
+                <div className="flex gap-1">
+                  {ASSIST_PADDLE_WIDTH_BONUSES.map((bonus) => (
+                    <button
+                      key={bonus}
+                      onClick={() => {
+                        setAssists((prev) => ({ ...prev, paddleWidthBonus: bonus }));
+                        soundManager.playMenuClick();
+                      }}
+                      onMouseEnter={() => soundManager.playMenuHover()}
+                      className={`px-2 py-0.5 rounded text-xs font-mono border transition-colors ${
+                        assists.paddleWidthBonus === bonus
+                          ? "border-[hsl(200,70%,50%)] bg-[hsl(200,70%,50%)] text-white"
+                          : "border-[hsl(200,70%,50%)]/40 text-gray-300 hover:border-[hsl(200,70%,50%)]"
+                      }`}
+                    >
+                      +{Math.round(bonus * 100)}%
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="assist-trajectory" className="text-white text-sm cursor-pointer">
+                  Trajectory Preview
+                </Label>
+                <Switch
+                  id="assist-trajectory"
+                  checked={assists.trajectoryPreview}
+                  onCheckedChange={(trajectoryPreview) => {
+                    setAssists((prev) => ({ ...prev, trajectoryPreview }));
+                    soundManager.playMenuClick();
+                  }}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="assist-infinite-lives" className="text-white text-sm cursor-pointer">
+                  Infinite Lives (practice)
+                </Label>
+                <Switch
+                  id="assist-infinite-lives"
+                  checked={assists.infiniteLives}
+                  onCheckedChange={(infiniteLives) => {
+                    setAssists((prev) => ({ ...prev, infiniteLives }));
+                    soundManager.playMenuClick();
+                  }}
+                />
+              </div>
+
+              {isAssistedRun(assists) && (
+                <p className="text-xs text-gray-400">Assisted runs are ranked on the separate Assisted leaderboard.</p>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Action Buttons */}
         <div className="space-y-2 mt-6">
           <Button
             onClick={() => {
-              // In normal mode, check level unlock; in Boss Rush mode, always allow
-              if (gameMode === "normal" && !ENABLE_DEBUG_FEATURES && !isLevelUnlocked(startingLevel)) {
+              // In normal / endless mode, check level unlock; Boss Rush and Daily Challenge always allowed
+              if ((gameMode === "normal" || gameMode === "endless") && !ENABLE_DEBUG_FEATURES && !isLevelUnlocked(startingLevel)) {
                 soundManager.playMenuClick();
                 if (lockedMessageTimeoutRef.current) {
                   clearTimeout(lockedMessageTimeoutRef.current);
@@ -777,7 +1029,23 @@ export const MainMenu = ({ onStartGame }: MainMenuProps) => {
                   : "bg-gray-600 cursor-not-allowed"
             }`}
           >
-            {gameMode === "bossRush" ? "Start Boss Rush" : `Start Game${ENABLE_DEBUG_FEATURES ? " (DEBUG)" : ""}`}
+            {gameMode === "bossRush"
+              ? "Start Boss Rush"
+              : gameMode === "daily"
+                ? "Start Daily Challenge"
+                : `Start Game${ENABLE_DEBUG_FEATURES ? " (DEBUG)" : ""}`}
+          </Button>
+
+          <Button
+            onClick={() => {
+              soundManager.playMenuClick();
+              setShowPractice(true);
+            }}
+            onMouseEnter={() => soundManager.playMenuHover()}
+            variant="outline"
+            className="w-full border-[hsl(200,70%,50%)] text-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,50%)] hover:text-white"
+          >
+            Practice
           </Button>
 
           <Button
@@ -792,6 +1060,30 @@ export const MainMenu = ({ onStartGame }: MainMenuProps) => {
             Instructions
           </Button>
 
+          <Button
+            onClick={() => {
+              soundManager.playMenuClick();
+              setShowControls(true);
+            }}
+            onMouseEnter={() => soundManager.playMenuHover()}
+            variant="outline"
+            className="w-full border-[hsl(200,70%,50%)] text-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,50%)] hover:text-white"
+          >
+            Controls
+          </Button>
+
+          <Button
+            onClick={() => {
+              soundManager.playMenuClick();
+              setShowAccessibility(true);
+            }}
+            onMouseEnter={() => soundManager.playMenuHover()}
+            variant="outline"
+            className="w-full border-[hsl(200,70%,50%)] text-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,50%)] hover:text-white"
+          >
+            Accessibility
+          </Button>
+
           <Button
             onClick={() => {
               soundManager.playMenuClick();
@@ -804,6 +1096,40 @@ export const MainMenu = ({ onStartGame }: MainMenuProps) => {
             High Scores
           </Button>
 
+          <Button
+            onClick={() => {
+              soundManager.playMenuClick();
+              setShowMyStats(true);
+            }}
+            onMouseEnter={() => soundManager.playMenuHover()}
+            variant="outline"
+            className="w-full border-[hsl(200,70%,50%)] text-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,50%)] hover:text-white"
+          >
+            My Stats
+          </Button>
+
+          <Button
+            onClick={() => {
+              soundManager.playMenuClick();
+              replayInputRef.current?.click();
+            }}
+            onMouseEnter={() => soundManager.playMenuHover()}
+            variant="outline"
+            className="w-full border-[hsl(200,70%,50%)] text-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,50%)] hover:text-white"
+          >
+            Load Replay
+          </Button>
+          <input
+            ref={replayInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              handleReplayFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+
           <Button
             onClick={() => {
               soundManager.playMenuClick();
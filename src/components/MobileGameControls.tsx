@@ -1,5 +1,7 @@
+import { useState } from "react";
 import { Pause, Volume2, VolumeX } from "lucide-react";
 import { soundManager } from "@/utils/sounds";
+import type { TouchScheme } from "@/utils/touchControls";
 import type { GameState } from "@/types/game";
 import type { FixedStepGameLoop } from "@/utils/gameLoop";
 import { ENABLE_DEBUG_FEATURES } from "@/constants/game";
@@ -17,6 +19,14 @@ interface MobileGameControlsProps {
   musicEnabled: boolean;
   setMusicEnabled: (enabled: boolean) => void;
 
+  // Touch control scheme and its launch / fire button zone
+  touchScheme: TouchScheme;
+  canLaunch: boolean;
+  canFire: boolean;
+  onLaunch: () => void;
+  onFire: () => void;
+  onSliderMove: (fraction: number) => void;
+
   // Fullscreen
   showFullscreenPrompt: boolean;
   onFullscreenPromptClick: () => void;
@@ -26,6 +36,41 @@ interface MobileGameControlsProps {
   setShowDebugDashboard?: (show: boolean) => void;
 }
 
+/**
+ * Virtual slider below the playfield: finger position along the bar maps to
+ * the paddle position, so the finger never covers the ball.
+ */
+const VirtualSlider = ({ onMove }: { onMove: (fraction: number) => void }) => {
+  const [thumb, setThumb] = useState(0.5);
+
+  const moveTo = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    setThumb(fraction);
+    onMove(fraction);
+  };
+
+  return (
+    <div
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        moveTo(e);
+      }}
+      onPointerMove={(e) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) moveTo(e);
+      }}
+      className="pointer-events-auto relative flex-1 h-14 rounded-full border-2 border-white/30 bg-white/5"
+      aria-label="Paddle Slider"
+      style={{ touchAction: "none" }}
+    >
+      <div
+        className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-16 h-8 rounded-full bg-cyan-400/60"
+        style={{ left: `${thumb * 100}%` }}
+      />
+    </div>
+  );
+};
+
 /**
  * MobileGameControls - Fixed-position mobile UI elements
  * 
@@ -33,6 +78,7 @@ interface MobileGameControlsProps {
  * - Fullscreen prompt overlay
  * - Pause button (top-left)
  * - Music toggle button (top-right)
+ * - Launch / fire buttons and the virtual slider (bottom)
  * - Debug button (if debug features enabled)
  * 
  * Note: Power-up timers and bonus letter tutorial are NOT included here
@@ -46,6 +92,12 @@ export const MobileGameControls = ({
   gameLoopRef,
   musicEnabled,
   setMusicEnabled,
+  touchScheme,
+  canLaunch,
+  canFire,
+  onLaunch,
+  onFire,
+  onSliderMove,
   showFullscreenPrompt,
   onFullscreenPromptClick,
   showDebugDashboard,
@@ -135,6 +187,39 @@ export const MobileGameControls = ({
         </div>
       )}
 
+      {/* Launch / Fire buttons, with the virtual slider between them */}
+      {gameState === "playing" && (
+        <div className="fixed bottom-2 inset-x-2 z-[100] flex items-center gap-3 pointer-events-none">
+          <button
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              onFire();
+            }}
+            className={`pointer-events-auto w-16 h-16 rounded-full border-2 flex items-center justify-center retro-pixel-text text-[10px] active:scale-95 transition-all touch-manipulation ${
+              canFire ? "border-red-400/70 text-red-300" : "border-white/20 text-white/30"
+            }`}
+            aria-label="Fire Turrets"
+            style={{ touchAction: "manipulation" }}
+          >
+            FIRE
+          </button>
+          {touchScheme === "slider" ? <VirtualSlider onMove={onSliderMove} /> : <div className="flex-1" />}
+          <button
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              onLaunch();
+            }}
+            className={`pointer-events-auto w-16 h-16 rounded-full border-2 flex items-center justify-center retro-pixel-text text-[10px] active:scale-95 transition-all touch-manipulation ${
+              canLaunch ? "border-green-400/70 text-green-300 animate-pulse" : "border-white/20 text-white/30"
+            }`}
+            aria-label="Launch Ball"
+            style={{ touchAction: "manipulation" }}
+          >
+            LAUNCH
+          </button>
+        </div>
+      )}
+
       {/* Mobile Debug Button */}
       {ENABLE_DEBUG_FEATURES && !showDebugDashboard && setShowDebugDashboard && (
         <button
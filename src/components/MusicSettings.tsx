@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -11,10 +11,35 @@ import {
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Music, Settings } from "lucide-react";
-import { soundManager } from "@/utils/sounds";
+import { Slider } from "@/components/ui/slider";
+import { Music, Plus, Settings, Trash2 } from "lucide-react";
+import {
+  soundManager,
+  MIXER_BUSES,
+  type MixerBus,
+  type Playlist,
+  type BossPlaylist,
+  type PlaylistSettings,
+} from "@/utils/sounds";
 import type { GameState } from "@/types/game";
 
+const BUS_LABELS: Record<MixerBus, string> = {
+  master: "Master",
+  music: "Music Volume",
+  sfx: "Sound Effects",
+  ui: "Menu Sounds",
+};
+
+const PLAYLIST_LABELS: Record<BossPlaylist, string> = {
+  bossThemes: "Boss Themes",
+  all: "All",
+  builtIn: "Built-in",
+  custom: "My Music",
+};
+
+const LEVEL_PLAYLISTS: Playlist[] = ["all", "builtIn", "custom"];
+const BOSS_PLAYLISTS: BossPlaylist[] = ["bossThemes", "all", "builtIn", "custom"];
+
 interface MusicSettingsProps {
   gameState: GameState;
   setGameState: React.Dispatch<React.SetStateAction<GameState>>;
@@ -23,14 +48,28 @@ interface MusicSettingsProps {
 export const MusicSettings = ({ gameState, setGameState }: MusicSettingsProps) => {
   const [musicEnabled, setMusicEnabled] = useState(soundManager.getMusicEnabled());
   const [currentTrack, setCurrentTrack] = useState(soundManager.getCurrentTrackIndex());
+  const [mixer, setMixer] = useState(() => soundManager.getMixerSettings());
+  const [tracks, setTracks] = useState(() => soundManager.getMusicTracks());
+  const [playlists, setPlaylists] = useState(() => soundManager.getPlaylistSettings());
+  const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+  const [uploading, setUploading] = useState(false);
   const [open, setOpen] = useState(false);
   const [wasPlaying, setWasPlaying] = useState(false);
-  const trackNames = soundManager.getTrackNames();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const userTracks = tracks.filter((track) => track.custom);
+
+  const refreshTracks = () => {
+    setTracks(soundManager.getMusicTracks());
+    setCurrentTrack(soundManager.getCurrentTrackIndex());
+  };
 
   const handleOpenChange = (isOpen: boolean) => {
     setOpen(isOpen);
     
     if (isOpen) {
+      // The music library loads asynchronously at startup
+      refreshTracks();
+      setUploadErrors([]);
       // Opening dialog - pause if playing
       if (gameState === "playing") {
         setWasPlaying(true);
@@ -50,6 +89,31 @@ export const MusicSettings = ({ gameState, setGameState }: MusicSettingsProps) =
     soundManager.setMusicEnabled(enabled);
   };
 
+  const handleVolumeChange = (bus: MixerBus, percent: number) => {
+    soundManager.setBusVolume(bus, percent / 100);
+    setMixer(soundManager.getMixerSettings());
+  };
+
+  const handlePlaylistChange = (partial: Partial<PlaylistSettings>) => {
+    soundManager.setPlaylistSettings(partial);
+    setPlaylists(soundManager.getPlaylistSettings());
+  };
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ""; // Allow picking the same file again
+    if (files.length === 0) return;
+    setUploading(true);
+    setUploadErrors(await soundManager.addUserTracks(files));
+    setUploading(false);
+    refreshTracks();
+  };
+
+  const handleRemoveTrack = async (id: string) => {
+    await soundManager.removeUserTrack(id);
+    refreshTracks();
+  };
+
   const handleTrackChange = (value: string) => {
     const trackIndex = parseInt(value);
     setCurrentTrack(trackIndex);
@@ -67,14 +131,14 @@ export const MusicSettings = ({ gameState, setGameState }: MusicSettingsProps) =
           <Settings className="h-5 w-5" style={{ color: 'hsl(0, 0%, 85%)' }} />
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-md amiga-box">
+      <DialogContent className="sm:max-w-md max-h-[85vh] overflow-y-auto amiga-box">
         <DialogHeader>
           <DialogTitle className="retro-pixel-text text-sm flex items-center gap-2" style={{ color: 'hsl(0, 0%, 85%)' }}>
             <Music className="h-4 w-4" />
-            Music Settings
+            Sound Settings
           </DialogTitle>
           <DialogDescription className="retro-pixel-text text-xs" style={{ color: 'hsl(0, 0%, 60%)' }}>
-            Control your game music
+            Control your game music and sound levels
           </DialogDescription>
         </DialogHeader>
         
@@ -91,6 +155,117 @@ export const MusicSettings = ({ gameState, setGameState }: MusicSettingsProps) =
             />
           </div>
 
+          {/* Mixer: one gain per bus */}
+          <div className="space-y-4">
+            {MIXER_BUSES.map((bus) => (
+              <div key={bus} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="retro-pixel-text text-xs" style={{ color: 'hsl(0, 0%, 85%)' }}>
+                    {BUS_LABELS[bus]}
+                  </Label>
+                  <span className="retro-pixel-text text-xs" style={{ color: 'hsl(0, 0%, 60%)' }}>
+                    {Math.round(mixer[bus] * 100)}%
+                  </span>
+                </div>
+                <Slider
+                  value={[Math.round(mixer[bus] * 100)]}
+                  min={0}
+                  max={100}
+                  step={5}
+                  onValueChange={([percent]) => handleVolumeChange(bus, percent)}
+                  onValueCommit={() => soundManager.playSliderChange()}
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Playlists */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="shuffle-toggle" className="retro-pixel-text text-xs" style={{ color: 'hsl(0, 0%, 85%)' }}>
+                Shuffle
+              </Label>
+              <Switch
+                id="shuffle-toggle"
+                checked={playlists.shuffle}
+                onCheckedChange={(shuffle) => handlePlaylistChange({ shuffle })}
+              />
+            </div>
+            {([
+              ["levelPlaylist", "Levels", LEVEL_PLAYLISTS],
+              ["bossPlaylist", "Bosses", BOSS_PLAYLISTS],
+            ] as const).map(([setting, label, options]) => (
+              <div key={setting} className="space-y-2">
+                <Label className="retro-pixel-text text-xs" style={{ color: 'hsl(0, 0%, 85%)' }}>{label}</Label>
+                <RadioGroup
+                  value={playlists[setting]}
+                  onValueChange={(value) => handlePlaylistChange({ [setting]: value })}
+                  className="flex flex-wrap gap-3"
+                >
+                  {options.map((option) => (
+                    <div key={option} className="flex items-center space-x-1">
+                      <RadioGroupItem value={option} id={`${setting}-${option}`} />
+                      <Label
+                        htmlFor={`${setting}-${option}`}
+                        className="cursor-pointer retro-pixel-text text-xs"
+                        style={{ color: 'hsl(0, 0%, 85%)' }}
+                      >
+                        {PLAYLIST_LABELS[option]}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            ))}
+            {userTracks.length === 0 && (playlists.levelPlaylist === "custom" || playlists.bossPlaylist === "custom") && (
+              <p className="retro-pixel-text text-xs" style={{ color: 'hsl(0, 0%, 60%)' }}>
+                My Music is empty, so built-in tracks play instead.
+              </p>
+            )}
+          </div>
+
+          {/* My Music: local files stored in the browser */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="retro-pixel-text text-xs" style={{ color: 'hsl(0, 0%, 85%)' }}>My Music</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={uploading}
+                onClick={() => fileInputRef.current?.click()}
+                className="amiga-box retro-pixel-text text-xs"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                {uploading ? "Adding..." : "Add Files"}
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="audio/*"
+                multiple
+                className="hidden"
+                onChange={handleFilesSelected}
+              />
+            </div>
+            {userTracks.map((track) => (
+              <div key={track.id} className="flex items-center justify-between">
+                <span className="retro-pixel-text text-xs truncate" style={{ color: 'hsl(0, 0%, 85%)' }}>
+                  {track.name}
+                </span>
+                <button
+                  onClick={() => handleRemoveTrack(track.id)}
+                  className="p-1 text-slate-400 hover:text-red-400 transition-colors"
+                  title={`Remove ${track.name}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+            {uploadErrors.map((error) => (
+              <p key={error} className="retro-pixel-text text-xs text-red-400">{error}</p>
+            ))}
+          </div>
+
           {/* Song Selection */}
           <div className="space-y-3">
             <Label className="retro-pixel-text text-xs" style={{ color: 'hsl(0, 0%, 85%)' }}>Select Song</Label>
@@ -100,7 +275,7 @@ export const MusicSettings = ({ gameState, setGameState }: MusicSettingsProps) =
               disabled={!musicEnabled}
               className="space-y-2"
             >
-              {trackNames.map((name, index) => (
+              {tracks.map(({ name }, index) => (
                 <div key={index} className="flex items-center space-x-2">
                   <RadioGroupItem
                     value={index.toString()}
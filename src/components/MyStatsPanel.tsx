@@ -0,0 +1,301 @@
+import { useRef, useEffect, useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import CRTOverlay from "./CRTOverlay";
+import type { QualityLevel } from "@/hooks/useAdaptiveQuality";
+import { useSwipeGesture } from "@/hooks/useSwipeGesture";
+import { soundManager } from "@/utils/sounds";
+import { alwaysToast as toast } from "@/utils/debugToast";
+import {
+  GAME_MODE_LABELS,
+  RUN_HISTORY_MODES,
+  clearRunHistory,
+  downloadRunHistory,
+  getPersonalBests,
+  importRunHistory,
+  loadRunHistory,
+  parseRunHistoryFile,
+  type RunRecord,
+} from "@/engine/runHistory";
+import type { GameMode } from "@/types/game";
+
+type ModeFilter = GameMode | "all";
+
+/** Runs plotted in the charts (most recent) */
+const CHART_RUNS = 50;
+const RECENT_RUNS = 10;
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 120;
+
+interface MyStatsPanelProps {
+  onClose: () => void;
+  quality: QualityLevel;
+  qualitySettings?: { backgroundEffects: boolean };
+}
+
+const formatDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return hours > 0
+    ? `${hours}h ${minutes.toString().padStart(2, "0")}m`
+    : `${minutes}:${secs.toString().padStart(2, "0")}`;
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+const StatTile = ({ label, value }: { label: string; value: string | number }) => (
+  <div className="rounded border border-cyan-500/30 bg-slate-800/60 px-3 py-2">
+    <div className="text-[10px] text-slate-400 font-mono uppercase">{label}</div>
+    <div className="text-lg text-white font-bold font-mono tabular-nums">{value}</div>
+  </div>
+);
+
+/**
+ * One value per run, oldest on the left: a line for `kind="line"`, bars otherwise
+ */
+const RunChart = ({
+  title,
+  runs,
+  value,
+  kind,
+  color,
+}: {
+  title: string;
+  runs: RunRecord[];
+  value: (run: RunRecord) => number;
+  kind: "line" | "bar";
+  color: string;
+}) => {
+  const values = runs.map(value);
+  const max = Math.max(1, ...values);
+  const step = values.length > 1 ? CHART_WIDTH / (values.length - 1) : 0;
+  const y = (v: number) => CHART_HEIGHT - (v / max) * (CHART_HEIGHT - 8);
+  const barWidth = Math.max(2, CHART_WIDTH / Math.max(values.length, 1) - 2);
+
+  return (
+    <div className="border-l-4 border-cyan-500/50 pl-3">
+      <div className="flex justify-between text-sm text-slate-300 font-mono">
+        <span>{title}</span>
+        <span className="text-slate-500 text-xs">max {max.toLocaleString()}</span>
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-24 mt-1" preserveAspectRatio="none">
+        <line x1={0} y1={CHART_HEIGHT - 0.5} x2={CHART_WIDTH} y2={CHART_HEIGHT - 0.5} stroke="rgb(100 116 139 / 0.5)" />
+        {kind === "line" ? (
+          <polyline
+            fill="none"
+            stroke={color}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            points={values.map((v, i) => `${values.length > 1 ? i * step : CHART_WIDTH / 2},${y(v)}`).join(" ")}
+          />
+        ) : (
+          values.map((v, i) => (
+            <rect
+              key={runs[i].id}
+              x={(i * CHART_WIDTH) / values.length + 1}
+              y={y(v)}
+              width={barWidth}
+              height={CHART_HEIGHT - y(v)}
+              fill={runs[i].victory ? "rgb(251 191 36)" : color}
+            />
+          ))
+        )}
+      </svg>
+    </div>
+  );
+};
+
+export const MyStatsPanel = ({ onClose, quality, qualitySettings = { backgroundEffects: true } }: MyStatsPanelProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [runs, setRuns] = useState(() => loadRunHistory());
+  const [modeFilter, setModeFilter] = useState<ModeFilter>("all");
+
+  // Swipe gesture for mobile back navigation
+  const isMobileDevice = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ||
+    ("ontouchstart" in window && window.matchMedia("(max-width: 768px)").matches);
+
+  useSwipeGesture(containerRef, onClose, { enabled: isMobileDevice });
+
+  // ESC to close
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const filteredRuns = modeFilter === "all" ? runs : runs.filter((run) => run.gameMode === modeFilter);
+  const bests = getPersonalBests(filteredRuns);
+  const chartRuns = filteredRuns.slice(-CHART_RUNS);
+  const recentRuns = filteredRuns.slice(-RECENT_RUNS).reverse();
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const added = importRunHistory(parseRunHistoryFile(await file.text()));
+      if (added === null) throw new Error("Could not save the imported runs (storage full?)");
+      setRuns(loadRunHistory());
+      toast.success(added > 0 ? `Imported ${added} run${added === 1 ? "" : "s"}` : "No new runs in that file");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not import run history");
+    }
+  };
+
+  const handleClear = () => {
+    if (!window.confirm("Delete your whole run history from this device? Export it first to keep a copy.")) return;
+    clearRunHistory();
+    setRuns([]);
+  };
+
+  const filterOptions: { value: ModeFilter; label: string }[] = [
+    { value: "all", label: "All Modes" },
+    ...RUN_HISTORY_MODES.map((mode) => ({ value: mode, label: GAME_MODE_LABELS[mode] })),
+  ];
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 swipe-container animate-fade-in">
+      {qualitySettings.backgroundEffects && <CRTOverlay quality={quality} />}
+      <div className="bg-slate-900/95 rounded-lg border-2 border-cyan-500/30 p-6 max-w-2xl w-full max-h-[80vh] overflow-y-auto animate-scale-in">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-3xl font-bold text-cyan-400 font-mono">MY STATS</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors"
+            title="Close"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {filterOptions.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => {
+                soundManager.playMenuClick();
+                setModeFilter(option.value);
+              }}
+              onMouseEnter={() => soundManager.playMenuHover()}
+              className={`px-3 py-1 rounded font-mono text-xs border transition-colors ${
+                modeFilter === option.value
+                  ? "border-amber-400 text-amber-400"
+                  : "border-cyan-500/40 text-white hover:border-cyan-400"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {filteredRuns.length === 0 ? (
+          <div className="text-center text-slate-500 font-mono py-12">
+            No finished runs yet. Every run you finish on this device shows up here.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              <StatTile label="Best Score" value={bests.bestScore.toLocaleString()} />
+              <StatTile label="Best Level" value={bests.bestLevel} />
+              <StatTile label="Most Bosses" value={bests.mostBossesBeaten} />
+              <StatTile label="Avg Score" value={bests.averageScore.toLocaleString()} />
+              <StatTile label="Runs" value={bests.runs} />
+              <StatTile label="Victories" value={bests.victories} />
+              <StatTile label="Play Time" value={formatDuration(bests.totalPlaySeconds)} />
+              <StatTile label="QUMRAN" value={filteredRuns.filter((run) => run.qumranComplete).length} />
+            </div>
+
+            <RunChart title="Score per run" runs={chartRuns} value={(run) => run.score} kind="line" color="rgb(34 211 238)" />
+            <RunChart title="Level reached (gold = victory)" runs={chartRuns} value={(run) => run.level} kind="bar" color="rgb(168 85 247)" />
+
+            <div className="border-l-4 border-cyan-500/50 pl-3">
+              <span className="text-sm text-slate-300 font-mono">Recent Runs</span>
+              <div className="mt-1 overflow-x-auto">
+                <table className="w-full text-xs font-mono text-white whitespace-nowrap">
+                  <thead className="text-slate-400">
+                    <tr className="text-left">
+                      <th className="pr-3 font-normal">Date</th>
+                      <th className="pr-3 font-normal">Mode</th>
+                      <th className="pr-3 font-normal text-right">Score</th>
+                      <th className="pr-3 font-normal text-right">Lvl</th>
+                      <th className="pr-3 font-normal text-right">Time</th>
+                      <th className="pr-3 font-normal text-right" title="Lives lost">♥−</th>
+                      <th className="pr-3 font-normal text-right" title="Power-ups collected">PU</th>
+                      <th className="font-normal text-right" title="Bosses beaten">☠</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {recentRuns.map((run) => (
+                      <tr key={run.id} className={run.victory ? "text-amber-300" : undefined}>
+                        <td className="pr-3">{formatDate(run.endedAt)}</td>
+                        <td className="pr-3">
+                          {GAME_MODE_LABELS[run.gameMode]}
+                          {run.difficulty === "godlike" && <span className="text-red-500"> GOD</span>}
+                          {run.qumranComplete && <span className="text-yellow-400" title="QUMRAN complete"> ⭐</span>}
+                        </td>
+                        <td className="pr-3 text-right tabular-nums">{run.score.toLocaleString()}</td>
+                        <td className="pr-3 text-right">{run.level}</td>
+                        <td className="pr-3 text-right">{formatDuration(run.durationSeconds)}</td>
+                        <td className="pr-3 text-right">{run.livesLost}</td>
+                        <td className="pr-3 text-right">{run.powerUpsCollected}</td>
+                        <td className="text-right">{run.bossesBeaten}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-2 mt-6">
+          <Button
+            onClick={() => {
+              soundManager.playMenuClick();
+              downloadRunHistory(runs);
+            }}
+            onMouseEnter={() => soundManager.playMenuHover()}
+            disabled={runs.length === 0}
+            variant="outline"
+            className="border-[hsl(200,70%,50%)] text-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,50%)] hover:text-white"
+          >
+            Export
+          </Button>
+          <Button
+            onClick={() => {
+              soundManager.playMenuClick();
+              importInputRef.current?.click();
+            }}
+            onMouseEnter={() => soundManager.playMenuHover()}
+            variant="outline"
+            className="border-[hsl(200,70%,50%)] text-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,50%)] hover:text-white"
+          >
+            Import
+          </Button>
+          <Button
+            onClick={handleClear}
+            onMouseEnter={() => soundManager.playMenuHover()}
+            disabled={runs.length === 0}
+            variant="outline"
+            className="border-red-500/60 text-red-400 hover:bg-red-500 hover:text-white"
+          >
+            Clear
+          </Button>
+        </div>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            handleImportFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+    </div>
+  );
+};
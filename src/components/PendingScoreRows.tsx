@@ -0,0 +1,26 @@
+import type { PendingScore } from "@/utils/scoreOutbox";
+
+/** Scores waiting in the offline outbox, listed above a leaderboard */
+export const PendingScoreRows = ({ entries, formatTime }: { entries: PendingScore[]; formatTime?: (ms: number) => string }) => {
+  if (entries.length === 0) return null;
+  return (
+    <>
+      {entries.map((entry) => (
+        <div
+          key={`pending-${entry.id}`}
+          className="grid grid-cols-[auto_1fr_auto_auto] gap-2 sm:gap-3 md:gap-4 items-center text-[10px] sm:text-xs md:text-sm lg:text-xl px-2 sm:px-3 md:px-4 py-1 sm:py-2 bg-slate-800/30 rounded-lg border border-dashed border-amber-500/50 opacity-80"
+          title="Not submitted yet: it will be sent automatically once the server is reachable"
+        >
+          <span className="text-amber-400 text-[8px] sm:text-[9px] md:text-[10px] font-bold">PENDING</span>
+          <span className="text-white font-bold truncate">{entry.body.player_name}</span>
+          <span className="text-white font-bold text-right tabular-nums">{entry.body.score.toString().padStart(6, '0')}</span>
+          <span className="text-white text-right whitespace-nowrap">
+            {formatTime && entry.body.completion_time_ms !== undefined
+              ? `⏱️${formatTime(entry.body.completion_time_ms)}`
+              : `LVL${entry.body.level ?? '?'}`}
+          </span>
+        </div>
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,227 @@
+import { useRef, useEffect, useState } from "react";
+import { X, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import CRTOverlay from "./CRTOverlay";
+import type { QualityLevel } from "@/hooks/useAdaptiveQuality";
+import { useSwipeGesture } from "@/hooks/useSwipeGesture";
+import { useLevelProgress } from "@/hooks/useLevelProgress";
+import { soundManager } from "@/utils/sounds";
+import { powerUpImages } from "@/utils/powerUpImages";
+import { keyBindings } from "@/utils/keyBindings";
+import { FINAL_LEVEL, ENABLE_DEBUG_FEATURES } from "@/constants/game";
+import { BOSS_LEVELS } from "@/constants/bossConfig";
+import {
+  PRACTICE_BOSS_PHASES,
+  PRACTICE_BOSS_PHASE_IDS,
+  PRACTICE_POWER_UPS,
+  formatPracticeTime,
+  getPracticeTargetId,
+  loadPracticeBests,
+  type PracticeBossPhase,
+  type PracticeBest,
+} from "@/engine/practice";
+import type { Difficulty, GameSettings, PowerUpType } from "@/types/game";
+
+const POWER_UP_LABELS: Partial<Record<PowerUpType, string>> = {
+  turrets: "Turrets",
+  shield: "Shield",
+  paddleExtend: "Wide Paddle",
+  secondChance: "Second Chance",
+};
+
+interface PracticeMenuProps {
+  onClose: () => void;
+  onStartGame: (settings: GameSettings) => void;
+  quality: QualityLevel;
+  qualitySettings?: { backgroundEffects: boolean };
+}
+
+const BestLine = ({ best }: { best?: PracticeBest }) => {
+  if (!best) return <span className="text-slate-500">Not played</span>;
+  return (
+    <span className="text-slate-400">
+      {best.bestTimeMs !== null ? `PB ${formatPracticeTime(best.bestTimeMs)}` : "No clear"} · {best.clears}/
+      {best.attempts}
+    </span>
+  );
+};
+
+export const PracticeMenu = ({
+  onClose,
+  onStartGame,
+  quality,
+  qualitySettings = { backgroundEffects: true },
+}: PracticeMenuProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { isLevelUnlocked } = useLevelProgress();
+  const [bests] = useState(() => loadPracticeBests());
+  const [level, setLevel] = useState(1);
+  const [bossPhase, setBossPhase] = useState<PracticeBossPhase | undefined>(undefined);
+  const [powerUps, setPowerUps] = useState<PowerUpType[]>([]);
+  const [difficulty, setDifficulty] = useState<Difficulty>("normal");
+
+  const isUnlocked = (target: number) => ENABLE_DEBUG_FEATURES || isLevelUnlocked(target);
+
+  // Swipe gesture for mobile back navigation
+  const isMobileDevice = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ||
+    ("ontouchstart" in window && window.matchMedia("(max-width: 768px)").matches);
+
+  useSwipeGesture(containerRef, onClose, { enabled: isMobileDevice });
+
+  // ESC to close
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const selectTarget = (targetLevel: number, phase?: PracticeBossPhase) => {
+    soundManager.playMenuClick();
+    setLevel(targetLevel);
+    setBossPhase(phase);
+  };
+
+  const togglePowerUp = (type: PowerUpType) => {
+    soundManager.playMenuClick();
+    setPowerUps((prev) => (prev.includes(type) ? prev.filter((p) => p !== type) : [...prev, type]));
+  };
+
+  const handleStart = () => {
+    soundManager.playMenuClick();
+    onStartGame({
+      startingLives: 3,
+      difficulty,
+      startingLevel: level,
+      gameMode: "normal",
+      practice: { bossPhase, powerUps },
+    });
+  };
+
+  const targetClassName = (selected: boolean) =>
+    `rounded font-mono text-xs border transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+      selected ? "border-amber-400 text-amber-400 bg-amber-400/10" : "border-cyan-500/40 text-white hover:border-cyan-400"
+    }`;
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 swipe-container animate-fade-in">
+      {qualitySettings.backgroundEffects && <CRTOverlay quality={quality} />}
+      <div className="bg-slate-900/95 rounded-lg border-2 border-cyan-500/30 p-6 max-w-2xl w-full max-h-[80vh] overflow-y-auto animate-scale-in">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-3xl font-bold text-cyan-400 font-mono">PRACTICE</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors"
+            title="Close"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <p className="text-xs text-slate-400 font-mono mb-4">
+          Play one unlocked level or boss phase. Practice runs never submit scores; clears update your personal
+          bests. Press {keyBindings.describe("restart")} to restart instantly.
+        </p>
+
+        <div className="space-y-4">
+          <div className="border-l-4 border-cyan-500/50 pl-3">
+            <span className="text-sm text-slate-300 font-mono">Level</span>
+            <div className="grid grid-cols-5 gap-1 mt-1">
+              {Array.from({ length: FINAL_LEVEL }, (_, i) => i + 1).map((target) => (
+                <button
+                  key={target}
+                  onClick={() => selectTarget(target)}
+                  onMouseEnter={() => soundManager.playMenuHover()}
+                  disabled={!isUnlocked(target)}
+                  title={isUnlocked(target) ? undefined : "Reach this level in the campaign to unlock it"}
+                  className={`py-1 flex flex-col items-center ${targetClassName(level === target && !bossPhase)}`}
+                >
+                  <span className="flex items-center gap-1">
+                    {!isUnlocked(target) && <Lock size={10} />}
+                    {target}
+                    {BOSS_LEVELS.includes(target) && " ☠"}
+                  </span>
+                  <span className="text-[10px]">
+                    <BestLine best={bests[getPracticeTargetId(target)]} />
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="border-l-4 border-cyan-500/50 pl-3">
+            <span className="text-sm text-slate-300 font-mono">Boss Phase</span>
+            <div className="space-y-1 mt-1">
+              {PRACTICE_BOSS_PHASE_IDS.map((phase) => {
+                const { level: phaseLevel, name, description } = PRACTICE_BOSS_PHASES[phase];
+                return (
+                  <button
+                    key={phase}
+                    onClick={() => selectTarget(phaseLevel, phase)}
+                    onMouseEnter={() => soundManager.playMenuHover()}
+                    disabled={!isUnlocked(phaseLevel)}
+                    className={`w-full flex items-center justify-between gap-3 px-3 py-1 ${targetClassName(bossPhase === phase)}`}
+                  >
+                    <span className="flex items-center gap-1 text-left">
+                      {!isUnlocked(phaseLevel) && <Lock size={10} />}
+                      {name} <span className="text-slate-500">({description})</span>
+                    </span>
+                    <span className="text-[10px] shrink-0">
+                      <BestLine best={bests[getPracticeTargetId(phaseLevel, phase)]} />
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="border-l-4 border-cyan-500/50 pl-3">
+            <span className="text-sm text-slate-300 font-mono">Starting Power-Ups</span>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-1">
+              {PRACTICE_POWER_UPS.map((type) => (
+                <button
+                  key={type}
+                  onClick={() => togglePowerUp(type)}
+                  onMouseEnter={() => soundManager.playMenuHover()}
+                  className={`px-2 py-1 flex items-center gap-2 ${targetClassName(powerUps.includes(type))}`}
+                >
+                  <img src={powerUpImages[type]} alt="" className="w-6 h-6 object-contain" />
+                  {POWER_UP_LABELS[type]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="border-l-4 border-cyan-500/50 pl-3">
+            <span className="text-sm text-slate-300 font-mono">Difficulty</span>
+            <div className="flex gap-2 mt-1">
+              {(["normal", "godlike"] as Difficulty[]).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => {
+                    soundManager.playMenuClick();
+                    setDifficulty(value);
+                  }}
+                  onMouseEnter={() => soundManager.playMenuHover()}
+                  className={`px-3 py-1 capitalize ${targetClassName(difficulty === value)}`}
+                >
+                  {value}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <Button
+          onClick={handleStart}
+          onMouseEnter={() => soundManager.playMenuHover()}
+          disabled={!isUnlocked(level)}
+          className="w-full mt-6 text-white text-lg py-4 bg-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,60%)]"
+        >
+          {bossPhase ? `Practice ${PRACTICE_BOSS_PHASES[bossPhase].name}` : `Practice Level ${level}`}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { soundManager } from "@/utils/sounds";
+import { keyBindings } from "@/utils/keyBindings";
+import { formatPracticeTime, type PracticeBest } from "@/engine/practice";
+import type { PlaytestSummary } from "@/types/game";
+
+interface PracticeResultsProps {
+  title: string; // Level / boss phase that was practiced
+  summary: PlaytestSummary;
+  best: PracticeBest;
+  newBestTime: boolean;
+  newBestScore: boolean;
+  onRestart: () => void;
+  onExit: () => void;
+}
+
+export const PracticeResults = ({
+  title,
+  summary,
+  best,
+  newBestTime,
+  newBestScore,
+  onRestart,
+  onExit,
+}: PracticeResultsProps) => {
+  // Restart key works here too, so a failed attempt is one key press away from the next
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (keyBindings.matches(e, "restart")) onRestart();
+      else if (e.key === "Escape") onExit();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onRestart, onExit]);
+
+  return (
+    <div className="fixed inset-0 w-full h-screen flex items-center justify-center bg-gradient-to-b from-[hsl(220,25%,12%)] to-[hsl(220,30%,8%)] p-4 animate-fade-in">
+      <Card className="w-full max-w-md p-6 bg-[hsl(220,20%,15%)] border-[hsl(200,70%,50%)] text-white font-mono animate-scale-in">
+        <p className="text-xs text-slate-400 uppercase">Practice · {title}</p>
+        <h2 className={`text-3xl font-bold mb-4 ${summary.cleared ? "text-[hsl(120,60%,60%)]" : "text-red-400"}`}>
+          {summary.cleared ? "CLEARED" : "FAILED"}
+        </h2>
+
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-slate-400">{summary.cleared ? "Time to clear" : "Time played"}</span>
+            <span>
+              {formatPracticeTime(summary.timeMs)}
+              {newBestTime && <span className="text-amber-400"> NEW PB!</span>}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Score</span>
+            <span>
+              {summary.score.toLocaleString()}
+              {newBestScore && <span className="text-amber-400"> NEW PB!</span>}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Balls lost</span>
+            <span>{summary.ballsLost}</span>
+          </div>
+        </div>
+
+        <div className="mt-4 pt-3 border-t border-cyan-500/30 space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-slate-400">Best time</span>
+            <span>{best.bestTimeMs !== null ? formatPracticeTime(best.bestTimeMs) : "—"}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Best score</span>
+            <span>{best.bestScore.toLocaleString()}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Clears</span>
+            <span>
+              {best.clears} / {best.attempts}
+            </span>
+          </div>
+        </div>
+
+        <div className="mt-6 space-y-2">
+          <Button
+            onClick={() => {
+              soundManager.playMenuClick();
+              onRestart();
+            }}
+            onMouseEnter={() => soundManager.playMenuHover()}
+            className="w-full text-white bg-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,60%)]"
+          >
+            Restart ({keyBindings.describe("restart")})
+          </Button>
+          <Button
+            onClick={() => {
+              soundManager.playMenuClick();
+              onExit();
+            }}
+            onMouseEnter={() => soundManager.playMenuHover()}
+            variant="outline"
+            className="w-full border-[hsl(200,70%,50%)] text-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,50%)] hover:text-white"
+          >
+            Back to Menu
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "./ui/button";
+import { Slider } from "./ui/slider";
+import { X, Play, Pause, Download } from "lucide-react";
+import { type ReplayData, findFrameIndex, getBricksAt, downloadReplay } from "@/engine/replay";
+
+interface ReplayViewerProps {
+  replay: ReplayData;
+  onClose: () => void;
+}
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2] as const;
+
+const formatReplayTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+/**
+ * Draw a single replay moment. Simplified rendering (flat shapes) so replays
+ * stay cheap and don't depend on the live renderer's caches.
+ */
+const drawReplayFrame = (ctx: CanvasRenderingContext2D, replay: ReplayData, ms: number) => {
+  const { canvasWidth: w, canvasHeight: h } = replay;
+  ctx.fillStyle = "hsl(220, 25%, 8%)";
+  ctx.fillRect(0, 0, w, h);
+
+  const brickState = getBricksAt(replay, ms);
+  if (brickState) {
+    const { layout, visible } = brickState;
+    for (let i = 0; i < layout.bricks.length; i++) {
+      if (!visible[i]) continue;
+      const [x, y, bw, bh, color] = layout.bricks[i];
+      ctx.fillStyle = color;
+      ctx.fillRect(x, y, bw, bh);
+    }
+  }
+
+  const index = findFrameIndex(replay, ms);
+  if (index < 0) return;
+  const frame = replay.frames[index];
+
+  if (frame.boss) {
+    const [x, y, bw, bh] = frame.boss;
+    ctx.fillStyle = "hsl(0, 70%, 45%)";
+    ctx.fillRect(x, y, bw, bh);
+  }
+
+  ctx.fillStyle = "hsl(280, 70%, 60%)";
+  for (let i = 0; i < frame.enemies.length; i += 4) {
+    ctx.fillRect(frame.enemies[i], frame.enemies[i + 1], frame.enemies[i + 2], frame.enemies[i + 3]);
+  }
+
+  if (frame.paddle) {
+    const [x, y, pw, ph] = frame.paddle;
+    ctx.fillStyle = "hsl(200, 70%, 60%)";
+    ctx.fillRect(x, y, pw, ph);
+  }
+
+  ctx.fillStyle = "hsl(0, 0%, 95%)";
+  for (let i = 0; i < frame.balls.length; i += 2) {
+    ctx.beginPath();
+    ctx.arc(frame.balls[i], frame.balls[i + 1], 5, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.fillStyle = "hsl(48, 100%, 60%)";
+  ctx.font = "14px monospace";
+  ctx.fillText(`LEVEL ${frame.level}   SCORE ${frame.score}   LIVES ${frame.lives}`, 10, h - 10);
+};
+
+export const ReplayViewer = ({ replay, onClose }: ReplayViewerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [positionMs, setPositionMs] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState<number>(1);
+  const positionRef = useRef(0);
+  const durationMs = Math.max(replay.durationMs, replay.frames[replay.frames.length - 1]?.ms ?? 0);
+
+  const seek = useCallback(
+    (ms: number) => {
+      positionRef.current = Math.max(0, Math.min(durationMs, ms));
+      setPositionMs(positionRef.current);
+    },
+    [durationMs],
+  );
+
+  // Playback clock
+  useEffect(() => {
+    if (!isPlaying) return;
+    let rafId: number;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = positionRef.current + (now - last) * speed;
+      last = now;
+      if (next >= durationMs) {
+        seek(durationMs);
+        setIsPlaying(false);
+        return;
+      }
+      seek(next);
+      rafId = requestAnimationFrame(tick);
+    };
+    rafId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(rafId);
+  }, [isPlaying, speed, durationMs, seek]);
+
+  // Redraw on every position change
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (ctx) drawReplayFrame(ctx, replay, positionMs);
+  }, [replay, positionMs]);
+
+  // Keyboard: ESC closes, Space toggles playback, arrows step 5s
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onClose();
+      } else if (e.key === " ") {
+        e.preventDefault();
+        setIsPlaying((p) => !p);
+      } else if (e.key === "ArrowLeft") {
+        seek(positionRef.current - 5000);
+      } else if (e.key === "ArrowRight") {
+        seek(positionRef.current + 5000);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose, seek]);
+
+  return (
+    <div className="fixed inset-0 w-full h-screen flex items-center justify-center bg-black/90 z-[200] animate-fade-in p-2">
+      <div className="relative bg-slate-900/95 border-2 border-cyan-500/50 rounded-lg p-4 max-w-4xl w-full">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-slate-400 hover:text-white transition-colors"
+          title="Close"
+        >
+          <X size={24} />
+        </button>
+
+        <h2 className="text-2xl font-bold text-center text-cyan-400 mb-1 retro-pixel-text">REPLAY</h2>
+        <p className="text-center text-xs text-slate-400 mb-3">
+          {replay.settings.difficulty} · {replay.settings.gameMode} · score {replay.finalScore} · level{" "}
+          {replay.finalLevel} · seed {replay.seed} · v{replay.gameVersion}
+        </p>
+
+        <canvas
+          ref={canvasRef}
+          width={replay.canvasWidth}
+          height={replay.canvasHeight}
+          className="w-full h-auto max-h-[65vh] object-contain border border-slate-700 rounded"
+        />
+
+        <div className="flex items-center gap-3 mt-3">
+          <Button
+            size="sm"
+            onClick={() => {
+              if (!isPlaying && positionRef.current >= durationMs) seek(0);
+              setIsPlaying((p) => !p);
+            }}
+            className="bg-cyan-600 hover:bg-cyan-700 text-white"
+            title={isPlaying ? "Pause" : "Play"}
+          >
+            {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+          </Button>
+
+          <Slider
+            value={[positionMs]}
+            min={0}
+            max={Math.max(1, durationMs)}
+            step={100}
+            onValueChange={([value]) => seek(value)}
+            className="flex-1"
+          />
+
+          <span className="text-xs text-slate-300 font-mono min-w-[90px] text-right">
+            {formatReplayTime(positionMs)} / {formatReplayTime(durationMs)}
+          </span>
+        </div>
+
+        <div className="flex items-center justify-between mt-3">
+          <div className="flex gap-2">
+            {PLAYBACK_SPEEDS.map((s) => (
+              <Button
+                key={s}
+                size="sm"
+                variant={speed === s ? "default" : "outline"}
+                onClick={() => setSpeed(s)}
+                className={speed === s ? "bg-cyan-600 text-white" : "border-cyan-500/50 text-cyan-300"}
+              >
+                {s}x
+              </Button>
+            ))}
+          </div>
+
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => downloadReplay(replay)}
+            className="border-cyan-500/50 text-cyan-300"
+          >
+            <Download size={16} className="mr-1" /> Download
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
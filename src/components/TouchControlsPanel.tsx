@@ -0,0 +1,84 @@
+import { Minus, Plus, Smartphone } from "lucide-react";
+import {
+  TOUCH_SCHEMES,
+  TOUCH_SCHEME_IDS,
+  TOUCH_SETTING_RANGES,
+  type TouchControlSettings,
+  type TouchScheme,
+} from "@/utils/touchControls";
+
+type AdjustableSetting = keyof typeof TOUCH_SETTING_RANGES;
+
+interface TouchControlsPanelProps {
+  settings: TouchControlSettings;
+  onSelectScheme: (scheme: TouchScheme) => void;
+  onAdjust: (key: AdjustableSetting, direction: -1 | 1) => void;
+  onCalibrate: () => void;
+}
+
+export const TouchControlsPanel = ({ settings, onSelectScheme, onAdjust, onCalibrate }: TouchControlsPanelProps) => {
+  const adjustable: { key: AdjustableSetting; label: string } | null =
+    settings.scheme === "relative"
+      ? { key: "dragSensitivity", label: "Drag Sensitivity" }
+      : settings.scheme === "tilt"
+        ? { key: "tiltSensitivity", label: "Tilt Sensitivity" }
+        : null;
+
+  return (
+    <div className="mt-2 md:mt-4">
+      <h3 className="text-cyan-400 font-bold text-sm md:text-base mb-1 md:mb-2 flex items-center gap-2">
+        <Smartphone size={16} /> Touch Controls:
+      </h3>
+      <div className="grid grid-cols-4 gap-1">
+        {TOUCH_SCHEME_IDS.map((scheme) => (
+          <button
+            key={scheme}
+            onClick={() => onSelectScheme(scheme)}
+            className={`py-1 rounded border text-[10px] md:text-xs ${
+              settings.scheme === scheme
+                ? "border-yellow-400 text-yellow-300 bg-cyan-500/10"
+                : "border-cyan-500/40 text-white"
+            }`}
+          >
+            {TOUCH_SCHEMES[scheme].label}
+          </button>
+        ))}
+      </div>
+      <p className="text-slate-400 text-[10px] md:text-xs mt-1">{TOUCH_SCHEMES[settings.scheme].description}</p>
+
+      {adjustable && (
+        <div className="flex justify-between items-center px-1 mt-1">
+          <span className="text-cyan-300">{adjustable.label}</span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onAdjust(adjustable.key, -1)}
+              disabled={settings[adjustable.key] <= TOUCH_SETTING_RANGES[adjustable.key].min}
+              className="p-1 hover:text-cyan-300 disabled:opacity-30"
+              title={`Decrease ${adjustable.label}`}
+            >
+              <Minus size={14} />
+            </button>
+            <span className="w-10 text-center">{settings[adjustable.key].toFixed(2)}x</span>
+            <button
+              onClick={() => onAdjust(adjustable.key, 1)}
+              disabled={settings[adjustable.key] >= TOUCH_SETTING_RANGES[adjustable.key].max}
+              className="p-1 hover:text-cyan-300 disabled:opacity-30"
+              title={`Increase ${adjustable.label}`}
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {settings.scheme === "tilt" && (
+        <button
+          onClick={onCalibrate}
+          className="w-full mt-1 py-1 rounded border border-cyan-500/40 text-white text-[10px] md:text-xs hover:border-cyan-400"
+        >
+          Calibrate: hold the device level, then tap
+        </button>
+      )}
+    </div>
+  );
+};
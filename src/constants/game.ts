@@ -77,6 +77,31 @@ export const colorPalettes = [
   ],
 ];
 
+// Color-blind-safe palettes (Accessibility panel); replace the level palettes when selected
+export const colorBlindPalettes = {
+  // Okabe & Ito, with grey in place of black
+  okabeIto: [
+    "hsl(41, 100%, 45%)", // orange
+    "hsl(202, 77%, 63%)", // sky blue
+    "hsl(164, 100%, 31%)", // bluish green
+    "hsl(56, 85%, 60%)", // yellow
+    "hsl(202, 100%, 35%)", // blue
+    "hsl(26, 100%, 42%)", // vermillion
+    "hsl(327, 45%, 64%)", // reddish purple
+    "hsl(0, 0%, 70%)", // grey
+  ],
+  // Paul Tol "bright"
+  tolBright: [
+    "hsl(210, 43%, 47%)", // blue
+    "hsl(195, 79%, 67%)", // cyan
+    "hsl(130, 60%, 33%)", // green
+    "hsl(53, 57%, 53%)", // yellow
+    "hsl(353, 80%, 67%)", // red
+    "hsl(326, 54%, 43%)", // purple
+    "hsl(0, 0%, 73%)", // grey
+  ],
+};
+
 export const getBrickColors = (level: number): string[] => {
   const paletteIndex = Math.floor((level - 1) / 5) % colorPalettes.length;
   return colorPalettes[paletteIndex];
@@ -109,6 +134,10 @@ export const PHYSICS_CONFIG = {
   EPS_TOI: 0.01, // Tolerance for duplicate collision events
 } as const;
 
+// Special brick mechanics (engine/brickMechanics.ts)
+export const MOVING_BRICK_SPEED = 60; // px/sec
+export const REGEN_BRICK_DELAY = 8000; // 8 seconds
+
 // Boss-exclusive power-up durations
 export const BOSS_STUNNER_DURATION = 5000; // 5 seconds
 export const REFLECT_SHIELD_DURATION = 15000; // 15 seconds
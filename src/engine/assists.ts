@@ -0,0 +1,82 @@
+/**
+ * engine/assists.ts — Player assists.
+ *
+ * Optional help for a campaign run: a slower game speed, a wider paddle, a
+ * ball trajectory preview and infinite lives. Assists never block a score;
+ * a run with any assist turned on is tagged as assisted and its score goes
+ * on the separate Assisted leaderboard instead of the regular ones.
+ *
+ * While a run is live its assists are registered as the active ones (same
+ * pattern as the Daily Challenge); gameplay checks the helpers at the bottom.
+ *
+ * Pure, no React / DOM: imported by the client and by the Deno edge function.
+ */
+
+// ─── Definition ──────────────────────────────────────────────────
+
+export interface AssistSettings {
+  gameSpeed: number; // Game loop time scale, 0.6 - 1.0
+  paddleWidthBonus: number; // Extra paddle width as a fraction of the base width
+  trajectoryPreview: boolean; // Draw the ball's path up to the next brick / paddle
+  infiniteLives: boolean; // Losing a ball never costs a life
+}
+
+export const NO_ASSISTS: AssistSettings = {
+  gameSpeed: 1,
+  paddleWidthBonus: 0,
+  trajectoryPreview: false,
+  infiniteLives: false,
+};
+
+export const ASSIST_GAME_SPEED_RANGE = { min: 0.6, max: 1, step: 0.05 };
+export const ASSIST_PADDLE_WIDTH_BONUSES = [0, 0.15, 0.3, 0.5];
+
+/**
+ * Whether any assist differs from the unassisted defaults
+ */
+export function isAssistedRun(assists: AssistSettings | null | undefined): boolean {
+  if (!assists) return false;
+  return (
+    assists.gameSpeed < NO_ASSISTS.gameSpeed ||
+    assists.paddleWidthBonus > NO_ASSISTS.paddleWidthBonus ||
+    assists.trajectoryPreview ||
+    assists.infiniteLives
+  );
+}
+
+/**
+ * Clamp untrusted assist settings (saved menu state, submitted run summaries)
+ */
+export function normalizeAssists(value: unknown): AssistSettings {
+  if (!value || typeof value !== "object") return { ...NO_ASSISTS };
+  const raw = value as Partial<Record<keyof AssistSettings, unknown>>;
+  const { min, max } = ASSIST_GAME_SPEED_RANGE;
+  const maxBonus = ASSIST_PADDLE_WIDTH_BONUSES[ASSIST_PADDLE_WIDTH_BONUSES.length - 1];
+  return {
+    gameSpeed: typeof raw.gameSpeed === "number" ? Math.min(max, Math.max(min, raw.gameSpeed)) : NO_ASSISTS.gameSpeed,
+    paddleWidthBonus:
+      typeof raw.paddleWidthBonus === "number" ? Math.min(maxBonus, Math.max(0, raw.paddleWidthBonus)) : 0,
+    trajectoryPreview: raw.trajectoryPreview === true,
+    infiniteLives: raw.infiniteLives === true,
+  };
+}
+
+// ─── Active assists ──────────────────────────────────────────────
+
+let activeAssists: AssistSettings = NO_ASSISTS;
+
+/**
+ * Register the assists the current run is playing with (null = none)
+ */
+export function setActiveAssists(assists: AssistSettings | null | undefined): void {
+  activeAssists = assists ?? NO_ASSISTS;
+}
+
+export function getActiveAssists(): AssistSettings {
+  return activeAssists;
+}
+
+/** Lives a lost ball costs in the current run */
+export function getLifeCost(): number {
+  return activeAssists.infiniteLives ? 0 : 1;
+}
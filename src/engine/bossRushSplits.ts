@@ -0,0 +1,169 @@
+/**
+ * engine/bossRushSplits.ts — Boss Rush split times.
+ *
+ * A split is taken each time a boss goes down: the Boss Rush clock at that
+ * moment, the time spent on that boss and the life-costing hits taken while
+ * fighting it. Splits travel with the Boss Rush score (submit-score validates
+ * them with this same module) and feed the per-boss fastest-kill leaderboards.
+ *
+ * On the device, the splits of the fastest completed rush are kept as the
+ * personal best, plus the best kill time per boss, so the stats screen between
+ * bosses can compare the run against them speedrun-style.
+ *
+ * Pure apart from localStorage: imported by the client and by the Deno edge function.
+ */
+
+import { BOSS_RUSH_CONFIG, type BossRushLevel } from "@/constants/bossRushConfig";
+
+const STORAGE_KEY = "vibing-arkanoid-boss-rush-splits";
+
+/** Kills faster than this are not plausible and are dropped from submissions */
+export const MIN_BOSS_KILL_MS = 1_000;
+/** Slack between the last split and the submitted completion time (timer rounding, overlay) */
+const COMPLETION_TIME_SLACK_MS = 2_000;
+const MAX_HITS_PER_BOSS = 99;
+
+// ─── Format ──────────────────────────────────────────────────────
+
+export interface BossRushSplit {
+  bossLevel: BossRushLevel;
+  splitMs: number; // Boss Rush clock when the boss went down
+  killMs: number; // Time spent on this boss
+  hitsTaken: number; // Life-costing hits while fighting it
+}
+
+/** A split as sent to submit-score (and stored in boss_rush_splits) */
+export interface BossRushSplitSubmission {
+  boss_level: number;
+  split_ms: number;
+  hits_taken: number;
+}
+
+/** What this device has on record, for the split comparison */
+export interface BossRushRecords {
+  personalBest: BossRushSplit[] | null; // Splits of the fastest completed rush
+  bestKillMs: Partial<Record<BossRushLevel, number>>; // Fastest kill of each boss, any run
+}
+
+const isCount = (value: unknown): value is number => typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+/**
+ * The split for the next boss in the order, or null if every boss already has one
+ * @param elapsedMs - Boss Rush clock now
+ * @param hitsTakenTotal - Life-costing hits taken so far this rush
+ */
+export function createBossRushSplit(previous: BossRushSplit[], elapsedMs: number, hitsTakenTotal: number): BossRushSplit | null {
+  const bossLevel = BOSS_RUSH_CONFIG.bossOrder[previous.length];
+  if (bossLevel === undefined) return null;
+  const last = previous[previous.length - 1];
+  const hitsBefore = previous.reduce((sum, split) => sum + split.hitsTaken, 0);
+  const splitMs = Math.max(Math.round(elapsedMs), last?.splitMs ?? 0);
+  return {
+    bossLevel,
+    splitMs,
+    killMs: splitMs - (last?.splitMs ?? 0),
+    hitsTaken: Math.max(0, hitsTakenTotal - hitsBefore),
+  };
+}
+
+export function toSplitSubmissions(splits: BossRushSplit[]): BossRushSplitSubmission[] {
+  return splits.map((split) => ({ boss_level: split.bossLevel, split_ms: split.splitMs, hits_taken: split.hitsTaken }));
+}
+
+/**
+ * Validate submitted splits against the score they came with: one per boss
+ * beaten, in Boss Rush order, increasing, within the completion time and
+ * with plausible kill times
+ * @param bossLevelReached - boss_level of the score (the boss the run ended on)
+ * @returns The splits, or null if they don't hold up
+ */
+export function parseSplitSubmissions(raw: unknown, completionTimeMs: number, bossLevelReached: number): BossRushSplit[] | null {
+  if (!Array.isArray(raw) || raw.length > BOSS_RUSH_CONFIG.bossOrder.length) return null;
+  const splits: BossRushSplit[] = [];
+  for (const [index, entry] of raw.entries()) {
+    if (!entry || typeof entry !== "object") return null;
+    const { boss_level, split_ms, hits_taken } = entry as Partial<Record<keyof BossRushSplitSubmission, unknown>>;
+    const expectedLevel = BOSS_RUSH_CONFIG.bossOrder[index];
+    if (boss_level !== expectedLevel || expectedLevel > bossLevelReached) return null;
+    if (!isCount(split_ms) || !isCount(hits_taken) || hits_taken > MAX_HITS_PER_BOSS) return null;
+    const previousMs = splits[index - 1]?.splitMs ?? 0;
+    if (split_ms - previousMs < MIN_BOSS_KILL_MS) return null;
+    if (split_ms > completionTimeMs + COMPLETION_TIME_SLACK_MS) return null;
+    splits.push({ bossLevel: expectedLevel, splitMs: split_ms, killMs: split_ms - previousMs, hitsTaken: hits_taken });
+  }
+  return splits;
+}
+
+// ─── Personal bests ──────────────────────────────────────────────
+
+export function loadBossRushRecords(): BossRushRecords {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<BossRushRecords>;
+      return {
+        personalBest: Array.isArray(parsed.personalBest) ? parsed.personalBest : null,
+        bestKillMs: parsed.bestKillMs && typeof parsed.bestKillMs === "object" ? parsed.bestKillMs : {},
+      };
+    }
+  } catch {
+    // Ignore localStorage errors
+  }
+  return { personalBest: null, bestKillMs: {} };
+}
+
+/**
+ * Save a finished rush: its kills update the per-boss bests, and a completed
+ * rush faster than the personal best replaces it
+ * @returns Whether the rush is a new personal best
+ */
+export function recordBossRushSplits(splits: BossRushSplit[]): boolean {
+  if (splits.length === 0) return false;
+  const records = loadBossRushRecords();
+  for (const split of splits) {
+    const best = records.bestKillMs[split.bossLevel];
+    if (best === undefined || split.killMs < best) records.bestKillMs[split.bossLevel] = split.killMs;
+  }
+  const completed = splits.length === BOSS_RUSH_CONFIG.bossOrder.length;
+  const pbTime = records.personalBest?.[records.personalBest.length - 1]?.splitMs;
+  const newPersonalBest = completed && (pbTime === undefined || splits[splits.length - 1].splitMs < pbTime);
+  if (newPersonalBest) records.personalBest = splits;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+  } catch {
+    // Ignore localStorage errors
+  }
+  return newPersonalBest;
+}
+
+/**
+ * How a split compares with the records
+ * @returns deltaMs: ahead (negative) or behind (positive) the personal best at
+ * the same boss, null without one; bestKill: fastest kill of this boss so far
+ */
+export function compareSplit(split: BossRushSplit, records: BossRushRecords): { deltaMs: number | null; bestKill: boolean } {
+  const pbSplit = records.personalBest?.find((entry) => entry.bossLevel === split.bossLevel);
+  const bestKill = records.bestKillMs[split.bossLevel];
+  return {
+    deltaMs: pbSplit ? split.splitMs - pbSplit.splitMs : null,
+    bestKill: bestKill === undefined || split.killMs < bestKill,
+  };
+}
+
+// ─── Display ─────────────────────────────────────────────────────
+
+/** "m:ss.cc" */
+export function formatSplitTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  const centiseconds = Math.floor((ms % 1000) / 10);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}.${centiseconds.toString().padStart(2, "0")}`;
+}
+
+/** "-1.23" when ahead, "+0.45" when behind (seconds; minutes past 60 s) */
+export function formatSplitDelta(deltaMs: number): string {
+  const sign = deltaMs < 0 ? "-" : "+";
+  const abs = Math.abs(deltaMs);
+  return abs >= 60_000 ? `${sign}${formatSplitTime(abs)}` : `${sign}${(abs / 1000).toFixed(2)}`;
+}
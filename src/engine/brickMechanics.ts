@@ -0,0 +1,126 @@
+/**
+ * engine/brickMechanics.ts — Per-frame behaviour of special bricks.
+ *
+ * Slides moving bricks along their row and regrows regenerating bricks.
+ * Portal teleports happen inside the CCD sweep (utils/processBallCCD.ts).
+ * Runs at the start of runPhysicsFrame, so timers only advance while the game is live.
+ */
+
+import type { Ball, Brick } from "@/types/game";
+import { brickSpatialHash } from "@/utils/spatialHash";
+
+// ─── Helpers ───
+
+function rectOverlapsBall(x: number, y: number, width: number, height: number, balls: Ball[]): boolean {
+  for (const ball of balls) {
+    const nearestX = Math.max(x, Math.min(ball.x, x + width));
+    const nearestY = Math.max(y, Math.min(ball.y, y + height));
+    const dx = ball.x - nearestX;
+    const dy = ball.y - nearestY;
+    if (dx * dx + dy * dy < ball.radius * ball.radius) return true;
+  }
+  return false;
+}
+
+/** Another visible brick overlaps the rect (the spatial hash holds every visible brick) */
+function rectOverlapsBrick(brick: Brick, x: number, y: number): boolean {
+  const nearby = brickSpatialHash.query({ x, y, w: brick.width, h: brick.height });
+  for (const other of nearby) {
+    if (other === brick) continue;
+    if (
+      other.x < x + brick.width &&
+      other.x + other.width > x &&
+      other.y < y + brick.height &&
+      other.y + other.height > y
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** Re-insert a brick whose position or visibility changed (the hash keys cells by position) */
+function reinsertBrick(brick: Brick): void {
+  brickSpatialHash.remove(brick);
+  brickSpatialHash.insert(brick);
+}
+
+// ─── Moving bricks ───
+
+/**
+ * Slide a brick along its row; it reverses at the grid edges, at other bricks
+ * and instead of pushing into a ball (which CCD could not resolve)
+ */
+function updateMovingBrick(brick: Brick, balls: Ball[], dtSeconds: number): void {
+  const speed = brick.moveSpeed ?? 0;
+  if (speed === 0) return;
+
+  const nextX = brick.x + speed * dtSeconds;
+  const blocked =
+    nextX < (brick.moveMinX ?? -Infinity) ||
+    nextX + brick.width > (brick.moveMaxX ?? Infinity) ||
+    rectOverlapsBall(nextX, brick.y, brick.width, brick.height, balls) ||
+    rectOverlapsBrick(brick, nextX, brick.y);
+
+  if (blocked) {
+    brick.moveSpeed = -speed;
+    return;
+  }
+
+  brick.x = nextX;
+  reinsertBrick(brick);
+}
+
+// ─── Regenerating bricks ───
+
+/** A destructible brick is still standing in one of the four neighbouring grid cells */
+function hasStandingNeighbour(brick: Brick, bricks: Brick[]): boolean {
+  if (brick.row === undefined || brick.col === undefined) return false;
+  for (const other of bricks) {
+    if (other === brick || !other.visible || other.isIndestructible) continue;
+    if (other.row === undefined || other.col === undefined) continue;
+    if (Math.abs(other.row - brick.row) + Math.abs(other.col - brick.col) === 1) return true;
+  }
+  return false;
+}
+
+/**
+ * Count down a destroyed brick and regrow it at full strength. If its neighbours
+ * are all cleared by then it stays cleared for good, so a level can always be finished.
+ */
+function updateRegeneratingBrick(brick: Brick, bricks: Brick[], balls: Ball[], dtMs: number): void {
+  if (brick.visible || !brick.regenDelayMs) {
+    brick.regenTimerMs = undefined;
+    return;
+  }
+
+  brick.regenTimerMs = (brick.regenTimerMs ?? brick.regenDelayMs) - dtMs;
+  if (brick.regenTimerMs > 0) return;
+
+  if (!hasStandingNeighbour(brick, bricks)) {
+    brick.regenDelayMs = undefined;
+    brick.regenTimerMs = undefined;
+    return;
+  }
+  // Wait for balls and moving bricks to leave the cell
+  if (rectOverlapsBall(brick.x, brick.y, brick.width, brick.height, balls)) return;
+  if (rectOverlapsBrick(brick, brick.x, brick.y)) return;
+
+  brick.visible = true;
+  brick.hitsRemaining = brick.maxHits;
+  brick.timesRegrown = (brick.timesRegrown ?? 0) + 1;
+  brick.regenTimerMs = undefined;
+  reinsertBrick(brick);
+}
+
+// ─── Frame update ───
+
+export function updateBrickMechanics(bricks: Brick[], balls: Ball[], dtSeconds: number): void {
+  for (const brick of bricks) {
+    if (brick.type === "moving" && brick.visible) {
+      updateMovingBrick(brick, balls, dtSeconds);
+    } else if (brick.type === "regenerating") {
+      updateRegeneratingBrick(brick, bricks, balls, dtSeconds * 1000);
+    }
+  }
+}
@@ -10,8 +10,9 @@
 
 import type { GameWorld } from "@/engine/state";
 import type { RenderState, AssetRefs } from "@/engine/renderState";
-import type { Brick, BonusLetterType } from "@/types/game";
+import type { Ball, Brick, BonusLetterType, Paddle } from "@/types/game";
 import { isMegaBoss, type MegaBoss } from "@/utils/megaBossUtils";
+import { getBossLevelFor, levelHasMegaBoss } from "@/engine/levelPack";
 import { brickRenderer } from "@/utils/brickLayerCache";
 import { particlePool } from "@/utils/particlePool";
 
@@ -172,6 +173,131 @@ function drawHexShadow(
   ctx.fill();
 }
 
+// ─── Accessibility Overlays ──────────────────────────────────
+
+const HIT_PIP_SIZE = 4;
+const HIT_PIP_GAP = 3;
+
+/**
+ * Hits remaining on each multi-hit brick, as a number or a row of pips.
+ * Bricks at full strength that only take one hit are left plain.
+ */
+function drawHitIndicators(ctx: CanvasRenderingContext2D, bricks: Brick[], mode: "number" | "pattern"): void {
+  ctx.save();
+  if (mode === "number") {
+    ctx.font = "bold 12px monospace";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = "#000";
+    ctx.fillStyle = "#fff";
+  } else {
+    ctx.fillStyle = "#fff";
+    ctx.strokeStyle = "#000";
+    ctx.lineWidth = 1;
+  }
+  for (let i = 0; i < bricks.length; i++) {
+    const brick = bricks[i];
+    if (!brick.visible || brick.isIndestructible || brick.maxHits <= 1) continue;
+    const cx = brick.x + brick.width / 2;
+    const cy = brick.y + brick.height / 2;
+    if (mode === "number") {
+      const label = String(brick.hitsRemaining);
+      ctx.strokeText(label, cx, cy);
+      ctx.fillText(label, cx, cy);
+    } else {
+      const rowWidth = brick.hitsRemaining * HIT_PIP_SIZE + (brick.hitsRemaining - 1) * HIT_PIP_GAP;
+      let x = cx - rowWidth / 2;
+      for (let pip = 0; pip < brick.hitsRemaining; pip++) {
+        ctx.fillRect(x, cy - HIT_PIP_SIZE / 2, HIT_PIP_SIZE, HIT_PIP_SIZE);
+        ctx.strokeRect(x, cy - HIT_PIP_SIZE / 2, HIT_PIP_SIZE, HIT_PIP_SIZE);
+        x += HIT_PIP_SIZE + HIT_PIP_GAP;
+      }
+    }
+  }
+  ctx.restore();
+}
+
+// ─── Assist Overlays ─────────────────────────────────────────
+
+const TRAJECTORY_MAX_BOUNCES = 3;
+
+/** Distance along (dirX, dirY) to the first brick (expanded by the ball radius), or Infinity */
+function traceToBrick(bricks: Brick[], x: number, y: number, dirX: number, dirY: number, radius: number): number {
+  let nearest = Infinity;
+  for (let i = 0; i < bricks.length; i++) {
+    const brick = bricks[i];
+    if (!brick.visible) continue;
+    // Slab test against the brick rectangle grown by the ball radius
+    const invX = 1 / dirX;
+    const invY = 1 / dirY;
+    const tx1 = (brick.x - radius - x) * invX;
+    const tx2 = (brick.x + brick.width + radius - x) * invX;
+    const ty1 = (brick.y - radius - y) * invY;
+    const ty2 = (brick.y + brick.height + radius - y) * invY;
+    const tNear = Math.max(Math.min(tx1, tx2), Math.min(ty1, ty2));
+    const tFar = Math.min(Math.max(tx1, tx2), Math.max(ty1, ty2));
+    if (tNear <= tFar && tFar > 0 && tNear > 0 && tNear < nearest) nearest = tNear;
+  }
+  return nearest;
+}
+
+/**
+ * Path each ball will take off the walls until it reaches a brick or the
+ * paddle line (launch aim for a ball still on the paddle).
+ */
+function drawTrajectoryPreview(
+  ctx: CanvasRenderingContext2D,
+  balls: Ball[],
+  bricks: Brick[],
+  paddle: Paddle | null,
+  launchAngle: number,
+  width: number,
+  height: number,
+): void {
+  ctx.save();
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.45)";
+  ctx.lineWidth = 2;
+  ctx.setLineDash([4, 6]);
+  for (let i = 0; i < balls.length; i++) {
+    const ball = balls[i];
+    let dirX = ball.dx;
+    let dirY = ball.dy;
+    if (ball.waitingToLaunch) {
+      const angle = (launchAngle * Math.PI) / 180;
+      dirX = Math.sin(angle);
+      dirY = -Math.cos(angle);
+    }
+    const length = Math.hypot(dirX, dirY);
+    if (length === 0) continue;
+    dirX /= length;
+    dirY /= length;
+
+    const r = ball.radius;
+    const floorY = paddle ? paddle.y - r : height - r;
+    let x = ball.x;
+    let y = ball.y;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    for (let bounce = 0; bounce <= TRAJECTORY_MAX_BOUNCES; bounce++) {
+      const tWall = dirX < 0 ? (r - x) / dirX : dirX > 0 ? (width - r - x) / dirX : Infinity;
+      const tTop = dirY < 0 ? (r - y) / dirY : Infinity;
+      const tFloor = dirY > 0 ? (floorY - y) / dirY : Infinity;
+      const tBrick = traceToBrick(bricks, x, y, dirX, dirY, r);
+      const t = Math.max(0, Math.min(tWall, tTop, tFloor, tBrick));
+      if (!Number.isFinite(t)) break;
+      x += dirX * t;
+      y += dirY * t;
+      ctx.lineTo(x, y);
+      if (t === tBrick || t === tFloor) break;
+      if (t === tWall) dirX = -dirX;
+      else dirY = -dirY;
+    }
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
 // ─── Main Render Function ────────────────────────────────────
 
 export function renderFrame(
@@ -220,11 +346,15 @@ export function renderFrame(
   const getReadyGlow = rs.getReadyGlow;
   const secondChanceImpact = rs.secondChanceImpact;
   const ballReleaseHighlight = rs.ballReleaseHighlight;
+  const { hitIndicator, highContrast, reducedMotion } = rs.accessibility;
+  const music = rs.music;
+  // Beat pulses and flicker count as flashing: off with reduced motion
+  const musicReactivity = reducedMotion ? 0 : qualitySettings.musicReactivity;
   const SHOW_BOSS_HITBOX = debugEnabled;
 
   // ═══ Apply screen shake ═══
   ctx.save();
-  if (screenShake > 0) {
+  if (screenShake > 0 && !reducedMotion) {
     // Deterministic noise via sin/cos — no Math.random() in render hot-path
     const shakeX = Math.sin(now * 0.073) * screenShake;
     const shakeY = Math.cos(now * 0.097) * screenShake;
@@ -237,23 +367,24 @@ export function renderFrame(
 
   // Draw background based on level
   let useFittedBackground = false;
+  const bossLevel = getBossLevelFor(level);
 
-  if (level === 5 && isImageValid(assets.bossLevel5Bg)) {
+  if (bossLevel === 5 && isImageValid(assets.bossLevel5Bg)) {
     ctx.drawImage(assets.bossLevel5Bg, 0, 0, width, height);
     useFittedBackground = true;
-  } else if (level === 10 && isImageValid(assets.bossLevel10Bg)) {
+  } else if (bossLevel === 10 && isImageValid(assets.bossLevel10Bg)) {
     ctx.drawImage(assets.bossLevel10Bg, 0, 0, width, height);
     useFittedBackground = true;
-  } else if (level === 15 && isImageValid(assets.bossLevel15Bg)) {
+  } else if (bossLevel === 15 && isImageValid(assets.bossLevel15Bg)) {
     ctx.drawImage(assets.bossLevel15Bg, 0, 0, width, height);
     useFittedBackground = true;
-  } else if (level === 20 && isImageValid(assets.bossLevel20Bg)) {
+  } else if (bossLevel === 20 && isImageValid(assets.bossLevel20Bg)) {
     ctx.drawImage(assets.bossLevel20Bg, 0, 0, width, height);
     useFittedBackground = true;
   }
 
   // Music-reactive hue overlay (Phase 3 mega boss + hit streak x10+)
-  if (world.backgroundHue > 0 && qualitySettings.level !== "low") {
+  if (world.backgroundHue > 0 && qualitySettings.level !== "low" && !reducedMotion) {
     ctx.save();
     ctx.globalCompositeOperation = "overlay";
     ctx.fillStyle = `hsla(${world.backgroundHue}, 80%, 50%, 0.25)`;
@@ -291,8 +422,23 @@ export function renderFrame(
   //    ctx.fillStyle = "rgba(0, 0, 0, 0.4)";
   //    ctx.fillRect(0, 0, width, height);
 
-  if (!isMobile && qualitySettings.ambientFlickerEnabled) {
-    const ambientFlicker = Math.sin(now / 500) * 0.03 + 0.03;
+  // Music-reactive background pulse: bass swell plus a kick on each beat
+  if (musicReactivity > 0) {
+    const pulse = (music.bass * 0.06 + music.beatPulse * 0.1) * musicReactivity;
+    if (pulse > 0.005) {
+      ctx.save();
+      ctx.globalCompositeOperation = "screen";
+      ctx.globalAlpha = pulse;
+      ctx.fillStyle = "hsl(270, 80%, 60%)";
+      ctx.fillRect(0, 0, width, height);
+      ctx.restore();
+    }
+  }
+
+  if (!isMobile && qualitySettings.ambientFlickerEnabled && !reducedMotion) {
+    // CRT flicker gets stronger with the music's highs
+    const flickerBoost = 1 + music.high * 2 * musicReactivity;
+    const ambientFlicker = (Math.sin(now / 500) * 0.03 + 0.03) * flickerBoost;
     ctx.save();
     ctx.globalCompositeOperation = "screen";
     ctx.fillStyle = `rgba(100, 150, 200, ${ambientFlicker})`;
@@ -301,7 +447,7 @@ export function renderFrame(
   }
 
   // Highlight flash effect
-  if (highlightFlash > 0 && level >= 1 && level <= 4 && qualitySettings.level !== "low") {
+  if (highlightFlash > 0 && level >= 1 && level <= 4 && qualitySettings.level !== "low" && !reducedMotion) {
     ctx.save();
     const isGolden = highlightFlash > 1.2;
     const intensity = Math.min(highlightFlash, 1.0);
@@ -327,6 +473,7 @@ export function renderFrame(
   if (brickRenderer.isReady()) {
     brickRenderer.updateCache(bricks, qualitySettings);
     brickRenderer.drawToCanvas(ctx);
+    brickRenderer.drawDynamicBricks(ctx, bricks, qualitySettings);
   } else {
     bricks.forEach((brick) => {
       if (brick.visible) {
@@ -337,6 +484,29 @@ export function renderFrame(
     });
   }
 
+  // Music-reactive brick glow — one additive fill over all visible bricks
+  if (musicReactivity > 0) {
+    const glow = (music.beatPulse * 0.18 + music.mid * 0.06) * musicReactivity;
+    if (glow > 0.01) {
+      ctx.save();
+      ctx.globalCompositeOperation = "lighter";
+      ctx.globalAlpha = glow;
+      ctx.fillStyle = "hsl(190, 100%, 70%)";
+      ctx.beginPath();
+      for (let i = 0; i < bricks.length; i++) {
+        const brick = bricks[i];
+        if (brick.visible) ctx.rect(brick.x, brick.y, brick.width, brick.height);
+      }
+      ctx.fill();
+      ctx.restore();
+    }
+  }
+
+  // Hits-remaining overlay (Accessibility) — tells damage states apart without color
+  if (hitIndicator !== "off") {
+    drawHitIndicators(ctx, bricks, hitIndicator);
+  }
+
   // ═══ Draw paddle ═══
   if (paddle) {
     const img = assets.paddleImage;
@@ -355,6 +525,15 @@ export function renderFrame(
       ctx.fillStyle = "rgba(255, 255, 255, 0.25)";
       ctx.fillRect(paddle.x, paddle.y, paddle.width, paddle.height / 2);
     }
+    if (highContrast) {
+      // Black then white outline: visible on light and dark backgrounds
+      ctx.lineWidth = 4;
+      ctx.strokeStyle = "#000";
+      ctx.strokeRect(paddle.x - 2, paddle.y - 2, paddle.width + 4, paddle.height + 4);
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = "#fff";
+      ctx.strokeRect(paddle.x - 2, paddle.y - 2, paddle.width + 4, paddle.height + 4);
+    }
     ctx.restore();
   }
 
@@ -466,6 +645,11 @@ export function renderFrame(
     }
   }
 
+  // Trajectory preview (assist)
+  if (rs.trajectoryPreview) {
+    drawTrajectoryPreview(ctx, balls, bricks, paddle, launchAngle, width, height);
+  }
+
   // ═══ Draw balls ═══
   const chaosLevel = Math.min(
     1,
@@ -658,6 +842,21 @@ export function renderFrame(
 
     ctx.restore();
 
+    if (highContrast) {
+      ctx.save();
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = "#000";
+      ctx.beginPath();
+      ctx.arc(ball.x, ball.y, visualRadius + 2, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = "#fff";
+      ctx.beginPath();
+      ctx.arc(ball.x, ball.y, visualRadius + 3.5, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+    }
+
     // Fireball trail
     if (ball.isFireball && qualitySettings.glowEnabled) {
       const trailLength = 8;
@@ -2592,7 +2791,7 @@ function drawBoss(
   ctx.save();
   ctx.translate(centerX, centerY);
 
-  if (level === 20 && isMegaBoss(boss)) {
+  if (levelHasMegaBoss(level) && isMegaBoss(boss)) {
     // Mega boss rendering - simplified for brevity, kept identical to original
     drawMegaBoss(ctx, boss as MegaBoss, qualitySettings, now, showHitbox, paddle, width, height, assets);
   } else if (boss.type === "cube") {
@@ -2643,7 +2842,7 @@ function drawBoss(
   ctx.restore();
 
   // Health bar (skip for mega boss)
-  if (!(level === 20 && isMegaBoss(boss))) {
+  if (!(levelHasMegaBoss(level) && isMegaBoss(boss))) {
     const hbWidth = boss.width + 40;
     const hbHeight = 10;
     const hbX = boss.x + boss.width / 2 - hbWidth / 2;
@@ -0,0 +1,120 @@
+/**
+ * engine/dailyChallenge.ts — Daily Challenge runs.
+ *
+ * Everything about the day's run is derived from the UTC date: the run seed,
+ * the starting level, a fixed pool of brick power-ups and one mutator. Every
+ * player therefore gets the same layouts, drops and rules on the same day.
+ *
+ * While a daily run is live its challenge is registered as the active one
+ * (same pattern as the active level pack); power-up rolls and speed / brick
+ * setup check the helpers at the bottom of this file.
+ */
+
+import type { Brick, PowerUpType } from "@/types/game";
+import { BRICK_POWER_UP_TYPES } from "@/utils/powerUpWeights";
+import { SeededRandom, deriveSeed, seedFromString } from "@/utils/rng";
+
+// ─── Definition ──────────────────────────────────────────────────
+
+export type DailyMutator = "fastBall" | "oneLife" | "armoredBricks" | "noExtraLives";
+
+export interface DailyChallenge {
+  date: string; // UTC day, "YYYY-MM-DD"
+  seed: number;
+  startingLevel: number;
+  powerUpPool: PowerUpType[]; // Brick power-ups that can drop today
+  mutator: DailyMutator;
+}
+
+export const DAILY_MUTATORS: Record<DailyMutator, { name: string; description: string }> = {
+  fastBall: { name: "Fast Ball", description: "Ball speed +15%" },
+  oneLife: { name: "One Life", description: "Start with a single life" },
+  armoredBricks: { name: "Armored Bricks", description: "Every breakable brick takes one extra hit" },
+  noExtraLives: { name: "No Extra Lives", description: "Extra life power-ups never drop" },
+};
+
+const DAILY_MUTATOR_IDS = Object.keys(DAILY_MUTATORS) as DailyMutator[];
+
+/** Brick levels a daily run can start on (early enough that a run lasts a while) */
+const DAILY_START_LEVELS = [1, 2, 3, 4, 6, 7, 8, 9];
+const DAILY_POOL_SIZE = 4;
+const DAILY_FAST_BALL_MULTIPLIER = 1.15;
+const DAILY_STARTING_LIVES = 3;
+
+const MODIFIER_SALT = 0xda17;
+
+/**
+ * UTC calendar day of a date, as "YYYY-MM-DD"
+ */
+export function getUtcDateKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The challenge for a UTC day; identical for every player
+ * @param date - Any moment of the day (defaults to now)
+ */
+export function getDailyChallenge(date: Date = new Date()): DailyChallenge {
+  const key = getUtcDateKey(date);
+  const seed = seedFromString(`daily-${key}`);
+  // Modifiers use their own stream so they never shift the run's gameplay rolls
+  const rng = new SeededRandom(deriveSeed(seed, MODIFIER_SALT));
+  return {
+    date: key,
+    seed,
+    startingLevel: rng.pick(DAILY_START_LEVELS),
+    powerUpPool: rng.shuffle(BRICK_POWER_UP_TYPES).slice(0, DAILY_POOL_SIZE),
+    mutator: rng.pick(DAILY_MUTATOR_IDS),
+  };
+}
+
+/** Starting lives for a daily run */
+export function getDailyStartingLives(challenge: DailyChallenge): number {
+  return challenge.mutator === "oneLife" ? 1 : DAILY_STARTING_LIVES;
+}
+
+// ─── Active challenge ────────────────────────────────────────────
+
+let activeChallenge: DailyChallenge | null = null;
+
+/**
+ * Register the challenge the current run is playing (null = not a daily run)
+ */
+export function setActiveDailyChallenge(challenge: DailyChallenge | null): void {
+  activeChallenge = challenge;
+}
+
+export function getActiveDailyChallenge(): DailyChallenge | null {
+  return activeChallenge;
+}
+
+/**
+ * Whether a power-up may drop in the current run. Boss-exclusive power-ups
+ * are never restricted; outside a daily run everything is allowed.
+ */
+export function isPowerUpAllowed(type: PowerUpType): boolean {
+  if (!activeChallenge) return true;
+  if (type === "life") return activeChallenge.mutator !== "noExtraLives";
+  if (!BRICK_POWER_UP_TYPES.includes(type)) return true;
+  return activeChallenge.powerUpPool.includes(type);
+}
+
+/** Ball speed factor on top of the level speed */
+export function getDailySpeedMultiplier(): number {
+  return activeChallenge?.mutator === "fastBall" ? DAILY_FAST_BALL_MULTIPLIER : 1;
+}
+
+/**
+ * Apply brick mutators to a freshly built level (in place)
+ */
+export function applyDailyBrickMutator(bricks: Brick[]): Brick[] {
+  if (activeChallenge?.mutator !== "armoredBricks") return bricks;
+  for (const brick of bricks) {
+    // Cracked bricks keep 3 hits: their texture tracks the damage stages
+    if (brick.isIndestructible || brick.type === "cracked") continue;
+    brick.points = (brick.points / brick.maxHits) * (brick.maxHits + 1);
+    brick.maxHits += 1;
+    brick.hitsRemaining = brick.maxHits;
+  }
+  return bricks;
+}
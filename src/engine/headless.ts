@@ -0,0 +1,348 @@
+/**
+ * engine/headless.ts — Headless level simulator.
+ *
+ * Steps the real physics (`runPhysicsFrame`) against the `world` singleton
+ * with no canvas, React or audio. A scripted paddle AI plays the level; the
+ * report covers bricks cleared, balls lost, time to clear and tunnelling
+ * events (ball segments that crossed a brick that was neither hit nor
+ * destroyed). Used by `scripts/simulate.ts` for physics regression checks
+ * and level balancing.
+ *
+ * Time is simulated: `Date.now()` / `performance.now()` are swapped for a
+ * virtual clock during the run so timers inside physics (gravity delay,
+ * chain explosions) follow simulated time, not wall-clock time.
+ */
+
+import type { Ball, Difficulty } from "@/types/game";
+import { CANVAS_WIDTH, CANVAS_HEIGHT, PADDLE_WIDTH, PADDLE_HEIGHT, BALL_RADIUS, FINAL_LEVEL } from "@/constants/game";
+import { levelLayouts } from "@/constants/levelLayouts";
+import { BOSS_LEVELS } from "@/constants/bossConfig";
+import { brickSpatialHash } from "@/utils/spatialHash";
+import { SeededRandom, seedRun, deriveSeed } from "@/utils/rng";
+import { runPhysicsFrame, type PhysicsConfig } from "./physics";
+import { resetWorld, world } from "./state";
+import { buildLevelBricks, getBrickGridDimensions, getLevelSpeedMultiplier, type LevelLayout } from "./level";
+import { generateLevelLayout } from "./levelGenerator";
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export interface PaddleAIOptions {
+  /** Max paddle speed in px/s */
+  speed: number;
+  /** Random aim error in px, re-rolled every paddle contact */
+  errorPx: number;
+  /** Frames to wait before launching a ball */
+  launchDelayFrames: number;
+}
+
+export interface HeadlessOptions {
+  level: number;
+  /** Layout override (defaults to levelLayouts[level - 1], or the Endless generator past FINAL_LEVEL) */
+  layout?: LevelLayout;
+  seed?: number;
+  difficulty?: Difficulty;
+  /** Give up after this much simulated time */
+  maxSimMs?: number;
+  /** Give up after this many balls are lost */
+  maxBallsLost?: number;
+  /** Simulation step (defaults to 60 Hz) */
+  dtSeconds?: number;
+  qualityLevel?: PhysicsConfig["qualityLevel"];
+  ai?: Partial<PaddleAIOptions>;
+}
+
+export interface TunnellingEvent {
+  frame: number;
+  timeMs: number;
+  ballId: number;
+  brickId: number;
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+}
+
+export interface HeadlessReport {
+  level: number;
+  seed: number;
+  difficulty: Difficulty;
+  cleared: boolean;
+  destructibleBricks: number;
+  bricksCleared: number;
+  ballsLost: number;
+  timeToClearMs: number | null;
+  simulatedMs: number;
+  frames: number;
+  paddleHits: number;
+  tunnellingEvents: TunnellingEvent[];
+}
+
+const DEFAULT_AI: PaddleAIOptions = {
+  speed: 900,
+  errorPx: 20,
+  launchDelayFrames: 30,
+};
+
+const AI_RNG_SALT = 0xa1;
+
+// ─── Virtual clock ───────────────────────────────────────────────
+
+/**
+ * Replace Date.now / performance.now with a simulated clock
+ * @returns Controls to advance the clock and restore the real one
+ */
+function installSimClock(startMs: number) {
+  const realDateNow = Date.now;
+  const realPerfNow = performance.now.bind(performance);
+  let nowMs = startMs;
+  Date.now = () => Math.floor(nowMs);
+  performance.now = () => nowMs;
+  return {
+    advance(ms: number) {
+      nowMs += ms;
+    },
+    restore() {
+      Date.now = realDateNow;
+      performance.now = realPerfNow;
+    },
+  };
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+/**
+ * Liang-Barsky segment vs rect test
+ */
+function segmentIntersectsRect(
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  rx: number,
+  ry: number,
+  rw: number,
+  rh: number,
+): boolean {
+  const dx = x1 - x0;
+  const dy = y1 - y0;
+  let t0 = 0;
+  let t1 = 1;
+  const p = [-dx, dx, -dy, dy];
+  const q = [x0 - rx, rx + rw - x0, y0 - ry, ry + rh - y0];
+  for (let i = 0; i < 4; i++) {
+    if (p[i] === 0) {
+      if (q[i] < 0) return false;
+      continue;
+    }
+    const t = q[i] / p[i];
+    if (p[i] < 0) {
+      if (t > t1) return false;
+      if (t > t0) t0 = t;
+    } else {
+      if (t < t0) return false;
+      if (t < t1) t1 = t;
+    }
+  }
+  return t0 <= t1;
+}
+
+/**
+ * Predict where a ball will cross `targetY`, folding wall reflections
+ */
+function predictInterceptX(ball: Ball, targetY: number, canvasWidth: number): number {
+  if (ball.dy <= 0) return ball.x;
+  const steps = (targetY - ball.y) / ball.dy;
+  const minX = ball.radius;
+  const span = canvasWidth - ball.radius * 2;
+  let x = ball.x + ball.dx * steps - minX;
+  const period = span * 2;
+  x = ((x % period) + period) % period;
+  return minX + (x > span ? period - x : x);
+}
+
+function createWaitingBall(id: number, paddleX: number, paddleY: number, speed: number): Ball {
+  const radius = BALL_RADIUS;
+  return {
+    x: paddleX + PADDLE_WIDTH / 2,
+    y: paddleY - radius - 5,
+    dx: 0,
+    dy: -speed,
+    radius,
+    speed,
+    id,
+    isFireball: false,
+    waitingToLaunch: true,
+    rotation: 0,
+  };
+}
+
+// ─── Runner ──────────────────────────────────────────────────────
+
+/**
+ * Simulate a single brick level to completion (or until a limit is hit)
+ */
+export function runHeadlessLevel(options: HeadlessOptions): HeadlessReport {
+  const level = options.level;
+  const difficulty: Difficulty = options.difficulty ?? "normal";
+  const dtSeconds = options.dtSeconds ?? 1 / 60;
+  const maxSimMs = options.maxSimMs ?? 10 * 60 * 1000;
+  const maxBallsLost = options.maxBallsLost ?? 20;
+  const ai: PaddleAIOptions = { ...DEFAULT_AI, ...options.ai };
+
+  // Endless mode puts a boss on every 5th generated level
+  const isBossLevel = level > FINAL_LEVEL ? level % 5 === 0 : BOSS_LEVELS.includes(level);
+  if (!options.layout && (isBossLevel || level < 1)) {
+    throw new Error(`Level ${level} has no brick layout (boss levels are not supported headless)`);
+  }
+
+  const clock = installSimClock(0);
+  try {
+    const seed = seedRun(options.seed);
+    const aiRng = new SeededRandom(deriveSeed(seed, AI_RNG_SALT));
+
+    const speedMultiplier = getLevelSpeedMultiplier(level, difficulty);
+    const paddleY = CANVAS_HEIGHT - 60;
+    resetWorld({ speedMultiplier });
+    const layout = options.layout ?? (level > FINAL_LEVEL ? generateLevelLayout(level, seed) : levelLayouts[level - 1]);
+    world.bricks = buildLevelBricks(layout, level, getBrickGridDimensions(1));
+    world.paddle = {
+      x: CANVAS_WIDTH / 2 - PADDLE_WIDTH / 2,
+      y: paddleY,
+      width: PADDLE_WIDTH,
+      height: PADDLE_HEIGHT,
+      hasTurrets: false,
+    };
+    let nextBallId = 1;
+    world.balls = [createWaitingBall(nextBallId++, world.paddle.x, paddleY, 4.5 * speedMultiplier)];
+    brickSpatialHash.rebuild(world.bricks);
+
+    const destructibleBricks = world.bricks.filter((b) => !b.isIndestructible).length;
+    const tunnellingEvents: TunnellingEvent[] = [];
+    let pendingChainExplosions: PhysicsConfig["pendingChainExplosions"] = [];
+    let ballsLost = 0;
+    let paddleHits = 0;
+    let waitingFrames = 0;
+    let aimOffset = 0;
+    let simMs = 0;
+    let frame = 0;
+    let cleared = false;
+
+    const physicsConfig: PhysicsConfig = {
+      dtSeconds,
+      frameTick: 0,
+      level,
+      canvasSize: { w: CANVAS_WIDTH, h: CANVAS_HEIGHT },
+      minBrickDimension: Math.min(getBrickGridDimensions(1).brickWidth, getBrickGridDimensions(1).brickHeight),
+      qualityLevel: options.qualityLevel ?? "high",
+      difficulty,
+      maxTotalSpeed: difficulty === "godlike" ? 1.75 : 1.5,
+      isBossRush: false,
+      debugSettings: { enableCollisionLogging: false, enableBossLogging: false, enablePowerUpLogging: false },
+      pendingChainExplosions,
+      frameCount: 0,
+      megaBossTrapJustHappenedTime: 0,
+    };
+
+    while (simMs < maxSimMs && ballsLost < maxBallsLost) {
+      frame++;
+      simMs += dtSeconds * 1000;
+      clock.advance(dtSeconds * 1000);
+
+      const paddle = world.paddle!;
+
+      // ── Paddle AI: track the lowest descending ball ──
+      let target: Ball | null = null;
+      for (const ball of world.balls) {
+        if (ball.waitingToLaunch || ball.dy <= 0) continue;
+        if (!target || ball.y > target.y) target = ball;
+      }
+      const targetX = target
+        ? predictInterceptX(target, paddle.y, CANVAS_WIDTH) + aimOffset
+        : (world.balls[0]?.x ?? paddle.x + paddle.width / 2);
+      const desiredX = Math.max(0, Math.min(CANVAS_WIDTH - paddle.width, targetX - paddle.width / 2));
+      const maxStep = ai.speed * dtSeconds;
+      paddle.x += Math.max(-maxStep, Math.min(maxStep, desiredX - paddle.x));
+
+      // ── Waiting ball follows the paddle; launch after a delay ──
+      for (const ball of world.balls) {
+        if (!ball.waitingToLaunch) continue;
+        ball.x = paddle.x + paddle.width / 2;
+        ball.y = paddle.y - ball.radius - 5;
+        if (++waitingFrames >= ai.launchDelayFrames) {
+          waitingFrames = 0;
+          const angle = (aiRng.range(-40, 40) * Math.PI) / 180;
+          ball.dx = ball.speed * Math.sin(angle);
+          ball.dy = -ball.speed * Math.cos(angle);
+          ball.waitingToLaunch = false;
+          ball.lastPaddleHitTime = performance.now();
+          ball.lastGravityResetTime = performance.now();
+        }
+      }
+
+      // ── Snapshot for tunnelling detection ──
+      const before = world.balls.map((b) => ({ id: b.id, x: b.x, y: b.y, dx: b.dx, dy: b.dy, waiting: b.waitingToLaunch }));
+      const hitsBefore = world.bricks.map((b) => b.hitsRemaining);
+
+      physicsConfig.frameTick = frame;
+      physicsConfig.frameCount = frame;
+      physicsConfig.pendingChainExplosions = pendingChainExplosions;
+      const result = runPhysicsFrame(physicsConfig);
+      pendingChainExplosions = result.updatedPendingChainExplosions;
+      paddleHits += result.paddleHitBallIds.length;
+      if (result.paddleHitBallIds.length > 0) {
+        aimOffset = aiRng.range(-ai.errorPx, ai.errorPx);
+      }
+
+      for (const ball of world.balls) {
+        const prev = before.find((b) => b.id === ball.id);
+        if (!prev || prev.waiting || ball.isFireball) continue;
+        if (result.portalBallIds.includes(ball.id)) continue; // Teleports jump across the grid
+        // A bounce flips a velocity component; no bounce + crossed a live, unhit brick = tunnelled
+        const bounced = Math.sign(prev.dx) !== Math.sign(ball.dx) || Math.sign(prev.dy) !== Math.sign(ball.dy);
+        if (bounced) continue;
+        for (let i = 0; i < world.bricks.length; i++) {
+          const brick = world.bricks[i];
+          if (!brick.visible || brick.hitsRemaining !== hitsBefore[i]) continue;
+          if (segmentIntersectsRect(prev.x, prev.y, ball.x, ball.y, brick.x, brick.y, brick.width, brick.height)) {
+            tunnellingEvents.push({
+              frame,
+              timeMs: Math.round(simMs),
+              ballId: ball.id,
+              brickId: brick.id,
+              from: { x: prev.x, y: prev.y },
+              to: { x: ball.x, y: ball.y },
+            });
+          }
+        }
+      }
+
+      if (result.allBricksCleared || world.bricks.every((b) => !b.visible || b.isIndestructible)) {
+        cleared = true;
+        break;
+      }
+
+      if (result.allBallsLost || world.balls.length === 0) {
+        ballsLost++;
+        waitingFrames = 0;
+        world.balls = [createWaitingBall(nextBallId++, paddle.x, paddle.y, 4.5 * speedMultiplier)];
+      }
+    }
+
+    const bricksCleared = world.bricks.filter((b) => !b.isIndestructible && !b.visible).length;
+    return {
+      level,
+      seed,
+      difficulty,
+      cleared,
+      destructibleBricks,
+      bricksCleared,
+      ballsLost,
+      timeToClearMs: cleared ? Math.round(simMs) : null,
+      simulatedMs: Math.round(simMs),
+      frames: frame,
+      paddleHits,
+      tunnellingEvents,
+    };
+  } finally {
+    clock.restore();
+    brickSpatialHash.clear();
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * engine/level.ts — Pure level construction.
+ *
+ * Builds the brick list for a layout grid and computes per-level ball speed.
+ * No React, no canvas: used by Game.tsx and by the headless simulator.
+ */
+
+import type { Brick, BrickType, Difficulty, PowerUpType } from "@/types/game";
+import {
+  BRICK_ROWS,
+  BRICK_COLS,
+  BRICK_WIDTH,
+  BRICK_HEIGHT,
+  BRICK_PADDING,
+  BRICK_OFFSET_TOP,
+  CANVAS_WIDTH,
+  POWERUP_DROP_CHANCE,
+  MOVING_BRICK_SPEED,
+  REGEN_BRICK_DELAY,
+  colorPalettes,
+  getBrickColors,
+} from "@/constants/game";
+import { getBrickHits } from "@/constants/levelLayouts";
+import { gameRng } from "@/utils/rng";
+
+/**
+ * A layout cell: false = empty, true = normal, 2 = metal, 3 = explosive, 4 = cracked,
+ * 5 = moving, 6 = regenerating, 7 = portal
+ */
+export type LayoutCell = boolean | number;
+export type LevelLayout = LayoutCell[][];
+
+export interface BrickGridDimensions {
+  brickWidth: number;
+  brickHeight: number;
+  brickPadding: number;
+  brickOffsetTop: number;
+  brickOffsetLeft: number;
+}
+
+/** Per-level overrides from custom level packs (engine/levelPack.ts) */
+export interface LevelBuildOptions {
+  hits?: (number | null)[][]; // Per-cell hit counts, null = getBrickHits default
+  powerUps?: (PowerUpType | null)[][]; // Per-cell forced power-ups, null = random assignment
+  paletteIndex?: number; // Index into colorPalettes instead of the level-based palette
+  palette?: string[]; // Brick colors overriding both (e.g. a color-blind-safe palette)
+}
+
+/**
+ * Brick grid dimensions for a given platform scale factor
+ * @param scaleFactor - 1 on most platforms, 0.9 on Mac (see useScaledConstants)
+ */
+export function getBrickGridDimensions(scaleFactor: number = 1): BrickGridDimensions {
+  const brickWidth = BRICK_WIDTH * scaleFactor;
+  const brickPadding = BRICK_PADDING * scaleFactor;
+  return {
+    brickWidth,
+    brickHeight: BRICK_HEIGHT * scaleFactor,
+    brickPadding,
+    brickOffsetTop: BRICK_OFFSET_TOP * scaleFactor,
+    brickOffsetLeft: (CANVAS_WIDTH * scaleFactor - (BRICK_COLS * brickWidth + (BRICK_COLS - 1) * brickPadding)) / 2,
+  };
+}
+
+function getCellBrickType(cellValue: LayoutCell): BrickType | null {
+  if (cellValue === true) return "normal";
+  if (cellValue === 2) return "metal";
+  if (cellValue === 3) return "explosive";
+  if (cellValue === 4) return "cracked";
+  if (cellValue === 5) return "moving";
+  if (cellValue === 6) return "regenerating";
+  if (cellValue === 7) return "portal";
+  return null;
+}
+
+/** Link portals in reading order: 1st with 2nd, 3rd with 4th, ... (a leftover portal stays unpaired) */
+function pairPortals(bricks: Brick[]): void {
+  const portals = bricks.filter((b) => b.type === "portal");
+  for (let i = 0; i + 1 < portals.length; i += 2) {
+    portals[i].portalPairId = portals[i + 1].id;
+    portals[i + 1].portalPairId = portals[i].id;
+  }
+}
+
+/**
+ * Build the brick list for a layout grid
+ * @param layout - BRICK_ROWS x BRICK_COLS grid of layout cells
+ * @param level - Level number (drives hit counts and palette)
+ * @param dims - Brick grid dimensions (scaled)
+ * @param options - Optional hit / palette overrides
+ */
+export function buildLevelBricks(
+  layout: LevelLayout,
+  level: number,
+  dims: BrickGridDimensions,
+  options: LevelBuildOptions = {},
+): Brick[] {
+  const { brickWidth: bw, brickHeight: bh, brickPadding: pad, brickOffsetTop, brickOffsetLeft } = dims;
+  const levelColors =
+    options.palette ??
+    (options.paletteIndex !== undefined
+      ? colorPalettes[options.paletteIndex % colorPalettes.length]
+      : getBrickColors(level));
+  const newBricks: Brick[] = [];
+  let nextBrickId = 1; // Monotonic ID counter for stable brick IDs
+  const rowMinX = brickOffsetLeft;
+  const rowMaxX = brickOffsetLeft + BRICK_COLS * (bw + pad) - pad;
+
+  for (let row = 0; row < BRICK_ROWS; row++) {
+    for (let col = 0; col < BRICK_COLS; col++) {
+      const brickType = getCellBrickType(layout[row]?.[col] ?? false);
+      if (!brickType) continue;
+
+      const isMetal = brickType === "metal";
+      // Portals never break; they only redirect the ball
+      const isIndestructible = isMetal || brickType === "portal";
+      const forcedPowerUp = isIndestructible ? null : options.powerUps?.[row]?.[col];
+      const hasPowerUp = isIndestructible ? false : gameRng.next() < POWERUP_DROP_CHANCE || !!forcedPowerUp;
+      // Cracked bricks always take 3 hits (their texture tracks the damage stages)
+      const maxHits = isIndestructible
+        ? 1
+        : brickType === "cracked"
+          ? 3
+          : (options.hits?.[row]?.[col] ?? getBrickHits(level, row));
+
+      let baseColor: string;
+      if (isMetal) {
+        baseColor = "hsl(0, 0%, 20%)"; // Dark gray for metal
+      } else if (brickType === "explosive") {
+        baseColor = "hsl(15, 90%, 50%)"; // Orange-red for explosive
+      } else if (brickType === "cracked") {
+        baseColor = "hsl(40, 15%, 45%)"; // Brownish-gray for cracked
+      } else if (brickType === "portal") {
+        baseColor = "hsl(275, 80%, 55%)"; // Violet for portals
+      } else {
+        baseColor = levelColors[row % levelColors.length];
+      }
+
+      // Metal bricks expand to fill padding space, creating continuous surfaces
+      const width = isMetal ? bw + pad : bw;
+      const height = isMetal ? bh + pad : bh;
+
+      // Metal bricks are positioned to overlap into the padding space
+      const x = col * (bw + pad) + brickOffsetLeft - (isMetal && col > 0 ? pad / 2 : 0);
+      const y = row * (bh + pad) + brickOffsetTop - (isMetal && row > 0 ? pad / 2 : 0);
+
+      newBricks.push({
+        id: nextBrickId++, // Stable, monotonic ID
+        x,
+        y,
+        width,
+        height,
+        color: baseColor,
+        visible: true,
+        points: isIndestructible ? 0 : (BRICK_ROWS - row) * 10 * maxHits,
+        hasPowerUp,
+        maxHits,
+        hitsRemaining: maxHits,
+        isIndestructible,
+        type: brickType,
+        row,
+        col,
+        ...(forcedPowerUp ? { forcedPowerUp } : {}),
+        // Alternate starting direction per row so stacked movers don't travel in lockstep
+        ...(brickType === "moving"
+          ? { moveSpeed: row % 2 === 0 ? MOVING_BRICK_SPEED : -MOVING_BRICK_SPEED, moveMinX: rowMinX, moveMaxX: rowMaxX }
+          : {}),
+        ...(brickType === "regenerating" ? { regenDelayMs: REGEN_BRICK_DELAY } : {}),
+      });
+    }
+  }
+  pairPortals(newBricks);
+  return newBricks;
+}
+
+/**
+ * Level-based speed multiplier (before brick-hit bonuses)
+ * Normal: 105% +3%/level, capped at 140%. Godlike: 137.5% +5%/level, capped at 155%.
+ */
+export function getLevelSpeedMultiplier(level: number, difficulty: Difficulty | string): number {
+  const baseMultiplier = difficulty === "godlike" ? 1.375 : 1.05;
+  const maxSpeedMultiplier = difficulty === "godlike" ? 1.55 : 1.4;
+  const perLevel = difficulty === "godlike" ? 0.05 : 0.03;
+  return Math.min(maxSpeedMultiplier, baseMultiplier + (level - 1) * perLevel);
+}
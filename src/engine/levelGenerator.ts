@@ -0,0 +1,260 @@
+/**
+ * engine/levelGenerator.ts — Procedural brick layouts for Endless mode.
+ *
+ * Levels past FINAL_LEVEL are generated from a per-level seed. A pattern
+ * generator fills the left half of the grid and the right half mirrors it;
+ * metal, explosive and cracked bricks are mixed in at ratios that rise with
+ * the level. A reachability pass then guarantees metal never walls off a
+ * destructible brick, so every generated level can be cleared.
+ * Pure, no React: the same (level, seed) always yields the same layout.
+ */
+
+import { BRICK_ROWS, BRICK_COLS, FINAL_LEVEL } from "@/constants/game";
+import { SeededRandom, deriveSeed } from "@/utils/rng";
+import type { LayoutCell, LevelLayout } from "./level";
+
+// ─── Constants ───
+
+const ENDLESS_SEED_SALT = 0xe0d1e5;
+
+/** Pattern area: row 0 and the bottom rows stay empty like the hand-made levels */
+const FIRST_ROW = 1;
+const LAST_ROW = 10;
+const MID_COL = (BRICK_COLS - 1) / 2; // Mirror axis (column 6)
+
+// ─── Tuning ───
+
+export interface EndlessTuning {
+  density: number; // Target share of filled cells in the pattern area
+  metalRatio: number;
+  explosiveRatio: number;
+  crackedRatio: number;
+}
+
+/**
+ * Generator tuning for a level; everything ramps up from level FINAL_LEVEL + 1
+ */
+export function getEndlessTuning(level: number): EndlessTuning {
+  const depth = Math.max(0, level - FINAL_LEVEL - 1);
+  return {
+    density: Math.min(0.8, 0.45 + depth * 0.01),
+    metalRatio: Math.min(0.2, 0.04 + depth * 0.004),
+    explosiveRatio: Math.min(0.1, 0.03 + depth * 0.002),
+    crackedRatio: Math.min(0.15, 0.05 + depth * 0.003),
+  };
+}
+
+// ─── Pattern generators ───
+// Each decides whether a cell in the left half (col <= MID_COL) holds a brick.
+
+type PatternCell = (row: number, col: number) => boolean;
+type PatternGenerator = (rng: SeededRandom, density: number) => PatternCell;
+
+const PATTERN_HEIGHT = LAST_ROW - FIRST_ROW + 1;
+
+const PATTERNS: Record<string, PatternGenerator> = {
+  scatter: (rng, density) => {
+    const filled = new Set<string>();
+    for (let row = FIRST_ROW; row <= LAST_ROW; row++) {
+      for (let col = 0; col <= MID_COL; col++) {
+        if (rng.chance(density)) filled.add(`${row},${col}`);
+      }
+    }
+    return (row, col) => filled.has(`${row},${col}`);
+  },
+
+  stripes: (rng) => {
+    const period = 2 + rng.int(2);
+    const offset = rng.int(period);
+    return (row) => (row + offset) % period !== 0;
+  },
+
+  columns: (rng) => {
+    const period = 2 + rng.int(2);
+    const offset = rng.int(period);
+    return (_row, col) => (col + offset) % period !== 0;
+  },
+
+  checker: (rng) => {
+    const size = 1 + rng.int(2);
+    return (row, col) => (Math.floor(row / size) + Math.floor(col / size)) % 2 === 0;
+  },
+
+  diamond: (rng, density) => {
+    const centerRow = FIRST_ROW + (PATTERN_HEIGHT - 1) / 2 + rng.range(-1, 1);
+    const radius = 0.6 + density * 0.6;
+    const hollow = rng.chance(0.5) ? radius * 0.45 : -1;
+    return (row, col) => {
+      const d = (MID_COL - col) / (MID_COL + 1) + Math.abs(row - centerRow) / (PATTERN_HEIGHT / 2);
+      return d <= radius && d > hollow;
+    };
+  },
+
+  pyramid: (rng) => {
+    const inverted = rng.chance(0.5);
+    const slope = 0.6 + rng.range(0, 0.6);
+    return (row, col) => {
+      const step = inverted ? LAST_ROW - row : row - FIRST_ROW;
+      return MID_COL - col <= step * slope + 1;
+    };
+  },
+
+  frames: (rng) => {
+    const gap = rng.int(2);
+    return (row, col) => {
+      const ring = Math.min(row - FIRST_ROW, LAST_ROW - row, col);
+      return ring % 2 === gap;
+    };
+  },
+
+  waves: (rng) => {
+    const amplitude = 1 + rng.int(2);
+    const wavelength = 3 + rng.int(3);
+    const thickness = 2 + rng.int(2);
+    return (row, col) => {
+      const base = FIRST_ROW + 2 + Math.round(amplitude * Math.sin((col / wavelength) * Math.PI));
+      return (row - base + PATTERN_HEIGHT) % (thickness * 2) < thickness;
+    };
+  },
+};
+
+const PATTERN_NAMES = Object.keys(PATTERNS);
+
+// ─── Grid helpers ───
+
+const mirrorCol = (col: number) => BRICK_COLS - 1 - col;
+
+function setMirrored(layout: LevelLayout, row: number, col: number, value: LayoutCell): void {
+  layout[row][col] = value;
+  layout[row][mirrorCol(col)] = value;
+}
+
+/**
+ * Add / remove cells (symmetrically) until the filled share is near the target
+ */
+function fitDensity(layout: LevelLayout, rng: SeededRandom, density: number): void {
+  const cells: Array<[number, number]> = [];
+  for (let row = FIRST_ROW; row <= LAST_ROW; row++) {
+    for (let col = 0; col <= MID_COL; col++) cells.push([row, col]);
+  }
+  const target = Math.round(cells.length * density);
+  const filled = cells.filter(([r, c]) => layout[r][c] !== false);
+  const empty = cells.filter(([r, c]) => layout[r][c] === false);
+
+  const tolerance = Math.round(cells.length * 0.1);
+  if (filled.length > target + tolerance) {
+    for (const [r, c] of rng.shuffle(filled).slice(0, filled.length - target)) setMirrored(layout, r, c, false);
+  } else if (filled.length < target - tolerance) {
+    for (const [r, c] of rng.shuffle(empty).slice(0, target - filled.length)) setMirrored(layout, r, c, true);
+  }
+}
+
+/**
+ * Cells a ball can reach from outside the grid; metal is a wall, every other
+ * cell is open space or a brick that can be broken through
+ */
+function findReachable(layout: LevelLayout): boolean[][] {
+  const reached = layout.map((row) => row.map(() => false));
+  const queue: Array<[number, number]> = [];
+  const visit = (row: number, col: number) => {
+    if (row < 0 || row >= BRICK_ROWS || col < 0 || col >= BRICK_COLS) return;
+    if (reached[row][col] || layout[row][col] === 2) return;
+    reached[row][col] = true;
+    queue.push([row, col]);
+  };
+
+  // The play field wraps around the grid, so every border cell touches the outside
+  for (let row = 0; row < BRICK_ROWS; row++) {
+    visit(row, 0);
+    visit(row, BRICK_COLS - 1);
+  }
+  for (let col = 0; col < BRICK_COLS; col++) {
+    visit(0, col);
+    visit(BRICK_ROWS - 1, col);
+  }
+  while (queue.length > 0) {
+    const [row, col] = queue.pop()!;
+    visit(row - 1, col);
+    visit(row + 1, col);
+    visit(row, col - 1);
+    visit(row, col + 1);
+  }
+  return reached;
+}
+
+/**
+ * Turn sealing metal into normal bricks until every destructible brick is reachable.
+ * Prefers metal that directly separates reached space from a sealed brick.
+ */
+function ensureClearable(layout: LevelLayout): void {
+  for (;;) {
+    const reached = findReachable(layout);
+    const isOpen = (row: number, col: number) =>
+      row < 0 || row >= BRICK_ROWS || col < 0 || col >= BRICK_COLS || reached[row][col];
+    const isSealed = (row: number, col: number) =>
+      row >= 0 && row < BRICK_ROWS && col >= 0 && col < BRICK_COLS && !reached[row][col] && layout[row][col] !== false && layout[row][col] !== 2;
+
+    let sealedCount = 0;
+    let bestMetal: [number, number] | null = null;
+    let fallbackMetal: [number, number] | null = null;
+    for (let row = 0; row < BRICK_ROWS; row++) {
+      for (let col = 0; col < BRICK_COLS; col++) {
+        if (isSealed(row, col)) sealedCount++;
+        if (layout[row][col] !== 2) continue;
+        const neighbours: Array<[number, number]> = [[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]];
+        if (!neighbours.some(([r, c]) => isOpen(r, c))) continue;
+        if (!bestMetal && neighbours.some(([r, c]) => isSealed(r, c))) bestMetal = [row, col];
+        if (!fallbackMetal) fallbackMetal = [row, col];
+      }
+    }
+    if (sealedCount === 0) return;
+
+    const metal = bestMetal ?? fallbackMetal;
+    if (!metal) return; // Unreachable: sealed bricks imply metal on the frontier
+    setMirrored(layout, metal[0], metal[1], true);
+  }
+}
+
+// ─── Generator ───
+
+/**
+ * Generate the layout for an Endless level
+ * @param level - Level number (> FINAL_LEVEL); drives pattern seed and difficulty ramp
+ * @param runSeed - Run seed, so a replay regenerates the same levels
+ */
+export function generateLevelLayout(level: number, runSeed: number): LevelLayout {
+  const rng = new SeededRandom(deriveSeed(deriveSeed(runSeed, ENDLESS_SEED_SALT), level));
+  const tuning = getEndlessTuning(level);
+  const layout: LevelLayout = Array.from({ length: BRICK_ROWS }, () => Array<LayoutCell>(BRICK_COLS).fill(false));
+
+  const pattern = PATTERNS[rng.pick(PATTERN_NAMES)](rng, tuning.density);
+  for (let row = FIRST_ROW; row <= LAST_ROW; row++) {
+    for (let col = 0; col <= MID_COL; col++) {
+      if (pattern(row, col)) setMirrored(layout, row, col, true);
+    }
+  }
+  fitDensity(layout, rng, tuning.density);
+
+  // Mix in special bricks (mirrored, so the level stays symmetric)
+  for (let row = FIRST_ROW; row <= LAST_ROW; row++) {
+    for (let col = 0; col <= MID_COL; col++) {
+      if (layout[row][col] === false) continue;
+      const roll = rng.next();
+      if (roll < tuning.metalRatio) {
+        setMirrored(layout, row, col, 2);
+      } else if (roll < tuning.metalRatio + tuning.explosiveRatio) {
+        setMirrored(layout, row, col, 3);
+      } else if (roll < tuning.metalRatio + tuning.explosiveRatio + tuning.crackedRatio) {
+        setMirrored(layout, row, col, 4);
+      }
+    }
+  }
+
+  ensureClearable(layout);
+
+  // A level needs something to break
+  if (!layout.some((row) => row.some((cell) => cell !== false && cell !== 2))) {
+    for (let col = 0; col < BRICK_COLS; col++) layout[FIRST_ROW + 2][col] = true;
+  }
+  return layout;
+}
@@ -0,0 +1,388 @@
+/**
+ * engine/levelPack.ts — Custom level packs.
+ *
+ * A level pack is a versioned JSON document holding a whole campaign: one
+ * grid per level plus optional hit overrides, palette and boss. Packs are
+ * authored in the Level Editor, stored in localStorage and shared as files,
+ * so designers can iterate without touching levelLayouts.ts.
+ *
+ * While a pack campaign is running it is registered as the active pack;
+ * boss / final-level checks go through the helpers at the bottom of this
+ * file instead of the hard-coded BOSS_LEVELS / FINAL_LEVEL constants.
+ * The same helpers handle Endless mode, which continues the built-in
+ * campaign with generated levels (engine/levelGenerator.ts).
+ */
+
+import type { BossType, PowerUpType } from "@/types/game";
+import { BRICK_ROWS, BRICK_COLS, FINAL_LEVEL, colorPalettes } from "@/constants/game";
+import { BOSS_LEVELS } from "@/constants/bossConfig";
+import { MEGA_BOSS_LEVEL } from "@/constants/megaBossConfig";
+import { levelLayouts } from "@/constants/levelLayouts";
+import { BRICK_POWER_UP_TYPES } from "@/utils/powerUpWeights";
+import type { LayoutCell, LevelLayout } from "./level";
+
+export const LEVEL_PACK_FORMAT_VERSION = 1;
+
+const STORAGE_KEY = "vibing-arkanoid-level-packs";
+
+/** Upper bound on pack size (matches the editor's level number range) */
+export const MAX_PACK_LEVELS = 100;
+
+// ─── Format ──────────────────────────────────────────────────────
+
+/**
+ * Cell characters used in `rows`, matching the editor's grid labels:
+ * "." empty, "N" normal, "M" metal, "E" explosive, "C" cracked,
+ * "S" sliding (moving), "R" regenerating, "P" portal
+ */
+const CELL_CHARS: Record<string, LayoutCell> = { ".": false, N: true, M: 2, E: 3, C: 4, S: 5, R: 6, P: 7 };
+
+/** Highest per-cell hit count a pack may set (the editor's input range) */
+export const MAX_HIT_OVERRIDE = 10;
+
+/**
+ * Cells whose hit count a pack may override: normal, explosive, sliding and
+ * regenerating bricks. Cracked bricks always take 3 hits (their texture tracks
+ * the damage stages), metal and portals never break.
+ */
+export const canOverrideHits = (cell: LayoutCell) => cell === true || cell === 3 || cell === 5 || cell === 6;
+
+/** Power-ups a designer can place in a brick (random brick drops + extra life) */
+export const PACK_POWER_UP_TYPES: PowerUpType[] = [...BRICK_POWER_UP_TYPES, "life"];
+
+export interface LevelPackHitOverride {
+  row: number;
+  col: number;
+  hits: number;
+}
+
+export interface LevelPackPowerUp {
+  row: number;
+  col: number;
+  type: PowerUpType;
+}
+
+export interface LevelPackLevel {
+  name?: string;
+  rows: string[]; // BRICK_ROWS strings of BRICK_COLS cell characters
+  hits?: LevelPackHitOverride[]; // Per-cell hit counts (replace getBrickHits)
+  powerUps?: LevelPackPowerUp[]; // Per-cell forced power-ups (skip random assignment)
+  palette?: number; // Index into colorPalettes; level-based when omitted
+  boss?: BossType; // Boss fight instead of bricks
+}
+
+export interface LevelPack {
+  version: number;
+  id: string;
+  name: string;
+  author?: string;
+  createdAt: string;
+  updatedAt: string;
+  levels: LevelPackLevel[];
+}
+
+/** Canonical level each boss is tuned for (createBoss, music, attacks) */
+const BOSS_TYPE_LEVELS: Record<BossType, number> = { cube: 5, sphere: 10, pyramid: 15, mega: MEGA_BOSS_LEVEL };
+
+// ─── Grid conversion ─────────────────────────────────────────────
+
+function cellToChar(cell: LayoutCell): string {
+  if (cell === true) return "N";
+  if (cell === 2) return "M";
+  if (cell === 3) return "E";
+  if (cell === 4) return "C";
+  if (cell === 5) return "S";
+  if (cell === 6) return "R";
+  if (cell === 7) return "P";
+  return ".";
+}
+
+export function layoutToRows(layout: LevelLayout): string[] {
+  return Array.from({ length: BRICK_ROWS }, (_, row) =>
+    Array.from({ length: BRICK_COLS }, (_, col) => cellToChar(layout[row]?.[col] ?? false)).join(""),
+  );
+}
+
+export function rowsToLayout(rows: string[]): LevelLayout {
+  return Array.from({ length: BRICK_ROWS }, (_, row) =>
+    Array.from({ length: BRICK_COLS }, (_, col) => CELL_CHARS[rows[row]?.[col] ?? "."] ?? false),
+  );
+}
+
+function toCellGrid<T>(entries: { row: number; col: number; value: T }[]): (T | null)[][] | undefined {
+  if (entries.length === 0) return undefined;
+  const grid: (T | null)[][] = Array.from({ length: BRICK_ROWS }, () => Array(BRICK_COLS).fill(null));
+  for (const { row, col, value } of entries) {
+    if (grid[row] && col >= 0 && col < BRICK_COLS) grid[row][col] = value;
+  }
+  return grid;
+}
+
+/**
+ * Hit overrides as a BRICK_ROWS x BRICK_COLS grid (null = default hits)
+ */
+export function getHitOverrideGrid(level: LevelPackLevel): (number | null)[][] | undefined {
+  return toCellGrid((level.hits ?? []).map(({ row, col, hits }) => ({ row, col, value: hits })));
+}
+
+/**
+ * Forced power-ups as a BRICK_ROWS x BRICK_COLS grid (null = random assignment)
+ */
+export function getPowerUpGrid(level: LevelPackLevel): (PowerUpType | null)[][] | undefined {
+  return toCellGrid((level.powerUps ?? []).map(({ row, col, type }) => ({ row, col, value: type })));
+}
+
+// ─── Creation ────────────────────────────────────────────────────
+
+function createPackId(): string {
+  return `pack-${Date.now().toString(36)}-${Math.floor(Math.random() * 0xffffff).toString(36)}`;
+}
+
+export function createEmptyPackLevel(): LevelPackLevel {
+  return { rows: Array.from({ length: BRICK_ROWS }, () => ".".repeat(BRICK_COLS)) };
+}
+
+/**
+ * Create a new pack, seeded with a copy of the built-in campaign
+ * @param name - Display name
+ */
+export function createLevelPack(name: string): LevelPack {
+  const now = new Date().toISOString();
+  return {
+    version: LEVEL_PACK_FORMAT_VERSION,
+    id: createPackId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    levels: levelLayouts.slice(0, FINAL_LEVEL).map((layout, i) => {
+      const level = i + 1;
+      const boss = (Object.keys(BOSS_TYPE_LEVELS) as BossType[]).find((t) => BOSS_TYPE_LEVELS[t] === level);
+      if (boss) return { ...createEmptyPackLevel(), boss };
+      return { rows: layoutToRows(layout) };
+    }),
+  };
+}
+
+/**
+ * Single-level pack for Level Editor playtests. Earlier slots are empty
+ * placeholders so the level keeps its real number (hits, palette, speed),
+ * and it is also the pack's final level, so clearing it ends the run.
+ * @param level - The level being edited
+ * @param levelNumber - 1-based level number it is played as
+ */
+export function createPlaytestPack(level: LevelPackLevel, levelNumber: number): LevelPack {
+  const now = new Date().toISOString();
+  return {
+    version: LEVEL_PACK_FORMAT_VERSION,
+    id: "playtest",
+    name: "Playtest",
+    createdAt: now,
+    updatedAt: now,
+    levels: Array.from({ length: levelNumber }, (_, i) => (i === levelNumber - 1 ? level : createEmptyPackLevel())),
+  };
+}
+
+// ─── Validation / serialization ──────────────────────────────────
+
+/**
+ * Parse and validate a level pack file
+ * @throws Error if the file is not a compatible level pack
+ */
+export function parseLevelPack(text: string): LevelPack {
+  let parsed: Partial<LevelPack>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Level pack is not valid JSON");
+  }
+  if (!parsed || typeof parsed !== "object" || typeof parsed.version !== "number") {
+    throw new Error("Not a level pack file");
+  }
+  if (parsed.version > LEVEL_PACK_FORMAT_VERSION) {
+    throw new Error(`Level pack version ${parsed.version} is newer than supported (${LEVEL_PACK_FORMAT_VERSION})`);
+  }
+  if (!Array.isArray(parsed.levels) || parsed.levels.length === 0) {
+    throw new Error("Level pack has no levels");
+  }
+  if (parsed.levels.length > MAX_PACK_LEVELS) {
+    throw new Error(`Level pack has more than ${MAX_PACK_LEVELS} levels`);
+  }
+
+  const levels = parsed.levels.map((level, i): LevelPackLevel => {
+    if (!level || !Array.isArray(level.rows)) {
+      throw new Error(`Level ${i + 1} is missing its grid`);
+    }
+    const boss = level.boss && level.boss in BOSS_TYPE_LEVELS ? level.boss : undefined;
+    const palette =
+      typeof level.palette === "number" && level.palette >= 0 && level.palette < colorPalettes.length
+        ? Math.floor(level.palette)
+        : undefined;
+    const layout = rowsToLayout(level.rows.map(String));
+    // Overrides on cells that can't take one (e.g. cracked bricks) are dropped
+    const hits = Array.isArray(level.hits)
+      ? level.hits
+          .filter((h) => h && Number.isInteger(h.row) && Number.isInteger(h.col) && Number.isInteger(h.hits) && h.hits >= 1)
+          .filter((h) => canOverrideHits(layout[h.row]?.[h.col] ?? false))
+          .map((h) => ({ row: h.row, col: h.col, hits: Math.min(h.hits, MAX_HIT_OVERRIDE) }))
+      : undefined;
+    const powerUps = Array.isArray(level.powerUps)
+      ? level.powerUps.filter(
+          (p) => p && Number.isInteger(p.row) && Number.isInteger(p.col) && PACK_POWER_UP_TYPES.includes(p.type),
+        )
+      : undefined;
+    return {
+      ...(level.name ? { name: String(level.name) } : {}),
+      rows: layoutToRows(layout),
+      ...(hits && hits.length > 0 ? { hits } : {}),
+      ...(powerUps && powerUps.length > 0 ? { powerUps } : {}),
+      ...(palette !== undefined ? { palette } : {}),
+      ...(boss ? { boss } : {}),
+    };
+  });
+
+  const now = new Date().toISOString();
+  return {
+    version: LEVEL_PACK_FORMAT_VERSION,
+    id: typeof parsed.id === "string" && parsed.id ? parsed.id : createPackId(),
+    name: typeof parsed.name === "string" && parsed.name ? parsed.name : "Untitled Pack",
+    ...(parsed.author ? { author: String(parsed.author) } : {}),
+    createdAt: parsed.createdAt ?? now,
+    updatedAt: parsed.updatedAt ?? now,
+    levels,
+  };
+}
+
+export function serializeLevelPack(pack: LevelPack): string {
+  return JSON.stringify(pack, null, 2);
+}
+
+/**
+ * Trigger a browser download of the pack as a .json file
+ */
+export function downloadLevelPack(pack: LevelPack): void {
+  const blob = new Blob([serializeLevelPack(pack)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  const slug = pack.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "level-pack";
+  a.href = url;
+  a.download = `vibing-arkanoid-pack-${slug}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// ─── Storage ─────────────────────────────────────────────────────
+
+/**
+ * All packs saved in this browser (invalid entries are dropped)
+ */
+export function loadSavedLevelPacks(): LevelPack[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const raw: unknown[] = JSON.parse(stored);
+    const packs: LevelPack[] = [];
+    for (const entry of raw) {
+      try {
+        packs.push(parseLevelPack(JSON.stringify(entry)));
+      } catch {
+        // Skip corrupt entries
+      }
+    }
+    return packs;
+  } catch {
+    return [];
+  }
+}
+
+function writeSavedLevelPacks(packs: LevelPack[]): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(packs));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Insert or replace a pack by id
+ * @returns The stored pack (with a fresh updatedAt), or null if storage failed
+ */
+export function saveLevelPack(pack: LevelPack): LevelPack | null {
+  const stored = { ...pack, updatedAt: new Date().toISOString() };
+  const packs = loadSavedLevelPacks().filter((p) => p.id !== pack.id);
+  return writeSavedLevelPacks([...packs, stored]) ? stored : null;
+}
+
+export function deleteLevelPack(id: string): void {
+  writeSavedLevelPacks(loadSavedLevelPacks().filter((p) => p.id !== id));
+}
+
+// ─── Active pack ─────────────────────────────────────────────────
+
+let activePack: LevelPack | null = null;
+let endlessCampaign = false;
+
+/**
+ * Register the pack the current run is playing (null = built-in campaign)
+ */
+export function setActiveLevelPack(pack: LevelPack | null): void {
+  activePack = pack;
+}
+
+export function getActiveLevelPack(): LevelPack | null {
+  return activePack;
+}
+
+/**
+ * Register whether the current run is Endless (built-in campaign, no final level)
+ */
+export function setEndlessCampaign(enabled: boolean): void {
+  endlessCampaign = enabled;
+}
+
+export function isEndlessCampaign(): boolean {
+  return endlessCampaign;
+}
+
+/**
+ * Endless level past the hand-made campaign, built by the level generator
+ */
+export function isGeneratedLevel(level: number): boolean {
+  return endlessCampaign && !activePack && level > FINAL_LEVEL;
+}
+
+/**
+ * Pack level for a 1-based level number, if a pack is active
+ */
+export function getActivePackLevel(level: number): LevelPackLevel | null {
+  return activePack?.levels[level - 1] ?? null;
+}
+
+/**
+ * Canonical boss level (5, 10, 15, 20) fought on this level, or null for brick levels
+ */
+export function getBossLevelFor(level: number): number | null {
+  if (activePack) {
+    const boss = activePack.levels[level - 1]?.boss;
+    return boss ? BOSS_TYPE_LEVELS[boss] : null;
+  }
+  // Endless: every 5th generated level rotates through the campaign bosses
+  if (isGeneratedLevel(level)) {
+    return level % 5 === 0 ? BOSS_LEVELS[(level / 5 - 1) % BOSS_LEVELS.length] : null;
+  }
+  return BOSS_LEVELS.includes(level) ? level : null;
+}
+
+export function levelHasBoss(level: number): boolean {
+  return getBossLevelFor(level) !== null;
+}
+
+export function levelHasMegaBoss(level: number): boolean {
+  return getBossLevelFor(level) === MEGA_BOSS_LEVEL;
+}
+
+/** Last level of the current campaign */
+export function getFinalLevel(): number {
+  if (activePack) return activePack.levels.length;
+  return endlessCampaign ? Infinity : FINAL_LEVEL;
+}
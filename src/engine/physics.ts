@@ -8,6 +8,7 @@
 
 import { world } from "@/engine/state";
 import { processBallWithCCD } from "@/utils/gameCCD";
+import { updateBrickMechanics } from "@/engine/brickMechanics";
 import { PHYSICS_CONFIG, ENABLE_DEBUG_FEATURES } from "@/constants/game";
 import { ENABLE_TELEMETRY, telemetryCollector } from "@/utils/telemetry";
 import {
@@ -16,8 +17,7 @@ import {
   isBallInsideMegaBoss,
   applyGravityWellToBall,
 } from "@/utils/megaBossUtils";
-import { MEGA_BOSS_LEVEL } from "@/constants/megaBossConfig";
-import { BOSS_LEVELS } from "@/constants/bossConfig";
+import { levelHasBoss, levelHasMegaBoss } from "@/engine/levelPack";
 import { collisionHistory } from "@/utils/collisionHistory";
 import { startBallTracking } from "@/utils/ballTracker";
 import type { Ball, Brick, Boss, Enemy, EnemyType } from "@/types/game";
@@ -106,6 +106,8 @@ export interface PhysicsFrameResult {
   paddleHitBallIds: number[];
   bossHitBallIds: number[];
   enemyHitBallIds: number[];
+  ballBrickHitIds: number[]; // Bricks a ball made contact with this frame (incl. metal)
+  portalBallIds: number[]; // Balls that went through a portal this frame
   ccdPerformance: CCDPerformanceData | null;
 
   secondChanceSaves: Array<{ x: number; y: number }>;
@@ -137,6 +139,8 @@ const _reusableResult: PhysicsFrameResult = {
   paddleHitBallIds: [],
   bossHitBallIds: [],
   enemyHitBallIds: [],
+  ballBrickHitIds: [],
+  portalBallIds: [],
   ccdPerformance: null,
   secondChanceSaves: [],
 };
@@ -168,6 +172,8 @@ function createEmptyResult(): PhysicsFrameResult {
   _reusableResult.paddleHitBallIds.length = 0;
   _reusableResult.bossHitBallIds.length = 0;
   _reusableResult.enemyHitBallIds.length = 0;
+  _reusableResult.ballBrickHitIds.length = 0;
+  _reusableResult.portalBallIds.length = 0;
   _reusableResult.secondChanceSaves.length = 0;
 
   return _reusableResult;
@@ -205,7 +211,7 @@ function performBossFirstSweep(
 
     // ═══ Shape-specific collision checks ═══
     if (bossTarget.type === "cube" || bossTarget.type === "mega") {
-      const isMegaBossLevel = level === 20;
+      const isMegaBossLevel = levelHasMegaBoss(level);
       const centerX = bossTarget.x + bossTarget.width / 2;
       const centerY = bossTarget.y + bossTarget.height / 2;
       const HITBOX_EXPAND = 1;
@@ -515,6 +521,9 @@ export function runPhysicsFrame(config: PhysicsConfig): PhysicsFrameResult {
 
   const bossFirstTimeMs = ENABLE_DEBUG_FEATURES ? performance.now() - bossFirstStart : 0;
 
+  // ═══ Phase 0: Moving / regenerating bricks (before CCD sees their positions) ═══
+  updateBrickMechanics(bricks, balls, dtSeconds);
+
   // ═══ Phase 1: CCD for Bricks/Enemies/Walls/Paddle ═══
   const ballStatesBeforeCCD =
     ENABLE_DEBUG_FEATURES && debugSettings.enableCollisionLogging
@@ -969,8 +978,19 @@ export function runPhysicsFrame(config: PhysicsConfig): PhysicsFrameResult {
           // ─── Brick collision ───
           const brick = bricks.find((b) => b.id === objectId);
           if (!brick || !brick.visible) break;
+          result.ballBrickHitIds.push(brick.id);
           if (brickUpdates.has(brick.id)) break;
 
+          // Portal bricks: CCD moves the ball to the paired portal (or bounces it if the exit is blocked)
+          if (brick.type === "portal") {
+            if (!isDuplicate) {
+              if (event.teleported) result.portalBallIds.push(ccdResult.ball.id);
+              result.soundsToPlay.push({ type: "bounce" });
+              ccdResult.ball.lastGravityResetTime = performance.now();
+            }
+            break;
+          }
+
           // Indestructible (metal) bricks
           if (brick.isIndestructible) {
             if (!isDuplicate) result.soundsToPlay.push({ type: "bounce" });
@@ -1010,7 +1030,7 @@ export function runPhysicsFrame(config: PhysicsConfig): PhysicsFrameResult {
               result.soundsToPlay.push({ type: "brick" });
               scoreIncrease += brick.points;
               bricksDestroyedCount++;
-              powerUpBricks.push(brick);
+              if (!brick.timesRegrown) powerUpBricks.push(brick);
               if (brick.type === "explosive") explosiveBricksToDetonate.push(brick);
             }
           } else {
@@ -1078,7 +1098,8 @@ export function runPhysicsFrame(config: PhysicsConfig): PhysicsFrameResult {
               }
 
               if (!isDuplicate) {
-                powerUpBricks.push(brick);
+                // Regrown bricks only drop their power-up the first time
+                if (!brick.timesRegrown) powerUpBricks.push(brick);
                 if (brick.type === "explosive") explosiveBricksToDetonate.push(brick);
               }
             } else {
@@ -1149,7 +1170,7 @@ export function runPhysicsFrame(config: PhysicsConfig): PhysicsFrameResult {
   const allGone = bricks.every((b) => !b.visible || b.isIndestructible);
   if (allGone && brickUpdates.size > 0) {
     const hasDestructible = bricks.some((b) => !b.isIndestructible);
-    if (hasDestructible || !BOSS_LEVELS.includes(level)) {
+    if (hasDestructible || !levelHasBoss(level)) {
       result.allBricksCleared = true;
     }
   }
@@ -1236,7 +1257,7 @@ export function runPhysicsFrame(config: PhysicsConfig): PhysicsFrameResult {
       }
 
       // Mega boss gravity well
-      if (level === MEGA_BOSS_LEVEL && boss && isMegaBoss(boss)) {
+      if (levelHasMegaBoss(level) && boss && isMegaBoss(boss)) {
         const megaBoss = boss as MegaBoss;
         if (megaBoss.coreExposed && isBallInsideMegaBoss(ball, megaBoss)) {
           const pulledBall = applyGravityWellToBall(ball, megaBoss);
@@ -1265,16 +1286,16 @@ export function runPhysicsFrame(config: PhysicsConfig): PhysicsFrameResult {
 
   // Write updated balls to world
   world.balls = updatedBalls;
-  (window as any).currentBalls = updatedBalls;
+  if (typeof window !== "undefined") (window as any).currentBalls = updatedBalls; // Absent in headless runs
 
   // Check all balls lost (with mega boss trap guard)
   const megaBossHasTrappedBall =
-    level === MEGA_BOSS_LEVEL &&
+    levelHasMegaBoss(level) &&
     boss &&
     isMegaBoss(boss) &&
     (boss as MegaBoss).trappedBall !== null;
   const justTrappedRecently =
-    level === MEGA_BOSS_LEVEL && Date.now() - config.megaBossTrapJustHappenedTime < 1500;
+    levelHasMegaBoss(level) && Date.now() - config.megaBossTrapJustHappenedTime < 1500;
   result.allBallsLost =
     updatedBalls.length === 0 && !megaBossHasTrappedBall && !justTrappedRecently;
 
@@ -0,0 +1,168 @@
+/**
+ * engine/practice.ts — Practice runs.
+ *
+ * A practice run plays a single unlocked level, or drops straight into a
+ * later phase of a boss fight (angry Sphere, the Pyramid's resurrections,
+ * the Mega Boss core phases), optionally starting with power-ups already
+ * on the paddle. Practice never submits scores: the run ends when the level
+ * or boss is cleared (or all lives are lost) and only updates the player's
+ * personal bests for that target, kept in localStorage.
+ *
+ * Game.tsx applies the setup helpers below when it builds the run; the run
+ * itself is reported back through the same summary as a Level Editor playtest.
+ */
+
+import type { Boss, Difficulty, Paddle, PlaytestSummary, PowerUpType } from "@/types/game";
+import { BOSS_CONFIG } from "@/constants/bossConfig";
+import { MEGA_BOSS_LEVEL } from "@/constants/megaBossConfig";
+import { createResurrectedPyramid } from "@/utils/bossUtils";
+import { createMegaBoss, enterMegaBossPhase, isMegaBoss } from "@/utils/megaBossUtils";
+
+const STORAGE_KEY = "vibing-arkanoid-practice-bests";
+
+// ─── Definition ──────────────────────────────────────────────────
+
+export type PracticeBossPhase = "sphereAngry" | "pyramidResurrections" | "megaPhase2" | "megaPhase3";
+
+export interface PracticeSettings {
+  bossPhase?: PracticeBossPhase; // Start the level's boss fight in this phase
+  powerUps: PowerUpType[]; // Applied to the paddle before the first launch
+}
+
+export const PRACTICE_BOSS_PHASES: Record<PracticeBossPhase, { level: number; name: string; description: string }> = {
+  sphereAngry: { level: 10, name: "Sphere: Destroyer Mode", description: "Phase 2, faster and angrier" },
+  pyramidResurrections: { level: 15, name: "Pyramid: Resurrections", description: "The three split pyramids" },
+  megaPhase2: { level: MEGA_BOSS_LEVEL, name: "Mega Boss: Core Phase 2", description: "Inner shield, angry" },
+  megaPhase3: { level: MEGA_BOSS_LEVEL, name: "Mega Boss: Core Phase 3", description: "Inner shield, very angry" },
+};
+
+export const PRACTICE_BOSS_PHASE_IDS = Object.keys(PRACTICE_BOSS_PHASES) as PracticeBossPhase[];
+
+/** Power-ups that can be on the paddle from the start (lasting effects only) */
+export const PRACTICE_POWER_UPS: PowerUpType[] = ["turrets", "shield", "paddleExtend", "secondChance"];
+
+/** Key personal bests are stored under: one per level, one per boss phase */
+export function getPracticeTargetId(level: number, bossPhase?: PracticeBossPhase): string {
+  return bossPhase ? `boss-${bossPhase}` : `level-${level}`;
+}
+
+/** Display name of a practice target ("Level 7", "Sphere: Destroyer Mode") */
+export function getPracticeTargetName(level: number, bossPhase?: PracticeBossPhase): string {
+  return bossPhase ? PRACTICE_BOSS_PHASES[bossPhase].name : `Level ${level}`;
+}
+
+/** Clear time as "m:ss.t" */
+export function formatPracticeTime(ms: number): string {
+  const tenths = Math.floor(ms / 100);
+  const totalSeconds = Math.floor(tenths / 10);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, "0")}.${tenths % 10}`;
+}
+
+// ─── Setup ───────────────────────────────────────────────────────
+
+/**
+ * Boss state for a practice boss phase, from the freshly spawned boss of its level
+ */
+export function createPracticeBossState(
+  phase: PracticeBossPhase,
+  boss: Boss | null,
+  canvasWidth: number,
+  canvasHeight: number,
+): { boss: Boss | null; resurrectedBosses: Boss[] } {
+  switch (phase) {
+    case "sphereAngry":
+      return {
+        boss: boss && {
+          ...boss,
+          currentHealth: BOSS_CONFIG.sphere.healthPhase2,
+          currentStage: 2,
+          isAngry: true,
+          speed: BOSS_CONFIG.sphere.angryMoveSpeed,
+        },
+        resurrectedBosses: [],
+      };
+    case "pyramidResurrections":
+      // The main pyramid is gone once it splits; only the three small ones remain
+      return {
+        boss: null,
+        resurrectedBosses: boss ? [0, 1, 2].map((i) => createResurrectedPyramid(boss, i, canvasWidth, canvasHeight)) : [],
+      };
+    case "megaPhase2":
+    case "megaPhase3": {
+      const megaBoss = isMegaBoss(boss) ? boss : createMegaBoss(canvasWidth, canvasHeight);
+      return {
+        boss: enterMegaBossPhase(megaBoss, phase === "megaPhase2" ? 2 : 3) as unknown as Boss,
+        resurrectedBosses: [],
+      };
+    }
+  }
+}
+
+/**
+ * Paddle with the chosen starting power-ups applied
+ */
+export function applyPracticePowerUps(paddle: Paddle, powerUps: PowerUpType[], difficulty: Difficulty): Paddle {
+  const next = { ...paddle };
+  for (const type of powerUps) {
+    if (type === "turrets") {
+      next.hasTurrets = true;
+      next.turretShots = difficulty === "godlike" ? 15 : 30;
+    } else if (type === "shield") {
+      next.hasShield = true;
+    } else if (type === "paddleExtend") {
+      next.width = Math.min(200, next.width + 30);
+    } else if (type === "secondChance") {
+      next.hasSecondChance = true;
+    }
+  }
+  return next;
+}
+
+// ─── Personal bests ──────────────────────────────────────────────
+
+export interface PracticeBest {
+  attempts: number;
+  clears: number;
+  bestTimeMs: number | null; // Fastest clear
+  bestScore: number; // Highest score on a clear
+}
+
+export type PracticeBests = Record<string, PracticeBest>;
+
+/**
+ * Personal bests per practice target saved in this browser
+ */
+export function loadPracticeBests(): PracticeBests {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Fold a finished practice run into the target's personal bests
+ * @returns The updated entry and which bests the run improved
+ */
+export function recordPracticeRun(
+  targetId: string,
+  summary: PlaytestSummary,
+): { best: PracticeBest; newBestTime: boolean; newBestScore: boolean } {
+  const bests = loadPracticeBests();
+  const previous = bests[targetId] ?? { attempts: 0, clears: 0, bestTimeMs: null, bestScore: 0 };
+  const newBestTime = summary.cleared && (previous.bestTimeMs === null || summary.timeMs < previous.bestTimeMs);
+  const newBestScore = summary.cleared && summary.score > previous.bestScore;
+  const best: PracticeBest = {
+    attempts: previous.attempts + 1,
+    clears: previous.clears + (summary.cleared ? 1 : 0),
+    bestTimeMs: newBestTime ? summary.timeMs : previous.bestTimeMs,
+    bestScore: newBestScore ? summary.score : previous.bestScore,
+  };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...bests, [targetId]: best }));
+  } catch {
+    // Ignore localStorage errors
+  }
+  return { best, newBestTime, newBestScore };
+}
@@ -10,6 +10,7 @@
 import { world } from "@/engine/state";
 import { renderState, type AssetRefs } from "@/engine/renderState";
 import { renderFrame } from "@/engine/canvasRenderer";
+import { soundManager } from "@/utils/sounds";
 
 /**
  * Start the render loop. Calls renderFrame every animation frame.
@@ -32,6 +33,24 @@ export function setRenderTargetFps(qualityLevel: 'low' | 'medium' | 'high'): voi
   }
 }
 
+/** Time constant of the beat pulse fading out (ms) */
+const BEAT_PULSE_DECAY_MS = 150;
+
+/** Copy this frame's music band energies into renderState.music */
+function updateMusicState(dtMs: number): void {
+  const music = renderState.music;
+  // Low quality (and reduced motion, which hides the effects) never touches the analyser
+  if (renderState.qualitySettings.musicReactivity <= 0 || renderState.accessibility.reducedMotion) {
+    music.bass = music.mid = music.high = music.beatPulse = 0;
+    return;
+  }
+  const bands = soundManager.getMusicBands();
+  music.bass = bands.bass;
+  music.mid = bands.mid;
+  music.high = bands.high;
+  music.beatPulse = bands.beat ? 1 : music.beatPulse * Math.exp(-dtMs / BEAT_PULSE_DECAY_MS);
+}
+
 export function startRenderLoop(
   canvas: HTMLCanvasElement,
   assets: AssetRefs,
@@ -68,6 +87,7 @@ export function startRenderLoop(
     if (elapsed < minFrameInterval) return;
     lastFrameTime = timestamp - (elapsed % minFrameInterval);
 
+    updateMusicState(elapsed);
     const now = Date.now();
     renderFrame(ctx, world, renderState, assets, now);
   };
@@ -11,6 +11,7 @@
 import type { GameState, BonusLetterType } from "@/types/game";
 import type { QualitySettings } from "@/hooks/useAdaptiveQuality";
 import { QUALITY_PRESETS } from "@/hooks/useAdaptiveQuality";
+import type { AccessibilityRenderOptions } from "@/utils/accessibility";
 
 // ─── Render State Interface ──────────────────────────────────
 
@@ -31,6 +32,8 @@ export interface RenderState {
 
   // Quality
   qualitySettings: QualitySettings;
+  accessibility: AccessibilityRenderOptions;
+  trajectoryPreview: boolean; // Assist: draw each ball's path ahead
 
   // UI flags
   showHighScoreEntry: boolean;
@@ -47,6 +50,16 @@ export interface RenderState {
   getReadyGlow: { opacity: number } | null;
   secondChanceImpact: { x: number; y: number; startTime: number } | null;
   ballReleaseHighlight: { active: boolean; startTime: number } | null;
+
+  // Music reactivity — written by the render loop, all 0 when musicReactivity is 0
+  music: MusicState;
+}
+
+export interface MusicState {
+  bass: number; // 0-1 band energies of the playing music
+  mid: number;
+  high: number;
+  beatPulse: number; // 1 on a beat onset, decays to 0
 }
 
 // ─── Asset References ────────────────────────────────────────
@@ -90,6 +103,8 @@ export const renderState: RenderState = {
   // bullets live in world.bullets — no bridge needed
 
   qualitySettings: { level: 'medium', autoAdjust: true, ...QUALITY_PRESETS.medium },
+  accessibility: { hitIndicator: "off", highContrast: false, reducedMotion: false },
+  trajectoryPreview: false,
 
   showHighScoreEntry: false,
   bossIntroActive: false,
@@ -101,6 +116,8 @@ export const renderState: RenderState = {
   getReadyGlow: null,
   secondChanceImpact: null,
   ballReleaseHighlight: null,
+
+  music: { bass: 0, mid: 0, high: 0, beatPulse: 0 },
 };
 
 /**
@@ -0,0 +1,334 @@
+/**
+ * engine/replay.ts — Run recording for replays.
+ *
+ * Two tracks are recorded side by side:
+ *  - `inputs`: per-tick player input (paddle position, launches, turret fire,
+ *    pause/resume) keyed by FixedStepGameLoop's `frameTick`. Together with the
+ *    run seed (utils/rng.ts) this is what a deterministic re-simulation needs.
+ *  - `frames` / `layouts` / `brickEvents`: compact visual keyframes so a
+ *    finished run can be watched back (and scrubbed) without re-simulating.
+ *
+ * Same pattern as `world` / `hudSnapshot`: Game.tsx calls into the singleton
+ * from the loop, no React involvement while recording.
+ */
+
+import type { GameSettings } from "@/types/game";
+import { GAME_VERSION } from "@/constants/version";
+import { world } from "./state";
+import { renderState } from "./renderState";
+
+export const REPLAY_FORMAT_VERSION = 1;
+
+/** Record a visual keyframe every N game-loop frames */
+const FRAME_SAMPLE_INTERVAL = 2;
+
+/** Safety cap (~2h at 60fps / 2) so a forgotten tab can't grow unbounded */
+const MAX_FRAMES = 216_000;
+
+// ─── Format ──────────────────────────────────────────────────────
+
+export type ReplayInput =
+  | { tick: number; type: "paddle"; x: number }
+  | { tick: number; type: "launch"; angle: number }
+  | { tick: number; type: "fire" }
+  | { tick: number; type: "pause" }
+  | { tick: number; type: "resume" };
+
+export interface ReplayFrame {
+  tick: number;
+  ms: number; // Accumulated game time (pauses excluded)
+  level: number;
+  score: number;
+  lives: number;
+  paddle: [x: number, y: number, width: number, height: number] | null;
+  balls: number[]; // Flattened [x, y, x, y, ...]
+  enemies: number[]; // Flattened [x, y, w, h, ...]
+  boss: [x: number, y: number, width: number, height: number] | null;
+}
+
+/** Brick grid snapshot taken whenever a new level's bricks are built */
+export interface ReplayLayout {
+  ms: number;
+  level: number;
+  bricks: [x: number, y: number, width: number, height: number, color: string][];
+}
+
+/** [ms, brickIndex, visible (0|1)] against the most recent layout */
+export type ReplayBrickEvent = [ms: number, index: number, visible: 0 | 1];
+
+export interface ReplayData {
+  version: number;
+  gameVersion: string;
+  recordedAt: string;
+  seed: number;
+  settings: GameSettings;
+  canvasWidth: number;
+  canvasHeight: number;
+  durationMs: number;
+  finalScore: number;
+  finalLevel: number;
+  inputs: ReplayInput[];
+  frames: ReplayFrame[];
+  layouts: ReplayLayout[];
+  brickEvents: ReplayBrickEvent[];
+}
+
+// ─── Recorder ────────────────────────────────────────────────────
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+class ReplayRecorder {
+  private data: ReplayData | null = null;
+  private lastReplay: ReplayData | null = null;
+  private recording = false;
+  private paused = false;
+  private elapsedMs = 0;
+  private framesSinceSample = 0;
+  private lastPaddleX: number | null = null;
+  private trackedLevel = -1;
+  private brickVisibility: Uint8Array = new Uint8Array(0);
+
+  /**
+   * Begin recording a new run
+   * @param seed - Run seed from seedRun()
+   * @param settings - Settings the run was started with
+   * @param canvasWidth - Logical canvas width
+   * @param canvasHeight - Logical canvas height
+   */
+  start(seed: number, settings: GameSettings, canvasWidth: number, canvasHeight: number): void {
+    this.data = {
+      version: REPLAY_FORMAT_VERSION,
+      gameVersion: GAME_VERSION,
+      recordedAt: new Date().toISOString(),
+      seed,
+      settings: { ...settings, seed },
+      canvasWidth,
+      canvasHeight,
+      durationMs: 0,
+      finalScore: 0,
+      finalLevel: settings.startingLevel,
+      inputs: [],
+      frames: [],
+      layouts: [],
+      brickEvents: [],
+    };
+    this.recording = true;
+    this.paused = false;
+    this.elapsedMs = 0;
+    this.framesSinceSample = FRAME_SAMPLE_INTERVAL; // Sample the very first frame
+    this.lastPaddleX = null;
+    this.trackedLevel = -1;
+    this.brickVisibility = new Uint8Array(0);
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Call once per game-loop frame, after physics has run
+   * @param tick - FixedStepGameLoop frameTick
+   * @param dtMs - Game time advanced this frame
+   */
+  recordFrame(tick: number, dtMs: number): void {
+    const data = this.data;
+    if (!this.recording || !data || this.paused) return;
+
+    this.elapsedMs += dtMs;
+
+    // Per-tick paddle input (only when it actually moved)
+    const paddle = world.paddle;
+    if (paddle && (this.lastPaddleX === null || Math.abs(paddle.x - this.lastPaddleX) > 0.05)) {
+      this.lastPaddleX = paddle.x;
+      data.inputs.push({ tick, type: "paddle", x: round1(paddle.x) });
+    }
+
+    this.trackBricks();
+
+    this.framesSinceSample++;
+    if (this.framesSinceSample < FRAME_SAMPLE_INTERVAL || data.frames.length >= MAX_FRAMES) return;
+    this.framesSinceSample = 0;
+
+    const balls: number[] = [];
+    for (const ball of world.balls) {
+      balls.push(round1(ball.x), round1(ball.y));
+    }
+    const enemies: number[] = [];
+    for (const enemy of world.enemies) {
+      enemies.push(round1(enemy.x), round1(enemy.y), enemy.width, enemy.height);
+    }
+    const boss = world.boss;
+
+    data.frames.push({
+      tick,
+      ms: Math.round(this.elapsedMs),
+      level: renderState.level,
+      score: world.score,
+      lives: world.lives,
+      paddle: paddle ? [round1(paddle.x), round1(paddle.y), paddle.width, paddle.height] : null,
+      balls,
+      enemies,
+      boss: boss ? [round1(boss.x), round1(boss.y), boss.width, boss.height] : null,
+    });
+  }
+
+  /** Diff brick visibility against the last frame; snapshot layout on new levels */
+  private trackBricks(): void {
+    const data = this.data!;
+    const bricks = world.bricks;
+    const ms = Math.round(this.elapsedMs);
+
+    if (bricks.length !== this.brickVisibility.length || renderState.level !== this.trackedLevel) {
+      this.trackedLevel = renderState.level;
+      this.brickVisibility = new Uint8Array(bricks.length);
+      const layout: ReplayLayout = { ms, level: renderState.level, bricks: [] };
+      for (let i = 0; i < bricks.length; i++) {
+        const b = bricks[i];
+        layout.bricks.push([b.x, b.y, b.width, b.height, b.color]);
+        this.brickVisibility[i] = b.visible ? 1 : 0;
+        if (!b.visible) data.brickEvents.push([ms, i, 0]);
+      }
+      data.layouts.push(layout);
+      return;
+    }
+
+    for (let i = 0; i < bricks.length; i++) {
+      const visible = bricks[i].visible ? 1 : 0;
+      if (visible !== this.brickVisibility[i]) {
+        this.brickVisibility[i] = visible;
+        data.brickEvents.push([ms, i, visible]);
+      }
+    }
+  }
+
+  recordLaunch(tick: number, angle: number): void {
+    if (!this.recording || !this.data) return;
+    this.data.inputs.push({ tick, type: "launch", angle: round1(angle) });
+  }
+
+  recordFire(tick: number): void {
+    if (!this.recording || !this.data) return;
+    this.data.inputs.push({ tick, type: "fire" });
+  }
+
+  /**
+   * Record a pause/resume transition (duplicates are ignored)
+   */
+  recordPause(tick: number, paused: boolean): void {
+    if (!this.recording || !this.data || paused === this.paused) return;
+    this.paused = paused;
+    this.data.inputs.push({ tick, type: paused ? "pause" : "resume" });
+  }
+
+  /**
+   * Stop recording and keep the result as the last replay
+   * @returns The finished replay, or null if nothing was recording
+   */
+  finish(finalScore: number, finalLevel: number): ReplayData | null {
+    if (!this.recording || !this.data) return this.lastReplay;
+    this.recording = false;
+    this.data.durationMs = Math.round(this.elapsedMs);
+    this.data.finalScore = finalScore;
+    this.data.finalLevel = finalLevel;
+    this.lastReplay = this.data;
+    this.data = null;
+    return this.lastReplay;
+  }
+
+  getLastReplay(): ReplayData | null {
+    return this.lastReplay;
+  }
+
+  clear(): void {
+    this.recording = false;
+    this.data = null;
+    this.lastReplay = null;
+  }
+}
+
+export const replayRecorder = new ReplayRecorder();
+
+// ─── Serialization ───────────────────────────────────────────────
+
+export function serializeReplay(replay: ReplayData): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse and validate a replay file
+ * @throws Error if the file is not a compatible replay
+ */
+export function parseReplay(text: string): ReplayData {
+  let parsed: Partial<ReplayData>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Replay file is not valid JSON");
+  }
+  if (!parsed || typeof parsed !== "object" || typeof parsed.version !== "number") {
+    throw new Error("Not a replay file");
+  }
+  if (parsed.version > REPLAY_FORMAT_VERSION) {
+    throw new Error(`Replay version ${parsed.version} is newer than supported (${REPLAY_FORMAT_VERSION})`);
+  }
+  if (!Array.isArray(parsed.frames) || !Array.isArray(parsed.inputs) || !Array.isArray(parsed.layouts)) {
+    throw new Error("Replay file is missing data");
+  }
+  return {
+    brickEvents: [],
+    ...parsed,
+  } as ReplayData;
+}
+
+/**
+ * Trigger a browser download of the replay as a .json file
+ */
+export function downloadReplay(replay: ReplayData): void {
+  const blob = new Blob([serializeReplay(replay)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  const date = replay.recordedAt.slice(0, 19).replace(/[:T]/g, "-");
+  a.href = url;
+  a.download = `vibing-arkanoid-replay-${date}-${replay.finalScore}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// ─── Playback helpers ────────────────────────────────────────────
+
+/**
+ * Index of the last frame at or before `ms` (binary search)
+ */
+export function findFrameIndex(replay: ReplayData, ms: number): number {
+  const frames = replay.frames;
+  let lo = 0;
+  let hi = frames.length - 1;
+  if (hi < 0) return -1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (frames[mid].ms <= ms) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/**
+ * Rebuild the brick state at a point in time
+ * @returns The active layout and per-brick visibility, or null before the first layout
+ */
+export function getBricksAt(replay: ReplayData, ms: number): { layout: ReplayLayout; visible: Uint8Array } | null {
+  let layout: ReplayLayout | null = null;
+  for (const l of replay.layouts) {
+    if (l.ms <= ms) layout = l;
+    else break;
+  }
+  if (!layout) return null;
+
+  const visible = new Uint8Array(layout.bricks.length).fill(1);
+  for (const [eventMs, index, isVisible] of replay.brickEvents) {
+    if (eventMs < layout.ms) continue;
+    if (eventMs > ms) break;
+    if (index < visible.length) visible[index] = isVisible;
+  }
+  return { layout, visible };
+}
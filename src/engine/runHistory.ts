@@ -0,0 +1,209 @@
+/**
+ * engine/runHistory.ts — On-device run history.
+ *
+ * Every finished run (game over or victory, any mode) is appended to a local
+ * history so players can see their own progress beyond the global top-20
+ * leaderboards: personal bests per mode and trends over time (My Stats).
+ * Level Editor playtests and Practice runs are not recorded.
+ *
+ * The history lives in localStorage and can be exported / imported as JSON to
+ * move it between browsers; imports are merged by run id.
+ */
+
+import type { Difficulty, GameMode } from "@/types/game";
+
+const STORAGE_KEY = "vibing-arkanoid-run-history";
+export const RUN_HISTORY_FORMAT_VERSION = 1;
+
+/** Oldest runs are dropped past this, to stay well inside the storage quota */
+export const MAX_RUN_HISTORY = 2000;
+
+// ─── Format ──────────────────────────────────────────────────────
+
+export interface RunRecord {
+  id: string;
+  endedAt: string; // ISO timestamp
+  gameMode: GameMode;
+  difficulty: Difficulty;
+  startingLevel: number;
+  score: number;
+  level: number; // Level reached
+  durationSeconds: number; // Play time, pauses excluded
+  livesLost: number;
+  powerUpsCollected: number;
+  bossesBeaten: number;
+  qumranComplete: boolean; // All six bonus letters collected
+  victory: boolean;
+  assisted: boolean;
+  customPack: boolean; // Played a Level Editor pack instead of the built-in campaign
+}
+
+export interface RunHistoryFile {
+  version: number;
+  exportedAt: string;
+  runs: RunRecord[];
+}
+
+export const RUN_HISTORY_MODES: GameMode[] = ["normal", "endless", "daily", "bossRush"];
+
+export const GAME_MODE_LABELS: Record<GameMode, string> = {
+  normal: "Campaign",
+  endless: "Endless",
+  daily: "Daily Challenge",
+  bossRush: "Boss Rush",
+};
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Validate one run from storage or an imported file
+ * @returns The run, or null if it is malformed
+ */
+function parseRunRecord(value: unknown): RunRecord | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Partial<Record<keyof RunRecord, unknown>>;
+  if (typeof raw.id !== "string" || typeof raw.endedAt !== "string" || Number.isNaN(Date.parse(raw.endedAt))) {
+    return null;
+  }
+  if (!RUN_HISTORY_MODES.includes(raw.gameMode as GameMode)) return null;
+  if (!isNumber(raw.score) || !isNumber(raw.level)) return null;
+  return {
+    id: raw.id,
+    endedAt: raw.endedAt,
+    gameMode: raw.gameMode as GameMode,
+    difficulty: raw.difficulty === "godlike" ? "godlike" : "normal",
+    startingLevel: isNumber(raw.startingLevel) ? raw.startingLevel : 1,
+    score: raw.score,
+    level: raw.level,
+    durationSeconds: isNumber(raw.durationSeconds) ? raw.durationSeconds : 0,
+    livesLost: isNumber(raw.livesLost) ? raw.livesLost : 0,
+    powerUpsCollected: isNumber(raw.powerUpsCollected) ? raw.powerUpsCollected : 0,
+    bossesBeaten: isNumber(raw.bossesBeaten) ? raw.bossesBeaten : 0,
+    qumranComplete: raw.qumranComplete === true,
+    victory: raw.victory === true,
+    assisted: raw.assisted === true,
+    customPack: raw.customPack === true,
+  };
+}
+
+/**
+ * Parse an exported history file
+ * @throws Error with a user-facing message if the file isn't a run history
+ */
+export function parseRunHistoryFile(json: string): RunRecord[] {
+  let parsed: Partial<RunHistoryFile>;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("Not a valid JSON file");
+  }
+  if (!parsed || typeof parsed !== "object" || !Array.isArray(parsed.runs)) {
+    throw new Error("Not a run history file");
+  }
+  if (typeof parsed.version === "number" && parsed.version > RUN_HISTORY_FORMAT_VERSION) {
+    throw new Error(`Run history version ${parsed.version} is newer than supported (${RUN_HISTORY_FORMAT_VERSION})`);
+  }
+  return parsed.runs.map(parseRunRecord).filter((run): run is RunRecord => run !== null);
+}
+
+export function serializeRunHistory(runs: RunRecord[]): string {
+  const file: RunHistoryFile = { version: RUN_HISTORY_FORMAT_VERSION, exportedAt: new Date().toISOString(), runs };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Trigger a browser download of the history as a .json file
+ */
+export function downloadRunHistory(runs: RunRecord[]): void {
+  const blob = new Blob([serializeRunHistory(runs)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `vibing-arkanoid-run-history-${new Date().toISOString().slice(0, 10)}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// ─── Storage ─────────────────────────────────────────────────────
+
+/**
+ * All recorded runs, oldest first (corrupt entries are dropped)
+ */
+export function loadRunHistory(): RunRecord[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const raw: unknown = JSON.parse(stored);
+    if (!Array.isArray(raw)) return [];
+    return raw.map(parseRunRecord).filter((run): run is RunRecord => run !== null);
+  } catch {
+    return [];
+  }
+}
+
+function writeRunHistory(runs: RunRecord[]): boolean {
+  const sorted = [...runs].sort((a, b) => a.endedAt.localeCompare(b.endedAt)).slice(-MAX_RUN_HISTORY);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sorted));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Append a finished run
+ */
+export function recordRun(run: Omit<RunRecord, "id" | "endedAt">): RunRecord {
+  const endedAt = new Date().toISOString();
+  const record: RunRecord = { id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, endedAt, ...run };
+  writeRunHistory([...loadRunHistory(), record]);
+  return record;
+}
+
+/**
+ * Merge runs from an exported file into the history (runs already present are skipped)
+ * @returns Number of runs added, or null if storage failed
+ */
+export function importRunHistory(runs: RunRecord[]): number | null {
+  const existing = loadRunHistory();
+  const ids = new Set(existing.map((run) => run.id));
+  const added = runs.filter((run) => !ids.has(run.id));
+  return writeRunHistory([...existing, ...added]) ? added.length : null;
+}
+
+export function clearRunHistory(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+// ─── Statistics ──────────────────────────────────────────────────
+
+export interface PersonalBests {
+  runs: number;
+  victories: number;
+  bestScore: number;
+  bestLevel: number;
+  mostBossesBeaten: number;
+  totalPlaySeconds: number;
+  averageScore: number;
+}
+
+/**
+ * Personal bests over a set of runs (e.g. one mode's)
+ */
+export function getPersonalBests(runs: RunRecord[]): PersonalBests {
+  const totalScore = runs.reduce((sum, run) => sum + run.score, 0);
+  return {
+    runs: runs.length,
+    victories: runs.filter((run) => run.victory).length,
+    bestScore: Math.max(0, ...runs.map((run) => run.score)),
+    bestLevel: Math.max(0, ...runs.map((run) => run.level)),
+    mostBossesBeaten: Math.max(0, ...runs.map((run) => run.bossesBeaten)),
+    totalPlaySeconds: runs.reduce((sum, run) => sum + run.durationSeconds, 0),
+    averageScore: runs.length > 0 ? Math.round(totalScore / runs.length) : 0,
+  };
+}
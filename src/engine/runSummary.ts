@@ -0,0 +1,96 @@
+/**
+ * engine/runSummary.ts — Run summaries.
+ *
+ * A run summary is the compact, submittable part of a replay: seed, settings,
+ * the input log and one checkpoint per level (score / lives / game time when
+ * the level started, plus the end of the run). It is sent with every score;
+ * `submit-score` reads the recorded settings to keep assisted runs off the
+ * main leaderboards.
+ *
+ * Server-side verification of the score is not implemented: it needs the
+ * game logic (scoring, lives, power-ups, bosses) re-simulated from the seed
+ * and input log, and that logic still lives in Game.tsx rather than in a pure
+ * engine module headless.ts could drive.
+ *
+ * Pure, no React / DOM: imported by the client and by the Deno edge function.
+ */
+
+import type { GameSettings } from "@/types/game";
+import type { ReplayData, ReplayInput } from "./replay";
+
+export const RUN_SUMMARY_VERSION = 1;
+
+// ─── Format ──────────────────────────────────────────────────────
+
+/** Level start (or end of run) as seen by the replay recorder */
+export interface RunCheckpoint {
+  level: number;
+  tick: number;
+  ms: number; // Game time, pauses excluded
+  score: number;
+  lives: number;
+}
+
+export interface RunSummary {
+  version: number;
+  gameVersion: string;
+  seed: number;
+  settings: Pick<GameSettings, "difficulty" | "startingLevel" | "startingLives" | "gameMode" | "assists">;
+  canvasWidth: number;
+  /**
+   * Input log, flattened [tickDelta, code, value, ...]
+   * code: 0 = paddle (value = x * 10), 1 = launch (value = angle * 10), 2 = fire, 3 = pause, 4 = resume
+   */
+  inputs: number[];
+  checkpoints: RunCheckpoint[];
+}
+
+const INPUT_CODES: Record<ReplayInput["type"], number> = { paddle: 0, launch: 1, fire: 2, pause: 3, resume: 4 };
+
+// ─── Summary creation ────────────────────────────────────────────
+
+/**
+ * Build the submittable summary of a finished replay
+ * @param finalScore - Score shown at the end of the run (may include end-of-run bonuses)
+ */
+export function createRunSummary(replay: ReplayData, finalScore: number = replay.finalScore): RunSummary {
+  const inputs: number[] = [];
+  let lastTick = 0;
+  for (const input of replay.inputs) {
+    const value = input.type === "paddle" ? input.x : input.type === "launch" ? input.angle : 0;
+    inputs.push(input.tick - lastTick, INPUT_CODES[input.type], Math.round(value * 10));
+    lastTick = input.tick;
+  }
+
+  // One checkpoint per level start, plus the end of the run
+  const checkpoints: RunCheckpoint[] = [];
+  for (const frame of replay.frames) {
+    if (checkpoints.length === 0 || checkpoints[checkpoints.length - 1].level !== frame.level) {
+      checkpoints.push({ level: frame.level, tick: frame.tick, ms: frame.ms, score: frame.score, lives: frame.lives });
+    }
+  }
+  const last = replay.frames[replay.frames.length - 1];
+  checkpoints.push({
+    level: replay.finalLevel,
+    tick: last?.tick ?? 0,
+    ms: replay.durationMs,
+    score: finalScore,
+    lives: last?.lives ?? 0,
+  });
+
+  return {
+    version: RUN_SUMMARY_VERSION,
+    gameVersion: replay.gameVersion,
+    seed: replay.seed,
+    settings: {
+      difficulty: replay.settings.difficulty,
+      startingLevel: replay.settings.startingLevel,
+      startingLives: replay.settings.startingLives,
+      gameMode: replay.settings.gameMode,
+      assists: replay.settings.assists,
+    },
+    canvasWidth: replay.canvasWidth,
+    inputs,
+    checkpoints,
+  };
+}
@@ -91,6 +91,9 @@ export interface GameWorld {
   // without setState. React reads them via hudSnapshot polling.
   score: number;
   lives: number;
+
+  // Seed of the current run (see utils/rng.ts seedRun)
+  runSeed: number;
 }
 
 /** Default values — used by resetWorld() and as initial state. */
@@ -131,6 +134,8 @@ const WORLD_DEFAULTS: Readonly<GameWorld> = Object.freeze({
 
   score: 0,
   lives: 3,
+
+  runSeed: 0,
 });
 
 /**
@@ -182,6 +187,7 @@ export function resetWorld(overrides?: Partial<GameWorld>): void {
   world.backgroundHue = WORLD_DEFAULTS.backgroundHue;
   world.score = WORLD_DEFAULTS.score;
   world.lives = WORLD_DEFAULTS.lives;
+  world.runSeed = WORLD_DEFAULTS.runSeed;
 
   // Fresh mutable arrays
   freshArrays();
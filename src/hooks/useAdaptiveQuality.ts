@@ -19,6 +19,7 @@ export interface QualitySettings {
   shieldArcsEnabled: boolean;
   superWarningEffects: boolean;
   ambientFlickerEnabled: boolean;
+  musicReactivity: number; // 0-1 strength of music-driven effects; 0 skips audio analysis
 }
 
 interface AdaptiveQualityOptions {
@@ -44,6 +45,7 @@ const QUALITY_PRESETS: Record<QualityLevel, Omit<QualitySettings, 'level' | 'aut
     shieldArcsEnabled: false,
     superWarningEffects: false,
     ambientFlickerEnabled: false,
+    musicReactivity: 0,
   },
   medium: {
     particleMultiplier: 0.4,
@@ -57,6 +59,7 @@ const QUALITY_PRESETS: Record<QualityLevel, Omit<QualitySettings, 'level' | 'aut
     shieldArcsEnabled: false,
     superWarningEffects: false,
     ambientFlickerEnabled: false,
+    musicReactivity: 0.5,
   },
   high: {
     particleMultiplier: 1.0,
@@ -70,6 +73,7 @@ const QUALITY_PRESETS: Record<QualityLevel, Omit<QualitySettings, 'level' | 'aut
     shieldArcsEnabled: true,
     superWarningEffects: true,
     ambientFlickerEnabled: true,
+    musicReactivity: 1,
   }
 };
 
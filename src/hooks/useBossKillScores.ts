@@ -0,0 +1,79 @@
+import { useState, useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { BossRushLevel } from "@/constants/bossRushConfig";
+
+/** One boss kill from a submitted Boss Rush run (boss_rush_splits) */
+export interface BossKillScore {
+  scoreId: string;
+  name: string;
+  killMs: number; // Time spent on the boss
+  hitsTaken: number;
+  createdAt: string;
+  playerId?: string;
+}
+
+/** Entries per boss kill leaderboard page */
+export const BOSS_KILL_PAGE_SIZE = 20;
+
+/**
+ * Fastest kills of one Boss Rush boss, one page at a time
+ */
+export const useBossKillScores = (
+  bossLevel: BossRushLevel,
+  page: number = 0,
+  bestPerPlayer: boolean = false
+) => {
+  const [scores, setScores] = useState<BossKillScore[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest request may update state (switching bosses quickly)
+  const latestRequestRef = useRef(0);
+
+  const fetchScores = async () => {
+    const requestId = ++latestRequestRef.current;
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase.rpc('boss_kill_leaderboard', {
+        p_boss_level: bossLevel,
+        p_best_per_player: bestPerPlayer,
+        p_limit: BOSS_KILL_PAGE_SIZE,
+        p_offset: page * BOSS_KILL_PAGE_SIZE,
+      });
+
+      if (fetchError) throw fetchError;
+      if (requestId !== latestRequestRef.current) return;
+
+      setScores((data || []).map(row => ({
+        scoreId: row.score_id,
+        name: row.player_name,
+        killMs: row.kill_ms,
+        hitsTaken: row.hits_taken,
+        createdAt: row.created_at,
+        playerId: row.player_id || undefined,
+      })));
+      setTotalCount(data?.[0]?.total_count ?? 0); // Every row carries the total
+    } catch (err) {
+      if (requestId !== latestRequestRef.current) return;
+      console.error('Failed to fetch boss kill scores:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load boss kill scores');
+    } finally {
+      if (requestId === latestRequestRef.current) setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchScores();
+  }, [bossLevel, page, bestPerPlayer]);
+
+  return {
+    scores,
+    totalCount,
+    pageCount: Math.max(1, Math.ceil(totalCount / BOSS_KILL_PAGE_SIZE)),
+    isLoading,
+    error,
+    refetch: fetchScores,
+  };
+};
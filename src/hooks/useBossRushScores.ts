@@ -1,6 +1,7 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { scoreOutbox } from "@/utils/scoreOutbox";
 
 export interface BossRushScore {
   id?: string;
@@ -9,27 +10,47 @@ export interface BossRushScore {
   completionTimeMs: number;
   bossLevel: number;
   createdAt?: string;
+  playerId?: string; // Anonymous player profile (utils/playerProfile.ts)
 }
 
 const MAX_BOSS_RUSH_SCORES = 20;
 
-export const useBossRushScores = () => {
+/** Entries per Boss Rush leaderboard page */
+export const BOSS_RUSH_PAGE_SIZE = 20;
+
+/** Browsing options for BossRushLeaderboard */
+export interface BossRushBrowseOptions {
+  page?: number; // Zero-based
+  search?: string; // Part of a player name
+  bestPerPlayer?: boolean; // One entry per player profile
+  orderBy?: 'score' | 'time'; // 'time': furthest boss reached, then fastest
+}
+
+export const useBossRushScores = (browse: BossRushBrowseOptions = {}) => {
+  const { page = 0, search = '', bestPerPlayer = false, orderBy = 'score' } = browse;
   const [scores, setScores] = useState<BossRushScore[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Only the latest request may update state (search results can arrive out of order)
+  const latestRequestRef = useRef(0);
 
   const fetchScores = async () => {
+    const requestId = ++latestRequestRef.current;
     try {
       setIsLoading(true);
       setError(null);
 
-      const { data, error: fetchError } = await supabase
-        .from('boss_rush_scores')
-        .select('*')
-        .order('score', { ascending: false })
-        .limit(MAX_BOSS_RUSH_SCORES);
+      const { data, error: fetchError } = await supabase.rpc('search_boss_rush_scores', {
+        p_search: search.trim() || null,
+        p_best_per_player: bestPerPlayer,
+        p_order_by: orderBy,
+        p_limit: BOSS_RUSH_PAGE_SIZE,
+        p_offset: page * BOSS_RUSH_PAGE_SIZE,
+      });
 
       if (fetchError) throw fetchError;
+      if (requestId !== latestRequestRef.current) return;
 
       const mappedScores: BossRushScore[] = (data || []).map(row => ({
         id: row.id,
@@ -38,20 +59,23 @@ export const useBossRushScores = () => {
         completionTimeMs: row.completion_time_ms,
         bossLevel: row.boss_level,
         createdAt: row.created_at,
+        playerId: row.player_id || undefined,
       }));
 
       setScores(mappedScores);
+      setTotalCount(data?.[0]?.total_count ?? 0); // Every row carries the total
     } catch (err) {
+      if (requestId !== latestRequestRef.current) return;
       console.error('Failed to fetch boss rush scores:', err);
       setError(err instanceof Error ? err.message : 'Failed to load boss rush scores');
     } finally {
-      setIsLoading(false);
+      if (requestId === latestRequestRef.current) setIsLoading(false);
     }
   };
 
   useEffect(() => {
     fetchScores();
-  }, []);
+  }, [page, search, bestPerPlayer, orderBy]);
 
   const isTopScore = async (score: number): Promise<boolean> => {
     try {
@@ -87,21 +111,19 @@ export const useBossRushScores = () => {
         }
       }
 
-      const response = await supabase.functions.invoke('submit-score', {
-        body: {
-          type: 'boss_rush',
-          player_name: name,
-          score,
-          completion_time_ms: completionTimeMs,
-          boss_level: bossLevel,
-        },
+      const status = await scoreOutbox.submit({
+        type: 'boss_rush',
+        player_name: name,
+        score,
+        completion_time_ms: completionTimeMs,
+        boss_level: bossLevel,
       });
 
-      if (response.error) throw response.error;
-      const result = response.data as { error?: string };
-      if (result?.error) throw new Error(result.error);
-
       sessionStorage.setItem(lastSubmissionKey, now.toString());
+      if (status === 'queued') {
+        toast.info('Boss Rush score saved: it will be submitted automatically once the server is reachable');
+        return;
+      }
       toast.success('Boss Rush score submitted!');
       await fetchScores();
     } catch (err) {
@@ -123,6 +145,8 @@ export const useBossRushScores = () => {
 
   return {
     scores,
+    totalCount,
+    pageCount: Math.max(1, Math.ceil(totalCount / BOSS_RUSH_PAGE_SIZE)),
     isLoading,
     error,
     isTopScore,
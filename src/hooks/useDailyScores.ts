@@ -0,0 +1,109 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { getUtcDateKey } from "@/engine/dailyChallenge";
+import type { RunSummary } from "@/engine/runSummary";
+import { scoreOutbox } from "@/utils/scoreOutbox";
+
+export interface DailyScore {
+  id?: string;
+  name: string;
+  score: number;
+  level: number;
+  challengeDate: string;
+  createdAt?: string;
+}
+
+const MAX_DAILY_SCORES = 20;
+
+/**
+ * Submit a Daily Challenge score. The server keeps one entry per player per day.
+ * @param challengeDate - UTC day of the challenge that was played ("YYYY-MM-DD")
+ * @param run - Run summary of the finished run
+ */
+export const submitDailyScore = async (
+  name: string,
+  score: number,
+  level: number,
+  challengeDate: string,
+  run?: RunSummary
+) => {
+  try {
+    const status = await scoreOutbox.submit({
+      type: 'daily',
+      player_name: name,
+      score,
+      level,
+      challenge_date: challengeDate,
+      run,
+    });
+
+    if (status === 'queued') {
+      toast.info('Daily Challenge score saved: it will be submitted automatically once the server is reachable');
+      return;
+    }
+    toast.success('Daily Challenge score submitted!');
+  } catch (err) {
+    console.error('Failed to add daily score:', err);
+    toast.error('Failed to submit daily score (one entry per player per day)');
+    throw err;
+  }
+};
+
+/**
+ * Daily Challenge leaderboard for one UTC day (defaults to today)
+ */
+export const useDailyScores = (challengeDate: string = getUtcDateKey()) => {
+  const [scores, setScores] = useState<DailyScore[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchScores = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('daily_scores')
+        .select('*')
+        .eq('challenge_date', challengeDate)
+        .order('score', { ascending: false })
+        .limit(MAX_DAILY_SCORES);
+
+      if (fetchError) throw fetchError;
+
+      const mappedScores: DailyScore[] = (data || []).map(row => ({
+        id: row.id,
+        name: row.player_name,
+        score: row.score,
+        level: row.level,
+        challengeDate: row.challenge_date,
+        createdAt: row.created_at,
+      }));
+
+      setScores(mappedScores);
+    } catch (err) {
+      console.error('Failed to fetch daily scores:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load daily scores');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchScores();
+  }, [challengeDate]);
+
+  const addScore = async (name: string, score: number, level: number, date: string = challengeDate) => {
+    await submitDailyScore(name, score, level, date);
+    await fetchScores();
+  };
+
+  return {
+    scores,
+    isLoading,
+    error,
+    addScore,
+    refetch: fetchScores,
+  };
+};
@@ -1,6 +1,9 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import type { RunSummary } from "@/engine/runSummary";
+import { scoreOutbox } from "@/utils/scoreOutbox";
+import { playerProfile } from "@/utils/playerProfile";
 
 export type LeaderboardType = 'all-time' | 'weekly' | 'daily';
 export type DifficultyFilter = 'all' | 'normal' | 'godlike';
@@ -16,45 +19,94 @@ export interface HighScore {
   startingLives?: number;
   createdAt?: string;
   gameMode?: string;
+  assisted?: boolean; // Played with assists (engine/assists.ts)
+  playerId?: string; // Anonymous player profile (utils/playerProfile.ts)
 }
 
-const MAX_HIGH_SCORES = 20;
+const MAX_HIGH_SCORES = 20; // Size of the boards a new score has to reach to qualify
 
-export const useHighScores = (leaderboardType: LeaderboardType = 'all-time', difficultyFilter: DifficultyFilter = 'all') => {
+/** Entries per leaderboard page */
+export const LEADERBOARD_PAGE_SIZE = 20;
+
+/** game_mode values stored with high scores ('campaign' covers older entries without one) */
+export type HighScoreGameModeFilter = 'all' | 'campaign' | 'endless' | 'boss_rush';
+
+/** Browsing options for the High Scores screen (HighScoreTable) */
+export interface HighScoreBrowseOptions {
+  page?: number; // Zero-based
+  search?: string; // Part of a player name
+  gameMode?: HighScoreGameModeFilter;
+  startingLives?: number | null; // null = any
+  collectedAllLetters?: boolean; // Only runs that completed QUMRAN
+  bestPerPlayer?: boolean; // One entry per player profile instead of every entry
+}
+
+/** Where this device's player stands on the current leaderboard */
+export interface PlayerRank {
+  rank: number;
+  score: number; // The player's best score on this board
+  total: number; // Entries (or players) on this board
+}
+
+/** Start of the time window a leaderboard type covers (null = all time) */
+const getLeaderboardSince = (leaderboardType: LeaderboardType): string | null => {
+  if (leaderboardType === 'weekly') {
+    const weekAgo = new Date();
+    weekAgo.setDate(weekAgo.getDate() - 7);
+    return weekAgo.toISOString();
+  }
+  if (leaderboardType === 'daily') {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return today.toISOString();
+  }
+  return null;
+};
+
+export const useHighScores = (
+  leaderboardType: LeaderboardType = 'all-time',
+  difficultyFilter: DifficultyFilter = 'all',
+  assisted: boolean = false, // Assisted runs have their own leaderboard
+  browse: HighScoreBrowseOptions = {}
+) => {
+  const {
+    page = 0,
+    search = '',
+    gameMode = 'all',
+    startingLives = null,
+    collectedAllLetters = false,
+    bestPerPlayer = false,
+  } = browse;
   const [highScores, setHighScores] = useState<HighScore[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [playerRank, setPlayerRank] = useState<PlayerRank | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Only the latest request may update state (search results can arrive out of order)
+  const latestRequestRef = useRef(0);
 
   const fetchHighScores = async () => {
+    const requestId = ++latestRequestRef.current;
     try {
       setIsLoading(true);
       setError(null);
 
-      let query = supabase
-        .from('high_scores')
-        .select('*')
-        .order('score', { ascending: false })
-        .limit(MAX_HIGH_SCORES);
-
-      // Apply difficulty filter
-      if (difficultyFilter === 'godlike') {
-        query = query.eq('difficulty', 'godlike');
-      } else if (difficultyFilter === 'normal') {
-        query = query.or('difficulty.is.null,difficulty.neq.godlike');
-      }
-
-      // Apply time filters based on leaderboard type
-      if (leaderboardType === 'weekly') {
-        const weekAgo = new Date();
-        weekAgo.setDate(weekAgo.getDate() - 7);
-        query = query.gte('created_at', weekAgo.toISOString());
-      } else if (leaderboardType === 'daily') {
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        query = query.gte('created_at', today.toISOString());
-      }
+      const filters = {
+        p_assisted: assisted,
+        p_difficulty: difficultyFilter === 'all' ? null : difficultyFilter,
+        p_since: getLeaderboardSince(leaderboardType),
+        p_game_mode: gameMode === 'all' ? null : gameMode,
+        p_starting_lives: startingLives,
+        p_collected_all_letters: collectedAllLetters ? true : null,
+      };
 
-      const { data, error: fetchError } = await query;
+      const { data, error: fetchError } = await supabase.rpc('search_high_scores', {
+        ...filters,
+        p_search: search.trim() || null,
+        p_best_per_player: bestPerPlayer,
+        p_limit: LEADERBOARD_PAGE_SIZE,
+        p_offset: page * LEADERBOARD_PAGE_SIZE,
+      });
 
       if (fetchError) throw fetchError;
 
@@ -68,22 +120,36 @@ export const useHighScores = (leaderboardType: LeaderboardType = 'all-time', dif
         collectedAllLetters: row.collected_all_letters || undefined,
         startingLives: row.starting_lives || undefined,
         createdAt: row.created_at,
-        gameMode: (row as any).game_mode || undefined,
+        gameMode: row.game_mode || undefined,
+        assisted: row.assisted || undefined,
+        playerId: row.player_id || undefined,
       }));
 
+      // "Your rank" line; a missing rank isn't worth an error toast
+      const { data: rankRows, error: rankError } = await supabase.rpc('get_high_score_rank', {
+        ...filters,
+        p_player_id: playerProfile.getId(),
+        p_best_per_player: bestPerPlayer,
+      });
+      if (rankError) console.error('Failed to fetch player rank:', rankError);
+
+      if (requestId !== latestRequestRef.current) return;
       setHighScores(scores);
+      setTotalCount(data?.[0]?.total_count ?? 0); // Every row carries the total
+      setPlayerRank(rankRows?.[0] ?? null);
     } catch (err) {
+      if (requestId !== latestRequestRef.current) return;
       console.error('Failed to fetch high scores:', err);
       setError(err instanceof Error ? err.message : 'Failed to load high scores');
       toast.error('Failed to load high scores');
     } finally {
-      setIsLoading(false);
+      if (requestId === latestRequestRef.current) setIsLoading(false);
     }
   };
 
   useEffect(() => {
     fetchHighScores();
-  }, [leaderboardType, difficultyFilter]);
+  }, [leaderboardType, difficultyFilter, assisted, page, search, gameMode, startingLives, collectedAllLetters, bestPerPlayer]);
 
   // Type for leaderboard qualification status
   type LeaderboardQualification = {
@@ -113,6 +179,7 @@ export const useHighScores = (leaderboardType: LeaderboardType = 'all-time', dif
       const { count: dailyHigherCount, error: dailyError } = await supabase
         .from('high_scores')
         .select('*', { count: 'exact', head: true })
+        .eq('assisted', assisted)
         .gte('created_at', today.toISOString())
         .gte('score', score);
       
@@ -128,6 +195,7 @@ export const useHighScores = (leaderboardType: LeaderboardType = 'all-time', dif
       const { count: weeklyHigherCount, error: weeklyError } = await supabase
         .from('high_scores')
         .select('*', { count: 'exact', head: true })
+        .eq('assisted', assisted)
         .gte('created_at', weekAgo.toISOString())
         .gte('score', score);
       
@@ -140,6 +208,7 @@ export const useHighScores = (leaderboardType: LeaderboardType = 'all-time', dif
       const { count: allTimeHigherCount, error: allTimeError } = await supabase
         .from('high_scores')
         .select('*', { count: 'exact', head: true })
+        .eq('assisted', assisted)
         .gte('score', score);
       
       if (allTimeError) throw allTimeError;
@@ -167,6 +236,7 @@ export const useHighScores = (leaderboardType: LeaderboardType = 'all-time', dif
       const { count: dailyHigherCount } = await supabase
         .from('high_scores')
         .select('*', { count: 'exact', head: true })
+        .eq('assisted', assisted)
         .gte('created_at', today.toISOString())
         .gte('score', score);
       
@@ -179,6 +249,7 @@ export const useHighScores = (leaderboardType: LeaderboardType = 'all-time', dif
       const { count: weeklyHigherCount } = await supabase
         .from('high_scores')
         .select('*', { count: 'exact', head: true })
+        .eq('assisted', assisted)
         .gte('created_at', weekAgo.toISOString())
         .gte('score', score);
       
@@ -188,6 +259,7 @@ export const useHighScores = (leaderboardType: LeaderboardType = 'all-time', dif
       const { count: allTimeHigherCount } = await supabase
         .from('high_scores')
         .select('*', { count: 'exact', head: true })
+        .eq('assisted', assisted)
         .gte('score', score);
       
       const allTimeQualifies = (allTimeHigherCount || 0) < MAX_HIGH_SCORES;
@@ -215,6 +287,7 @@ export const useHighScores = (leaderboardType: LeaderboardType = 'all-time', dif
       const { data: dailyData } = await supabase
         .from('high_scores')
         .select('player_name, score')
+        .eq('assisted', false)
         .gte('created_at', today.toISOString())
         .order('score', { ascending: false })
         .limit(1)
@@ -227,6 +300,7 @@ export const useHighScores = (leaderboardType: LeaderboardType = 'all-time', dif
       const { data: weeklyData } = await supabase
         .from('high_scores')
         .select('player_name, score')
+        .eq('assisted', false)
         .gte('created_at', weekAgo.toISOString())
         .order('score', { ascending: false })
         .limit(1)
@@ -236,6 +310,7 @@ export const useHighScores = (leaderboardType: LeaderboardType = 'all-time', dif
       const { data: allTimeData } = await supabase
         .from('high_scores')
         .select('player_name, score')
+        .eq('assisted', false)
         .order('score', { ascending: false })
         .limit(1)
         .maybeSingle();
@@ -260,7 +335,8 @@ export const useHighScores = (leaderboardType: LeaderboardType = 'all-time', dif
     beatLevel50?: boolean,
     collectedAllLetters?: boolean,
     startingLives?: number,
-    gameMode?: string
+    gameMode?: string,
+    run?: RunSummary
   ) => {
     try {
       // Rate limiting: prevent submissions more than once per 30 seconds
@@ -279,27 +355,27 @@ export const useHighScores = (leaderboardType: LeaderboardType = 'all-time', dif
         }
       }
 
-      const response = await supabase.functions.invoke('submit-score', {
-        body: {
-          type: 'high_score',
-          player_name: name,
-          score,
-          level,
-          difficulty,
-          beat_level_50: beatLevel50,
-          collected_all_letters: collectedAllLetters,
-          starting_lives: startingLives,
-          game_mode: gameMode,
-        },
+      const status = await scoreOutbox.submit({
+        type: 'high_score',
+        player_name: name,
+        score,
+        level,
+        difficulty,
+        beat_level_50: beatLevel50,
+        collected_all_letters: collectedAllLetters,
+        starting_lives: startingLives,
+        game_mode: gameMode,
+        assisted,
+        run,
       });
 
-      if (response.error) throw response.error;
-      const result = response.data as { error?: string };
-      if (result?.error) throw new Error(result.error);
-
-      // Record successful submission time
+      // Record submission time (a queued score counts: it will be sent)
       sessionStorage.setItem(lastSubmissionKey, now.toString());
 
+      if (status === 'queued') {
+        toast.info('High score saved: it will be submitted automatically once the server is reachable');
+        return;
+      }
       toast.success('High score submitted!');
       
       await fetchHighScores();
@@ -319,6 +395,9 @@ export const useHighScores = (leaderboardType: LeaderboardType = 'all-time', dif
 
   return {
     highScores,
+    totalCount,
+    pageCount: Math.max(1, Math.ceil(totalCount / LEADERBOARD_PAGE_SIZE)),
+    playerRank,
     isHighScore,
     addHighScore,
     clearHighScores,
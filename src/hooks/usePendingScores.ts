@@ -0,0 +1,34 @@
+import { useState, useEffect, useRef } from "react";
+import { scoreOutbox, type PendingScore } from "@/utils/scoreOutbox";
+
+/**
+ * Score submissions still waiting in the offline outbox, kept up to date
+ * @param onSubmitted - Called when entries leave the outbox (e.g. to refetch leaderboards)
+ */
+export const usePendingScores = (onSubmitted?: () => void) => {
+  const [pendingScores, setPendingScores] = useState<PendingScore[]>([]);
+  const onSubmittedRef = useRef(onSubmitted);
+  onSubmittedRef.current = onSubmitted;
+
+  useEffect(() => {
+    let cancelled = false;
+    let previousCount: number | null = null;
+
+    const refresh = async () => {
+      const pending = await scoreOutbox.getPending();
+      if (cancelled) return;
+      if (previousCount !== null && pending.length < previousCount) onSubmittedRef.current?.();
+      previousCount = pending.length;
+      setPendingScores(pending);
+    };
+
+    void refresh();
+    const unsubscribe = scoreOutbox.subscribe(() => void refresh());
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return pendingScores;
+};
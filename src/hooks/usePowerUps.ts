@@ -5,6 +5,9 @@ import { debugToast as toast } from "@/utils/debugToast";
 import { soundManager } from "@/utils/sounds";
 import { powerUpPool, getNextPowerUpId } from "@/utils/entityPool";
 import { world } from "@/engine/state";
+import { gameRng, cosmeticRng } from "@/utils/rng";
+import { levelHasBoss } from "@/engine/levelPack";
+import { isPowerUpAllowed } from "@/engine/dailyChallenge";
 
 const regularPowerUpTypes: PowerUpType[] = ["multiball", "turrets", "fireball", "life", "slowdown", "paddleExtend", "paddleShrink", "shield", "secondChance"];
 const bossPowerUpTypes: PowerUpType[] = ["bossStunner", "reflectShield", "homingBall"];
@@ -42,9 +45,9 @@ export const usePowerUps = (
     const isEnemyDrop = brick.id < 0; // Enemies use fakeBricks with id: -1
     
     // Boss minions: 50% chance to drop power-up (or forced drop)
-    if (isBossMinion && (forceBossPowerUp || Math.random() < 0.5)) {
-      const isBossLevel = [5, 10, 15, 20].includes(currentLevel);
-      const useBossPowerUp = forceBossPowerUp || (isBossLevel && Math.random() < 0.5);
+    if (isBossMinion && (forceBossPowerUp || gameRng.next() < 0.5)) {
+      const isBossLevel = levelHasBoss(currentLevel);
+      const useBossPowerUp = forceBossPowerUp || (isBossLevel && gameRng.next() < 0.5);
       
       let availableTypes: PowerUpType[];
       if (useBossPowerUp) {
@@ -59,9 +62,12 @@ export const usePowerUps = (
             availableTypes = availableTypes.filter(t => t !== "life");
           }
         }
+        // Daily Challenge: only today's power-up pool drops
+        availableTypes = availableTypes.filter(isPowerUpAllowed);
       }
+      if (availableTypes.length === 0) return null;
 
-      const type = availableTypes[Math.floor(Math.random() * availableTypes.length)];
+      const type = gameRng.pick(availableTypes);
       return powerUpPool.acquire({
         id: getNextPowerUpId(),
         x: brick.x + brick.width / 2 - POWERUP_SIZE / 2,
@@ -85,7 +91,9 @@ export const usePowerUps = (
           availableTypes = availableTypes.filter(t => t !== "life");
         }
       }
-      const type = availableTypes[Math.floor(Math.random() * availableTypes.length)];
+      availableTypes = availableTypes.filter(isPowerUpAllowed);
+      if (availableTypes.length === 0) return null;
+      const type = gameRng.pick(availableTypes);
       return powerUpPool.acquire({
         id: getNextPowerUpId(),
         x: brick.x + brick.width / 2 - POWERUP_SIZE / 2,
@@ -233,8 +241,8 @@ export const usePowerUps = (
               if (balls.length > 0) {
                 const baseBall = balls[0];
                 const newBalls: Ball[] = [
-                  { ...baseBall, id: Date.now() + 1, dx: baseBall.dx - 2, rotation: Math.random() * 360 },
-                  { ...baseBall, id: Date.now() + 2, dx: baseBall.dx + 2, rotation: Math.random() * 360 },
+                  { ...baseBall, id: Date.now() + 1, dx: baseBall.dx - 2, rotation: cosmeticRng.next() * 360 },
+                  { ...baseBall, id: Date.now() + 2, dx: baseBall.dx + 2, rotation: cosmeticRng.next() * 360 },
                 ];
                 setBalls(prev => [...prev, ...newBalls]);
                 toast.success("Multi-ball activated!");
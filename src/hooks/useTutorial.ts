@@ -1,4 +1,5 @@
 import { useState, useCallback, useEffect } from "react";
+import { levelHasBoss } from "@/engine/levelPack";
 
 export interface TutorialStep {
   id: string;
@@ -13,8 +14,6 @@ export interface TutorialStep {
   floatingText?: boolean; // Special floating text that follows target
 }
 
-const BOSS_LEVELS = [5, 10, 15, 20];
-
 const TUTORIAL_STEPS: TutorialStep[] = [
   {
     id: 'controls_intro',
@@ -91,7 +90,7 @@ export const useTutorial = () => {
       if (s.trigger !== trigger) return false;
       if (completedSteps.has(s.id)) return false;
       if (s.level !== undefined && s.level !== level) return false;
-      if (s.bossLevelOnly && !BOSS_LEVELS.includes(level)) return false;
+      if (s.bossLevelOnly && !levelHasBoss(level)) return false;
       return true;
     });
     
@@ -20,26 +20,116 @@ export type Database = {
           completion_time_ms: number
           created_at: string
           id: string
+          player_id: string | null
           player_name: string
           score: number
+          submission_id: string | null
         }
         Insert: {
           boss_level?: number
           completion_time_ms: number
           created_at?: string
           id?: string
+          player_id?: string | null
           player_name: string
           score: number
+          submission_id?: string | null
         }
         Update: {
           boss_level?: number
           completion_time_ms?: number
           created_at?: string
           id?: string
+          player_id?: string | null
           player_name?: string
           score?: number
+          submission_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "boss_rush_scores_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      boss_rush_splits: {
+        Row: {
+          boss_level: number
+          hits_taken: number
+          id: string
+          kill_ms: number
+          score_id: string
+          split_ms: number
+        }
+        Insert: {
+          boss_level: number
+          hits_taken?: number
+          id?: string
+          kill_ms: number
+          score_id: string
+          split_ms: number
+        }
+        Update: {
+          boss_level?: number
+          hits_taken?: number
+          id?: string
+          kill_ms?: number
+          score_id?: string
+          split_ms?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "boss_rush_splits_score_id_fkey"
+            columns: ["score_id"]
+            isOneToOne: false
+            referencedRelation: "boss_rush_scores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      daily_scores: {
+        Row: {
+          challenge_date: string
+          created_at: string
+          id: string
+          level: number
+          player_id: string | null
+          player_name: string
+          score: number
+          submission_id: string | null
+        }
+        Insert: {
+          challenge_date: string
+          created_at?: string
+          id?: string
+          level: number
+          player_id?: string | null
+          player_name: string
+          score: number
+          submission_id?: string | null
+        }
+        Update: {
+          challenge_date?: string
+          created_at?: string
+          id?: string
+          level?: number
+          player_id?: string | null
+          player_name?: string
+          score?: number
+          submission_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "daily_scores_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       game_telemetry: {
         Row: {
@@ -139,6 +229,7 @@ export type Database = {
       }
       high_scores: {
         Row: {
+          assisted: boolean
           beat_level_50: boolean | null
           collected_all_letters: boolean | null
           created_at: string
@@ -146,11 +237,14 @@ export type Database = {
           game_mode: string | null
           id: string
           level: number
+          player_id: string | null
           player_name: string
           score: number
           starting_lives: number | null
+          submission_id: string | null
         }
         Insert: {
+          assisted?: boolean
           beat_level_50?: boolean | null
           collected_all_letters?: boolean | null
           created_at?: string
@@ -158,11 +252,14 @@ export type Database = {
           game_mode?: string | null
           id?: string
           level: number
+          player_id?: string | null
           player_name: string
           score: number
           starting_lives?: number | null
+          submission_id?: string | null
         }
         Update: {
+          assisted?: boolean
           beat_level_50?: boolean | null
           collected_all_letters?: boolean | null
           created_at?: string
@@ -170,9 +267,40 @@ export type Database = {
           game_mode?: string | null
           id?: string
           level?: number
+          player_id?: string | null
           player_name?: string
           score?: number
           starting_lives?: number | null
+          submission_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "high_scores_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      players: {
+        Row: {
+          created_at: string
+          id: string
+          last_seen_at: string
+          token_hash: string
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          last_seen_at?: string
+          token_hash: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_seen_at?: string
+          token_hash?: string
         }
         Relationships: []
       }
@@ -181,7 +309,116 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      boss_kill_leaderboard: {
+        Args: {
+          p_best_per_player?: boolean
+          p_boss_level: number
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          created_at: string
+          hits_taken: number
+          kill_ms: number
+          player_id: string | null
+          player_name: string
+          score_id: string
+          total_count: number
+        }[]
+      }
+      filtered_high_scores: {
+        Args: {
+          p_assisted: boolean
+          p_collected_all_letters?: boolean | null
+          p_difficulty: string | null
+          p_game_mode?: string | null
+          p_search?: string | null
+          p_since: string | null
+          p_starting_lives?: number | null
+        }
+        Returns: Database["public"]["Tables"]["high_scores"]["Row"][]
+      }
+      get_high_score_rank: {
+        Args: {
+          p_assisted: boolean
+          p_best_per_player: boolean
+          p_collected_all_letters?: boolean | null
+          p_difficulty: string | null
+          p_game_mode?: string | null
+          p_player_id: string
+          p_since: string | null
+          p_starting_lives?: number | null
+        }
+        Returns: {
+          rank: number
+          score: number
+          total: number
+        }[]
+      }
+      high_scores_best_per_player: {
+        Args: {
+          p_assisted: boolean
+          p_collected_all_letters?: boolean | null
+          p_difficulty: string | null
+          p_game_mode?: string | null
+          p_search?: string | null
+          p_since: string | null
+          p_starting_lives?: number | null
+        }
+        Returns: Database["public"]["Tables"]["high_scores"]["Row"][]
+      }
+      leaderboard_name_pattern: {
+        Args: { p_search: string | null }
+        Returns: string | null
+      }
+      search_boss_rush_scores: {
+        Args: {
+          p_best_per_player?: boolean
+          p_limit?: number
+          p_offset?: number
+          p_order_by?: string
+          p_search?: string | null
+        }
+        Returns: {
+          boss_level: number
+          completion_time_ms: number
+          created_at: string
+          id: string
+          player_id: string | null
+          player_name: string
+          score: number
+          total_count: number
+        }[]
+      }
+      search_high_scores: {
+        Args: {
+          p_assisted: boolean
+          p_best_per_player?: boolean
+          p_collected_all_letters?: boolean | null
+          p_difficulty: string | null
+          p_game_mode?: string | null
+          p_limit?: number
+          p_offset?: number
+          p_search?: string | null
+          p_since: string | null
+          p_starting_lives?: number | null
+        }
+        Returns: {
+          assisted: boolean
+          beat_level_50: boolean | null
+          collected_all_letters: boolean | null
+          created_at: string
+          difficulty: string | null
+          game_mode: string | null
+          id: string
+          level: number
+          player_id: string | null
+          player_name: string
+          score: number
+          starting_lives: number | null
+          total_count: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
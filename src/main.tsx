@@ -1,5 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { scoreOutbox } from "@/utils/scoreOutbox";
+
+// Retry any score submissions left over from an offline session
+scoreOutbox.start();
 
 createRoot(document.getElementById("root")!).render(<App />);
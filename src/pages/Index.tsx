@@ -1,13 +1,19 @@
 import { useState, useEffect } from "react";
 import { Game } from "@/components/Game";
 import { MainMenu } from "@/components/MainMenu";
+import { PracticeResults } from "@/components/PracticeResults";
 import { useServiceWorkerUpdate } from "@/hooks/useServiceWorkerUpdate";
-import type { GameSettings } from "@/types/game";
+import { getPracticeTargetId, getPracticeTargetName, recordPracticeRun } from "@/engine/practice";
+import type { GameSettings, PlaytestSummary } from "@/types/game";
+
+type PracticeResult = { summary: PlaytestSummary } & ReturnType<typeof recordPracticeRun>;
 
 const Index = () => {
   const [gameStarted, setGameStarted] = useState(false);
   const [gameSettings, setGameSettings] = useState<GameSettings | null>(null);
   const [isStartingGame, setIsStartingGame] = useState(false);
+  const [practiceResult, setPracticeResult] = useState<PracticeResult | null>(null);
+  const [runKey, setRunKey] = useState(0); // Bumped to remount Game for a practice restart
 
   // Check for SW updates on main menu or when starting a new game
   useServiceWorkerUpdate({
@@ -32,13 +38,43 @@ const Index = () => {
   const handleReturnToMenu = () => {
     setGameStarted(false);
     setGameSettings(null);
+    setPracticeResult(null);
+  };
+
+  const handlePracticeEnd = (summary: PlaytestSummary) => {
+    if (!gameSettings?.practice) return;
+    const targetId = getPracticeTargetId(gameSettings.startingLevel, gameSettings.practice.bossPhase);
+    setPracticeResult({ summary, ...recordPracticeRun(targetId, summary) });
+  };
+
+  const handlePracticeRestart = () => {
+    setPracticeResult(null);
+    setRunKey((k) => k + 1);
   };
 
   if (!gameStarted || !gameSettings) {
     return <MainMenu onStartGame={handleStartGame} />;
   }
 
-  return <Game settings={gameSettings} onReturnToMenu={handleReturnToMenu} />;
+  if (practiceResult && gameSettings.practice) {
+    return (
+      <PracticeResults
+        title={getPracticeTargetName(gameSettings.startingLevel, gameSettings.practice.bossPhase)}
+        {...practiceResult}
+        onRestart={handlePracticeRestart}
+        onExit={handleReturnToMenu}
+      />
+    );
+  }
+
+  return (
+    <Game
+      key={runKey}
+      settings={gameSettings}
+      onReturnToMenu={handleReturnToMenu}
+      onPlaytestEnd={gameSettings.practice ? handlePracticeEnd : undefined}
+    />
+  );
 };
 
 export default Index;
@@ -4,12 +4,92 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useNavigate } from "react-router-dom";
-import { levelLayouts } from "@/constants/levelLayouts";
+import { Game } from "@/components/Game";
+import { levelLayouts, getBrickHits } from "@/constants/levelLayouts";
+import { colorPalettes, REGEN_BRICK_DELAY } from "@/constants/game";
 import { alwaysToast as toast } from "@/utils/debugToast";
+import {
+  type LevelPack,
+  type LevelPackLevel,
+  MAX_HIT_OVERRIDE,
+  MAX_PACK_LEVELS,
+  PACK_POWER_UP_TYPES,
+  canOverrideHits,
+  createEmptyPackLevel,
+  createLevelPack,
+  createPlaytestPack,
+  deleteLevelPack,
+  downloadLevelPack,
+  layoutToRows,
+  loadSavedLevelPacks,
+  parseLevelPack,
+  rowsToLayout,
+  saveLevelPack,
+} from "@/engine/levelPack";
+import type { BossType, GameSettings, PlaytestSummary, PowerUpType } from "@/types/game";
+import type { LevelLayout } from "@/engine/level";
 import crackedBrick3 from "@/assets/brick-cracked-3.png";
 
 type CellValue = boolean | number;
 
+/** Editor cell: brick type plus optional per-cell overrides */
+interface EditorCell {
+  type: CellValue;
+  hits?: number; // Hit count override (normal / explosive only)
+  powerUp?: PowerUpType; // Guaranteed power-up drop
+}
+
+/** Per-level settings a pack level stores besides its cells */
+type LevelExtras = Omit<LevelPackLevel, "rows" | "hits" | "powerUps">;
+
+const isBreakable = (type: CellValue) => type !== false && type !== 2 && type !== 7;
+
+const createGrid = (fill: CellValue): EditorCell[][] =>
+  Array.from({ length: 14 }, () => Array.from({ length: 13 }, () => ({ type: fill })));
+
+const layoutToCells = (layout: LevelLayout, level?: LevelPackLevel): EditorCell[][] => {
+  const cells: EditorCell[][] = layout.map((row) => row.map((type) => ({ type })));
+  for (const { row, col, hits } of level?.hits ?? []) {
+    if (cells[row]?.[col] && canOverrideHits(cells[row][col].type)) cells[row][col].hits = hits;
+  }
+  for (const { row, col, type } of level?.powerUps ?? []) {
+    if (cells[row]?.[col] && isBreakable(cells[row][col].type)) cells[row][col].powerUp = type;
+  }
+  return cells;
+};
+
+const cellsToPackLevel = (cells: EditorCell[][], extras: LevelExtras): LevelPackLevel => {
+  const hits: LevelPackLevel["hits"] = [];
+  const powerUps: LevelPackLevel["powerUps"] = [];
+  cells.forEach((row, r) =>
+    row.forEach((cell, c) => {
+      if (cell.hits !== undefined && canOverrideHits(cell.type)) hits.push({ row: r, col: c, hits: cell.hits });
+      if (cell.powerUp && isBreakable(cell.type)) powerUps.push({ row: r, col: c, type: cell.powerUp });
+    }),
+  );
+  return {
+    ...extras,
+    rows: layoutToRows(cells.map((row) => row.map((cell) => cell.type))),
+    ...(hits.length > 0 ? { hits } : {}),
+    ...(powerUps.length > 0 ? { powerUps } : {}),
+  };
+};
+
+const BOSS_OPTIONS: { value: BossType; label: string }[] = [
+  { value: "cube", label: "Cube Guardian" },
+  { value: "sphere", label: "Sphere Destroyer" },
+  { value: "pyramid", label: "Pyramid Lord" },
+  { value: "mega", label: "Mega Boss" },
+];
+
+const formatPlaytestTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, "0")}`;
+};
+
+const selectClassName =
+  "w-full mt-2 rounded-md px-3 py-2 text-sm bg-[hsl(220,20%,20%)] border border-[hsl(200,70%,50%)] text-white";
+
 // Brick Preview Component
 const BrickPreview = ({ type, isSelected, onClick }: { 
   type: CellValue; 
@@ -98,8 +178,19 @@ const BrickPreview = ({ type, isSelected, onClick }: {
           ctx.drawImage(img, 0, 0, 60, 30);
         };
       }
+    } else if (type === 7) {
+      // Portal brick
+      ctx.fillStyle = 'hsl(275, 80%, 18%)';
+      ctx.fillRect(0, 0, 60, 30);
+      ctx.lineWidth = 2;
+      for (let ring = 3; ring >= 1; ring--) {
+        ctx.strokeStyle = `hsla(275, 80%, ${40 + ring * 12}%, ${0.9 - ring * 0.2})`;
+        ctx.beginPath();
+        ctx.ellipse(30, 15, 27 * (ring / 3), 12 * (ring / 3), 0, 0, Math.PI * 2);
+        ctx.stroke();
+      }
     } else {
-      // Normal brick (true)
+      // Normal brick (true), also the base for moving (5) and regenerating (6)
       ctx.fillStyle = 'hsl(200, 70%, 50%)';
       ctx.fillRect(0, 0, 60, 30);
       
@@ -122,6 +213,26 @@ const BrickPreview = ({ type, isSelected, onClick }: {
           }
         }
       }
+
+      if (type === 5) {
+        // Arrow heads on both ends
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+        ctx.beginPath();
+        ctx.moveTo(4, 15);
+        ctx.lineTo(11, 9);
+        ctx.lineTo(11, 21);
+        ctx.closePath();
+        ctx.moveTo(56, 15);
+        ctx.lineTo(49, 9);
+        ctx.lineTo(49, 21);
+        ctx.closePath();
+        ctx.fill();
+      } else if (type === 6) {
+        // Green regrowth border
+        ctx.strokeStyle = 'hsla(120, 70%, 55%, 0.9)';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(1, 1, 58, 28);
+      }
     }
   }, [type]);
   
@@ -150,35 +261,49 @@ const BrickPreview = ({ type, isSelected, onClick }: {
 export default function LevelEditor() {
   const navigate = useNavigate();
   const [currentLevel, setCurrentLevel] = useState(1);
-  const [grid, setGrid] = useState<CellValue[][]>([]);
+  const [grid, setGrid] = useState<EditorCell[][]>([]);
   const [hasChanges, setHasChanges] = useState(false);
   const [selectedBrush, setSelectedBrush] = useState<CellValue>(true);
   const [isPainting, setIsPainting] = useState(false);
+  const [tool, setTool] = useState<"paint" | "inspect">("paint");
+  const [selectedCell, setSelectedCell] = useState<{ row: number; col: number } | null>(null);
+  const [savedPacks, setSavedPacks] = useState<LevelPack[]>(() => loadSavedLevelPacks());
+  const [pack, setPack] = useState<LevelPack | null>(null); // null = built-in levels
+  const [levelExtras, setLevelExtras] = useState<LevelExtras>({});
+  const packInputRef = useRef<HTMLInputElement>(null);
+  const [playtestSettings, setPlaytestSettings] = useState<GameSettings | null>(null);
+  const [playtestSummary, setPlaytestSummary] = useState<PlaytestSummary | null>(null);
 
   // Initialize grid with 14 rows x 13 columns
   useEffect(() => {
     loadLevel(currentLevel);
   }, []);
 
-  const loadLevel = (levelNum: number) => {
+  const loadLevel = (levelNum: number, fromPack: LevelPack | null = pack) => {
     const levelIndex = levelNum - 1;
+    setSelectedCell(null);
+    if (fromPack) {
+      const packLevel = fromPack.levels[levelIndex] ?? createEmptyPackLevel();
+      const { rows, hits: _hits, powerUps: _powerUps, ...extras } = packLevel;
+      setGrid(layoutToCells(rowsToLayout(rows), packLevel));
+      setLevelExtras(extras);
+      setHasChanges(false);
+      return;
+    }
+    setLevelExtras({});
     if (levelIndex >= 0 && levelIndex < levelLayouts.length) {
       // Clone the level layout
-      const layout = levelLayouts[levelIndex].map(row => [...row]);
-      setGrid(layout);
+      setGrid(layoutToCells(levelLayouts[levelIndex]));
       setHasChanges(false);
     } else {
       // Create empty grid for new levels
-      const emptyGrid = Array.from({ length: 14 }, () => 
-        Array.from({ length: 13 }, () => false as CellValue)
-      );
-      setGrid(emptyGrid);
+      setGrid(createGrid(false));
       setHasChanges(false);
     }
   };
 
   const handleLevelChange = (level: number) => {
-    if (level < 1 || level > 100) return;
+    if (level < 1 || level > MAX_PACK_LEVELS) return;
     
     if (hasChanges) {
       const confirm = window.confirm("You have unsaved changes. Do you want to discard them?");
@@ -189,11 +314,77 @@ export default function LevelEditor() {
     loadLevel(level);
   };
 
+  const confirmDiscard = () =>
+    !hasChanges || window.confirm("You have unsaved changes. Do you want to discard them?");
+
+  const openPack = (next: LevelPack | null) => {
+    setPack(next);
+    setCurrentLevel(1);
+    loadLevel(1, next);
+  };
+
+  const handlePackSelect = (id: string) => {
+    if (!confirmDiscard()) return;
+    openPack(savedPacks.find((p) => p.id === id) ?? null);
+  };
+
+  // New packs start as a copy of the built-in campaign
+  const promptNewPack = (): LevelPack | null => {
+    const name = window.prompt("Name for the new level pack:", "My Level Pack");
+    return name === null ? null : createLevelPack(name.trim() || "My Level Pack");
+  };
+
+  const handleNewPack = () => {
+    if (!confirmDiscard()) return;
+    const created = promptNewPack();
+    if (!created) return;
+    const stored = saveLevelPack(created);
+    if (!stored) {
+      toast.error("Could not save level pack (storage full?)");
+      return;
+    }
+    setSavedPacks(loadSavedLevelPacks());
+    openPack(stored);
+    toast.success(`Created "${stored.name}" from the built-in levels`);
+  };
+
+  const handleImportPack = async (file: File | undefined) => {
+    if (!file) return;
+    if (!confirmDiscard()) return;
+    try {
+      const imported = parseLevelPack(await file.text());
+      const stored = saveLevelPack(imported);
+      if (!stored) {
+        toast.error("Could not save level pack (storage full?)");
+        return;
+      }
+      setSavedPacks(loadSavedLevelPacks());
+      openPack(stored);
+      toast.success(`Imported "${stored.name}" (${stored.levels.length} levels)`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not import level pack");
+    }
+  };
+
+  const handleDeletePack = () => {
+    if (!pack) return;
+    if (!window.confirm(`Delete level pack "${pack.name}"? This cannot be undone.`)) return;
+    deleteLevelPack(pack.id);
+    setSavedPacks(loadSavedLevelPacks());
+    openPack(null);
+    toast.success("Level pack deleted");
+  };
+
+  const updateLevelExtras = (changes: LevelExtras) => {
+    setLevelExtras((prev) => ({ ...prev, ...changes }));
+    setHasChanges(true);
+  };
+
   const paintCell = (rowIndex: number, colIndex: number) => {
     const newGrid = grid.map((row, rIdx) => 
       row.map((cell, cIdx) => {
         if (rIdx === rowIndex && cIdx === colIndex) {
-          return selectedBrush;
+          return { type: selectedBrush };
         }
         return cell;
       })
@@ -202,11 +393,26 @@ export default function LevelEditor() {
     setHasChanges(true);
   };
 
+  const updateSelectedCell = (changes: Partial<EditorCell>) => {
+    if (!selectedCell) return;
+    setGrid((prev) =>
+      prev.map((row, rIdx) =>
+        row.map((cell, cIdx) => (rIdx === selectedCell.row && cIdx === selectedCell.col ? { ...cell, ...changes } : cell)),
+      ),
+    );
+    setHasChanges(true);
+  };
+
   const handleCellClick = (rowIndex: number, colIndex: number) => {
+    if (tool === "inspect") return;
     paintCell(rowIndex, colIndex);
   };
 
   const handleCellMouseDown = (rowIndex: number, colIndex: number) => {
+    if (tool === "inspect") {
+      setSelectedCell({ row: rowIndex, col: colIndex });
+      return;
+    }
     setIsPainting(true);
     paintCell(rowIndex, colIndex);
   };
@@ -226,7 +432,7 @@ export default function LevelEditor() {
     const newGrid = grid.map((row, rIdx) => 
       row.map((cell, cIdx) => {
         if (rIdx === rowIndex && cIdx === colIndex) {
-          return false;
+          return { type: false };
         }
         return cell;
       })
@@ -235,21 +441,68 @@ export default function LevelEditor() {
     setHasChanges(true);
   };
 
+  const selectBrush = (brush: CellValue) => {
+    setSelectedBrush(brush);
+    setTool("paint");
+    setSelectedCell(null);
+  };
+
   // Keyboard shortcuts for brush selection
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.key === '1') setSelectedBrush(false);  // Empty
-      if (e.key === '2') setSelectedBrush(true);   // Normal
-      if (e.key === '3') setSelectedBrush(2);      // Metal
-      if (e.key === '4') setSelectedBrush(3);      // Explosive
-      if (e.key === '5') setSelectedBrush(4);      // Cracked
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      if (e.key === '1') selectBrush(false);  // Empty
+      if (e.key === '2') selectBrush(true);   // Normal
+      if (e.key === '3') selectBrush(2);      // Metal
+      if (e.key === '4') selectBrush(3);      // Explosive
+      if (e.key === '5') selectBrush(4);      // Cracked
+      if (e.key === '6') selectBrush(5);      // Moving
+      if (e.key === '7') selectBrush(6);      // Regenerating
+      if (e.key === '8') selectBrush(7);      // Portal
+      if (e.key === 'i' || e.key === 'I') setTool('inspect');
     };
     
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
   }, []);
 
+  // Write the current level into the open pack and persist it
   const handleSave = () => {
+    const target = pack ?? promptNewPack();
+    if (!target) return;
+
+    const levels = [...target.levels];
+    while (levels.length < currentLevel) levels.push(createEmptyPackLevel());
+    levels[currentLevel - 1] = cellsToPackLevel(grid, levelExtras);
+
+    const stored = saveLevelPack({ ...target, levels });
+    if (!stored) {
+      toast.error("Could not save level pack (storage full?)");
+      return;
+    }
+    setPack(stored);
+    setSavedPacks(loadSavedLevelPacks());
+    setHasChanges(false);
+    toast.success(`Level ${currentLevel} saved to "${stored.name}"`);
+  };
+
+  // Play the current (unsaved) grid as its level number; the editor stays mounted underneath
+  const handlePlaytest = () => {
+    if (!grid.some((row) => row.some((cell) => isBreakable(cell.type)))) {
+      toast.error("Add at least one breakable brick to playtest");
+      return;
+    }
+    setPlaytestSummary(null);
+    setPlaytestSettings({
+      startingLives: 3,
+      difficulty: "normal",
+      startingLevel: currentLevel,
+      gameMode: "normal",
+      levelPack: createPlaytestPack(cellsToPackLevel(grid, { ...levelExtras, boss: undefined }), currentLevel),
+    });
+  };
+
+  const handleCopyCode = () => {
     // Generate the code for the level
     const levelCode = generateLevelCode(grid);
     
@@ -259,18 +512,19 @@ export default function LevelEditor() {
     }).catch(() => {
       toast.error("Failed to copy to clipboard");
     });
-    
-    setHasChanges(false);
   };
 
-  const generateLevelCode = (levelGrid: CellValue[][]): string => {
+  const generateLevelCode = (levelGrid: EditorCell[][]): string => {
     const rows = levelGrid.map(row => {
-      const cells = row.map(cell => {
+      const cells = row.map(({ type: cell }) => {
         if (cell === false) return "false";
         if (cell === true) return "true";
         if (cell === 2) return "2"; // metal
         if (cell === 3) return "3"; // explosive
         if (cell === 4) return "4"; // cracked
+        if (cell === 5) return "5"; // moving
+        if (cell === 6) return "6"; // regenerating
+        if (cell === 7) return "7"; // portal
         return "false";
       }).join(", ");
       return `    [${cells}]`;
@@ -285,6 +539,9 @@ export default function LevelEditor() {
     if (value === 2) return "bg-[hsl(0,0%,33%)]"; // Metal (indestructible)
     if (value === 3) return "bg-[hsl(15,90%,50%)]"; // Explosive
     if (value === 4) return "bg-[hsl(40,15%,45%)]"; // Cracked
+    if (value === 5) return "bg-[hsl(200,70%,40%)]"; // Moving
+    if (value === 6) return "bg-[hsl(140,55%,40%)]"; // Regenerating
+    if (value === 7) return "bg-[hsl(275,80%,35%)]"; // Portal
     return "bg-gray-800";
   };
 
@@ -294,9 +551,28 @@ export default function LevelEditor() {
     if (value === 2) return "M"; // Metal
     if (value === 3) return "E"; // Explosive
     if (value === 4) return "C"; // Cracked
+    if (value === 5) return "S"; // Sliding (moving)
+    if (value === 6) return "R"; // Regenerating
+    if (value === 7) return "P"; // Portal
     return "";
   };
 
+  if (playtestSettings) {
+    return (
+      <Game
+        settings={playtestSettings}
+        onReturnToMenu={() => setPlaytestSettings(null)}
+        onPlaytestEnd={(summary) => {
+          setPlaytestSummary(summary);
+          setPlaytestSettings(null);
+        }}
+      />
+    );
+  }
+
+  const selectedCellData = selectedCell ? grid[selectedCell.row]?.[selectedCell.col] : undefined;
+  const untouchedCells = new Set(playtestSummary?.untouchedCells.map(({ row, col }) => `${row}-${col}`));
+
   return (
     <div className="min-h-screen w-full bg-gradient-to-b from-[hsl(220,25%,12%)] to-[hsl(220,30%,8%)] p-4 overflow-auto">
       <div className="max-w-7xl mx-auto">
@@ -314,14 +590,77 @@ export default function LevelEditor() {
 
           <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 mb-6">
             <div className="lg:col-span-1 space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="pack" className="text-white text-lg">Level Pack</Label>
+                <select
+                  id="pack"
+                  value={pack?.id ?? ""}
+                  onChange={(e) => handlePackSelect(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Built-in levels (read only)</option>
+                  {savedPacks.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name} ({p.levels.length} levels)
+                    </option>
+                  ))}
+                </select>
+                {pack && (
+                  <Input
+                    value={pack.name}
+                    onChange={(e) => {
+                      setPack({ ...pack, name: e.target.value });
+                      setHasChanges(true);
+                    }}
+                    placeholder="Pack name"
+                    className="bg-[hsl(220,20%,20%)] border-[hsl(200,70%,50%)] text-white"
+                  />
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                  <Button size="sm" onClick={handleNewPack} variant="outline"
+                    className="border-[hsl(200,70%,50%)] text-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,50%)] hover:text-white">
+                    New Pack
+                  </Button>
+                  <Button size="sm" onClick={() => packInputRef.current?.click()} variant="outline"
+                    className="border-[hsl(200,70%,50%)] text-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,50%)] hover:text-white">
+                    Import
+                  </Button>
+                  <Button size="sm" onClick={() => pack && downloadLevelPack(pack)} disabled={!pack} variant="outline"
+                    className="border-[hsl(200,70%,50%)] text-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,50%)] hover:text-white">
+                    Export
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleDeletePack}
+                    disabled={!pack}
+                    variant="outline"
+                    className="border-[hsl(0,70%,55%)] text-[hsl(0,70%,55%)] hover:bg-[hsl(0,70%,55%)] hover:text-white"
+                  >
+                    Delete
+                  </Button>
+                </div>
+                <input
+                  ref={packInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleImportPack(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </div>
+
               <div>
-                <Label htmlFor="level" className="text-white text-lg">Level Number</Label>
+                <Label htmlFor="level" className="text-white text-lg">
+                  Level Number{pack ? ` (of ${pack.levels.length})` : ""}
+                </Label>
                 <div className="flex gap-2 mt-2">
                   <Input
                     id="level"
                     type="number"
                     min="1"
-                    max="100"
+                    max={MAX_PACK_LEVELS}
                     value={currentLevel}
                     onChange={(e) => handleLevelChange(parseInt(e.target.value) || 1)}
                     className="bg-[hsl(220,20%,20%)] border-[hsl(200,70%,50%)] text-white"
@@ -329,6 +668,50 @@ export default function LevelEditor() {
                 </div>
               </div>
 
+              {pack && (
+                <div className="space-y-3">
+                  <div>
+                    <Label htmlFor="palette" className="text-white">Palette</Label>
+                    <select
+                      id="palette"
+                      value={levelExtras.palette ?? ""}
+                      onChange={(e) =>
+                        updateLevelExtras({ palette: e.target.value === "" ? undefined : Number(e.target.value) })
+                      }
+                      className={selectClassName}
+                    >
+                      <option value="">Auto (by level number)</option>
+                      {colorPalettes.map((_, i) => (
+                        <option key={i} value={i}>
+                          Palette {i + 1}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <Label htmlFor="boss" className="text-white">Boss</Label>
+                    <select
+                      id="boss"
+                      value={levelExtras.boss ?? ""}
+                      onChange={(e) =>
+                        updateLevelExtras({ boss: e.target.value === "" ? undefined : (e.target.value as BossType) })
+                      }
+                      className={selectClassName}
+                    >
+                      <option value="">None (brick level)</option>
+                      {BOSS_OPTIONS.map((b) => (
+                        <option key={b.value} value={b.value}>
+                          {b.label}
+                        </option>
+                      ))}
+                    </select>
+                    {levelExtras.boss && (
+                      <p className="text-white/40 text-xs mt-1">Boss levels have no bricks; the grid is ignored.</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
               <div className="space-y-3">
                 <Label className="text-white text-lg">Brush Selector</Label>
                 <p className="text-white/60 text-xs">Click to select, then paint on grid</p>
@@ -337,8 +720,8 @@ export default function LevelEditor() {
                   <div className="space-y-1">
                     <BrickPreview 
                       type={false} 
-                      isSelected={selectedBrush === false}
-                      onClick={() => setSelectedBrush(false)}
+                      isSelected={tool === "paint" && selectedBrush === false}
+                      onClick={() => selectBrush(false)}
                     />
                     <span className="text-white text-xs block text-center">Empty</span>
                   </div>
@@ -346,8 +729,8 @@ export default function LevelEditor() {
                   <div className="space-y-1">
                     <BrickPreview 
                       type={true} 
-                      isSelected={selectedBrush === true}
-                      onClick={() => setSelectedBrush(true)}
+                      isSelected={tool === "paint" && selectedBrush === true}
+                      onClick={() => selectBrush(true)}
                     />
                     <span className="text-white text-xs block text-center">Normal</span>
                   </div>
@@ -355,8 +738,8 @@ export default function LevelEditor() {
                   <div className="space-y-1">
                     <BrickPreview 
                       type={2} 
-                      isSelected={selectedBrush === 2}
-                      onClick={() => setSelectedBrush(2)}
+                      isSelected={tool === "paint" && selectedBrush === 2}
+                      onClick={() => selectBrush(2)}
                     />
                     <span className="text-white text-xs block text-center">Metal</span>
                   </div>
@@ -364,8 +747,8 @@ export default function LevelEditor() {
                   <div className="space-y-1">
                     <BrickPreview 
                       type={3} 
-                      isSelected={selectedBrush === 3}
-                      onClick={() => setSelectedBrush(3)}
+                      isSelected={tool === "paint" && selectedBrush === 3}
+                      onClick={() => selectBrush(3)}
                     />
                     <span className="text-white text-xs block text-center">Explosive</span>
                   </div>
@@ -373,26 +756,120 @@ export default function LevelEditor() {
                   <div className="space-y-1">
                     <BrickPreview 
                       type={4} 
-                      isSelected={selectedBrush === 4}
-                      onClick={() => setSelectedBrush(4)}
+                      isSelected={tool === "paint" && selectedBrush === 4}
+                      onClick={() => selectBrush(4)}
                     />
                     <span className="text-white text-xs block text-center">Cracked</span>
                   </div>
+
+                  <div className="space-y-1">
+                    <BrickPreview 
+                      type={5} 
+                      isSelected={tool === "paint" && selectedBrush === 5}
+                      onClick={() => selectBrush(5)}
+                    />
+                    <span className="text-white text-xs block text-center">Moving</span>
+                  </div>
+
+                  <div className="space-y-1">
+                    <BrickPreview 
+                      type={6} 
+                      isSelected={tool === "paint" && selectedBrush === 6}
+                      onClick={() => selectBrush(6)}
+                    />
+                    <span className="text-white text-xs block text-center">Regenerating</span>
+                  </div>
+
+                  <div className="space-y-1">
+                    <BrickPreview 
+                      type={7} 
+                      isSelected={tool === "paint" && selectedBrush === 7}
+                      onClick={() => selectBrush(7)}
+                    />
+                    <span className="text-white text-xs block text-center">Portal</span>
+                  </div>
                 </div>
                 
                 <p className="text-white/40 text-xs mt-2">
-                  Shortcuts: 1-Empty, 2-Normal, 3-Metal, 4-Explosive, 5-Cracked
+                  Shortcuts: 1-Empty, 2-Normal, 3-Metal, 4-Explosive, 5-Cracked, 6-Moving, 7-Regenerating, 8-Portal, I-Inspect
+                </p>
+                <p className="text-white/40 text-xs">
+                  Moving bricks slide along their row. Regenerating bricks grow back after {REGEN_BRICK_DELAY / 1000}s
+                  while a neighbour still stands. Portals link in reading order (1st with 2nd, 3rd with 4th).
                 </p>
               </div>
 
+              <div className="space-y-2">
+                <Label className="text-white text-lg">Cell Properties</Label>
+                <Button
+                  onClick={() => (tool === "inspect" ? selectBrush(selectedBrush) : setTool("inspect"))}
+                  variant="outline"
+                  className={`w-full border-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,50%)] hover:text-white ${
+                    tool === "inspect" ? "bg-[hsl(200,70%,50%)] text-white" : "text-[hsl(200,70%,50%)]"
+                  }`}
+                >
+                  {tool === "inspect" ? "Inspecting (click to paint)" : "Inspect Cell"}
+                </Button>
+                {tool === "inspect" && selectedCellData && isBreakable(selectedCellData.type) ? (
+                  <div className="space-y-2">
+                    <p className="text-white/60 text-xs">
+                      Row {selectedCell!.row + 1}, column {selectedCell!.col + 1}
+                    </p>
+                    <div>
+                      <Label htmlFor="cell-hits" className="text-white">Hits</Label>
+                      <Input
+                        id="cell-hits"
+                        type="number"
+                        min="1"
+                        max={MAX_HIT_OVERRIDE}
+                        disabled={!canOverrideHits(selectedCellData.type)}
+                        value={selectedCellData.hits ?? ""}
+                        placeholder={`Default (${selectedCellData.type === 4 ? 3 : getBrickHits(currentLevel, selectedCell!.row)})`}
+                        onChange={(e) => {
+                          const hits = parseInt(e.target.value);
+                          updateSelectedCell({
+                            hits: Number.isNaN(hits) ? undefined : Math.min(MAX_HIT_OVERRIDE, Math.max(1, hits)),
+                          });
+                        }}
+                        className="mt-1 bg-[hsl(220,20%,20%)] border-[hsl(200,70%,50%)] text-white"
+                      />
+                      {selectedCellData.type === 4 && (
+                        <p className="text-white/50 text-xs mt-1">Cracked bricks always take 3 hits</p>
+                      )}
+                    </div>
+                    <div>
+                      <Label htmlFor="cell-powerup" className="text-white">Power-up</Label>
+                      <select
+                        id="cell-powerup"
+                        value={selectedCellData.powerUp ?? ""}
+                        onChange={(e) =>
+                          updateSelectedCell({ powerUp: e.target.value === "" ? undefined : (e.target.value as PowerUpType) })
+                        }
+                        className={selectClassName}
+                      >
+                        <option value="">Random</option>
+                        {PACK_POWER_UP_TYPES.map((type) => (
+                          <option key={type} value={type}>
+                            {type}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-white/40 text-xs">
+                    {tool === "inspect"
+                      ? "Click a breakable brick to set its hit count or a guaranteed power-up."
+                      : "Set per-brick hit counts and guaranteed power-ups."}
+                  </p>
+                )}
+              </div>
+
               <div className="space-y-2">
                 <Label className="text-white text-lg">Quick Actions</Label>
                 <Button
                   onClick={() => {
-                    const emptyGrid = Array.from({ length: 14 }, () => 
-                      Array.from({ length: 13 }, () => false as CellValue)
-                    );
-                    setGrid(emptyGrid);
+                    setGrid(createGrid(false));
                     setHasChanges(true);
                   }}
                   variant="outline"
@@ -402,10 +879,7 @@ export default function LevelEditor() {
                 </Button>
                 <Button
                   onClick={() => {
-                    const fullGrid = Array.from({ length: 14 }, () => 
-                      Array.from({ length: 13 }, () => true as CellValue)
-                    );
-                    setGrid(fullGrid);
+                    setGrid(createGrid(true));
                     setHasChanges(true);
                   }}
                   variant="outline"
@@ -417,10 +891,25 @@ export default function LevelEditor() {
 
               <Button
                 onClick={handleSave}
-                disabled={!hasChanges}
+                disabled={!!pack && !hasChanges}
                 className="w-full bg-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,60%)] text-white text-lg py-6"
               >
-                {hasChanges ? "Save Level (Copy Code)" : "No Changes"}
+                {!pack ? "Save to New Pack" : hasChanges ? "Save Level" : "No Changes"}
+              </Button>
+              <Button
+                onClick={handlePlaytest}
+                disabled={!!levelExtras.boss}
+                className="w-full bg-[hsl(120,60%,40%)] hover:bg-[hsl(120,60%,50%)] text-white"
+                title={levelExtras.boss ? "Boss levels can't be playtested from the editor" : "Play this grid now"}
+              >
+                Playtest
+              </Button>
+              <Button
+                onClick={handleCopyCode}
+                variant="outline"
+                className="w-full border-[hsl(200,70%,50%)] text-[hsl(200,70%,50%)] hover:bg-[hsl(200,70%,50%)] hover:text-white"
+              >
+                Copy as Code
               </Button>
             </div>
 
@@ -436,6 +925,9 @@ export default function LevelEditor() {
                                        selectedBrush === true ? 'hsl(200, 70%, 50%)' : 
                                        selectedBrush === 2 ? 'hsl(0, 0%, 33%)' : 
                                        selectedBrush === 3 ? 'hsl(15, 90%, 50%)' : 
+                                       selectedBrush === 5 ? 'hsl(200, 70%, 40%)' : 
+                                       selectedBrush === 6 ? 'hsl(140, 55%, 40%)' : 
+                                       selectedBrush === 7 ? 'hsl(275, 80%, 35%)' : 
                                        'hsl(40, 15%, 45%)' 
                     }}
                   />
@@ -444,6 +936,30 @@ export default function LevelEditor() {
                 <Label className="text-white text-lg mb-4 block">
                   Grid (Select brush, then click or drag to paint)
                 </Label>
+
+                {playtestSummary && (
+                  <div className="mb-4 p-3 rounded-lg border border-[hsl(120,60%,45%)]/50 bg-[hsl(120,60%,45%)]/10 text-sm text-white flex flex-wrap items-center gap-x-6 gap-y-1">
+                    <span className="font-bold text-[hsl(120,60%,60%)]">
+                      {playtestSummary.cleared ? "Level cleared" : "Playtest ended"}
+                    </span>
+                    <span>
+                      {playtestSummary.cleared ? "Time to clear" : "Time played"}: {formatPlaytestTime(playtestSummary.timeMs)}
+                    </span>
+                    <span>Balls lost: {playtestSummary.ballsLost}</span>
+                    <span>
+                      Untouched bricks: {playtestSummary.untouchedCells.length}
+                      {playtestSummary.untouchedCells.length > 0 && (
+                        <span className="text-yellow-300"> (outlined)</span>
+                      )}
+                    </span>
+                    <button
+                      onClick={() => setPlaytestSummary(null)}
+                      className="ml-auto text-white/60 hover:text-white text-xs"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                )}
                 
                 <div 
                   className={`inline-block transition-all ${isPainting ? 'ring-2 ring-cyan-400 ring-opacity-50' : ''}`}
@@ -460,11 +976,20 @@ export default function LevelEditor() {
                           onClick={() => handleCellClick(rowIndex, colIndex)}
                           onContextMenu={(e) => handleCellRightClick(rowIndex, colIndex, e)}
                           onTouchStart={() => handleCellMouseDown(rowIndex, colIndex)}
-                          className={`w-8 h-8 border border-white/20 ${getCellColor(cell)} hover:opacity-80 transition-opacity flex items-center justify-center text-xs font-bold text-white select-none`}
-                          style={{ cursor: 'crosshair' }}
-                          title={`Left-click: Paint | Right-click: Clear`}
+                          className={`relative w-8 h-8 border ${untouchedCells.has(`${rowIndex}-${colIndex}`) ? "border-yellow-300 border-2" : "border-white/20"} ${getCellColor(cell.type)} ${selectedCell?.row === rowIndex && selectedCell?.col === colIndex ? "ring-2 ring-cyan-400" : ""} hover:opacity-80 transition-opacity flex items-center justify-center text-xs font-bold text-white select-none`}
+                          style={{ cursor: tool === 'inspect' ? 'pointer' : 'crosshair' }}
+                          title={[
+                            tool === 'inspect' ? 'Left-click: Inspect' : 'Left-click: Paint',
+                            'Right-click: Clear',
+                            cell.hits !== undefined ? `Hits: ${cell.hits}` : '',
+                            cell.powerUp ? `Power-up: ${cell.powerUp}` : '',
+                          ].filter(Boolean).join(' | ')}
                         >
-                          {getCellLabel(cell)}
+                          {getCellLabel(cell.type)}
+                          {cell.hits !== undefined && <span className="text-[9px] text-yellow-200">{cell.hits}</span>}
+                          {cell.powerUp && (
+                            <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-yellow-300" />
+                          )}
                         </button>
                       ))}
                     </div>
@@ -476,7 +1001,7 @@ export default function LevelEditor() {
 
           <div className="bg-[hsl(30,100%,60%)]/10 border border-[hsl(30,100%,60%)]/30 rounded-lg p-4">
             <p className="text-[hsl(30,100%,60%)] text-sm">
-              <strong>Note:</strong> After saving, paste the generated code into <code className="bg-black/30 px-2 py-1 rounded">src/constants/levelLayouts.ts</code> at the appropriate level index. The code will be copied to your clipboard.
+              <strong>Note:</strong> Levels are saved into level packs stored in this browser. Export a pack to share it, and pick it under "Level Pack" in the main menu to play it. "Copy as Code" still copies the grid for pasting into <code className="bg-black/30 px-2 py-1 rounded">src/constants/levelLayouts.ts</code>.
             </p>
           </div>
         </Card>
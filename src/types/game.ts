@@ -1,4 +1,9 @@
-export type BrickType = "normal" | "metal" | "cracked" | "explosive";
+import type { LevelPack } from "@/engine/levelPack";
+import type { DailyChallenge } from "@/engine/dailyChallenge";
+import type { AssistSettings } from "@/engine/assists";
+import type { PracticeSettings } from "@/engine/practice";
+
+export type BrickType = "normal" | "metal" | "cracked" | "explosive" | "moving" | "regenerating" | "portal";
 
 export interface Brick {
   id: number;
@@ -14,6 +19,19 @@ export interface Brick {
   hitsRemaining: number;
   isIndestructible?: boolean;
   type: BrickType;
+  row?: number; // Layout grid cell (level bricks only)
+  col?: number;
+  forcedPowerUp?: PowerUpType; // Designer-placed power-up (level packs), always dropped
+  // Moving bricks (engine/brickMechanics.ts)
+  moveSpeed?: number; // Signed horizontal speed in px/sec
+  moveMinX?: number; // Left edge of the row's travel range
+  moveMaxX?: number; // Right edge of the row's travel range
+  // Regenerating bricks
+  regenDelayMs?: number; // Time until a destroyed brick regrows
+  regenTimerMs?: number; // Countdown while destroyed (undefined = not scheduled)
+  timesRegrown?: number;
+  // Portal bricks
+  portalPairId?: number; // Brick id of the linked portal (unpaired portals behave like metal)
 }
 
 export interface Ball {
@@ -234,11 +252,25 @@ export type GameState = "ready" | "playing" | "paused" | "gameOver" | "won";
 
 export type Difficulty = "normal" | "godlike";
 
-export type GameMode = "normal" | "bossRush";
+export type GameMode = "normal" | "endless" | "daily" | "bossRush";
 
 export interface GameSettings {
   startingLives: number;
   difficulty: Difficulty;
   startingLevel: number;
   gameMode: GameMode;
+  seed?: number; // Fixed run seed (replays, shared runs); random when omitted
+  levelPack?: LevelPack; // Custom campaign from the Level Editor; built-in levels when omitted
+  daily?: DailyChallenge; // Daily Challenge modifiers (gameMode "daily")
+  assists?: AssistSettings; // Player assists (Normal / Endless); an assisted run scores on its own leaderboard
+  practice?: PracticeSettings; // Practice run of the starting level only; never submits scores
+}
+
+// Result of a Level Editor playtest or Practice run
+export interface PlaytestSummary {
+  cleared: boolean;
+  score: number;
+  timeMs: number; // Game time from first launch until cleared / quit
+  ballsLost: number;
+  untouchedCells: Array<{ row: number; col: number }>; // Bricks no ball ever touched
 }
@@ -0,0 +1,97 @@
+/**
+ * Accessibility
+ * Player-facing accessibility options: color-blind-safe brick palettes, a
+ * hits-remaining overlay that doesn't rely on color, high-contrast ball and
+ * paddle outlines, and reduced motion (no shake, flashes or CRT). Reduced
+ * motion follows the OS `prefers-reduced-motion` setting until the player
+ * overrides it. Saved to localStorage.
+ */
+
+import { colorBlindPalettes } from "@/constants/game";
+
+const STORAGE_KEY = "vibing-arkanoid-accessibility";
+
+export type BrickPalette = "default" | keyof typeof colorBlindPalettes;
+export type HitIndicator = "off" | "number" | "pattern";
+export type ReducedMotionSetting = "system" | "on" | "off";
+
+export interface AccessibilitySettings {
+  palette: BrickPalette;
+  hitIndicator: HitIndicator; // Overlay on multi-hit bricks
+  highContrast: boolean; // Outline the ball and paddle
+  reducedMotion: ReducedMotionSetting;
+}
+
+/** What the canvas renderer needs, with reduced motion resolved */
+export interface AccessibilityRenderOptions {
+  hitIndicator: HitIndicator;
+  highContrast: boolean;
+  reducedMotion: boolean;
+}
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+  palette: "default",
+  hitIndicator: "off",
+  highContrast: false,
+  reducedMotion: "system",
+};
+
+class Accessibility {
+  private settings: AccessibilitySettings = this.loadSettings();
+  private systemReducedMotion: MediaQueryList | null =
+    typeof window !== "undefined" && window.matchMedia ? window.matchMedia("(prefers-reduced-motion: reduce)") : null;
+
+  getSettings(): AccessibilitySettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(partial: Partial<AccessibilitySettings>): AccessibilitySettings {
+    this.settings = { ...this.settings, ...partial };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch {
+      // Ignore localStorage errors
+    }
+    return this.getSettings();
+  }
+
+  /**
+   * Whether the OS asks for reduced motion
+   */
+  systemPrefersReducedMotion(): boolean {
+    return this.systemReducedMotion?.matches ?? false;
+  }
+
+  isReducedMotion(): boolean {
+    const { reducedMotion } = this.settings;
+    return reducedMotion === "system" ? this.systemPrefersReducedMotion() : reducedMotion === "on";
+  }
+
+  /**
+   * Brick colors to build levels with, or null for the level's own palette
+   */
+  getBrickPalette(): string[] | null {
+    const { palette } = this.settings;
+    return palette === "default" ? null : colorBlindPalettes[palette];
+  }
+
+  getRenderOptions(): AccessibilityRenderOptions {
+    return {
+      hitIndicator: this.settings.hitIndicator,
+      highContrast: this.settings.highContrast,
+      reducedMotion: this.isReducedMotion(),
+    };
+  }
+
+  private loadSettings(): AccessibilitySettings {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) return { ...DEFAULT_ACCESSIBILITY_SETTINGS, ...JSON.parse(stored) };
+    } catch {
+      // Ignore localStorage errors
+    }
+    return { ...DEFAULT_ACCESSIBILITY_SETTINGS };
+  }
+}
+
+export const accessibility = new Accessibility();
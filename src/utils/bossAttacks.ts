@@ -2,6 +2,7 @@ import type { Boss, BossAttack, BossAttackType } from "@/types/game";
 import { BOSS_CONFIG, ATTACK_PATTERNS } from "@/constants/bossConfig";
 import { soundManager } from "@/utils/sounds";
 import { debugToast as toast } from "@/utils/debugToast";
+import { gameRng } from "@/utils/rng";
 
 export function performBossAttack(
   boss: Boss,
@@ -15,7 +16,7 @@ export function performBossAttack(
   
   // All bosses use weighted attack selection
   let attackType: BossAttackType;
-  const rand = Math.random();
+  const rand = gameRng.next();
   
   // Create a mutable copy of weights for potential position-based adjustments
   const baseWeights = config.attackWeights as Record<string, number>;
@@ -207,7 +208,7 @@ export function performBossAttack(
         damage: 1,
         isStopped: false,
         nextCourseChangeTime: now + ATTACK_PATTERNS.cross.courseChangeMinInterval + 
-          Math.random() * (ATTACK_PATTERNS.cross.courseChangeMaxInterval - ATTACK_PATTERNS.cross.courseChangeMinInterval),
+          gameRng.next() * (ATTACK_PATTERNS.cross.courseChangeMaxInterval - ATTACK_PATTERNS.cross.courseChangeMinInterval),
         spawnTime: now // Track spawn time for merge cooldown
       });
     });
@@ -1,5 +1,6 @@
 import type { Boss, BossType } from "@/types/game";
 import { BOSS_CONFIG, BOSS_POSITIONS } from "@/constants/bossConfig";
+import { gameRng } from "@/utils/rng";
 
 // Monotonic ID counter for bosses
 let nextBossId = 1000; // Start at safe range
@@ -82,7 +83,7 @@ export function createResurrectedPyramid(
   const spawnRadius = 60;
   
   // Safe random position index
-  const randomPosIndex = Math.floor(Math.random() * parentBoss.positions.length);
+  const randomPosIndex = Math.floor(gameRng.next() * parentBoss.positions.length);
   
   return {
     id: nextBossId++, // Monotonic ID
@@ -65,6 +65,14 @@ export class BrickRenderer {
     this.crackedImages = [img1, img2, img3];
   }
 
+  /**
+   * Moving bricks change position every frame, so they are drawn live by
+   * drawDynamicBricks instead of invalidating the cached layer
+   */
+  private isDynamic(brick: Brick): boolean {
+    return brick.type === "moving";
+  }
+
   /**
    * Calculate hash of brick state for dirty checking
    * Only tracks visibility and hit state - what changes during gameplay
@@ -73,7 +81,7 @@ export class BrickRenderer {
     let hash = 0;
     for (let i = 0; i < bricks.length; i++) {
       const b = bricks[i];
-      if (b.visible) {
+      if (b.visible && !this.isDynamic(b)) {
         hash = (hash * 31 + b.id) | 0;
         hash = (hash * 31 + b.hitsRemaining) | 0;
       }
@@ -243,8 +251,31 @@ export class BrickRenderer {
         ctx.fillRect(brick.x, brick.y + brick.height - 3, brick.width, 3);
         ctx.fillRect(brick.x + brick.width - 3, brick.y, 3, brick.height);
       }
+    } else if (brick.type === "portal") {
+      // Pairs share a hue so players can tell which portals are linked
+      const pairKey = Math.min(brick.id, brick.portalPairId ?? brick.id);
+      const hue = brick.portalPairId === undefined ? 0 : (260 + pairKey * 47) % 360;
+      const saturation = brick.portalPairId === undefined ? 0 : 80;
+      ctx.fillStyle = `hsl(${hue}, ${saturation}%, 18%)`;
+      ctx.fillRect(brick.x, brick.y, brick.width, brick.height);
+
+      // Concentric rings
+      const cx = brick.x + brick.width / 2;
+      const cy = brick.y + brick.height / 2;
+      ctx.lineWidth = 2;
+      for (let ring = 3; ring >= 1; ring--) {
+        ctx.strokeStyle = `hsla(${hue}, ${saturation}%, ${40 + ring * 12}%, ${0.9 - ring * 0.2})`;
+        ctx.beginPath();
+        ctx.ellipse(cx, cy, (brick.width / 2 - 3) * (ring / 3), (brick.height / 2 - 3) * (ring / 3), 0, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+
+      // Frame
+      ctx.strokeStyle = `hsl(${hue}, ${saturation}%, 65%)`;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(brick.x + 0.5, brick.y + 0.5, brick.width - 1, brick.height - 1);
     } else {
-      // Normal brick
+      // Normal brick (also the base for moving / regenerating bricks)
       ctx.fillStyle = brick.color;
       ctx.fillRect(brick.x, brick.y, brick.width, brick.height);
 
@@ -280,6 +311,27 @@ export class BrickRenderer {
           brick.y + brick.height / 2
         );
       }
+
+      if (brick.type === "moving") {
+        // Arrow heads on both ends
+        ctx.fillStyle = "rgba(255, 255, 255, 0.7)";
+        const midY = brick.y + brick.height / 2;
+        ctx.beginPath();
+        ctx.moveTo(brick.x + 4, midY);
+        ctx.lineTo(brick.x + 10, midY - 5);
+        ctx.lineTo(brick.x + 10, midY + 5);
+        ctx.closePath();
+        ctx.moveTo(brick.x + brick.width - 4, midY);
+        ctx.lineTo(brick.x + brick.width - 10, midY - 5);
+        ctx.lineTo(brick.x + brick.width - 10, midY + 5);
+        ctx.closePath();
+        ctx.fill();
+      } else if (brick.type === "regenerating") {
+        // Green "seed" border marks bricks that grow back
+        ctx.strokeStyle = "hsla(120, 70%, 55%, 0.9)";
+        ctx.lineWidth = 2;
+        ctx.strokeRect(brick.x + 1, brick.y + 1, brick.width - 2, brick.height - 2);
+      }
     }
   }
 
@@ -302,7 +354,7 @@ export class BrickRenderer {
     // Render all visible bricks
     for (let i = 0; i < bricks.length; i++) {
       const brick = bricks[i];
-      if (brick.visible) {
+      if (brick.visible && !this.isDynamic(brick)) {
         this.renderBrick(ctx, brick, bricks, qualitySettings);
       }
     }
@@ -321,6 +373,30 @@ export class BrickRenderer {
     ctx.drawImage(this.cache.canvas as CanvasImageSource, 0, 0);
   }
 
+  /**
+   * Draw bricks that can't live in the cached layer: moving bricks at their
+   * current position, and outlines of regenerating bricks waiting to regrow
+   */
+  drawDynamicBricks(
+    ctx: CanvasRenderingContext2D,
+    bricks: Brick[],
+    qualitySettings: QualitySettings
+  ): void {
+    for (let i = 0; i < bricks.length; i++) {
+      const brick = bricks[i];
+      if (brick.visible && this.isDynamic(brick)) {
+        this.renderBrick(ctx, brick, bricks, qualitySettings);
+      } else if (!brick.visible && brick.regenTimerMs !== undefined && brick.regenDelayMs) {
+        const progress = 1 - Math.max(0, brick.regenTimerMs) / brick.regenDelayMs;
+        ctx.strokeStyle = `hsla(120, 70%, 55%, ${0.15 + progress * 0.5})`;
+        ctx.lineWidth = 1;
+        ctx.setLineDash([3, 3]);
+        ctx.strokeRect(brick.x + 0.5, brick.y + 0.5, brick.width - 1, brick.height - 1);
+        ctx.setLineDash([]);
+      }
+    }
+  }
+
   /**
    * Force rebuild on next frame
    */
@@ -99,6 +99,7 @@ export function processBallWithCCD(
     ccdBrick.height = b.height;
     ccdBrick.visible = true;
     ccdBrick.isIndestructible = b.isIndestructible;
+    ccdBrick.portalPairId = b.portalPairId;
     brickIndex++;
   }
   
@@ -125,6 +126,7 @@ export function processBallWithCCD(
       ccdBrick.height = resBoss.height - 2 * HITBOX_MARGIN;
       ccdBrick.visible = true;
       ccdBrick.isIndestructible = false;
+      ccdBrick.portalPairId = undefined;
       totalBrickCount++;
     }
   }
@@ -141,6 +143,7 @@ export function processBallWithCCD(
       ccdBrick.height = enemy.height;
       ccdBrick.visible = true;
       ccdBrick.isIndestructible = false;
+      ccdBrick.portalPairId = undefined;
       totalBrickCount++;
     }
   }
@@ -0,0 +1,180 @@
+/**
+ * Gamepad Input
+ * Polled Gamepad API input source: read once per tick by the game loop (and by
+ * the pause menu while the loop is stopped). Turns the left stick / D-pad into
+ * paddle velocity with acceleration and reports button presses as edges.
+ * Deadzone, sensitivity and acceleration are saved to localStorage.
+ */
+
+const STORAGE_KEY = "vibing-arkanoid-gamepad-settings";
+
+export interface GamepadSettings {
+  deadzone: number; // 0-0.5, stick travel ignored around the center
+  sensitivity: number; // 0.5-2, multiplier on the paddle's top speed
+  acceleration: number; // 1-10, how fast the paddle reaches top speed
+}
+
+export const DEFAULT_GAMEPAD_SETTINGS: GamepadSettings = {
+  deadzone: 0.15,
+  sensitivity: 1,
+  acceleration: 5,
+};
+
+export const GAMEPAD_SETTING_RANGES: Record<keyof GamepadSettings, { min: number; max: number; step: number }> = {
+  deadzone: { min: 0, max: 0.5, step: 0.05 },
+  sensitivity: { min: 0.5, max: 2, step: 0.1 },
+  acceleration: { min: 1, max: 10, step: 1 },
+};
+
+/** Settings in display order (also the pause menu's controller focus order) */
+export const GAMEPAD_SETTING_KEYS = Object.keys(GAMEPAD_SETTING_RANGES) as (keyof GamepadSettings)[];
+
+export type GamepadAction = "launch" | "fire" | "pause" | "back" | "nextTrack" | "previousTrack" | "up" | "down" | "left" | "right";
+
+/** Standard-mapping button indices per action (https://w3c.github.io/gamepad/#remapping) */
+export const GAMEPAD_BUTTONS: Record<GamepadAction, number[]> = {
+  launch: [0], // A / Cross
+  fire: [2, 7], // X / Square, right trigger
+  pause: [9], // Start / Options
+  back: [1], // B / Circle
+  nextTrack: [5], // Right bumper
+  previousTrack: [4], // Left bumper
+  up: [12],
+  down: [13],
+  left: [14],
+  right: [15],
+};
+
+/** Paddle top speed at full stick deflection and sensitivity 1 (px per second) */
+const PADDLE_MAX_SPEED = 900;
+/** Stick travel that counts as a D-pad press for menu navigation */
+const STICK_NAV_THRESHOLD = 0.6;
+
+export interface GamepadFrame {
+  axisX: number; // -1..1 after deadzone (D-pad overrides the stick)
+  pressed: Set<GamepadAction>; // Actions that went down this poll
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+class GamepadInput {
+  private settings: GamepadSettings = this.loadSettings();
+  private previousActions = new Set<GamepadAction>();
+  private velocity = 0;
+
+  /**
+   * Whether the browser reports at least one connected gamepad
+   */
+  isConnected(): boolean {
+    return this.getPad() !== null;
+  }
+
+  getSettings(): GamepadSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(partial: Partial<GamepadSettings>): GamepadSettings {
+    const next = { ...this.settings, ...partial };
+    for (const key of GAMEPAD_SETTING_KEYS) {
+      const { min, max } = GAMEPAD_SETTING_RANGES[key];
+      next[key] = clamp(Math.round(next[key] * 100) / 100, min, max);
+    }
+    this.settings = next;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Ignore localStorage errors
+    }
+    return this.getSettings();
+  }
+
+  /**
+   * Read the first connected gamepad. Returns null when none is connected.
+   */
+  poll(): GamepadFrame | null {
+    const pad = this.getPad();
+    if (!pad) {
+      this.previousActions.clear();
+      this.velocity = 0;
+      return null;
+    }
+
+    const rawX = pad.axes[0] ?? 0;
+    const rawY = pad.axes[1] ?? 0;
+    const held = new Set<GamepadAction>();
+    for (const [action, indices] of Object.entries(GAMEPAD_BUTTONS) as [GamepadAction, number[]][]) {
+      if (indices.some((i) => pad.buttons[i]?.pressed)) held.add(action);
+    }
+    // The stick navigates menus like the D-pad
+    if (rawX < -STICK_NAV_THRESHOLD) held.add("left");
+    if (rawX > STICK_NAV_THRESHOLD) held.add("right");
+    if (rawY < -STICK_NAV_THRESHOLD) held.add("up");
+    if (rawY > STICK_NAV_THRESHOLD) held.add("down");
+
+    const pressed = new Set<GamepadAction>();
+    for (const action of held) {
+      if (!this.previousActions.has(action)) pressed.add(action);
+    }
+    this.previousActions = held;
+
+    let axisX = this.applyDeadzone(rawX);
+    const dpadLeft = pad.buttons[GAMEPAD_BUTTONS.left[0]]?.pressed;
+    const dpadRight = pad.buttons[GAMEPAD_BUTTONS.right[0]]?.pressed;
+    if (dpadLeft !== dpadRight) axisX = dpadLeft ? -1 : 1;
+
+    return { axisX, pressed };
+  }
+
+  /**
+   * Advance the paddle by one tick of stick input
+   * @returns New paddle x, clamped to the play field
+   */
+  movePaddle(frame: GamepadFrame, paddleX: number, paddleWidth: number, fieldWidth: number, dtMs: number): number {
+    const dt = dtMs / 1000;
+    const targetVelocity = frame.axisX * PADDLE_MAX_SPEED * this.settings.sensitivity;
+    // Exponential approach: acceleration 1 takes ~1s to reach top speed, 10 about 0.1s
+    const blend = Math.min(1, dt * this.settings.acceleration * 4);
+    this.velocity += (targetVelocity - this.velocity) * blend;
+    if (Math.abs(this.velocity) < 1 && frame.axisX === 0) this.velocity = 0;
+
+    const x = clamp(paddleX + this.velocity * dt, 0, fieldWidth - paddleWidth);
+    // Stop at the walls instead of pushing against them
+    if (x === 0 || x === fieldWidth - paddleWidth) this.velocity = 0;
+    return x;
+  }
+
+  /**
+   * Drop paddle momentum (e.g. when the game pauses mid-movement)
+   */
+  reset(): void {
+    this.velocity = 0;
+  }
+
+  private applyDeadzone(value: number): number {
+    const { deadzone } = this.settings;
+    const magnitude = Math.abs(value);
+    if (magnitude <= deadzone) return 0;
+    // Rescale so movement starts at zero just outside the deadzone
+    return Math.sign(value) * Math.min(1, (magnitude - deadzone) / (1 - deadzone));
+  }
+
+  private getPad(): Gamepad | null {
+    if (typeof navigator === "undefined" || !navigator.getGamepads) return null;
+    for (const pad of navigator.getGamepads()) {
+      if (pad && pad.connected) return pad;
+    }
+    return null;
+  }
+
+  private loadSettings(): GamepadSettings {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) return { ...DEFAULT_GAMEPAD_SETTINGS, ...JSON.parse(stored) };
+    } catch {
+      // Ignore localStorage errors
+    }
+    return { ...DEFAULT_GAMEPAD_SETTINGS };
+  }
+}
+
+export const gamepadInput = new GamepadInput();
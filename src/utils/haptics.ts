@@ -0,0 +1,111 @@
+/**
+ * Haptics
+ * Vibration feedback for impacts on devices that support `navigator.vibrate`.
+ * Each event has its own pattern; the intensity setting stretches the pulses
+ * (the Vibration API has no amplitude control). Stays silent while reduced
+ * motion is on (Accessibility). The intensity is saved to localStorage.
+ */
+
+import { accessibility } from "@/utils/accessibility";
+
+const STORAGE_KEY = "vibing-arkanoid-haptics";
+
+export type HapticEvent = "paddleHit" | "brickBreak" | "bossHit" | "lifeLost" | "secondChance";
+export type HapticIntensity = "off" | "low" | "medium" | "high";
+
+export const HAPTIC_INTENSITIES: HapticIntensity[] = ["off", "low", "medium", "high"];
+
+/** Vibrate / pause durations in ms at medium intensity */
+const HAPTIC_PATTERNS: Record<HapticEvent, number[]> = {
+  paddleHit: [10],
+  brickBreak: [18],
+  bossHit: [35, 40, 35],
+  lifeLost: [120, 60, 220],
+  secondChance: [25, 35, 25, 35, 70],
+};
+
+/** A pattern in progress is only cut short by an event of at least its priority */
+const HAPTIC_PRIORITY: Record<HapticEvent, number> = {
+  paddleHit: 0,
+  brickBreak: 0,
+  bossHit: 1,
+  lifeLost: 2,
+  secondChance: 2,
+};
+
+/** Pulse length multiplier per intensity */
+const INTENSITY_SCALE: Record<HapticIntensity, number> = {
+  off: 0,
+  low: 0.5,
+  medium: 1,
+  high: 1.6,
+};
+
+class Haptics {
+  private intensity: HapticIntensity = this.loadIntensity();
+  private busyUntil = 0;
+  private busyPriority = 0;
+
+  /**
+   * Whether the device can vibrate at all
+   */
+  isSupported(): boolean {
+    return typeof navigator !== "undefined" && typeof navigator.vibrate === "function";
+  }
+
+  /**
+   * Whether reduced motion is requested, which turns vibration off
+   */
+  isReducedMotion(): boolean {
+    return accessibility.isReducedMotion();
+  }
+
+  getIntensity(): HapticIntensity {
+    return this.intensity;
+  }
+
+  setIntensity(intensity: HapticIntensity): void {
+    this.intensity = intensity;
+    if (intensity === "off") this.stop();
+    try {
+      localStorage.setItem(STORAGE_KEY, intensity);
+    } catch {
+      // Ignore localStorage errors
+    }
+  }
+
+  play(event: HapticEvent): void {
+    const scale = INTENSITY_SCALE[this.intensity];
+    if (scale === 0 || !this.isSupported() || this.isReducedMotion()) return;
+
+    const now = performance.now();
+    const priority = HAPTIC_PRIORITY[event];
+    if (now < this.busyUntil && priority < this.busyPriority) return;
+
+    // Scale the vibrations (even indices), keep the pauses
+    const pattern = HAPTIC_PATTERNS[event].map((ms, i) => (i % 2 === 0 ? Math.round(ms * scale) : ms));
+    navigator.vibrate(pattern);
+    this.busyUntil = now + pattern.reduce((total, ms) => total + ms, 0);
+    this.busyPriority = priority;
+  }
+
+  /**
+   * Cancel any vibration in progress
+   */
+  stop(): void {
+    if (this.isSupported()) navigator.vibrate(0);
+    this.busyUntil = 0;
+  }
+
+  private loadIntensity(): HapticIntensity {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY) as HapticIntensity | null;
+      if (stored && HAPTIC_INTENSITIES.includes(stored)) return stored;
+    } catch {
+      // Ignore localStorage errors
+    }
+    return "medium";
+  }
+}
+
+export const haptics = new Haptics();
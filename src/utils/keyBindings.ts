@@ -0,0 +1,145 @@
+/**
+ * Key Bindings
+ * Central action-to-key registry for the in-game keyboard controls. Every
+ * gameplay keydown handler asks `keyBindings.matches(e, action)` instead of
+ * comparing `e.key` itself, so players can remap the keyboard from the
+ * Controls panel. Bindings use `KeyboardEvent.key` (layout-aware, so AZERTY /
+ * Dvorak players see their own letters) and are saved to localStorage.
+ */
+
+const STORAGE_KEY = "vibing-arkanoid-key-bindings";
+
+export type KeyAction = "pause" | "toggleMusic" | "nextTrack" | "previousTrack" | "fullscreen" | "aimLeft" | "aimRight" | "restart";
+
+/** Keys per action: a primary and an optional secondary binding */
+export type KeyBindingMap = Record<KeyAction, string[]>;
+
+export const MAX_BINDINGS_PER_ACTION = 2;
+
+export const KEY_ACTIONS: Record<KeyAction, { label: string; defaults: string[] }> = {
+  pause: { label: "Pause / Resume", defaults: ["Escape", "p"] },
+  aimLeft: { label: "Aim Left (before launch)", defaults: ["ArrowLeft", "a"] },
+  aimRight: { label: "Aim Right (before launch)", defaults: ["ArrowRight", "d"] },
+  toggleMusic: { label: "Mute Music", defaults: ["m"] },
+  nextTrack: { label: "Next Track", defaults: ["n"] },
+  previousTrack: { label: "Previous Track", defaults: ["b"] },
+  fullscreen: { label: "Fullscreen Toggle", defaults: ["f"] },
+  restart: { label: "Instant Restart (Practice)", defaults: ["Backspace"] },
+};
+
+export const KEY_ACTION_IDS = Object.keys(KEY_ACTIONS) as KeyAction[];
+
+/** Keys that can't be bound: modifiers alone, and keys the browser or debug tools own */
+const UNBINDABLE_KEYS = new Set(["Shift", "Control", "Alt", "Meta", "AltGraph", "CapsLock", "Tab", "Dead", "Unidentified", "§"]);
+
+const KEY_LABELS: Record<string, string> = {
+  " ": "Space",
+  Escape: "ESC",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+};
+
+export type BindResult = { status: "bound" } | { status: "unbindable" } | { status: "conflict"; action: KeyAction };
+
+/** Single characters are stored lower-case so Shift / Caps Lock don't matter */
+export const normalizeKey = (key: string) => (key.length === 1 ? key.toLowerCase() : key);
+
+/** Display name of a key ("ESC", "←", "P") */
+export const formatKey = (key: string) => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+const getDefaultBindings = (): KeyBindingMap =>
+  Object.fromEntries(KEY_ACTION_IDS.map((action) => [action, [...KEY_ACTIONS[action].defaults]])) as KeyBindingMap;
+
+class KeyBindingRegistry {
+  private bindings: KeyBindingMap = this.loadBindings();
+
+  getBindings(): KeyBindingMap {
+    return Object.fromEntries(KEY_ACTION_IDS.map((action) => [action, [...this.bindings[action]]])) as KeyBindingMap;
+  }
+
+  /**
+   * Whether a keydown event triggers an action
+   */
+  matches(e: KeyboardEvent, action: KeyAction): boolean {
+    return this.bindings[action].includes(normalizeKey(e.key));
+  }
+
+  /**
+   * Bound keys of an action for on-screen hints, e.g. "ESC or P"
+   */
+  describe(action: KeyAction, separator = " or "): string {
+    const keys = this.bindings[action];
+    return keys.length > 0 ? keys.map(formatKey).join(separator) : "Unbound";
+  }
+
+  /**
+   * Action that already uses a key (ignoring `exceptAction`), if any
+   */
+  findConflict(key: string, exceptAction?: KeyAction): KeyAction | null {
+    const normalized = normalizeKey(key);
+    for (const action of KEY_ACTION_IDS) {
+      if (action !== exceptAction && this.bindings[action].includes(normalized)) return action;
+    }
+    return null;
+  }
+
+  /**
+   * Bind a key to one of an action's slots. Refuses keys another action uses;
+   * callers resolve the conflict (e.g. by unbinding the other action first).
+   */
+  bind(action: KeyAction, slot: number, key: string): BindResult {
+    const normalized = normalizeKey(key);
+    if (UNBINDABLE_KEYS.has(normalized)) return { status: "unbindable" };
+    const conflict = this.findConflict(normalized, action);
+    if (conflict) return { status: "conflict", action: conflict };
+
+    const keys = [...this.bindings[action]];
+    if (slot < keys.length) keys[slot] = normalized;
+    else keys.push(normalized);
+    // A key already in the action's other slot stays bound once
+    this.bindings[action] = [...new Set(keys)].slice(0, MAX_BINDINGS_PER_ACTION);
+    this.save();
+    return { status: "bound" };
+  }
+
+  unbind(action: KeyAction, key: string): void {
+    this.bindings[action] = this.bindings[action].filter((k) => k !== normalizeKey(key));
+    this.save();
+  }
+
+  resetToDefaults(): void {
+    this.bindings = getDefaultBindings();
+    this.save();
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.bindings));
+    } catch {
+      // Ignore localStorage errors
+    }
+  }
+
+  private loadBindings(): KeyBindingMap {
+    const bindings = getDefaultBindings();
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return bindings;
+      const parsed = JSON.parse(stored) as Partial<KeyBindingMap>;
+      // Unknown actions are dropped; actions added since the save keep their defaults
+      for (const action of KEY_ACTION_IDS) {
+        const keys = parsed[action];
+        if (Array.isArray(keys)) {
+          bindings[action] = keys.filter((k) => typeof k === "string").slice(0, MAX_BINDINGS_PER_ACTION);
+        }
+      }
+    } catch {
+      // Ignore localStorage errors
+    }
+    return bindings;
+  }
+}
+
+export const keyBindings = new KeyBindingRegistry();
@@ -5,6 +5,7 @@ import { ATTACK_PATTERNS } from "@/constants/bossConfig";
 import { MegaBoss, getMegaBossPhase, isMegaBoss } from "./megaBossUtils";
 import { soundManager } from "./sounds";
 import { debugToast as toast } from "@/utils/debugToast";
+import { gameRng } from "@/utils/rng";
 
 export interface DangerBall {
   id: number;
@@ -28,7 +29,7 @@ export function spawnDangerBall(boss: MegaBoss): DangerBall {
   const config = MEGA_BOSS_CONFIG;
   
   // Pick random corner as general direction target
-  const targetCorner = CORNER_TARGETS[Math.floor(Math.random() * CORNER_TARGETS.length)];
+  const targetCorner = gameRng.pick(CORNER_TARGETS);
   
   // Shoot mostly downward with some spread toward corners
   const bossX = boss.x + boss.width / 2;
@@ -36,7 +37,7 @@ export function spawnDangerBall(boss: MegaBoss): DangerBall {
   
   // Random angle between 60 and 120 degrees (downward spread)
   const baseAngle = Math.PI / 2; // Straight down
-  const spread = (Math.random() - 0.5) * (Math.PI / 3); // ±30 degrees
+  const spread = (gameRng.next() - 0.5) * (Math.PI / 3); // ±30 degrees
   const angle = baseAngle + spread;
   
   return {
@@ -203,7 +204,7 @@ export function performMegaBossAttack(
   const weights = MEGA_BOSS_CONFIG.attackWeights[`phase${phase}` as keyof typeof MEGA_BOSS_CONFIG.attackWeights];
   
   // Weighted random selection
-  const rand = Math.random();
+  const rand = gameRng.next();
   let cumulative = 0;
   let selectedAttack: MegaBossAttackType = 'shot';
   
@@ -491,7 +492,7 @@ function performCrossAttack(
       damage: 1,
       isStopped: false,
       nextCourseChangeTime: now + ATTACK_PATTERNS.cross.courseChangeMinInterval +
-        Math.random() * (ATTACK_PATTERNS.cross.courseChangeMaxInterval - ATTACK_PATTERNS.cross.courseChangeMinInterval),
+        gameRng.next() * (ATTACK_PATTERNS.cross.courseChangeMaxInterval - ATTACK_PATTERNS.cross.courseChangeMinInterval),
       spawnTime: now
     });
   });
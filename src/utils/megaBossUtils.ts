@@ -1,6 +1,7 @@
 // Mega Boss creation and management utilities
 import type { Boss, Ball } from "@/types/game";
 import { MEGA_BOSS_CONFIG, MEGA_BOSS_POSITIONS, MEGA_BOSS_LEVEL } from "@/constants/megaBossConfig";
+import { gameRng } from "@/utils/rng";
 
 // Phase represents the current stage of the boss fight
 export type MegaBossCorePhase = 1 | 2 | 3;
@@ -196,7 +197,7 @@ export function handleMegaBossCoreHit(boss: MegaBoss, ball: Ball): MegaBoss {
   
   for (let i = 0; i < config.dangerBallCount; i++) {
     const interval = config.dangerBallIntervalMin + 
-      Math.random() * (config.dangerBallIntervalMax - config.dangerBallIntervalMin);
+      gameRng.next() * (config.dangerBallIntervalMax - config.dangerBallIntervalMin);
     nextTime += interval;
     scheduledDangerBalls.push(nextTime);
   }
@@ -237,8 +238,6 @@ export function shouldReleaseBall(boss: MegaBoss): boolean {
 
 // Release trapped ball and transition to next phase
 export function releaseBallAndNextPhase(boss: MegaBoss): { boss: MegaBoss; releasedBall: Ball | null; isDefeated: boolean } {
-  const config = MEGA_BOSS_CONFIG;
-  
   if (!boss.trappedBall) {
     return { boss, releasedBall: null, isDefeated: false };
   }
@@ -251,7 +250,7 @@ export function releaseBallAndNextPhase(boss: MegaBoss): { boss: MegaBoss; relea
   
   if (isInTopThird) {
     // Release downward with random angle to avoid getting stuck
-    const randomAngle = (Math.random() - 0.5) * Math.PI / 3; // Random angle ±30 degrees from vertical
+    const randomAngle = (gameRng.next() - 0.5) * Math.PI / 3; // Random angle ±30 degrees from vertical
     const speed = 4;
     releasedBall = {
       ...boss.trappedBall,
@@ -291,9 +290,21 @@ export function releaseBallAndNextPhase(boss: MegaBoss): { boss: MegaBoss; relea
     };
   }
   
+  return {
+    boss: enterMegaBossPhase(boss, nextPhase),
+    releasedBall,
+    isDefeated: false
+  };
+}
+
+// Put the boss into a core phase (2 or 3): outer shield gone, inner shield full, faster and angrier.
+// Also used by Practice mode to start a fight straight in a later phase.
+export function enterMegaBossPhase(boss: MegaBoss, phase: MegaBossCorePhase): MegaBoss {
+  const config = MEGA_BOSS_CONFIG;
+
   // Transition to next phase - outer shield is now REMOVED, inner shield becomes active
-  const isAngry = nextPhase >= 2;
-  const isVeryAngry = nextPhase >= 3;
+  const isAngry = phase >= 2;
+  const isVeryAngry = phase >= 3;
   const newSpeed = isVeryAngry ? config.veryAngryMoveSpeed : (isAngry ? config.angryMoveSpeed : config.moveSpeed);
   const newAttackInterval = isVeryAngry ? config.veryAngryAttackInterval : (isAngry ? config.angryAttackInterval : config.attackInterval);
   
@@ -301,36 +312,32 @@ export function releaseBallAndNextPhase(boss: MegaBoss): { boss: MegaBoss; relea
   const newInnerShieldHP = config.innerShieldHP || 6;
   
   return {
-    boss: {
-      ...boss,
-      corePhase: nextPhase,
-      // Outer shield is now removed - inner octagon becomes the shield
-      outerShieldRemoved: true,
-      outerShieldHP: 0,
-      outerShieldMaxHP: config.outerShieldHP,
-      innerShieldHP: newInnerShieldHP,
-      innerShieldMaxHP: newInnerShieldHP,
-      currentHealth: newInnerShieldHP, // For health bar display
-      maxHealth: newInnerShieldHP,
-      coreExposed: false,
-      coreHit: false,
-      trappedBall: null,
-      cannonExtended: false,
-      cannonExtendedTime: null,
-      dangerBallsCaught: 0,
-      coreHitsFromDangerBalls: 0,
-      dangerBallsFired: 0,
-      scheduledDangerBalls: [],
-      isAngry,
-      isSuperAngry: isVeryAngry,
-      hasResurrected: nextPhase >= 2, // Visual indicator
-      speed: newSpeed,
-      attackCooldown: newAttackInterval,
-      isInvulnerable: true,
-      invulnerableUntil: Date.now() + 1500 // Brief invuln after phase change
-    },
-    releasedBall,
-    isDefeated: false
+    ...boss,
+    corePhase: phase,
+    // Outer shield is now removed - inner octagon becomes the shield
+    outerShieldRemoved: true,
+    outerShieldHP: 0,
+    outerShieldMaxHP: config.outerShieldHP,
+    innerShieldHP: newInnerShieldHP,
+    innerShieldMaxHP: newInnerShieldHP,
+    currentHealth: newInnerShieldHP, // For health bar display
+    maxHealth: newInnerShieldHP,
+    coreExposed: false,
+    coreHit: false,
+    trappedBall: null,
+    cannonExtended: false,
+    cannonExtendedTime: null,
+    dangerBallsCaught: 0,
+    coreHitsFromDangerBalls: 0,
+    dangerBallsFired: 0,
+    scheduledDangerBalls: [],
+    isAngry,
+    isSuperAngry: isVeryAngry,
+    hasResurrected: phase >= 2, // Visual indicator
+    speed: newSpeed,
+    attackCooldown: newAttackInterval,
+    isInvulnerable: true,
+    invulnerableUntil: Date.now() + 1500 // Brief invuln after phase change
   };
 }
 
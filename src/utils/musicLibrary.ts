@@ -0,0 +1,79 @@
+/**
+ * Music Library
+ * Player-supplied audio files, kept in IndexedDB so they survive reloads
+ * without being uploaded anywhere. SoundManager merges them with the built-in
+ * tracks into its playlists; UI code should go through SoundManager.
+ */
+
+const DB_NAME = "vibing-arkanoid-music";
+const DB_VERSION = 1;
+const STORE_NAME = "tracks";
+
+/** Largest file accepted, to stay well inside the browser's storage quota */
+export const MAX_USER_TRACK_BYTES = 25 * 1024 * 1024;
+
+export interface StoredTrack {
+  id: number; // Auto-incremented key, also the playlist order
+  name: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id", autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry (e.g. after private-mode storage is re-enabled)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Display name of a file: its name without the extension */
+const trackNameFromFile = (file: File) => file.name.replace(/\.[^.]+$/, "") || "Untitled";
+
+/**
+ * All stored tracks, oldest first
+ */
+export function loadStoredTracks(): Promise<StoredTrack[]> {
+  return runRequest("readonly", (store) => store.getAll() as IDBRequest<StoredTrack[]>);
+}
+
+/**
+ * Store an audio file. Rejects files that aren't audio or are too large.
+ */
+export async function storeTrack(file: File): Promise<StoredTrack> {
+  if (!file.type.startsWith("audio/")) throw new Error(`${file.name} is not an audio file`);
+  if (file.size > MAX_USER_TRACK_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_USER_TRACK_BYTES / (1024 * 1024)} MB`);
+  }
+  const record = { name: trackNameFromFile(file), blob: file };
+  const id = await runRequest("readwrite", (store) => store.add(record));
+  return { ...record, id: id as number };
+}
+
+export async function deleteStoredTrack(id: number): Promise<void> {
+  await runRequest("readwrite", (store) => store.delete(id));
+}
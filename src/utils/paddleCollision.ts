@@ -1,5 +1,6 @@
 import type { Ball, Paddle } from "@/types/game";
 import { soundManager } from "@/utils/sounds";
+import { gameRng } from "@/utils/rng";
 
 interface Vec2 {
   x: number;
@@ -91,7 +92,7 @@ export function checkCircleVsRoundedPaddle(
           // Use incoming horizontal direction to break pattern, or random if no horizontal velocity
           const patternBreaker = Math.abs(ball.dx) > 0.1 
             ? Math.sign(ball.dx) * 0.15 
-            : (Math.random() > 0.5 ? 0.15 : -0.15);
+            : (gameRng.next() > 0.5 ? 0.15 : -0.15);
           normalizedOffset = patternBreaker;
         }
         
@@ -1,4 +1,5 @@
 import type { Particle, EnemyType } from "@/types/game";
+import { cosmeticRng } from "@/utils/rng";
 
 const DEFAULT_POOL_SIZE = 500;
 
@@ -88,14 +89,14 @@ class ParticlePool {
       }
       
       // Initialize particle in-place
-      const angle = (Math.PI * 2 * i) / count + Math.random() * 0.3;
-      const speed = (2 + Math.random() * 3) * 60; // px/s
+      const angle = (Math.PI * 2 * i) / count + cosmeticRng.next() * 0.3;
+      const speed = (2 + cosmeticRng.next() * 3) * 60; // px/s
       
       particle.x = x;
       particle.y = y;
       particle.vx = Math.cos(angle) * speed;
       particle.vy = Math.sin(angle) * speed;
-      particle.size = 3 + Math.random() * 4;
+      particle.size = 3 + cosmeticRng.next() * 4;
       particle.color = colors[i % colorCount];
       particle.life = 0.5; // seconds (30 frames / 60 fps)
       particle.maxLife = 0.5;
@@ -118,15 +119,15 @@ class ParticlePool {
         return;
       }
       
-      const angle = Math.random() * Math.PI * 2;
-      const speed = (2 + Math.random() * 4) * 60; // px/s
-      const hue = Math.floor(Math.random() * 360);
+      const angle = cosmeticRng.next() * Math.PI * 2;
+      const speed = (2 + cosmeticRng.next() * 4) * 60; // px/s
+      const hue = Math.floor(cosmeticRng.next() * 360);
       
       particle.x = centerX;
       particle.y = centerY;
       particle.vx = Math.cos(angle) * speed;
       particle.vy = Math.sin(angle) * speed;
-      particle.size = 2 + Math.random() * 4;
+      particle.size = 2 + cosmeticRng.next() * 4;
       particle.color = `hsl(${hue}, 70%, 60%)`;
       particle.life = 1.0; // seconds (60 frames / 60 fps)
       particle.maxLife = 1.0;
@@ -152,14 +153,14 @@ class ParticlePool {
         return;
       }
       
-      const angle = (Math.PI * 2 * i) / count + Math.random() * 0.5;
-      const speed = (3 + Math.random() * 5) * 60; // px/s
+      const angle = (Math.PI * 2 * i) / count + cosmeticRng.next() * 0.5;
+      const speed = (3 + cosmeticRng.next() * 5) * 60; // px/s
       
-      particle.x = centerX + (Math.random() - 0.5) * 200;
-      particle.y = centerY + (Math.random() - 0.5) * 100;
+      particle.x = centerX + (cosmeticRng.next() - 0.5) * 200;
+      particle.y = centerY + (cosmeticRng.next() - 0.5) * 100;
       particle.vx = Math.cos(angle) * speed;
       particle.vy = Math.sin(angle) * speed - 120; // upward boost in px/s
-      particle.size = 4 + Math.random() * 6;
+      particle.size = 4 + cosmeticRng.next() * 6;
       particle.color = colors[i % colorCount];
       particle.life = 2.0; // seconds (120 frames / 60 fps)
       particle.maxLife = 2.0;
@@ -0,0 +1,65 @@
+/**
+ * Player Profile
+ * Anonymous identity for the leaderboards: a random player id plus a secret
+ * token, generated on first use and saved to localStorage. Both are sent with
+ * every score submission; submit-score registers the id with the token's hash
+ * and refuses the id from anyone without the token, so a player's entries can
+ * be grouped (best-per-player, "your rank") no matter which name they typed.
+ * Clearing site data starts a new profile.
+ */
+
+const STORAGE_KEY = "vibing-arkanoid-player-profile";
+
+interface StoredProfile {
+  id: string;
+  token: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const randomToken = (): string => {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+class PlayerProfile {
+  private profile: StoredProfile = this.loadProfile();
+
+  /**
+   * This device's player id (as stored in the leaderboards' player_id)
+   */
+  getId(): string {
+    return this.profile.id;
+  }
+
+  /**
+   * Fields to send with a submit-score request
+   */
+  getCredentials(): { player_id: string; player_token: string } {
+    return { player_id: this.profile.id, player_token: this.profile.token };
+  }
+
+  private loadProfile(): StoredProfile {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored) as Partial<StoredProfile>;
+        if (typeof parsed.id === "string" && UUID_PATTERN.test(parsed.id) && typeof parsed.token === "string") {
+          return { id: parsed.id, token: parsed.token };
+        }
+      }
+    } catch {
+      // Ignore localStorage errors
+    }
+    const profile = { id: crypto.randomUUID(), token: randomToken() };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+    } catch {
+      // Ignore localStorage errors (the profile lasts for this session only)
+    }
+    return profile;
+  }
+}
+
+export const playerProfile = new PlayerProfile();
@@ -4,15 +4,30 @@ import {
   calculateCurrentWeights, 
   weightedRandomSelect 
 } from "./powerUpWeights";
+import { gameRng } from "@/utils/rng";
+import { isPowerUpAllowed } from "@/engine/dailyChallenge";
 
 /** Chance that a power-up brick becomes a dual-choice brick */
 const DUAL_CHOICE_CHANCE = 0.15;
 
+/** Drop weights for power-ups outside the Daily Challenge pool (if one is active) */
+const filterAllowedWeights = (
+  weights: Partial<Record<PowerUpType, number>>
+): Partial<Record<PowerUpType, number>> => {
+  const allowed: Partial<Record<PowerUpType, number>> = {};
+  for (const [type, weight] of Object.entries(weights) as [PowerUpType, number][]) {
+    if (isPowerUpAllowed(type)) allowed[type] = weight;
+  }
+  return allowed;
+};
+
 /**
  * Pre-assigns power-ups to 8% of destructible bricks at level initialization
  * Uses weighted random selection with diminishing returns based on drop history
  * 
  * Also marks ~25% of those as dual-choice bricks and assigns a second power-up type.
+ * Bricks with a designer-placed `forcedPowerUp` always get exactly that type and
+ * are not part of the random 8%.
  */
 export const assignPowerUpsToBricks = (
   bricks: Brick[],
@@ -31,24 +46,35 @@ export const assignPowerUpsToBricks = (
 
   if (destructibleBricks.length === 0) return { assignments, dualChoiceAssignments };
 
+  // Forced power-ups first
+  const randomCandidates: Brick[] = [];
+  for (const brick of destructibleBricks) {
+    if (brick.forcedPowerUp) {
+      assignments.set(brick.id, brick.forcedPowerUp);
+    } else {
+      randomCandidates.push(brick);
+    }
+  }
+  if (randomCandidates.length === 0) return { assignments, dualChoiceAssignments };
+
   // Calculate 8% of destructible bricks
-  const powerUpCount = Math.max(1, Math.floor(destructibleBricks.length * 0.08));
+  const powerUpCount = Math.max(1, Math.floor(randomCandidates.length * 0.08));
 
   // Shuffle and select random bricks
-  const shuffled = [...destructibleBricks].sort(() => Math.random() - 0.5);
+  const shuffled = gameRng.shuffle(randomCandidates);
   const selectedBricks = shuffled.slice(0, powerUpCount);
 
   // Calculate current weights based on drop history
-  const currentWeights = calculateCurrentWeights(
+  const currentWeights = filterAllowedWeights(calculateCurrentWeights(
     dropCounts,
     difficulty,
     currentLevel,
     extraLifeUsedLevels,
     false // Don't include boss-exclusive power-ups for brick assignments
-  );
+  ));
 
   // Track if extra life has been assigned this level (max 1)
-  let extraLifeAssigned = false;
+  let extraLifeAssigned = [...assignments.values()].includes("life");
   
   // Create a mutable copy of weights to update during assignment
   const mutableWeights = { ...currentWeights };
@@ -59,6 +85,8 @@ export const assignPowerUpsToBricks = (
     if (extraLifeAssigned && mutableWeights.life !== undefined) {
       delete mutableWeights.life;
     }
+    // Nothing left to drop (e.g. a Daily pool of boss-only types): no power-up
+    if (Object.keys(mutableWeights).length === 0) return;
     
     // Select using weighted random
     const selectedType = weightedRandomSelect(mutableWeights);
@@ -70,7 +98,7 @@ export const assignPowerUpsToBricks = (
     }
 
     // 25% chance this brick becomes a dual-choice brick
-    if (Math.random() < DUAL_CHOICE_CHANCE) {
+    if (gameRng.next() < DUAL_CHOICE_CHANCE) {
       // Pick a second type that's different from the first
       const weightsWithout = { ...mutableWeights };
       delete weightsWithout[selectedType as keyof typeof weightsWithout];
@@ -111,23 +139,28 @@ export const reassignPowerUpsToBricks = (
   }
 
   // Calculate current weights based on updated drop history
-  const currentWeights = calculateCurrentWeights(
+  const currentWeights = filterAllowedWeights(calculateCurrentWeights(
     dropCounts,
     difficulty,
     currentLevel,
     extraLifeUsedLevels,
     false
-  );
+  ));
 
   const newAssignments = new Map<number, PowerUpType>();
   let extraLifeAssigned = false;
   const mutableWeights = { ...currentWeights };
 
-  // Re-assign power-ups to remaining bricks
+  // Re-assign power-ups to remaining bricks (forced power-ups keep their type)
   remainingBricksWithPowerUps.forEach((brick) => {
+    if (brick.forcedPowerUp) {
+      newAssignments.set(brick.id, brick.forcedPowerUp);
+      return;
+    }
     if (extraLifeAssigned && mutableWeights.life !== undefined) {
       delete mutableWeights.life;
     }
+    if (Object.keys(mutableWeights).length === 0) return;
     
     const selectedType = weightedRandomSelect(mutableWeights);
     newAssignments.set(brick.id, selectedType);
@@ -137,7 +170,7 @@ export const reassignPowerUpsToBricks = (
     }
 
     // 25% chance for dual choice
-    if (Math.random() < DUAL_CHOICE_CHANCE) {
+    if (gameRng.next() < DUAL_CHOICE_CHANCE) {
       const weightsWithout = { ...mutableWeights };
       delete weightsWithout[selectedType as keyof typeof weightsWithout];
       if (Object.keys(weightsWithout).length > 0) {
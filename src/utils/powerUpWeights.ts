@@ -1,4 +1,5 @@
 import type { PowerUpType, Difficulty } from "@/types/game";
+import { gameRng } from "@/utils/rng";
 
 /**
  * Base weights for each power-up type (higher = more likely)
@@ -119,7 +120,7 @@ export const weightedRandomSelect = (
   }
   
   const totalWeight = entries.reduce((sum, [, w]) => sum + w, 0);
-  let random = Math.random() * totalWeight;
+  let random = gameRng.next() * totalWeight;
   
   for (const [type, weight] of entries) {
     random -= weight;
@@ -33,6 +33,7 @@ export type Brick = {
   height: number;
   visible: boolean;
   isIndestructible?: boolean; // For metal bricks
+  portalPairId?: number; // Portal bricks: id of the linked portal
   [k: string]: any;
 };
 
@@ -47,6 +48,7 @@ export type CollisionEvent = {
   brickMeta?: Brick; // Store brick metadata for reflection logic
   originalDx?: number; // Ball dx at moment of collision (pre-reflection)
   originalDy?: number; // Ball dy at moment of collision (pre-reflection)
+  teleported?: boolean; // Ball entered a portal brick and left through its pair
 };
 
 export type CCDConfig = {
@@ -282,6 +284,52 @@ function defaultTilemapQuery(bricks: Brick[] | undefined, swept: { x: number; y:
   return [...spatialHashResult, ...dynamicEntities];
 }
 
+/*
+Portal exit: the ball leaves the paired portal along its travel direction, just clear of
+the portal's expanded AABB. Returns null when the pair is gone or the exit is blocked by
+another brick or a wall (the ball then bounces off the entry portal like metal).
+*/
+function findPortalExit(
+  entry: Brick,
+  ball: Ball,
+  bricks: Brick[] | undefined,
+  brickCount: number | undefined,
+  canvasSize: { w: number; h: number } | undefined,
+  query: (aabb: { x: number; y: number; w: number; h: number }) => Brick[],
+): Vec2 | null {
+  if (!bricks || entry.portalPairId === undefined) return null;
+  let exit: Brick | undefined;
+  const limit = brickCount ?? bricks.length;
+  for (let i = 0; i < limit; i++) {
+    if (bricks[i].id === entry.portalPairId && bricks[i].visible) {
+      exit = bricks[i];
+      break;
+    }
+  }
+  if (!exit) return null;
+
+  const speed = Math.hypot(ball.dx, ball.dy);
+  if (speed < 1e-6) return null;
+  const dirX = ball.dx / speed;
+  const dirY = ball.dy / speed;
+  const halfW = exit.width / 2 + ball.radius + 1;
+  const halfH = exit.height / 2 + ball.radius + 1;
+  const tx = Math.abs(dirX) > 1e-6 ? halfW / Math.abs(dirX) : Infinity;
+  const ty = Math.abs(dirY) > 1e-6 ? halfH / Math.abs(dirY) : Infinity;
+  const dist = Math.min(tx, ty);
+  const x = exit.x + exit.width / 2 + dirX * dist;
+  const y = exit.y + exit.height / 2 + dirY * dist;
+
+  if (canvasSize && (x < ball.radius || x > canvasSize.w - ball.radius || y < ball.radius || y > canvasSize.h)) {
+    return null;
+  }
+  const blockers = query({ x: x - ball.radius, y: y - ball.radius, w: 2 * ball.radius, h: 2 * ball.radius });
+  for (const b of blockers) {
+    if (b.id !== exit.id) return null;
+  }
+  return { x, y };
+}
+
 /*
 Main exported function:
 processBallCCD(ball, dt, state, config) -> { ball: Ball | null, events: CollisionEvent[], debug?: any }
@@ -628,6 +676,35 @@ export function processBallCCD(
       pos0.x += moveX * tHit;
       pos0.y += moveY * tHit;
 
+      // Portal bricks: continue from the paired portal without reflecting
+      if ((earliest.objectType === "brick" || earliest.objectType === "corner") && earliest.brickMeta?.portalPairId !== undefined) {
+        const exitPos = findPortalExit(
+          earliest.brickMeta,
+          ball,
+          bricks,
+          brickCount,
+          canvasSize,
+          tilemapQuery ?? ((aabb) => defaultTilemapQuery(bricks, aabb, brickCount)),
+        );
+        if (exitPos) {
+          pos0.x = exitPos.x;
+          pos0.y = exitPos.y;
+          events.push({
+            t: 1 - remaining + remaining * tHit,
+            normal: earliest.normal,
+            objectType: earliest.objectType,
+            objectId: earliest.objectId,
+            point: earliest.point,
+            brickMeta: earliest.brickMeta,
+            originalDx: ball.dx,
+            originalDy: ball.dy,
+            teleported: true,
+          });
+          remaining = remaining * (1 - tHit);
+          continue;
+        }
+      }
+
       // Robust normal validation and fallback
       let n = earliest.normal;
       const nLen = Math.hypot(n.x, n.y);
@@ -0,0 +1,150 @@
+/**
+ * Seeded Random Number Generation
+ *
+ * All gameplay randomness (power-up rolls, enemy spawns, boss attack choice,
+ * drop chances, bomb angles...) goes through `gameRng`. Cosmetic randomness
+ * (particles, rotations, background hue) goes through `cosmeticRng`, which is
+ * a separate stream so visual effects can never shift gameplay outcomes.
+ *
+ * A run is reproducible from its seed (see `seedRun`) plus its inputs.
+ */
+
+/**
+ * Small, fast, 32-bit state PRNG (mulberry32)
+ */
+export class SeededRandom {
+  private state: number;
+  private seed: number;
+
+  constructor(seed: number = 1) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Reset the stream to a new seed
+   * @param seed - 32-bit unsigned seed
+   */
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /** Internal state, for snapshotting mid-run */
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1) - drop-in replacement for Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [0, maxExclusive)
+   */
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  /**
+   * True with the given probability
+   * @param probability - 0..1
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick a random element from a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  /**
+   * Return a shuffled copy (Fisher-Yates)
+   */
+  shuffle<T>(items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = this.int(i + 1);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+}
+
+/**
+ * Derive a well-mixed 32-bit seed from a base seed and a salt
+ * @param seed - Base seed
+ * @param salt - Stream / level / purpose discriminator
+ */
+export function deriveSeed(seed: number, salt: number): number {
+  let h = (seed ^ Math.imul(salt + 0x9e3779b9, 0x85ebca6b)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x7feb352d);
+  h = Math.imul(h ^ (h >>> 15), 0x846ca68b);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Hash a string (e.g. a date like "2025-01-31") into a 32-bit seed
+ */
+export function seedFromString(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Create a fresh, non-deterministic seed for a new run
+ */
+export function createRunSeed(): number {
+  if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+  }
+  return (Date.now() ^ (performance.now() * 1000)) >>> 0;
+}
+
+const COSMETIC_STREAM_SALT = 0xc05e;
+
+/** Gameplay stream - everything that can change the outcome of a run */
+export const gameRng = new SeededRandom(createRunSeed());
+
+/** Cosmetic stream - particles and visual jitter only */
+export const cosmeticRng = new SeededRandom(deriveSeed(gameRng.getSeed(), COSMETIC_STREAM_SALT));
+
+/**
+ * Seed both streams for a new run
+ * @param seed - Run seed; a fresh one is generated when omitted
+ * @returns The seed actually used
+ */
+export function seedRun(seed: number = createRunSeed()): number {
+  gameRng.setSeed(seed);
+  cosmeticRng.setSeed(deriveSeed(seed, COSMETIC_STREAM_SALT));
+  return gameRng.getSeed();
+}
@@ -0,0 +1,294 @@
+/**
+ * Score Outbox
+ * Score submissions that couldn't reach `submit-score` (offline, rate limited,
+ * server error) are kept in IndexedDB and retried with exponential backoff
+ * whenever the app is open and online. Where the browser supports Background
+ * Sync the service worker also flushes the outbox after the tab is closed
+ * (public/score-outbox-sw.js, imported into the Workbox worker). Both sides
+ * claim an entry inside a readwrite transaction before sending it, so a score
+ * is never sent twice at once. Every attempt carries the same submission id, so
+ * a retry of a score the server already stored (the response was lost) is not
+ * stored again.
+ */
+
+import { FunctionsFetchError, FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { playerProfile } from "@/utils/playerProfile";
+
+// Shared with public/score-outbox-sw.js
+const DB_NAME = "vibing-arkanoid-score-outbox";
+const DB_VERSION = 1;
+const STORE_NAME = "submissions";
+export const SCORE_OUTBOX_SYNC_TAG = "score-outbox";
+export const SCORE_OUTBOX_UPDATED_MESSAGE = "score-outbox-updated";
+
+const CLAIM_MS = 30_000; // An entry being sent is skipped by other flushes for this long
+const BASE_RETRY_MS = 5_000;
+const MAX_RETRY_MS = 30 * 60_000;
+const RATE_LIMIT_RETRY_MS = 15_000; // submit-score allows one submission per 10 s per IP
+
+/** Request body for the `submit-score` edge function */
+export interface ScoreSubmission {
+  type: "high_score" | "boss_rush" | "daily";
+  player_name: string;
+  score: number;
+  level?: number;
+  completion_time_ms?: number;
+  boss_level?: number;
+  game_mode?: string;
+  assisted?: boolean;
+  submission_id?: string; // Same on every attempt; submit-score stores each id once
+  [field: string]: unknown;
+}
+
+export interface PendingScore {
+  id: number; // Auto-incremented key, also the submission order
+  body: ScoreSubmission;
+  endpoint: string; // Function URL and key, so the service worker can send it without the app
+  apiKey: string;
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  claimedUntil: number;
+}
+
+/** Submitted now, or saved to the outbox to be sent later */
+export type ScoreSubmitResult = "submitted" | "queued";
+
+const SUBMIT_SCORE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/submit-score`;
+const SUPABASE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+type SyncRegistration = ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id", autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry (e.g. after private-mode storage is re-enabled)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Mark an entry as being sent, unless it's not due yet or another flush has it
+ * @returns The claimed entry, or null
+ */
+async function claimEntry(id: number, now: number): Promise<PendingScore | null> {
+  const db = await openDatabase();
+  return new Promise<PendingScore | null>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+    let claimed: PendingScore | null = null;
+    const request = store.get(id) as IDBRequest<PendingScore | undefined>;
+    request.onsuccess = () => {
+      const entry = request.result;
+      if (!entry || entry.nextAttemptAt > now || entry.claimedUntil > now) return;
+      // Entries queued before submission ids existed get one for their remaining attempts
+      const body = entry.body.submission_id ? entry.body : { ...entry.body, submission_id: crypto.randomUUID() };
+      claimed = { ...entry, body, claimedUntil: now + CLAIM_MS };
+      store.put(claimed);
+    };
+    transaction.oncomplete = () => resolve(claimed);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/** Delay before the next attempt, doubling per failed attempt */
+const getRetryDelay = (attempts: number, rateLimited: boolean) =>
+  Math.max(rateLimited ? RATE_LIMIT_RETRY_MS : 0, Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** (attempts - 1)));
+
+/** HTTP status of a failed `functions.invoke`, if the server answered at all */
+const getErrorStatus = (err: unknown): number | null =>
+  err instanceof FunctionsHttpError && err.context instanceof Response ? err.context.status : null;
+
+/**
+ * Whether a failed submission is worth retrying: no connection, rate limited
+ * or a server error. Rejected scores (validation, duplicates) are not.
+ */
+const isRetryableError = (err: unknown): boolean => {
+  if (err instanceof FunctionsFetchError) return true;
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const status = getErrorStatus(err);
+  return status === 429 || (status !== null && status >= 500);
+};
+
+async function invokeSubmitScore(body: ScoreSubmission): Promise<void> {
+  const response = await supabase.functions.invoke("submit-score", { body });
+  if (response.error) throw response.error;
+  const result = response.data as { error?: string };
+  if (result?.error) throw new Error(result.error);
+}
+
+class ScoreOutbox {
+  private listeners = new Set<() => void>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing = false;
+  private started = false;
+
+  /**
+   * Retry queued scores when the app starts, comes back online, or the
+   * service worker reports it flushed some
+   */
+  start(): void {
+    if (this.started || typeof window === "undefined") return;
+    this.started = true;
+    window.addEventListener("online", () => void this.flush());
+    if ("serviceWorker" in navigator) {
+      navigator.serviceWorker.addEventListener("message", (event) => {
+        if (event.data?.type === SCORE_OUTBOX_UPDATED_MESSAGE) this.notify();
+      });
+    }
+    void this.flush();
+  }
+
+  /**
+   * Send a score now; if it can't get through, queue it for later.
+   * Throws if the server rejected the score (it won't be retried).
+   */
+  async submit(submission: ScoreSubmission): Promise<ScoreSubmitResult> {
+    // The player profile and submission id travel with the queued body, so a later
+    // retry is still attributed and can't be stored twice
+    const body: ScoreSubmission = {
+      ...submission,
+      ...playerProfile.getCredentials(),
+      submission_id: crypto.randomUUID(),
+    };
+    if (navigator.onLine) {
+      try {
+        await invokeSubmitScore(body);
+        return "submitted";
+      } catch (err) {
+        if (!isRetryableError(err)) throw err;
+        console.warn("[ScoreOutbox] Submission failed, queueing:", err);
+        await this.enqueue(body, 1, getErrorStatus(err) === 429).catch(() => {
+          throw err; // No IndexedDB: report the original failure
+        });
+        return "queued";
+      }
+    }
+    await this.enqueue(body, 0, false);
+    return "queued";
+  }
+
+  /**
+   * Scores waiting to be submitted, oldest first
+   */
+  async getPending(): Promise<PendingScore[]> {
+    try {
+      return await runRequest("readonly", (store) => store.getAll() as IDBRequest<PendingScore[]>);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Called whenever the outbox changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send every entry that is due, then schedule the next retry
+   */
+  async flush(): Promise<void> {
+    if (this.flushing || !navigator.onLine) return;
+    this.flushing = true;
+    try {
+      const now = Date.now();
+      for (const pending of await this.getPending()) {
+        const entry = await claimEntry(pending.id, now);
+        if (!entry) continue;
+        try {
+          await invokeSubmitScore(entry.body);
+          await runRequest("readwrite", (store) => store.delete(entry.id));
+        } catch (err) {
+          if (isRetryableError(err)) {
+            const attempts = entry.attempts + 1;
+            const nextAttemptAt = Date.now() + getRetryDelay(attempts, getErrorStatus(err) === 429);
+            await runRequest("readwrite", (store) => store.put({ ...entry, attempts, nextAttemptAt, claimedUntil: 0 }));
+          } else {
+            console.error("[ScoreOutbox] Queued score rejected, dropping:", err);
+            await runRequest("readwrite", (store) => store.delete(entry.id));
+          }
+        }
+      }
+    } catch (err) {
+      console.error("[ScoreOutbox] Flush failed:", err);
+    } finally {
+      this.flushing = false;
+      this.notify();
+      void this.scheduleRetry();
+    }
+  }
+
+  private async enqueue(body: ScoreSubmission, attempts: number, rateLimited: boolean): Promise<void> {
+    const now = Date.now();
+    const entry: Omit<PendingScore, "id"> = {
+      body,
+      endpoint: SUBMIT_SCORE_URL,
+      apiKey: SUPABASE_KEY,
+      queuedAt: now,
+      attempts,
+      nextAttemptAt: attempts > 0 ? now + getRetryDelay(attempts, rateLimited) : now,
+      claimedUntil: 0,
+    };
+    await runRequest("readwrite", (store) => store.add(entry));
+    this.notify();
+    void this.registerBackgroundSync();
+    void this.scheduleRetry();
+  }
+
+  private async scheduleRetry(): Promise<void> {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    const pending = await this.getPending();
+    if (pending.length === 0) return;
+    const nextAttemptAt = Math.min(...pending.map((entry) => Math.max(entry.nextAttemptAt, entry.claimedUntil)));
+    this.retryTimer = setTimeout(() => void this.flush(), Math.max(1_000, nextAttemptAt - Date.now()));
+  }
+
+  private async registerBackgroundSync(): Promise<void> {
+    if (!("serviceWorker" in navigator)) return;
+    try {
+      const registration = (await navigator.serviceWorker.ready) as SyncRegistration;
+      await registration.sync?.register(SCORE_OUTBOX_SYNC_TAG);
+    } catch {
+      // Background Sync unavailable: the app retries while it's open
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const scoreOutbox = new ScoreOutbox();
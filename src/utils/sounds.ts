@@ -1,7 +1,162 @@
 // Simple sound effects using Web Audio API
+
+import { loadStoredTracks, storeTrack, deleteStoredTrack, type StoredTrack } from "@/utils/musicLibrary";
+
+// ─── Mixer ───
+// Every sound goes through a bus: music / sfx / ui -> master -> speakers.
+// Music tracks (HTMLAudioElement) are routed in with MediaElementSource nodes,
+// synthesized effects connect their envelope gain straight to a bus.
+
+export type MixerBus = "master" | "music" | "sfx" | "ui";
+export type MixerSettings = Record<MixerBus, number>; // Bus gains, 0-1
+
+export const MIXER_BUSES: MixerBus[] = ["master", "music", "sfx", "ui"];
+export const DEFAULT_MIXER_SETTINGS: MixerSettings = { master: 1, music: 1, sfx: 1, ui: 1 };
+
+const MIXER_STORAGE_KEY = "vibing-arkanoid-mixer";
+
+/** Per-source trims, applied on the element before it enters its bus */
+const MUSIC_TRACK_VOLUME = 0.3;
+const BOSS_MUSIC_VOLUME = 0.3;
+const HIGH_SCORE_MUSIC_VOLUME = 0.4;
+const BOSS_INTRO_VOLUME = 0.7;
+
+/** Music ducking: time constants (seconds) for the duck / recovery ramps */
+const DUCK_ATTACK = 0.05;
+const DUCK_RELEASE = 0.4;
+const BOSS_INTRO_DUCK_SECONDS = 4.2; // Length of the siren
+
+interface MixerGraph {
+  buses: Record<MixerBus, GainNode>;
+  analyser: AnalyserNode; // Music input; pre-duck so ducking and bus volume don't dim the visuals
+  duck: GainNode; // Ducked for big events, feeds the music bus
+}
+
+// ─── Music analysis ───
+// Band energies of whatever music is playing, for music-reactive visuals.
+
+/** Per-band energy of the current music, each 0-1 */
+export interface MusicBands {
+  bass: number; // 20-250 Hz
+  mid: number; // 250-2000 Hz
+  high: number; // 2000-8000 Hz
+  beat: boolean; // Bass onset detected since the previous read
+}
+
+const SILENT_BANDS: MusicBands = { bass: 0, mid: 0, high: 0, beat: false };
+
+const ANALYSER_FFT_SIZE = 1024;
+const BAND_RANGES_HZ: Record<Exclude<keyof MusicBands, "beat">, [number, number]> = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  high: [2000, 8000],
+};
+/** getBassEnergy() range: the first 8 bins of the old 256-point boss analyser */
+const LEGACY_BASS_MAX_HZ = 1400;
+
+/** Beat onset: bass jumps this far above its running average... */
+const BEAT_THRESHOLD = 1.4;
+/** ...is loud enough to count... */
+const BEAT_MIN_BASS = 0.3;
+/** ...and isn't the same kick as the last beat (ms) */
+const BEAT_MIN_INTERVAL_MS = 150;
+/** Weight of each new read in the running bass average */
+const BASS_AVERAGE_WEIGHT = 0.05;
+
+// ─── Playlists ───
+// Built-in tracks ship in /public, user tracks live in the IndexedDB music
+// library. Track indices (getTrackNames, setCurrentTrack) refer to the combined
+// list: built-in tracks first, then user tracks in the order they were added.
+
+export interface MusicTrack {
+  id: string; // Built-in: its URL; user track: "user-<library id>"
+  name: string;
+  url: string; // Object URL for user tracks
+  custom: boolean;
+}
+
+export type Playlist = "all" | "builtIn" | "custom";
+export type BossPlaylist = "bossThemes" | Playlist;
+
+export interface PlaylistSettings {
+  levelPlaylist: Playlist; // Plays on normal levels
+  bossPlaylist: BossPlaylist; // Plays during boss fights
+  shuffle: boolean;
+}
+
+export const DEFAULT_PLAYLIST_SETTINGS: PlaylistSettings = {
+  levelPlaylist: "all",
+  bossPlaylist: "bossThemes",
+  shuffle: false,
+};
+
+const PLAYLIST_STORAGE_KEY = "vibing-arkanoid-playlists";
+
+const BUILT_IN_TRACKS: MusicTrack[] = [
+  ['/Pixel_Frenzy-2.mp3', 'Pixel Frenzy'],
+  ['/sound_2.mp3', 'Sound 2'],
+  ['/level_3.mp3', 'Level 3'],
+  ['/level_4.mp3', 'Level 4'],
+  ['/level_5.mp3', 'Level 5'],
+  ['/level_7.mp3', 'Level 7'],
+  ['/Turrican.mp3', 'Turrican'],
+  ['/Flubber_Happy_Moderate_Amiga.mp3', 'Flubber Happy'],
+  ['/leve_boss_chip_atari.mp3', 'Boss Chip Atari'],
+  ['/level_cave_c64.mp3', 'Cave C64'],
+  ['/level_cave_2_c64.mp3', 'Cave 2 C64'],
+  ['/level_cave_chip_atari.mp3', 'Cave Chip Atari'],
+  ['/level_cave_chip_atari_2.mp3', 'Cave Chip Atari 2'],
+  ['/level_dessert_chip_atari_2.mp3', 'Desert Chip Atari 2'],
+  ['/level_dessert_chip_atari_2_2.mp3', 'Desert Chip Atari 2-2'],
+].map(([url, name]) => ({ id: url, name, url, custom: false }));
+
+const BOSS_THEMES: Record<number, string> = {
+  5: '/Boss_level_cube.mp3',
+  10: '/Boss_level_sphere.mp3',
+  15: '/Boss_level_pyramid.mp3',
+  20: '/Boss_level_Hexagon.mp3',
+};
+
+function loadPlaylistSettings(): PlaylistSettings {
+  try {
+    const stored = localStorage.getItem(PLAYLIST_STORAGE_KEY);
+    if (stored) return { ...DEFAULT_PLAYLIST_SETTINGS, ...JSON.parse(stored) };
+  } catch {
+    // Ignore localStorage errors
+  }
+  return { ...DEFAULT_PLAYLIST_SETTINGS };
+}
+
+function shuffled<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function loadMixerSettings(): MixerSettings {
+  try {
+    const stored = localStorage.getItem(MIXER_STORAGE_KEY);
+    if (stored) return { ...DEFAULT_MIXER_SETTINGS, ...JSON.parse(stored) };
+  } catch {
+    // Ignore localStorage errors
+  }
+  return { ...DEFAULT_MIXER_SETTINGS };
+}
+
 class SoundManager {
   private audioContext: AudioContext | null = null;
-  private musicTracks: HTMLAudioElement[] = [];
+  private mixer: MixerGraph | null = null;
+  private mixerSettings: MixerSettings = loadMixerSettings();
+  private duckLevel = 1;
+  private duckReleaseAt = 0; // AudioContext time when the current duck recovers
+  private musicElements = new Map<string, HTMLAudioElement>(); // Keyed by track id
+  private userTracks: MusicTrack[] = [];
+  private playlistSettings: PlaylistSettings = loadPlaylistSettings();
+  private playOrder: number[] | null = null; // Level playlist in play order; null = rebuild
+  private bossTrackCursor = 0;
   private currentTrackIndex = 0;
   private highScoreMusic: HTMLAudioElement | null = null;
   private bossMusic: HTMLAudioElement | null = null;
@@ -9,61 +164,217 @@ class SoundManager {
   private savedBackgroundMusicIndex: number = 0;
   private musicEnabled = true;
   private sfxEnabled = true;
-  private analyser: AnalyserNode | null = null;
-  private frequencyData: Uint8Array | null = null;
-  private bossMusicSource: MediaElementAudioSourceNode | null = null;
-  private frequencyDataArray: Float64Array | null = null;
-  private trackUrls = [
-    '/Pixel_Frenzy-2.mp3',
-    '/sound_2.mp3',
-    '/level_3.mp3',
-    '/level_4.mp3',
-    '/level_5.mp3',
-    '/level_7.mp3',
-    '/Turrican.mp3',
-    '/Flubber_Happy_Moderate_Amiga.mp3',
-    '/leve_boss_chip_atari.mp3',
-    '/level_cave_c64.mp3',
-    '/level_cave_2_c64.mp3',
-    '/level_cave_chip_atari.mp3',
-    '/level_cave_chip_atari_2.mp3',
-    '/level_dessert_chip_atari_2.mp3',
-    '/level_dessert_chip_atari_2_2.mp3'
-  ];
+  private frequencyData: Uint8Array<ArrayBuffer> | null = null;
+  private bassAverage = 0;
+  private lastBeatAt = 0;
+
+  constructor() {
+    this.refreshUserTracks();
+  }
 
   private getAudioContext() {
     if (!this.audioContext) {
       this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.mixer = this.createMixer(this.audioContext);
     }
     return this.audioContext;
   }
 
+  private createMixer(ctx: AudioContext): MixerGraph {
+    const buses = {} as Record<MixerBus, GainNode>;
+    for (const bus of MIXER_BUSES) {
+      buses[bus] = ctx.createGain();
+      buses[bus].gain.value = this.mixerSettings[bus];
+      buses[bus].connect(bus === "master" ? ctx.destination : buses.master);
+    }
+    const duck = ctx.createGain();
+    duck.connect(buses.music);
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = ANALYSER_FFT_SIZE;
+    analyser.connect(duck);
+    this.frequencyData = new Uint8Array(new ArrayBuffer(analyser.frequencyBinCount));
+    return { buses, analyser, duck };
+  }
+
+  /**
+   * Input node of a bus (music goes through the analyser and ducking stage first)
+   */
+  private getBus(bus: Exclude<MixerBus, "master">): AudioNode {
+    this.getAudioContext();
+    return bus === "music" ? this.mixer!.analyser : this.mixer!.buses[bus];
+  }
+
+  /**
+   * Route an audio element into a bus. Returns its source node (null if the
+   * element can't be routed, in which case it plays unmixed).
+   */
+  private routeMediaElement(audio: HTMLAudioElement, bus: "music" | "sfx"): MediaElementAudioSourceNode | null {
+    try {
+      const ctx = this.getAudioContext();
+      // Routed elements are silent while the context is suspended (autoplay policy)
+      if (ctx.state === "suspended") ctx.resume().catch(() => {});
+      const source = ctx.createMediaElementSource(audio);
+      source.connect(this.getBus(bus));
+      return source;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private getMusicTrack(index: number): HTMLAudioElement {
+    const track = this.getAllTracks()[index] ?? BUILT_IN_TRACKS[0];
+    let audio = this.musicElements.get(track.id);
+    if (!audio) {
+      audio = new Audio(track.url);
+      audio.volume = MUSIC_TRACK_VOLUME;
+      audio.addEventListener('ended', () => this.handleTrackEnd());
+      this.routeMediaElement(audio, "music");
+      this.musicElements.set(track.id, audio);
+    }
+    return audio;
+  }
+
+  private getCurrentMusicElement(): HTMLAudioElement | undefined {
+    const track = this.getAllTracks()[this.currentTrackIndex];
+    return track ? this.musicElements.get(track.id) : undefined;
+  }
+
+  private getAllTracks(): MusicTrack[] {
+    return [...BUILT_IN_TRACKS, ...this.userTracks];
+  }
+
+  /**
+   * Combined-list indices of a playlist. An empty user playlist falls back to
+   * the built-in tracks so there's always something to play.
+   */
+  private getPlaylistIndices(playlist: Playlist): number[] {
+    const tracks = this.getAllTracks();
+    const indices = tracks.map((_, i) => i).filter((i) =>
+      playlist === "all" ? true : playlist === "custom" ? tracks[i].custom : !tracks[i].custom
+    );
+    return indices.length > 0 ? indices : BUILT_IN_TRACKS.map((_, i) => i);
+  }
+
+  private getPlayOrder(): number[] {
+    if (!this.playOrder) {
+      const indices = this.getPlaylistIndices(this.playlistSettings.levelPlaylist);
+      this.playOrder = this.playlistSettings.shuffle ? shuffled(indices) : indices;
+    }
+    return this.playOrder;
+  }
+
+  /**
+   * Index of the track before / after the current one in the level playlist.
+   * A track outside the playlist (picked by hand) continues from its start.
+   */
+  private getAdjacentTrack(direction: 1 | -1): number {
+    const order = this.getPlayOrder();
+    const position = order.indexOf(this.currentTrackIndex);
+    if (position === -1) return order[0];
+    return order[(position + direction + order.length) % order.length];
+  }
+
+  /**
+   * Reload user tracks from the music library, keeping the current track
+   * selected (or moving on if it was removed)
+   */
+  private async refreshUserTracks(): Promise<void> {
+    let stored: StoredTrack[] = [];
+    try {
+      stored = await loadStoredTracks();
+    } catch {
+      // No IndexedDB (e.g. private mode): built-in tracks only
+    }
+    const tracksBefore = this.getAllTracks();
+    const currentId = tracksBefore[this.currentTrackIndex]?.id;
+    const savedId = tracksBefore[this.savedBackgroundMusicIndex]?.id;
+    const current = this.getCurrentMusicElement();
+    const wasPlaying = current !== undefined && !current.paused;
+    const previous = new Map(this.userTracks.map((track) => [track.id, track]));
+
+    this.userTracks = stored.map((record) => {
+      const id = `user-${record.id}`;
+      return previous.get(id) ?? { id, name: record.name, url: URL.createObjectURL(record.blob), custom: true };
+    });
+    // Release tracks that were deleted
+    for (const [id, track] of previous) {
+      if (this.userTracks.some((t) => t.id === id)) continue;
+      const audio = this.musicElements.get(id);
+      audio?.pause();
+      this.musicElements.delete(id);
+      URL.revokeObjectURL(track.url);
+    }
+    this.playOrder = null;
+
+    // Indices after a removed track shift down
+    const tracks = this.getAllTracks();
+    this.savedBackgroundMusicIndex = Math.max(0, tracks.findIndex((track) => track.id === savedId));
+    const currentIndex = tracks.findIndex((track) => track.id === currentId);
+    if (currentIndex !== -1) {
+      this.currentTrackIndex = currentIndex;
+    } else {
+      this.currentTrackIndex = this.getPlayOrder()[0];
+      if (wasPlaying && this.musicEnabled) this.playBackgroundMusic();
+    }
+  }
+
+  getMixerSettings(): MixerSettings {
+    return { ...this.mixerSettings };
+  }
+
+  /**
+   * Set a bus gain (0-1); saved and applied to everything on that bus
+   */
+  setBusVolume(bus: MixerBus, volume: number) {
+    this.mixerSettings = { ...this.mixerSettings, [bus]: Math.max(0, Math.min(1, volume)) };
+    if (this.audioContext && this.mixer) {
+      this.mixer.buses[bus].gain.setTargetAtTime(this.mixerSettings[bus], this.audioContext.currentTime, 0.02);
+    }
+    try {
+      localStorage.setItem(MIXER_STORAGE_KEY, JSON.stringify(this.mixerSettings));
+    } catch {
+      // Ignore localStorage errors
+    }
+  }
+
+  /**
+   * Lower the music for a big sound event, then let it recover.
+   * Overlapping ducks keep the deepest level and the latest recovery time.
+   * @param level - Music gain while ducked (0-1)
+   * @param holdSeconds - How long the music stays ducked
+   */
+  duckMusic(level: number, holdSeconds: number) {
+    const ctx = this.getAudioContext();
+    const gain = this.mixer!.duck.gain;
+    const now = ctx.currentTime;
+    const stillDucked = this.duckReleaseAt > now;
+    this.duckLevel = stillDucked ? Math.min(this.duckLevel, level) : level;
+    this.duckReleaseAt = Math.max(this.duckReleaseAt, now + holdSeconds);
+
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.setTargetAtTime(this.duckLevel, now, DUCK_ATTACK);
+    gain.setTargetAtTime(1, this.duckReleaseAt, DUCK_RELEASE);
+  }
+
   playBackgroundMusic(level: number = 1) {
     if (!this.musicEnabled) return;
 
     // Stop all currently playing tracks first
-    this.musicTracks.forEach((track, index) => {
-      if (track && !track.paused) {
+    this.musicElements.forEach((track) => {
+      if (!track.paused) {
         track.pause();
         track.currentTime = 0;
       }
     });
 
-    // Initialize track if not already loaded
-    if (!this.musicTracks[this.currentTrackIndex]) {
-      const audio = new Audio(this.trackUrls[this.currentTrackIndex]);
-      audio.volume = 0.3;
-      audio.addEventListener('ended', () => this.handleTrackEnd());
-      this.musicTracks[this.currentTrackIndex] = audio;
-    }
-
-    // Play current track
-    this.musicTracks[this.currentTrackIndex]?.play().catch(() => {});
+    // Play current track (loaded on first use)
+    this.getMusicTrack(this.currentTrackIndex).play().catch(() => {});
   }
 
   private handleTrackEnd() {
-    // Move to next track in sequence
-    this.currentTrackIndex = (this.currentTrackIndex + 1) % this.trackUrls.length;
+    // Move to next track of the level playlist
+    this.currentTrackIndex = this.getAdjacentTrack(1);
     
     // Play next song immediately if music is enabled
     if (this.musicEnabled) {
@@ -72,20 +383,19 @@ class SoundManager {
   }
 
   initializeRandomTrack() {
-    // Only used at game start to pick random first track
-    this.currentTrackIndex = Math.floor(Math.random() * this.trackUrls.length);
+    // Only used at game start to pick random first track of the level playlist
+    const order = this.getPlayOrder();
+    this.currentTrackIndex = order[Math.floor(Math.random() * order.length)];
   }
 
   pauseBackgroundMusic() {
-    this.musicTracks.forEach(track => track?.pause());
+    this.musicElements.forEach(track => track.pause());
   }
 
   stopBackgroundMusic() {
-    this.musicTracks.forEach(track => {
-      if (track) {
-        track.pause();
-        track.currentTime = 0;
-      }
+    this.musicElements.forEach(track => {
+      track.pause();
+      track.currentTime = 0;
     });
   }
 
@@ -109,8 +419,8 @@ class SoundManager {
   }
 
   setCurrentTrack(trackIndex: number) {
-    const wasPlaying = this.musicTracks[this.currentTrackIndex] && 
-                       !this.musicTracks[this.currentTrackIndex].paused;
+    const current = this.getCurrentMusicElement();
+    const wasPlaying = current !== undefined && !current.paused;
     
     this.stopBackgroundMusic();
     this.currentTrackIndex = trackIndex;
@@ -125,24 +435,55 @@ class SoundManager {
   }
 
   getTrackNames(): string[] {
-    return [
-      'Pixel Frenzy',
-      'Sound 2',
-      'Level 3',
-      'Level 4',
-      'Level 5',
-      'Level 7',
-      'Turrican',
-      'Turrican 2',
-      'Flubber Happy',
-      'Boss Chip Atari',
-      'Cave C64',
-      'Cave 2 C64',
-      'Cave Chip Atari',
-      'Cave Chip Atari 2',
-      'Desert Chip Atari 2',
-      'Desert Chip Atari 2-2'
-    ];
+    return this.getAllTracks().map((track) => track.name);
+  }
+
+  /**
+   * Built-in and user tracks, in track-index order
+   */
+  getMusicTracks(): MusicTrack[] {
+    return this.getAllTracks().map((track) => ({ ...track }));
+  }
+
+  /**
+   * Save audio files to the music library and add them to the playlists
+   * @returns One message per file that was rejected
+   */
+  async addUserTracks(files: File[]): Promise<string[]> {
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        await storeTrack(file);
+      } catch (e) {
+        errors.push(e instanceof Error ? e.message : `Could not save ${file.name}`);
+      }
+    }
+    await this.refreshUserTracks();
+    return errors;
+  }
+
+  async removeUserTrack(id: string): Promise<void> {
+    const libraryId = Number(id.replace(/^user-/, ""));
+    try {
+      await deleteStoredTrack(libraryId);
+    } catch {
+      // Already gone; the refresh below resyncs
+    }
+    await this.refreshUserTracks();
+  }
+
+  getPlaylistSettings(): PlaylistSettings {
+    return { ...this.playlistSettings };
+  }
+
+  setPlaylistSettings(partial: Partial<PlaylistSettings>) {
+    this.playlistSettings = { ...this.playlistSettings, ...partial };
+    this.playOrder = null;
+    try {
+      localStorage.setItem(PLAYLIST_STORAGE_KEY, JSON.stringify(this.playlistSettings));
+    } catch {
+      // Ignore localStorage errors
+    }
   }
 
   playHighScoreMusic() {
@@ -150,7 +491,8 @@ class SoundManager {
     if (!this.highScoreMusic) {
       this.highScoreMusic = new Audio('/High_score.mp3');
       this.highScoreMusic.loop = true;
-      this.highScoreMusic.volume = 0.4;
+      this.highScoreMusic.volume = HIGH_SCORE_MUSIC_VOLUME;
+      this.routeMediaElement(this.highScoreMusic, "music");
     }
     this.highScoreMusic.play().catch(() => {});
   }
@@ -169,7 +511,7 @@ class SoundManager {
     const gainNode = ctx.createGain();
 
     oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(this.getBus("sfx"));
 
     oscillator.frequency.value = 200;
     oscillator.type = 'sine';
@@ -189,7 +531,7 @@ class SoundManager {
     const thud = ctx.createOscillator();
     const thudGain = ctx.createGain();
     thud.connect(thudGain);
-    thudGain.connect(ctx.destination);
+    thudGain.connect(this.getBus("sfx"));
     thud.type = 'square';
     thud.frequency.setValueAtTime(100, ctx.currentTime);
     thud.frequency.exponentialRampToValueAtTime(60, ctx.currentTime + 0.2);
@@ -202,7 +544,7 @@ class SoundManager {
     const sweep = ctx.createOscillator();
     const sweepGain = ctx.createGain();
     sweep.connect(sweepGain);
-    sweepGain.connect(ctx.destination);
+    sweepGain.connect(this.getBus("sfx"));
     sweep.type = 'sawtooth';
     sweep.frequency.setValueAtTime(300, ctx.currentTime);
     sweep.frequency.exponentialRampToValueAtTime(80, ctx.currentTime + 0.18);
@@ -220,7 +562,7 @@ class SoundManager {
     const ping = ctx.createOscillator();
     const pingGain = ctx.createGain();
     ping.connect(pingGain);
-    pingGain.connect(ctx.destination);
+    pingGain.connect(this.getBus("sfx"));
     ping.type = 'sine';
     ping.frequency.setValueAtTime(800, ctx.currentTime);
     ping.frequency.exponentialRampToValueAtTime(600, ctx.currentTime + 0.08);
@@ -233,7 +575,7 @@ class SoundManager {
     const chirp = ctx.createOscillator();
     const chirpGain = ctx.createGain();
     chirp.connect(chirpGain);
-    chirpGain.connect(ctx.destination);
+    chirpGain.connect(this.getBus("sfx"));
     chirp.type = 'triangle';
     chirp.frequency.setValueAtTime(1200, ctx.currentTime + 0.02);
     chirp.frequency.exponentialRampToValueAtTime(900, ctx.currentTime + 0.07);
@@ -250,7 +592,7 @@ class SoundManager {
     const gainNode = ctx.createGain();
 
     oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(this.getBus("sfx"));
 
     // Progressive sound effects for cracked bricks
     if (brickType === "cracked" && hitsRemaining !== undefined) {
@@ -295,7 +637,7 @@ class SoundManager {
     const gainNode = ctx.createGain();
 
     oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(this.getBus("sfx"));
 
     oscillator.frequency.setValueAtTime(300, ctx.currentTime);
     oscillator.frequency.exponentialRampToValueAtTime(600, ctx.currentTime + 0.2);
@@ -315,7 +657,7 @@ class SoundManager {
     const gainNode = ctx.createGain();
 
     oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(this.getBus("sfx"));
 
     oscillator.frequency.setValueAtTime(800, ctx.currentTime);
     oscillator.frequency.exponentialRampToValueAtTime(100, ctx.currentTime + 0.1);
@@ -335,7 +677,7 @@ class SoundManager {
     const gainNode = ctx.createGain();
 
     oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(this.getBus("sfx"));
 
     oscillator.frequency.setValueAtTime(400, ctx.currentTime);
     oscillator.frequency.exponentialRampToValueAtTime(50, ctx.currentTime + 0.5);
@@ -356,7 +698,7 @@ class SoundManager {
       const gainNode = ctx.createGain();
 
       oscillator.connect(gainNode);
-      gainNode.connect(ctx.destination);
+      gainNode.connect(this.getBus("sfx"));
 
       const freq = [262, 330, 392, 523][i]; // C, E, G, C
       oscillator.frequency.value = freq;
@@ -389,7 +731,7 @@ class SoundManager {
       const gain = ctx.createGain();
       
       osc.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(this.getBus("sfx"));
       
       osc.type = 'sine';
       osc.frequency.value = freq;
@@ -409,7 +751,7 @@ class SoundManager {
       const gain = ctx.createGain();
       
       osc.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(this.getBus("sfx"));
       
       osc.type = 'triangle';
       osc.frequency.value = i === 0 ? 196 : 392; // G3, G4 bass notes
@@ -432,7 +774,7 @@ class SoundManager {
 
     oscillator.connect(filter);
     filter.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(this.getBus("sfx"));
 
     oscillator.frequency.setValueAtTime(150, ctx.currentTime);
     oscillator.frequency.exponentialRampToValueAtTime(30, ctx.currentTime + 0.4);
@@ -457,7 +799,7 @@ class SoundManager {
     const bass = ctx.createOscillator();
     const bassGain = ctx.createGain();
     bass.connect(bassGain);
-    bassGain.connect(ctx.destination);
+    bassGain.connect(this.getBus("sfx"));
     bass.type = 'sawtooth';
     bass.frequency.setValueAtTime(80, ctx.currentTime);
     bass.frequency.exponentialRampToValueAtTime(20, ctx.currentTime + 0.6);
@@ -470,7 +812,7 @@ class SoundManager {
     const mid = ctx.createOscillator();
     const midGain = ctx.createGain();
     mid.connect(midGain);
-    midGain.connect(ctx.destination);
+    midGain.connect(this.getBus("sfx"));
     mid.type = 'square';
     mid.frequency.setValueAtTime(300, ctx.currentTime);
     mid.frequency.exponentialRampToValueAtTime(50, ctx.currentTime + 0.3);
@@ -485,7 +827,7 @@ class SoundManager {
     const highFilter = ctx.createBiquadFilter();
     high.connect(highFilter);
     highFilter.connect(highGain);
-    highGain.connect(ctx.destination);
+    highGain.connect(this.getBus("sfx"));
     high.type = 'sawtooth';
     high.frequency.setValueAtTime(2000, ctx.currentTime);
     high.frequency.exponentialRampToValueAtTime(100, ctx.currentTime + 0.2);
@@ -506,7 +848,7 @@ class SoundManager {
     const sweep = ctx.createOscillator();
     const sweepGain = ctx.createGain();
     sweep.connect(sweepGain);
-    sweepGain.connect(ctx.destination);
+    sweepGain.connect(this.getBus("sfx"));
     sweep.type = 'sine';
     sweep.frequency.setValueAtTime(200, ctx.currentTime);
     sweep.frequency.exponentialRampToValueAtTime(800, ctx.currentTime + 0.25);
@@ -519,7 +861,7 @@ class SoundManager {
     const sparkle = ctx.createOscillator();
     const sparkleGain = ctx.createGain();
     sparkle.connect(sparkleGain);
-    sparkleGain.connect(ctx.destination);
+    sparkleGain.connect(this.getBus("sfx"));
     sparkle.type = 'triangle';
     sparkle.frequency.setValueAtTime(1200, ctx.currentTime);
     sparkle.frequency.exponentialRampToValueAtTime(600, ctx.currentTime + 0.2);
@@ -532,7 +874,7 @@ class SoundManager {
     const bass = ctx.createOscillator();
     const bassGain = ctx.createGain();
     bass.connect(bassGain);
-    bassGain.connect(ctx.destination);
+    bassGain.connect(this.getBus("sfx"));
     bass.type = 'sawtooth';
     bass.frequency.setValueAtTime(100, ctx.currentTime);
     bass.frequency.exponentialRampToValueAtTime(50, ctx.currentTime + 0.15);
@@ -597,7 +939,7 @@ class SoundManager {
 
     source.buffer = buffer;
     source.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(this.getBus("sfx"));
 
     // Apply 20% volume boost for power-up sounds
     gainNode.gain.value = volume * 1.2;
@@ -654,7 +996,7 @@ class SoundManager {
     osc1.connect(filter);
     osc2.connect(filter);
     filter.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(this.getBus("sfx"));
     
     osc1.type = 'sawtooth';
     osc2.type = 'square';
@@ -688,7 +1030,7 @@ class SoundManager {
     const gainNode = ctx.createGain();
     
     oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(this.getBus("sfx"));
     
     // Pew sound - quick descending pitch
     oscillator.frequency.setValueAtTime(800, ctx.currentTime);
@@ -709,7 +1051,7 @@ class SoundManager {
     const gainNode = ctx.createGain();
     
     oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(this.getBus("sfx"));
     
     oscillator.type = 'sawtooth';
     oscillator.frequency.setValueAtTime(100, ctx.currentTime);
@@ -733,7 +1075,7 @@ class SoundManager {
     const bass = ctx.createOscillator();
     const bassGain = ctx.createGain();
     bass.connect(bassGain);
-    bassGain.connect(ctx.destination);
+    bassGain.connect(this.getBus("sfx"));
     bass.type = 'sine';
     bass.frequency.setValueAtTime(60, ctx.currentTime);
     bass.frequency.linearRampToValueAtTime(120, ctx.currentTime + 0.8);
@@ -747,7 +1089,7 @@ class SoundManager {
     const siren = ctx.createOscillator();
     const sirenGain = ctx.createGain();
     siren.connect(sirenGain);
-    sirenGain.connect(ctx.destination);
+    sirenGain.connect(this.getBus("sfx"));
     siren.type = 'square';
     siren.frequency.setValueAtTime(200, ctx.currentTime);
     siren.frequency.exponentialRampToValueAtTime(1200, ctx.currentTime + 0.7);
@@ -763,7 +1105,7 @@ class SoundManager {
     const highFilter = ctx.createBiquadFilter();
     high.connect(highFilter);
     highFilter.connect(highGain);
-    highGain.connect(ctx.destination);
+    highGain.connect(this.getBus("sfx"));
     high.type = 'triangle';
     high.frequency.setValueAtTime(800, ctx.currentTime);
     high.frequency.exponentialRampToValueAtTime(1600, ctx.currentTime + 0.6);
@@ -787,7 +1129,7 @@ class SoundManager {
     const dischargeFilter = ctx.createBiquadFilter();
     discharge.connect(dischargeFilter);
     dischargeFilter.connect(dischargeGain);
-    dischargeGain.connect(ctx.destination);
+    dischargeGain.connect(this.getBus("sfx"));
     discharge.type = 'sawtooth';
     discharge.frequency.setValueAtTime(2000, ctx.currentTime);
     discharge.frequency.exponentialRampToValueAtTime(100, ctx.currentTime + 0.3);
@@ -803,7 +1145,7 @@ class SoundManager {
     const hum = ctx.createOscillator();
     const humGain = ctx.createGain();
     hum.connect(humGain);
-    humGain.connect(ctx.destination);
+    humGain.connect(this.getBus("sfx"));
     hum.type = 'sine';
     hum.frequency.setValueAtTime(120, ctx.currentTime);
     hum.frequency.exponentialRampToValueAtTime(40, ctx.currentTime + 0.5);
@@ -818,7 +1160,7 @@ class SoundManager {
         const crackle = ctx.createOscillator();
         const crackleGain = ctx.createGain();
         crackle.connect(crackleGain);
-        crackleGain.connect(ctx.destination);
+        crackleGain.connect(this.getBus("sfx"));
         crackle.type = 'square';
         crackle.frequency.setValueAtTime(800 + Math.random() * 600, ctx.currentTime);
         crackle.frequency.exponentialRampToValueAtTime(150, ctx.currentTime + 0.05);
@@ -838,7 +1180,7 @@ class SoundManager {
     const gainNode = ctx.createGain();
     
     oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(this.getBus("sfx"));
     
     oscillator.type = 'square';
     oscillator.frequency.setValueAtTime(200, ctx.currentTime);
@@ -863,7 +1205,7 @@ class SoundManager {
         const gainNode = ctx.createGain();
         
         oscillator.connect(gainNode);
-        gainNode.connect(ctx.destination);
+        gainNode.connect(this.getBus("sfx"));
         
         oscillator.type = 'sawtooth';
         oscillator.frequency.setValueAtTime(400 - i * 100, ctx.currentTime);
@@ -886,7 +1228,7 @@ class SoundManager {
     const gainNode = ctx.createGain();
     
     oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(this.getBus("sfx"));
     
     oscillator.type = 'sine';
     oscillator.frequency.setValueAtTime(300, ctx.currentTime);
@@ -902,27 +1244,13 @@ class SoundManager {
   playBossIntroSound() {
     if (!this.sfxEnabled) return;
     
-    // Duck music volume by 80% during boss intro
-    const originalVolumes: number[] = [];
-    this.musicTracks.forEach((track, index) => {
-      if (track) {
-        originalVolumes[index] = track.volume;
-        track.volume = track.volume * 0.2; // Reduce to 20%
-      }
-    });
-    
+    // Duck music to 20% while the siren plays
+    this.duckMusic(0.2, BOSS_INTRO_DUCK_SECONDS);
+
     const audio = new Audio('/siren-alarm-boss.ogg');
-    audio.volume = 0.7;
-    
-    // Restore music volume after boss intro sound ends
-    audio.addEventListener('ended', () => {
-      this.musicTracks.forEach((track, index) => {
-        if (track && originalVolumes[index] !== undefined) {
-          track.volume = originalVolumes[index];
-        }
-      });
-    });
-    
+    audio.volume = BOSS_INTRO_VOLUME;
+    this.routeMediaElement(audio, "sfx");
+
     audio.play().catch(err => console.log('Boss intro sound failed:', err));
   }
 
@@ -935,7 +1263,7 @@ class SoundManager {
     const gainNode = audioContext.createGain();
     
     oscillator.connect(gainNode);
-    gainNode.connect(audioContext.destination);
+    gainNode.connect(this.getBus("sfx"));
     
     // Swooshing pew sound - sweep from high to mid with wave modulation
     oscillator.type = "sawtooth";
@@ -999,7 +1327,7 @@ class SoundManager {
       const gainNode = ctx.createGain();
 
       oscillator.connect(gainNode);
-      gainNode.connect(ctx.destination);
+      gainNode.connect(this.getBus("sfx"));
 
       const freq = [800, 1200, 1600][i];
       oscillator.frequency.setValueAtTime(freq, ctx.currentTime + time);
@@ -1017,6 +1345,7 @@ class SoundManager {
   playBonusComplete() {
     if (!this.sfxEnabled) return;
     const ctx = this.getAudioContext();
+    this.duckMusic(0.35, 1.2);
     // Grand triumphant fanfare with rich harmonics
     const melody = [
       { time: 0, freq: 523 },     // C5
@@ -1033,7 +1362,7 @@ class SoundManager {
       const oscillator = ctx.createOscillator();
       const gainNode = ctx.createGain();
       oscillator.connect(gainNode);
-      gainNode.connect(ctx.destination);
+      gainNode.connect(this.getBus("sfx"));
       oscillator.frequency.value = freq;
       oscillator.type = 'sine';
       gainNode.gain.setValueAtTime(0.35, ctx.currentTime + time);
@@ -1045,7 +1374,7 @@ class SoundManager {
       const osc2 = ctx.createOscillator();
       const gain2 = ctx.createGain();
       osc2.connect(gain2);
-      gain2.connect(ctx.destination);
+      gain2.connect(this.getBus("sfx"));
       osc2.frequency.value = freq * 2;
       osc2.type = 'sine';
       gain2.gain.setValueAtTime(0.15, ctx.currentTime + time);
@@ -1056,12 +1385,12 @@ class SoundManager {
   }
 
   isMusicPlaying(): boolean {
-    return this.musicTracks.some(track => track && !track.paused && track.currentTime > 0);
+    return [...this.musicElements.values()].some(track => !track.paused && track.currentTime > 0);
   }
 
   nextTrack() {
     this.stopBackgroundMusic();
-    this.currentTrackIndex = (this.currentTrackIndex + 1) % this.trackUrls.length;
+    this.currentTrackIndex = this.getAdjacentTrack(1);
     
     if (this.musicEnabled) {
       this.playBackgroundMusic();
@@ -1070,7 +1399,7 @@ class SoundManager {
 
   previousTrack() {
     this.stopBackgroundMusic();
-    this.currentTrackIndex = (this.currentTrackIndex - 1 + this.trackUrls.length) % this.trackUrls.length;
+    this.currentTrackIndex = this.getAdjacentTrack(-1);
     
     if (this.musicEnabled) {
       this.playBackgroundMusic();
@@ -1103,7 +1432,7 @@ class SoundManager {
     const gainNode = ctx.createGain();
 
     oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(this.getBus("ui"));
 
     oscillator.frequency.value = 800;
     oscillator.type = 'sine';
@@ -1122,7 +1451,7 @@ class SoundManager {
     const gainNode = ctx.createGain();
 
     oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(this.getBus("ui"));
 
     oscillator.frequency.value = 400;
     oscillator.type = 'sine';
@@ -1141,7 +1470,7 @@ class SoundManager {
     const gainNode = ctx.createGain();
 
     oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(this.getBus("ui"));
 
     oscillator.frequency.value = 600;
     oscillator.type = 'sine';
@@ -1157,7 +1486,7 @@ class SoundManager {
     if (!this.musicEnabled) return;
     
     // Save current background music state
-    const currentTrack = this.musicTracks[this.currentTrackIndex];
+    const currentTrack = this.getCurrentMusicElement();
     if (currentTrack && !currentTrack.paused) {
       this.savedBackgroundMusicPosition = currentTrack.currentTime;
       this.savedBackgroundMusicIndex = this.currentTrackIndex;
@@ -1166,17 +1495,7 @@ class SoundManager {
     // Pause background music
     this.pauseBackgroundMusic();
     
-    // Determine which boss music to play
-    let bossTrackUrl = '';
-    if (bossLevel === 5) {
-      bossTrackUrl = '/Boss_level_cube.mp3';
-    } else if (bossLevel === 10) {
-      bossTrackUrl = '/Boss_level_sphere.mp3';
-    } else if (bossLevel === 15) {
-      bossTrackUrl = '/Boss_level_pyramid.mp3';
-    } else if (bossLevel === 20) {
-      bossTrackUrl = '/Boss_level_Hexagon.mp3';
-    }
+    const bossTrackUrl = this.getBossTrackUrl(bossLevel);
     
     // Stop any existing boss music
     if (this.bossMusic) {
@@ -1187,48 +1506,85 @@ class SoundManager {
     // Create and play new boss music with looping
     this.bossMusic = new Audio(bossTrackUrl);
     this.bossMusic.loop = true;
-    this.bossMusic.volume = 0.3;
-    
-    // Set up AnalyserNode for frequency analysis
-    try {
-      const ctx = this.getAudioContext();
-      this.bossMusicSource = ctx.createMediaElementSource(this.bossMusic);
-      this.analyser = ctx.createAnalyser();
-      this.analyser.fftSize = 256;
-      this.frequencyData = new Uint8Array(this.analyser.frequencyBinCount);
-      this.bossMusicSource.connect(this.analyser);
-      this.analyser.connect(ctx.destination);
-    } catch (e) {
-      // Fallback: play without analyser
-      this.analyser = null;
-      this.frequencyData = null;
-      this.bossMusicSource = null;
-    }
+    this.bossMusic.volume = BOSS_MUSIC_VOLUME;
     
+    this.routeMediaElement(this.bossMusic, "music");
+
     this.bossMusic.play().catch(() => {});
   }
 
+  /**
+   * Boss theme of a level, or the next track of the chosen boss playlist
+   */
+  private getBossTrackUrl(bossLevel: number): string {
+    const { bossPlaylist, shuffle } = this.playlistSettings;
+    if (bossPlaylist === "bossThemes") return BOSS_THEMES[bossLevel] ?? '';
+
+    const indices = this.getPlaylistIndices(bossPlaylist);
+    const pick = shuffle
+      ? indices[Math.floor(Math.random() * indices.length)]
+      : indices[this.bossTrackCursor++ % indices.length];
+    return this.getAllTracks()[pick].url;
+  }
+
   stopBossMusic() {
     if (this.bossMusic) {
       this.bossMusic.pause();
       this.bossMusic.currentTime = 0;
       this.bossMusic = null;
     }
-    this.analyser = null;
-    this.frequencyData = null;
-    this.bossMusicSource = null;
   }
 
+  /**
+   * Low-frequency energy (0-1400 Hz) of the current music, 0-1
+   */
   getBassEnergy(): number {
-    if (!this.analyser || !this.frequencyData) return 0;
-    (this.analyser as any).getByteFrequencyData(this.frequencyData);
-    // Average of first 8 bins (bass frequencies)
+    if (!this.readFrequencyData()) return 0;
+    return this.getRangeEnergy(0, LEGACY_BASS_MAX_HZ);
+  }
+
+  /**
+   * Bass / mid / high energy of the current music plus a beat-onset flag.
+   * Reads the analyser, so call it once per frame; 0s while no music plays.
+   */
+  getMusicBands(): MusicBands {
+    if (!this.readFrequencyData()) return SILENT_BANDS;
+    const bass = this.getRangeEnergy(...BAND_RANGES_HZ.bass);
+    const now = performance.now();
+    const beat =
+      bass > BEAT_MIN_BASS &&
+      bass > this.bassAverage * BEAT_THRESHOLD &&
+      now - this.lastBeatAt > BEAT_MIN_INTERVAL_MS;
+    if (beat) this.lastBeatAt = now;
+    this.bassAverage += (bass - this.bassAverage) * BASS_AVERAGE_WEIGHT;
+
+    return {
+      bass,
+      mid: this.getRangeEnergy(...BAND_RANGES_HZ.mid),
+      high: this.getRangeEnergy(...BAND_RANGES_HZ.high),
+      beat,
+    };
+  }
+
+  private readFrequencyData(): boolean {
+    if (!this.mixer || !this.frequencyData) return false;
+    this.mixer.analyser.getByteFrequencyData(this.frequencyData);
+    return true;
+  }
+
+  /**
+   * Average of the last-read spectrum between two frequencies, normalized to 0-1
+   */
+  private getRangeEnergy(fromHz: number, toHz: number): number {
+    const data = this.frequencyData!;
+    const binHz = this.audioContext!.sampleRate / ANALYSER_FFT_SIZE;
+    const first = Math.min(data.length - 1, Math.floor(fromHz / binHz));
+    const last = Math.min(data.length - 1, Math.max(first, Math.ceil(toHz / binHz) - 1));
     let sum = 0;
-    const bins = Math.min(8, this.frequencyData.length);
-    for (let i = 0; i < bins; i++) {
-      sum += this.frequencyData[i];
+    for (let i = first; i <= last; i++) {
+      sum += data[i];
     }
-    return sum / (bins * 255); // Normalize to 0-1
+    return sum / ((last - first + 1) * 255);
   }
 
   resumeBackgroundMusic() {
@@ -1237,19 +1593,9 @@ class SoundManager {
     // Restore the saved track and position
     this.currentTrackIndex = this.savedBackgroundMusicIndex;
     
-    // Initialize track if not already loaded
-    if (!this.musicTracks[this.currentTrackIndex]) {
-      const audio = new Audio(this.trackUrls[this.currentTrackIndex]);
-      audio.volume = 0.3;
-      audio.addEventListener('ended', () => this.handleTrackEnd());
-      this.musicTracks[this.currentTrackIndex] = audio;
-    }
-    
-    const track = this.musicTracks[this.currentTrackIndex];
-    if (track) {
-      track.currentTime = this.savedBackgroundMusicPosition;
-      track.play().catch(() => {});
-    }
+    const track = this.getMusicTrack(this.currentTrackIndex);
+    track.currentTime = this.savedBackgroundMusicPosition;
+    track.play().catch(() => {});
     
     // Reset saved position
     this.savedBackgroundMusicPosition = 0;
@@ -1292,7 +1638,7 @@ class SoundManager {
     const oscillator1 = ctx.createOscillator();
     const gain1 = ctx.createGain();
     oscillator1.connect(gain1);
-    gain1.connect(ctx.destination);
+    gain1.connect(this.getBus("sfx"));
     oscillator1.frequency.value = 900;
     oscillator1.type = 'sine';
     gain1.gain.setValueAtTime(0.1, ctx.currentTime);
@@ -1303,7 +1649,7 @@ class SoundManager {
     const oscillator2 = ctx.createOscillator();
     const gain2 = ctx.createGain();
     oscillator2.connect(gain2);
-    gain2.connect(ctx.destination);
+    gain2.connect(this.getBus("sfx"));
     oscillator2.frequency.value = 1100;
     oscillator2.type = 'sine';
     gain2.gain.setValueAtTime(0.15, ctx.currentTime);
@@ -1329,7 +1675,7 @@ class SoundManager {
     const zap = ctx.createOscillator();
     const zapGain = ctx.createGain();
     zap.connect(zapGain);
-    zapGain.connect(ctx.destination);
+    zapGain.connect(this.getBus("sfx"));
     
     zap.type = 'sawtooth';
     zap.frequency.setValueAtTime(1500, ctx.currentTime);
@@ -1345,7 +1691,7 @@ class SoundManager {
     const relief = ctx.createOscillator();
     const reliefGain = ctx.createGain();
     relief.connect(reliefGain);
-    reliefGain.connect(ctx.destination);
+    reliefGain.connect(this.getBus("sfx"));
     
     relief.type = 'sine';
     relief.frequency.setValueAtTime(400, ctx.currentTime + 0.1);
@@ -1367,7 +1713,7 @@ class SoundManager {
     const bass = ctx.createOscillator();
     const bassGain = ctx.createGain();
     bass.connect(bassGain);
-    bassGain.connect(ctx.destination);
+    bassGain.connect(this.getBus("sfx"));
     bass.type = 'square';
     bass.frequency.setValueAtTime(50, ctx.currentTime);
     bass.frequency.exponentialRampToValueAtTime(25, ctx.currentTime + 0.4);
@@ -1380,7 +1726,7 @@ class SoundManager {
     const crunch = ctx.createOscillator();
     const crunchGain = ctx.createGain();
     crunch.connect(crunchGain);
-    crunchGain.connect(ctx.destination);
+    crunchGain.connect(this.getBus("sfx"));
     crunch.type = 'sawtooth';
     crunch.frequency.setValueAtTime(180, ctx.currentTime);
     crunch.frequency.exponentialRampToValueAtTime(90, ctx.currentTime + 0.2);
@@ -1393,7 +1739,7 @@ class SoundManager {
     const punch = ctx.createOscillator();
     const punchGain = ctx.createGain();
     punch.connect(punchGain);
-    punchGain.connect(ctx.destination);
+    punchGain.connect(this.getBus("sfx"));
     punch.type = 'square';
     punch.frequency.setValueAtTime(40, ctx.currentTime + 0.08);
     punch.frequency.exponentialRampToValueAtTime(20, ctx.currentTime + 0.35);
@@ -1417,6 +1763,7 @@ class SoundManager {
   playMegaBossVictorySound() {
     if (!this.sfxEnabled) return;
     const ctx = this.getAudioContext();
+    this.duckMusic(0.3, 1.6);
     
     // Multiple layered explosions
     [0, 100, 200, 350].forEach((delay) => {
@@ -1425,7 +1772,7 @@ class SoundManager {
         const bass = ctx.createOscillator();
         const bassGain = ctx.createGain();
         bass.connect(bassGain);
-        bassGain.connect(ctx.destination);
+        bassGain.connect(this.getBus("sfx"));
         bass.type = 'sine';
         bass.frequency.setValueAtTime(60 + Math.random() * 20, ctx.currentTime);
         bass.frequency.exponentialRampToValueAtTime(30, ctx.currentTime + 0.5);
@@ -1438,7 +1785,7 @@ class SoundManager {
         const mid = ctx.createOscillator();
         const midGain = ctx.createGain();
         mid.connect(midGain);
-        midGain.connect(ctx.destination);
+        midGain.connect(this.getBus("sfx"));
         mid.type = 'triangle';
         mid.frequency.setValueAtTime(200 + Math.random() * 100, ctx.currentTime);
         mid.frequency.exponentialRampToValueAtTime(80, ctx.currentTime + 0.3);
@@ -1456,7 +1803,7 @@ class SoundManager {
           const note = ctx.createOscillator();
           const noteGain = ctx.createGain();
           note.connect(noteGain);
-          noteGain.connect(ctx.destination);
+          noteGain.connect(this.getBus("sfx"));
           note.type = 'sine';
           note.frequency.value = freq;
           noteGain.gain.setValueAtTime(0.2, ctx.currentTime);
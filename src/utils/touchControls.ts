@@ -0,0 +1,177 @@
+/**
+ * Touch Controls
+ * Selectable touch control schemes for mobile: direct (paddle follows the
+ * finger), relative drag, a virtual slider below the playfield and
+ * device-orientation tilt. Launch and turret fire get dedicated on-screen
+ * buttons in every scheme. Scheme and settings are saved to localStorage.
+ */
+
+const STORAGE_KEY = "vibing-arkanoid-touch-controls";
+
+export type TouchScheme = "direct" | "relative" | "slider" | "tilt";
+
+export interface TouchControlSettings {
+  scheme: TouchScheme;
+  dragSensitivity: number; // 0.5-3, paddle px per finger px in relative drag
+  tiltSensitivity: number; // 0.5-2, multiplier on the tilt angle
+  tiltNeutral: number; // Calibrated resting angle (degrees)
+}
+
+export const DEFAULT_TOUCH_SETTINGS: TouchControlSettings = {
+  scheme: "direct",
+  dragSensitivity: 1.5,
+  tiltSensitivity: 1,
+  tiltNeutral: 0,
+};
+
+export const TOUCH_SCHEMES: Record<TouchScheme, { label: string; description: string }> = {
+  direct: { label: "Direct", description: "Paddle follows your finger" },
+  relative: { label: "Drag", description: "Drag anywhere to push the paddle" },
+  slider: { label: "Slider", description: "Slide along the bar below the playfield" },
+  tilt: { label: "Tilt", description: "Tilt your device to steer" },
+};
+
+export const TOUCH_SCHEME_IDS = Object.keys(TOUCH_SCHEMES) as TouchScheme[];
+
+export const TOUCH_SETTING_RANGES: Record<"dragSensitivity" | "tiltSensitivity", { min: number; max: number; step: number }> = {
+  dragSensitivity: { min: 0.5, max: 3, step: 0.25 },
+  tiltSensitivity: { min: 0.5, max: 2, step: 0.25 },
+};
+
+/** Tilt (degrees from neutral) that reaches the field edge at sensitivity 1 */
+const TILT_FULL_RANGE_DEG = 25;
+/** Tilt ignored around neutral so a resting device holds the paddle still */
+const TILT_DEADZONE_DEG = 2;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/** iOS 13+ gates orientation events behind a permission prompt */
+type OrientationEventWithPermission = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<"granted" | "denied">;
+};
+
+class TouchControls {
+  private settings: TouchControlSettings = this.loadSettings();
+  private tiltAngle: number | null = null;
+  private tiltListening = false;
+
+  getSettings(): TouchControlSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(partial: Partial<TouchControlSettings>): TouchControlSettings {
+    const next = { ...this.settings, ...partial };
+    for (const key of Object.keys(TOUCH_SETTING_RANGES) as (keyof typeof TOUCH_SETTING_RANGES)[]) {
+      const { min, max } = TOUCH_SETTING_RANGES[key];
+      next[key] = clamp(Math.round(next[key] * 100) / 100, min, max);
+    }
+    this.settings = next;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Ignore localStorage errors
+    }
+    return this.getSettings();
+  }
+
+  /**
+   * Start listening to device orientation. Call from a tap handler so iOS can
+   * show its permission prompt.
+   * @returns false if tilt is unsupported or permission was denied
+   */
+  async enableTilt(): Promise<boolean> {
+    if (this.tiltListening) return true;
+    if (typeof window === "undefined" || !("DeviceOrientationEvent" in window)) return false;
+
+    const OrientationEvent = DeviceOrientationEvent as OrientationEventWithPermission;
+    if (typeof OrientationEvent.requestPermission === "function") {
+      try {
+        if ((await OrientationEvent.requestPermission()) !== "granted") return false;
+      } catch {
+        return false;
+      }
+    }
+    window.addEventListener("deviceorientation", this.handleOrientation);
+    this.tiltListening = true;
+    return true;
+  }
+
+  disableTilt(): void {
+    window.removeEventListener("deviceorientation", this.handleOrientation);
+    this.tiltListening = false;
+    this.tiltAngle = null;
+  }
+
+  /**
+   * Whether orientation readings are arriving
+   */
+  hasTiltReading(): boolean {
+    return this.tiltAngle !== null;
+  }
+
+  /**
+   * Make the current device angle the neutral (paddle centered) position
+   * @returns false if there's no reading to calibrate against yet
+   */
+  calibrateTilt(): boolean {
+    if (this.tiltAngle === null) return false;
+    this.updateSettings({ tiltNeutral: Math.round(this.tiltAngle * 10) / 10 });
+    return true;
+  }
+
+  /**
+   * Paddle x for the current tilt, or null while there's no reading
+   */
+  getTiltPaddleX(paddleWidth: number, fieldWidth: number): number | null {
+    if (this.tiltAngle === null) return null;
+    let offset = this.tiltAngle - this.settings.tiltNeutral;
+    // Wrap so calibrating near ±180° doesn't flip the paddle
+    if (offset > 180) offset -= 360;
+    if (offset < -180) offset += 360;
+    if (Math.abs(offset) <= TILT_DEADZONE_DEG) offset = 0;
+    else offset -= Math.sign(offset) * TILT_DEADZONE_DEG;
+
+    const axis = clamp((offset * this.settings.tiltSensitivity) / TILT_FULL_RANGE_DEG, -1, 1);
+    return ((axis + 1) / 2) * (fieldWidth - paddleWidth);
+  }
+
+  /**
+   * Paddle x after a relative drag of `deltaPx` canvas pixels
+   */
+  dragPaddleX(paddleX: number, deltaPx: number, paddleWidth: number, fieldWidth: number): number {
+    return clamp(paddleX + deltaPx * this.settings.dragSensitivity, 0, fieldWidth - paddleWidth);
+  }
+
+  /**
+   * Paddle x for a finger at `fraction` (0-1) along the virtual slider
+   */
+  sliderPaddleX(fraction: number, paddleWidth: number, fieldWidth: number): number {
+    return clamp(fraction, 0, 1) * (fieldWidth - paddleWidth);
+  }
+
+  /** Left/right tilt in degrees, relative to how the screen is currently rotated */
+  private handleOrientation = (e: DeviceOrientationEvent) => {
+    if (e.beta === null || e.gamma === null) return;
+    const screenAngle = typeof screen !== "undefined" && screen.orientation ? screen.orientation.angle : 0;
+    if (screenAngle === 90) this.tiltAngle = e.beta;
+    else if (screenAngle === 270 || screenAngle === -90) this.tiltAngle = -e.beta;
+    else if (screenAngle === 180) this.tiltAngle = -e.gamma;
+    else this.tiltAngle = e.gamma;
+  };
+
+  private loadSettings(): TouchControlSettings {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const settings = { ...DEFAULT_TOUCH_SETTINGS, ...JSON.parse(stored) };
+        if (!TOUCH_SCHEME_IDS.includes(settings.scheme)) settings.scheme = DEFAULT_TOUCH_SETTINGS.scheme;
+        return settings;
+      }
+    } catch {
+      // Ignore localStorage errors
+    }
+    return { ...DEFAULT_TOUCH_SETTINGS };
+  }
+}
+
+export const touchControls = new TouchControls();
@@ -1,4 +1,8 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+// Shared with the client through the "@/" import map in deno.json
+import type { RunSummary } from "@/engine/runSummary";
+import { isAssistedRun, normalizeAssists } from "@/engine/assists";
+import { parseSplitSubmissions } from "@/engine/bossRushSplits";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,6 +13,84 @@ const corsHeaders = {
 const rateLimitMap = new Map<string, number>();
 const RATE_LIMIT_MS = 10_000; // 10 seconds between submissions per IP
 
+/** UTC day as "YYYY-MM-DD" (matches the client's Daily Challenge date key) */
+const utcDateKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Assisted if the client says so or the run summary was recorded with assists.
+ * Without a summary (or its settings) the assists are unknown, so the score
+ * goes to the assisted leaderboard rather than the main one.
+ */
+const isAssistedSubmission = (assisted: unknown, run: unknown): boolean => {
+  if (assisted === true) return true;
+  if (!run || typeof run !== "object") return true;
+  const settings = (run as RunSummary).settings;
+  if (!settings || typeof settings !== "object") return true;
+  return isAssistedRun(normalizeAssists(settings.assists));
+};
+
+/** Postgres unique_violation */
+const UNIQUE_VIOLATION = "23505";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Hex SHA-256 of a player token (only the hash is stored) */
+const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+const SCORE_TABLES = { high_score: "high_scores", boss_rush: "boss_rush_scores", daily: "daily_scores" } as const;
+
+/** Whether a submission with this id is already stored (an outbox retry after a lost response) */
+const isStoredSubmission = async (
+  supabase: ReturnType<typeof createClient>,
+  table: (typeof SCORE_TABLES)[keyof typeof SCORE_TABLES],
+  submissionId: string | null,
+): Promise<boolean> => {
+  if (!submissionId) return false;
+  const { count, error } = await supabase
+    .from(table)
+    .select("id", { count: "exact", head: true })
+    .eq("submission_id", submissionId);
+  if (error) throw error;
+  return (count ?? 0) > 0;
+};
+
+type PlayerCheck = { playerId: string | null } | { error: string; status: number };
+
+/**
+ * Anonymous player profile: register the id with its token on first use, then
+ * only accept it with the same token. Submissions without a profile (older
+ * clients) are stored without a player_id.
+ */
+const resolvePlayer = async (
+  supabase: ReturnType<typeof createClient>,
+  player_id: unknown,
+  player_token: unknown,
+): Promise<PlayerCheck> => {
+  if (player_id === undefined && player_token === undefined) return { playerId: null };
+  if (
+    typeof player_id !== "string" || !UUID_PATTERN.test(player_id) ||
+    typeof player_token !== "string" || player_token.length < 32 || player_token.length > 128
+  ) {
+    return { error: "Invalid player profile", status: 400 };
+  }
+
+  const tokenHash = await sha256Hex(player_token);
+  const { data: player, error } = await supabase.from("players").select("token_hash").eq("id", player_id).maybeSingle();
+  if (error) throw error;
+  if (player && player.token_hash !== tokenHash) {
+    return { error: "Player profile belongs to another device", status: 403 };
+  }
+
+  const { error: upsertError } = await supabase
+    .from("players")
+    .upsert({ id: player_id, token_hash: tokenHash, last_seen_at: new Date().toISOString() });
+  if (upsertError) throw upsertError;
+  return { playerId: player_id };
+};
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -28,10 +110,10 @@ Deno.serve(async (req) => {
     }
 
     const body = await req.json();
-    const { type, player_name, score, level, completion_time_ms, boss_level, difficulty, beat_level_50, collected_all_letters, starting_lives, game_mode } = body;
+    const { type, player_name, score, level, completion_time_ms, boss_level, difficulty, beat_level_50, collected_all_letters, starting_lives, game_mode, challenge_date, assisted, run, splits, player_id, player_token, submission_id } = body;
 
     // Validate type
-    if (type !== "high_score" && type !== "boss_rush") {
+    if (type !== "high_score" && type !== "boss_rush" && type !== "daily") {
       return new Response(
         JSON.stringify({ error: "Invalid score type" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -62,15 +144,44 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Sent by current clients on every attempt of a submission; older clients send none
+    if (submission_id !== undefined && (typeof submission_id !== "string" || !UUID_PATTERN.test(submission_id))) {
+      return new Response(
+        JSON.stringify({ error: "Invalid submission id" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const submissionId: string | null = submission_id ?? null;
+
     const supabase = createClient(
       Deno.env.get("SUPABASE_URL")!,
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
     );
 
+    const player = await resolvePlayer(supabase, player_id, player_token);
+    if ("error" in player) {
+      return new Response(
+        JSON.stringify({ error: player.error }),
+        { status: player.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const { playerId } = player;
+
+    const table = SCORE_TABLES[type];
+    const submitted = () => new Response(
+      JSON.stringify({ success: true }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+    // A retry of a score that was stored but whose response never arrived
+    if (await isStoredSubmission(supabase, table, submissionId)) {
+      return submitted();
+    }
+
     let insertError;
 
     if (type === "high_score") {
-      if (typeof level !== "number" || level < 0 || level > 100) {
+      // Endless mode has no final level
+      if (typeof level !== "number" || level < 0 || level > 999) {
         return new Response(
           JSON.stringify({ error: "Invalid level" }),
           { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -86,8 +197,60 @@ Deno.serve(async (req) => {
         collected_all_letters: typeof collected_all_letters === "boolean" ? collected_all_letters : false,
         starting_lives: typeof starting_lives === "number" ? Math.min(Math.max(starting_lives, 1), 10) : 3,
         game_mode: typeof game_mode === "string" ? game_mode.slice(0, 20) : "campaign",
+        assisted: isAssistedSubmission(assisted, run),
+        player_id: playerId,
+        submission_id: submissionId,
       });
       insertError = error;
+    } else if (type === "daily") {
+      if (typeof level !== "number" || level < 0 || level > 999) {
+        return new Response(
+          JSON.stringify({ error: "Invalid level" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Today's challenge, or yesterday's for a run that started before UTC midnight
+      const validDates = [utcDateKey(now), utcDateKey(now - 86_400_000)];
+      if (typeof challenge_date !== "string" || !validDates.includes(challenge_date)) {
+        return new Response(
+          JSON.stringify({ error: "Daily challenge has expired" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // One submission per player per day: by profile when there is one, by name otherwise
+      const alreadySubmitted = new Response(
+        JSON.stringify({ error: "Already submitted a score for today's challenge" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+      const todaysEntries = supabase
+        .from("daily_scores")
+        .select("id", { count: "exact", head: true })
+        .eq("challenge_date", challenge_date);
+      const { count, error: countError } = await (playerId
+        ? todaysEntries.eq("player_id", playerId)
+        : todaysEntries.is("player_id", null).eq("player_name", player_name));
+      if (countError) {
+        insertError = countError;
+      } else if ((count ?? 0) > 0) {
+        return alreadySubmitted;
+      } else {
+        const { error } = await supabase.from("daily_scores").insert({
+          player_name,
+          score,
+          level,
+          challenge_date,
+          player_id: playerId,
+          submission_id: submissionId,
+        });
+        // A concurrent submission won the race (unique per day, see the daily_scores indexes),
+        // unless it was an attempt of this same submission
+        if (error?.code === UNIQUE_VIOLATION && !(await isStoredSubmission(supabase, table, submissionId))) {
+          return alreadySubmitted;
+        }
+        insertError = error;
+      }
     } else {
       if (typeof completion_time_ms !== "number" || completion_time_ms < 0 || completion_time_ms > 86_400_000) {
         return new Response(
@@ -96,13 +259,40 @@ Deno.serve(async (req) => {
         );
       }
 
-      const { error } = await supabase.from("boss_rush_scores").insert({
+      const bossLevel = typeof boss_level === "number" ? Math.min(Math.max(boss_level, 1), 20) : 5;
+      const { data: inserted, error } = await supabase.from("boss_rush_scores").insert({
         player_name,
         score,
         completion_time_ms,
-        boss_level: typeof boss_level === "number" ? Math.min(Math.max(boss_level, 1), 20) : 5,
-      });
+        boss_level: bossLevel,
+        player_id: playerId,
+        submission_id: submissionId,
+      }).select("id").single();
       insertError = error;
+
+      // Per-boss splits (older clients send none); bad splits are dropped, the score is kept
+      if (!error && inserted && splits !== undefined) {
+        const parsedSplits = parseSplitSubmissions(splits, completion_time_ms, bossLevel);
+        if (!parsedSplits) {
+          console.warn("Invalid boss rush splits dropped");
+        } else if (parsedSplits.length > 0) {
+          const { error: splitsError } = await supabase.from("boss_rush_splits").insert(
+            parsedSplits.map((split) => ({
+              score_id: inserted.id,
+              boss_level: split.bossLevel,
+              split_ms: split.splitMs,
+              kill_ms: split.killMs,
+              hits_taken: split.hitsTaken,
+            })),
+          );
+          if (splitsError) console.error("Splits insert error:", splitsError);
+        }
+      }
+    }
+
+    // Another attempt of this submission got in first
+    if (insertError?.code === UNIQUE_VIOLATION && await isStoredSubmission(supabase, table, submissionId)) {
+      return submitted();
     }
 
     if (insertError) {
@@ -123,10 +313,7 @@ Deno.serve(async (req) => {
       }
     }
 
-    return new Response(
-      JSON.stringify({ success: true }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return submitted();
   } catch (err) {
     console.error("Error:", err);
     return new Response(
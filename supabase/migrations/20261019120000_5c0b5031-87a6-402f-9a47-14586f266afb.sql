@@ -0,0 +1,30 @@
+-- Daily Challenge leaderboard: one entry per player per UTC day
+CREATE TABLE public.daily_scores (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  challenge_date DATE NOT NULL, -- UTC day the challenge belongs to
+  player_name TEXT NOT NULL,
+  score INTEGER NOT NULL,
+  level INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT daily_scores_one_per_player UNIQUE (challenge_date, player_name)
+);
+
+ALTER TABLE public.daily_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Daily scores are viewable by everyone"
+ON public.daily_scores
+FOR SELECT
+USING (true);
+
+-- Only the submit-score edge function may insert
+CREATE POLICY "Only backend can insert daily scores"
+ON public.daily_scores
+FOR INSERT
+TO service_role
+WITH CHECK (true);
+
+ALTER TABLE public.daily_scores ADD CONSTRAINT daily_scores_player_name_check CHECK (char_length(player_name) BETWEEN 1 AND 10 AND player_name ~ '^[A-Za-z0-9]+$');
+ALTER TABLE public.daily_scores ADD CONSTRAINT daily_scores_score_positive CHECK (score >= 0);
+ALTER TABLE public.daily_scores ADD CONSTRAINT daily_scores_level_positive CHECK (level >= 0);
+
+CREATE INDEX idx_daily_scores_date_score ON public.daily_scores (challenge_date, score DESC);
@@ -0,0 +1,8 @@
+-- Runs re-derived by submit-score from a submitted run summary are flagged as verified
+ALTER TABLE public.high_scores ADD COLUMN verified boolean NOT NULL DEFAULT false;
+ALTER TABLE public.boss_rush_scores ADD COLUMN verified boolean NOT NULL DEFAULT false;
+ALTER TABLE public.daily_scores ADD COLUMN verified boolean NOT NULL DEFAULT false;
+
+-- Verified-only leaderboards
+CREATE INDEX idx_high_scores_verified_score ON public.high_scores (score DESC) WHERE verified;
+CREATE INDEX idx_boss_rush_scores_verified_score ON public.boss_rush_scores (score DESC) WHERE verified;
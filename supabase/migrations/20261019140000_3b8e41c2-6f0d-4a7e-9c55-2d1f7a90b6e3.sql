@@ -0,0 +1,5 @@
+-- Runs played with assists (slower speed, wider paddle, trajectory preview, infinite lives)
+-- are kept on their own leaderboard
+ALTER TABLE public.high_scores ADD COLUMN assisted boolean NOT NULL DEFAULT false;
+
+CREATE INDEX idx_high_scores_assisted_score ON public.high_scores (assisted, score DESC);
@@ -0,0 +1,96 @@
+-- Anonymous player profiles: each device generates a player id and a secret token.
+-- submit-score registers the id on first use and only accepts it again with the same token,
+-- so one player's entries can be grouped without accounts.
+CREATE TABLE public.players (
+  id UUID NOT NULL PRIMARY KEY,
+  token_hash TEXT NOT NULL, -- SHA-256 of the device token, never the token itself
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only the submit-score edge function (service_role) touches players; no public policies
+ALTER TABLE public.players ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.high_scores ADD COLUMN player_id UUID REFERENCES public.players (id) ON DELETE SET NULL;
+ALTER TABLE public.boss_rush_scores ADD COLUMN player_id UUID REFERENCES public.players (id) ON DELETE SET NULL;
+ALTER TABLE public.daily_scores ADD COLUMN player_id UUID REFERENCES public.players (id) ON DELETE SET NULL;
+
+CREATE INDEX idx_high_scores_player_score ON public.high_scores (player_id, score DESC);
+CREATE INDEX idx_boss_rush_scores_player ON public.boss_rush_scores (player_id);
+CREATE INDEX idx_daily_scores_player ON public.daily_scores (player_id);
+
+-- Leaderboard entries matching the High Scores screen filters.
+-- p_difficulty: NULL = all, 'godlike', or 'normal' (anything not godlike); p_since: NULL = all time
+CREATE OR REPLACE FUNCTION public.filtered_high_scores(
+  p_assisted BOOLEAN,
+  p_difficulty TEXT,
+  p_verified_only BOOLEAN,
+  p_since TIMESTAMP WITH TIME ZONE
+)
+RETURNS SETOF public.high_scores
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT h.*
+  FROM public.high_scores h
+  WHERE h.assisted = p_assisted
+    AND (p_difficulty IS NULL
+      OR (p_difficulty = 'godlike' AND h.difficulty = 'godlike')
+      OR (p_difficulty = 'normal' AND (h.difficulty IS NULL OR h.difficulty <> 'godlike')))
+    AND (NOT p_verified_only OR h.verified)
+    AND (p_since IS NULL OR h.created_at >= p_since);
+$$;
+
+-- Best entry per player. Entries from before profiles existed have no player_id
+-- and are grouped by name instead.
+CREATE OR REPLACE FUNCTION public.high_scores_best_per_player(
+  p_assisted BOOLEAN,
+  p_difficulty TEXT,
+  p_verified_only BOOLEAN,
+  p_since TIMESTAMP WITH TIME ZONE
+)
+RETURNS SETOF public.high_scores
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (COALESCE(h.player_id::text, 'name:' || upper(h.player_name))) h.*
+  FROM public.filtered_high_scores(p_assisted, p_difficulty, p_verified_only, p_since) h
+  ORDER BY COALESCE(h.player_id::text, 'name:' || upper(h.player_name)), h.score DESC, h.created_at ASC;
+$$;
+
+-- A player's best score and its position: among all entries, or among players
+-- when p_best_per_player. No row if the player has no matching entry.
+CREATE OR REPLACE FUNCTION public.get_high_score_rank(
+  p_player_id UUID,
+  p_best_per_player BOOLEAN,
+  p_assisted BOOLEAN,
+  p_difficulty TEXT,
+  p_verified_only BOOLEAN,
+  p_since TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (rank BIGINT, score INTEGER, total BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH entries AS (
+    SELECT h.player_id, h.score
+    FROM public.filtered_high_scores(p_assisted, p_difficulty, p_verified_only, p_since) h
+    WHERE NOT p_best_per_player
+    UNION ALL
+    SELECT b.player_id, b.score
+    FROM public.high_scores_best_per_player(p_assisted, p_difficulty, p_verified_only, p_since) b
+    WHERE p_best_per_player
+  ),
+  mine AS (
+    SELECT max(e.score) AS best FROM entries e WHERE e.player_id = p_player_id
+  )
+  SELECT
+    (SELECT count(*) FROM entries e WHERE e.score > mine.best) + 1 AS rank,
+    mine.best AS score,
+    (SELECT count(*) FROM entries) AS total
+  FROM mine
+  WHERE mine.best IS NOT NULL;
+$$;
@@ -0,0 +1,238 @@
+-- Leaderboard browsing: paging, name search and more filters for High Scores and Boss Rush.
+-- The leaderboard functions gain parameters, so the old signatures are dropped first.
+DROP FUNCTION IF EXISTS public.get_high_score_rank(UUID, BOOLEAN, BOOLEAN, TEXT, BOOLEAN, TIMESTAMP WITH TIME ZONE);
+DROP FUNCTION IF EXISTS public.high_scores_best_per_player(BOOLEAN, TEXT, BOOLEAN, TIMESTAMP WITH TIME ZONE);
+DROP FUNCTION IF EXISTS public.filtered_high_scores(BOOLEAN, TEXT, BOOLEAN, TIMESTAMP WITH TIME ZONE);
+
+-- Substring search on player names
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+CREATE INDEX idx_high_scores_player_name_trgm ON public.high_scores USING gin (player_name extensions.gin_trgm_ops);
+CREATE INDEX idx_boss_rush_scores_player_name_trgm ON public.boss_rush_scores USING gin (player_name extensions.gin_trgm_ops);
+
+-- ILIKE pattern matching a name search anywhere in player_name; NULL for a blank search
+CREATE OR REPLACE FUNCTION public.leaderboard_name_pattern(p_search TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_search IS NULL OR btrim(p_search) = '' THEN NULL
+    ELSE '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+  END;
+$$;
+
+-- Leaderboard entries matching the High Scores screen filters.
+-- p_difficulty: NULL = all, 'godlike', or 'normal' (anything not godlike); p_since: NULL = all time.
+-- p_game_mode: NULL = all, else 'campaign', 'endless' or 'boss_rush'. NULL for the other filters = any.
+CREATE OR REPLACE FUNCTION public.filtered_high_scores(
+  p_assisted BOOLEAN,
+  p_difficulty TEXT,
+  p_verified_only BOOLEAN,
+  p_since TIMESTAMP WITH TIME ZONE,
+  p_game_mode TEXT DEFAULT NULL,
+  p_starting_lives INTEGER DEFAULT NULL,
+  p_collected_all_letters BOOLEAN DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS SETOF public.high_scores
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT h.*
+  FROM public.high_scores h
+  WHERE h.assisted = p_assisted
+    AND (p_difficulty IS NULL
+      OR (p_difficulty = 'godlike' AND h.difficulty = 'godlike')
+      OR (p_difficulty = 'normal' AND (h.difficulty IS NULL OR h.difficulty <> 'godlike')))
+    AND (NOT p_verified_only OR h.verified)
+    AND (p_since IS NULL OR h.created_at >= p_since)
+    AND (p_game_mode IS NULL OR COALESCE(h.game_mode, 'campaign') = p_game_mode)
+    AND (p_starting_lives IS NULL OR COALESCE(h.starting_lives, 3) = p_starting_lives)
+    AND (p_collected_all_letters IS NULL OR COALESCE(h.collected_all_letters, false) = p_collected_all_letters)
+    AND (public.leaderboard_name_pattern(p_search) IS NULL OR h.player_name ILIKE public.leaderboard_name_pattern(p_search));
+$$;
+
+-- Best entry per player. Entries from before profiles existed have no player_id
+-- and are grouped by name instead.
+CREATE OR REPLACE FUNCTION public.high_scores_best_per_player(
+  p_assisted BOOLEAN,
+  p_difficulty TEXT,
+  p_verified_only BOOLEAN,
+  p_since TIMESTAMP WITH TIME ZONE,
+  p_game_mode TEXT DEFAULT NULL,
+  p_starting_lives INTEGER DEFAULT NULL,
+  p_collected_all_letters BOOLEAN DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS SETOF public.high_scores
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (COALESCE(h.player_id::text, 'name:' || upper(h.player_name))) h.*
+  FROM public.filtered_high_scores(
+    p_assisted, p_difficulty, p_verified_only, p_since,
+    p_game_mode, p_starting_lives, p_collected_all_letters, p_search
+  ) h
+  ORDER BY COALESCE(h.player_id::text, 'name:' || upper(h.player_name)), h.score DESC, h.created_at ASC;
+$$;
+
+-- One page of the High Scores leaderboard, best first. total_count is the number
+-- of matching entries (or players) across all pages.
+CREATE OR REPLACE FUNCTION public.search_high_scores(
+  p_assisted BOOLEAN,
+  p_difficulty TEXT,
+  p_verified_only BOOLEAN,
+  p_since TIMESTAMP WITH TIME ZONE,
+  p_game_mode TEXT DEFAULT NULL,
+  p_starting_lives INTEGER DEFAULT NULL,
+  p_collected_all_letters BOOLEAN DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_best_per_player BOOLEAN DEFAULT false,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  player_name TEXT,
+  score INTEGER,
+  level INTEGER,
+  difficulty TEXT,
+  beat_level_50 BOOLEAN,
+  collected_all_letters BOOLEAN,
+  starting_lives INTEGER,
+  game_mode TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  verified BOOLEAN,
+  assisted BOOLEAN,
+  player_id UUID,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH entries AS (
+    SELECT h.*
+    FROM public.filtered_high_scores(
+      p_assisted, p_difficulty, p_verified_only, p_since,
+      p_game_mode, p_starting_lives, p_collected_all_letters, p_search
+    ) h
+    WHERE NOT p_best_per_player
+    UNION ALL
+    SELECT b.*
+    FROM public.high_scores_best_per_player(
+      p_assisted, p_difficulty, p_verified_only, p_since,
+      p_game_mode, p_starting_lives, p_collected_all_letters, p_search
+    ) b
+    WHERE p_best_per_player
+  )
+  SELECT
+    e.id, e.player_name, e.score, e.level, e.difficulty, e.beat_level_50, e.collected_all_letters,
+    e.starting_lives, e.game_mode, e.created_at, e.verified, e.assisted, e.player_id,
+    count(*) OVER () AS total_count
+  FROM entries e
+  ORDER BY e.score DESC, e.created_at ASC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+-- A player's best score and its position: among all entries, or among players
+-- when p_best_per_player. Name search doesn't apply; the other filters do.
+-- No row if the player has no matching entry.
+CREATE OR REPLACE FUNCTION public.get_high_score_rank(
+  p_player_id UUID,
+  p_best_per_player BOOLEAN,
+  p_assisted BOOLEAN,
+  p_difficulty TEXT,
+  p_verified_only BOOLEAN,
+  p_since TIMESTAMP WITH TIME ZONE,
+  p_game_mode TEXT DEFAULT NULL,
+  p_starting_lives INTEGER DEFAULT NULL,
+  p_collected_all_letters BOOLEAN DEFAULT NULL
+)
+RETURNS TABLE (rank BIGINT, score INTEGER, total BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH entries AS (
+    SELECT h.player_id, h.score
+    FROM public.filtered_high_scores(
+      p_assisted, p_difficulty, p_verified_only, p_since,
+      p_game_mode, p_starting_lives, p_collected_all_letters
+    ) h
+    WHERE NOT p_best_per_player
+    UNION ALL
+    SELECT b.player_id, b.score
+    FROM public.high_scores_best_per_player(
+      p_assisted, p_difficulty, p_verified_only, p_since,
+      p_game_mode, p_starting_lives, p_collected_all_letters
+    ) b
+    WHERE p_best_per_player
+  ),
+  mine AS (
+    SELECT max(e.score) AS best FROM entries e WHERE e.player_id = p_player_id
+  )
+  SELECT
+    (SELECT count(*) FROM entries e WHERE e.score > mine.best) + 1 AS rank,
+    mine.best AS score,
+    (SELECT count(*) FROM entries) AS total
+  FROM mine
+  WHERE mine.best IS NOT NULL;
+$$;
+
+-- One page of the Boss Rush leaderboard. p_order_by: 'score' (highest first) or
+-- 'time' (furthest boss reached, then fastest). With p_best_per_player each player's
+-- best entry by that order is kept. total_count is the number of matching rows across all pages.
+CREATE OR REPLACE FUNCTION public.search_boss_rush_scores(
+  p_verified_only BOOLEAN,
+  p_search TEXT DEFAULT NULL,
+  p_best_per_player BOOLEAN DEFAULT false,
+  p_order_by TEXT DEFAULT 'score',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  player_name TEXT,
+  score INTEGER,
+  completion_time_ms INTEGER,
+  boss_level INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  verified BOOLEAN,
+  player_id UUID,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH ranked AS (
+    SELECT
+      b.*,
+      row_number() OVER (
+        PARTITION BY COALESCE(b.player_id::text, 'name:' || upper(b.player_name))
+        ORDER BY
+          CASE WHEN p_order_by = 'time' THEN b.boss_level END DESC,
+          CASE WHEN p_order_by = 'time' THEN b.completion_time_ms END ASC,
+          b.score DESC, b.completion_time_ms ASC, b.created_at ASC
+      ) AS player_position
+    FROM public.boss_rush_scores b
+    WHERE (NOT p_verified_only OR b.verified)
+      AND (public.leaderboard_name_pattern(p_search) IS NULL OR b.player_name ILIKE public.leaderboard_name_pattern(p_search))
+  )
+  SELECT
+    r.id, r.player_name, r.score, r.completion_time_ms, r.boss_level, r.created_at, r.verified, r.player_id,
+    count(*) OVER () AS total_count
+  FROM ranked r
+  WHERE NOT p_best_per_player OR r.player_position = 1
+  ORDER BY
+    CASE WHEN p_order_by = 'time' THEN r.boss_level END DESC,
+    CASE WHEN p_order_by = 'time' THEN r.completion_time_ms END ASC,
+    r.score DESC, r.completion_time_ms ASC, r.created_at ASC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
@@ -0,0 +1,74 @@
+-- Boss Rush splits: one row per boss beaten in a submitted Boss Rush run, with the
+-- Boss Rush clock when it went down, the time spent on it and the hits taken.
+-- Written by submit-score alongside the score (engine/bossRushSplits.ts).
+CREATE TABLE public.boss_rush_splits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  score_id UUID NOT NULL REFERENCES public.boss_rush_scores (id) ON DELETE CASCADE,
+  boss_level INTEGER NOT NULL CHECK (boss_level IN (5, 10, 15, 20)),
+  split_ms INTEGER NOT NULL CHECK (split_ms >= 0),
+  kill_ms INTEGER NOT NULL CHECK (kill_ms >= 0),
+  hits_taken INTEGER NOT NULL DEFAULT 0 CHECK (hits_taken >= 0),
+  UNIQUE (score_id, boss_level)
+);
+
+ALTER TABLE public.boss_rush_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Boss rush splits are viewable by everyone"
+ON public.boss_rush_splits
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Only backend can insert boss rush splits"
+ON public.boss_rush_splits
+FOR INSERT
+TO service_role
+WITH CHECK (true);
+
+-- Fastest kills of each boss
+CREATE INDEX idx_boss_rush_splits_kill ON public.boss_rush_splits (boss_level, kill_ms ASC);
+
+-- One page of the fastest kills of one boss (5 Cube Guardian, 10 Sphere Destroyer,
+-- 15 Pyramid Lord, 20 Mega Boss). With p_best_per_player each player's fastest kill
+-- is kept. total_count is the number of matching kills (or players) across all pages.
+CREATE OR REPLACE FUNCTION public.boss_kill_leaderboard(
+  p_boss_level INTEGER,
+  p_verified_only BOOLEAN DEFAULT false,
+  p_best_per_player BOOLEAN DEFAULT false,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  score_id UUID,
+  player_name TEXT,
+  player_id UUID,
+  kill_ms INTEGER,
+  hits_taken INTEGER,
+  verified BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH kills AS (
+    SELECT
+      s.score_id, b.player_name, b.player_id, s.kill_ms, s.hits_taken, b.verified, b.created_at,
+      row_number() OVER (
+        PARTITION BY COALESCE(b.player_id::text, 'name:' || upper(b.player_name))
+        ORDER BY s.kill_ms ASC, s.hits_taken ASC, b.created_at ASC
+      ) AS player_position
+    FROM public.boss_rush_splits s
+    JOIN public.boss_rush_scores b ON b.id = s.score_id
+    WHERE s.boss_level = p_boss_level
+      AND (NOT p_verified_only OR b.verified)
+  )
+  SELECT
+    k.score_id, k.player_name, k.player_id, k.kill_ms, k.hits_taken, k.verified, k.created_at,
+    count(*) OVER () AS total_count
+  FROM kills k
+  WHERE NOT p_best_per_player OR k.player_position = 1
+  ORDER BY k.kill_ms ASC, k.hits_taken ASC, k.created_at ASC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
@@ -0,0 +1,21 @@
+-- Daily Challenge: one entry per player profile per UTC day. Entries with a profile are
+-- keyed on player_id (so a player can't re-enter under another name); entries from older
+-- clients without one stay keyed on the name.
+
+-- Players who entered twice under different names keep their first entry
+DELETE FROM public.daily_scores d
+USING public.daily_scores earlier
+WHERE d.player_id IS NOT NULL
+  AND earlier.player_id = d.player_id
+  AND earlier.challenge_date = d.challenge_date
+  AND (earlier.created_at, earlier.id) < (d.created_at, d.id);
+
+ALTER TABLE public.daily_scores DROP CONSTRAINT daily_scores_one_per_player;
+
+CREATE UNIQUE INDEX daily_scores_one_per_player
+ON public.daily_scores (challenge_date, player_id)
+WHERE player_id IS NOT NULL;
+
+CREATE UNIQUE INDEX daily_scores_one_per_name
+ON public.daily_scores (challenge_date, player_name)
+WHERE player_id IS NULL;
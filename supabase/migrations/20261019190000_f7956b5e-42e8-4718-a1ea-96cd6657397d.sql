@@ -0,0 +1,8 @@
+-- Idempotent score submissions: the client generates a submission id when it first
+-- sends a score and repeats it on every retry from the outbox (utils/scoreOutbox.ts,
+-- public/score-outbox-sw.js). submit-score treats an id it already stored as success,
+-- so a retry whose earlier attempt did reach the database isn't stored twice.
+-- NULL for older clients.
+ALTER TABLE public.high_scores ADD COLUMN submission_id UUID UNIQUE;
+ALTER TABLE public.boss_rush_scores ADD COLUMN submission_id UUID UNIQUE;
+ALTER TABLE public.daily_scores ADD COLUMN submission_id UUID UNIQUE;
@@ -47,6 +47,7 @@ export default defineConfig(({ mode }) => ({
         cleanupOutdatedCaches: true,
         globPatterns: ["**/*.{js,css,html,ico,png,svg}"],
         maximumFileSizeToCacheInBytes: 10 * 1024 * 1024, // 10MB limit for large assets
+        importScripts: ["score-outbox-sw.js"], // Background Sync for queued score submissions
         runtimeCaching: [
           {
             urlPattern: /^https:\/\/fonts\.googleapis\.com\/.*/i,